@@ -0,0 +1,95 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title AccessControl
+ * @notice Role-based permissions in the style of OpenZeppelin's AccessControlEnumerable
+ * @dev ADMIN_ROLE administers every role. Role members are kept in a list so the
+ *      app can show who holds each role without scanning events. The last admin
+ *      can't be revoked or renounce, so the contract is never left without one.
+ */
+abstract contract AccessControl {
+    // ============ State Variables ============
+
+    bytes32 public constant ADMIN_ROLE = keccak256("ADMIN_ROLE");
+
+    mapping(bytes32 => address[]) private roleMembers;
+    mapping(bytes32 => mapping(address => uint256)) private memberPosition; // Index + 1, 0 if not a member
+
+    // ============ Events ============
+
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    // ============ Modifiers ============
+
+    modifier onlyRole(bytes32 _role) {
+        require(hasRole(_role, msg.sender), "Missing role");
+        _;
+    }
+
+    // ============ Role Management ============
+
+    /**
+     * @notice Give a role to an account (admins only)
+     */
+    function grantRole(bytes32 _role, address _account) external onlyRole(ADMIN_ROLE) {
+        _grantRole(_role, _account);
+    }
+
+    /**
+     * @notice Take a role from an account (admins only)
+     */
+    function revokeRole(bytes32 _role, address _account) external onlyRole(ADMIN_ROLE) {
+        _revokeRole(_role, _account);
+    }
+
+    /**
+     * @notice Give up one of the caller's own roles
+     */
+    function renounceRole(bytes32 _role) external {
+        _revokeRole(_role, msg.sender);
+    }
+
+    // ============ View Functions ============
+
+    function hasRole(bytes32 _role, address _account) public view returns (bool) {
+        return memberPosition[_role][_account] != 0;
+    }
+
+    /**
+     * @notice Every account holding a role, in no particular order
+     */
+    function getRoleMembers(bytes32 _role) external view returns (address[] memory) {
+        return roleMembers[_role];
+    }
+
+    // ============ Internal Helpers ============
+
+    function _grantRole(bytes32 _role, address _account) internal {
+        require(_account != address(0), "Invalid address");
+        if (hasRole(_role, _account)) return;
+
+        roleMembers[_role].push(_account);
+        memberPosition[_role][_account] = roleMembers[_role].length;
+
+        emit RoleGranted(_role, _account, msg.sender);
+    }
+
+    function _revokeRole(bytes32 _role, address _account) internal {
+        uint256 position = memberPosition[_role][_account];
+        if (position == 0) return;
+        require(_role != ADMIN_ROLE || roleMembers[_role].length > 1, "Last admin");
+
+        // Swap and pop: move the last member into the freed slot
+        address[] storage members = roleMembers[_role];
+        address last = members[members.length - 1];
+        members[position - 1] = last;
+        memberPosition[_role][last] = position;
+        members.pop();
+        delete memberPosition[_role][_account];
+
+        emit RoleRevoked(_role, _account, msg.sender);
+    }
+}
@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title ERC2771Recipient
+ * @notice Accepts EIP-2771 meta-transactions relayed through one trusted forwarder
+ * @dev The forwarder appends the signer's address to the calldata; _msgSender() reads it
+ *      back when the call comes from the forwarder and is msg.sender otherwise. Functions
+ *      that check msg.sender directly (owner and role checks) still need a direct call.
+ */
+abstract contract ERC2771Recipient {
+    // ============ State Variables ============
+
+    // Forwarder whose calls act for the signer it appends (0 for none)
+    address public trustedForwarder;
+
+    // ============ View Functions ============
+
+    function isTrustedForwarder(address _forwarder) public view returns (bool) {
+        return _forwarder != address(0) && _forwarder == trustedForwarder;
+    }
+
+    // ============ Internal Helpers ============
+
+    function _msgSender() internal view returns (address sender) {
+        if (msg.data.length >= 20 && isTrustedForwarder(msg.sender)) {
+            assembly {
+                sender := shr(96, calldataload(sub(calldatasize(), 20)))
+            }
+        } else {
+            sender = msg.sender;
+        }
+    }
+}
@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @dev Implemented by the factory that owns a market; its trading stops while the factory is paused
+ */
+interface IPauseController {
+    function paused() external view returns (bool);
+}
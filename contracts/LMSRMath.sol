@@ -0,0 +1,194 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title LMSRMath
+ * @notice Fixed-point math for the logarithmic market scoring rule (LMSR)
+ * @dev All values are 18-decimal fixed point ("wad"). Share quantities are
+ *      expressed in wei of collateral: 1e18 shares pay out 1 ETH on a win.
+ *      Cost function: C(q) = b * ln(sum(exp(q_i / b)))
+ *
+ *      The pricing functions are public, so the library is deployed once and
+ *      linked; markets call it instead of embedding the math, which keeps
+ *      PredictionMarket (and the deployer holding its bytecode) under 24KB.
+ */
+library LMSRMath {
+    // ============ Constants ============
+
+    uint256 internal constant WAD = 1e18;
+    int256 internal constant LN2 = 693147180559945309; // ln(2) in wad
+
+    // exp() returns 0 below this and overflows above the upper bound
+    int256 internal constant MIN_EXP_INPUT = -41446531673892822313;
+    int256 internal constant MAX_EXP_INPUT = 130e18;
+
+    // ============ Primitives ============
+
+    /**
+     * @notice e^x for a wad input
+     */
+    function expWad(int256 x) internal pure returns (uint256) {
+        if (x < MIN_EXP_INPUT) return 0;
+        require(x < MAX_EXP_INPUT, "exp overflow");
+
+        // Reduce to x = k * ln2 + r with |r| < ln2
+        int256 k = x / LN2;
+        int256 r = x - k * LN2;
+
+        // Taylor series for e^r
+        int256 term = int256(WAD);
+        int256 sum = int256(WAD);
+        for (int256 i = 1; i < 30; i++) {
+            term = (term * r) / (i * int256(WAD));
+            if (term == 0) break;
+            sum += term;
+        }
+
+        return k >= 0 ? uint256(sum) << uint256(k) : uint256(sum) >> uint256(-k);
+    }
+
+    /**
+     * @notice ln(x) for a wad input
+     */
+    function lnWad(uint256 x) public pure returns (int256) {
+        require(x > 0, "ln undefined");
+
+        // Normalize to y in [1, 2) so that x = y * 2^k
+        int256 k = 0;
+        while (x >= 2 * WAD) {
+            x >>= 1;
+            k++;
+        }
+        while (x < WAD) {
+            x <<= 1;
+            k--;
+        }
+
+        // ln(y) = 2 * atanh(z) with z = (y - 1) / (y + 1), z in [0, 1/3)
+        int256 z = (int256(x - WAD) * int256(WAD)) / int256(x + WAD);
+        int256 z2 = (z * z) / int256(WAD);
+        int256 power = z;
+        int256 sum = 0;
+        for (int256 i = 1; i < 80; i += 2) {
+            int256 term = power / i;
+            if (term == 0) break;
+            sum += term;
+            power = (power * z2) / int256(WAD);
+        }
+
+        return k * LN2 + 2 * sum;
+    }
+
+    // ============ Market Maker ============
+
+    /**
+     * @notice LMSR cost function C(q), computed with the log-sum-exp shift
+     * @param q Outstanding shares per outcome
+     * @param b Liquidity parameter
+     */
+    function cost(uint256[] memory q, uint256 b) public pure returns (uint256) {
+        uint256 m = _max(q);
+        uint256 sum = _sumExp(q, b, m);
+        // sum >= 1 because the largest outcome contributes exp(0)
+        return m + (uint256(lnWad(sum)) * b) / WAD;
+    }
+
+    /**
+     * @notice Instantaneous price of an outcome (wad, all prices sum to 1e18)
+     */
+    function price(uint256[] memory q, uint256 b, uint256 outcome) public pure returns (uint256) {
+        uint256 m = _max(q);
+        uint256 sum = _sumExp(q, b, m);
+        return (_expShifted(q[outcome], m, b) * WAD) / sum;
+    }
+
+    /**
+     * @notice Cost of buying `shares` of `outcome` at the current state
+     */
+    function costOfShares(
+        uint256[] memory q,
+        uint256 b,
+        uint256 outcome,
+        uint256 shares
+    ) public pure returns (uint256) {
+        uint256 before = cost(q, b);
+        uint256[] memory next = _copy(q);
+        next[outcome] += shares;
+        return cost(next, b) - before;
+    }
+
+    /**
+     * @notice Refund for selling `shares` of `outcome` back to the market maker
+     */
+    function proceedsOfShares(
+        uint256[] memory q,
+        uint256 b,
+        uint256 outcome,
+        uint256 shares
+    ) public pure returns (uint256) {
+        require(q[outcome] >= shares, "Insufficient outstanding shares");
+        uint256[] memory next = _copy(q);
+        next[outcome] -= shares;
+        uint256 before = cost(q, b);
+        uint256 afterSale = cost(next, b);
+        return before > afterSale ? before - afterSale : 0;
+    }
+
+    /**
+     * @notice Number of `outcome` shares that `amount` of collateral buys
+     * @dev Closed form: shares = c + C(q) - q_i + b * ln(1 - (1 - p_i) * e^(-c/b)).
+     *      The result is rounded down until its quoted cost fits within `amount`
+     *      so the market maker never sells shares below cost.
+     */
+    function sharesForCost(
+        uint256[] memory q,
+        uint256 b,
+        uint256 outcome,
+        uint256 amount
+    ) public pure returns (uint256) {
+        if (amount == 0) return 0;
+
+        uint256 currentCost = cost(q, b);
+        uint256 p = price(q, b, outcome);
+        uint256 decay = expWad(-int256((amount * WAD) / b));
+        uint256 inner = WAD - ((WAD - p) * decay) / WAD;
+        if (inner == 0) return 0;
+
+        int256 lnInner = lnWad(inner); // <= 0
+        int256 raw = int256(amount + currentCost - q[outcome]) + (lnInner * int256(b)) / int256(WAD);
+        if (raw <= 0) return 0;
+
+        uint256 shares = uint256(raw);
+        for (uint256 i = 0; i < 8; i++) {
+            if (costOfShares(q, b, outcome, shares) <= amount) return shares;
+            shares -= shares / 1e9 + 1;
+        }
+        revert("Quote did not converge");
+    }
+
+    // ============ Internal Helpers ============
+
+    function _max(uint256[] memory q) private pure returns (uint256 m) {
+        for (uint256 i = 0; i < q.length; i++) {
+            if (q[i] > m) m = q[i];
+        }
+    }
+
+    function _expShifted(uint256 qi, uint256 m, uint256 b) private pure returns (uint256) {
+        // exp((q_i - m) / b), the exponent is always <= 0
+        return expWad(-int256(((m - qi) * WAD) / b));
+    }
+
+    function _sumExp(uint256[] memory q, uint256 b, uint256 m) private pure returns (uint256 sum) {
+        for (uint256 i = 0; i < q.length; i++) {
+            sum += _expShifted(q[i], m, b);
+        }
+    }
+
+    function _copy(uint256[] memory q) private pure returns (uint256[] memory next) {
+        next = new uint256[](q.length);
+        for (uint256 i = 0; i < q.length; i++) {
+            next[i] = q[i];
+        }
+    }
+}
@@ -0,0 +1,186 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+interface IOutcomeMarket {
+    function outcomeToken() external view returns (address);
+    function outcomeShares(address user, uint256 outcome) external view returns (uint256);
+    function transferShares(address from, address to, uint256 outcome, uint256 amount) external;
+}
+
+interface IERC1155Receiver {
+    function onERC1155Received(address operator, address from, uint256 id, uint256 value, bytes calldata data)
+        external returns (bytes4);
+    function onERC1155BatchReceived(
+        address operator,
+        address from,
+        uint256[] calldata ids,
+        uint256[] calldata values,
+        bytes calldata data
+    ) external returns (bytes4);
+}
+
+/**
+ * @title OutcomeToken
+ * @notice ERC-1155 view of every market's outcome shares, so positions can be
+ *         moved between wallets and used by other contracts
+ * @dev One contract serves all markets created by the factory that points at it.
+ *      Token IDs pack the market address and outcome index:
+ *      id = uint160(market) << 96 | outcome.
+ *
+ *      Markets keep the share ledger; this contract reads balances from them and
+ *      asks them to move shares on transfer. Markets report mints and burns through
+ *      emitTransfer so indexers see the full ERC-1155 event stream. A caller can only
+ *      report transfers for IDs derived from its own address.
+ */
+contract OutcomeToken {
+    // ============ State Variables ============
+
+    mapping(address => mapping(address => bool)) public isApprovedForAll;
+
+    bytes4 private constant ERC1155_INTERFACE_ID = 0xd9b67a26;
+    bytes4 private constant ERC165_INTERFACE_ID = 0x01ffc9a7;
+
+    // ============ Events ============
+
+    event TransferSingle(
+        address indexed operator,
+        address indexed from,
+        address indexed to,
+        uint256 id,
+        uint256 value
+    );
+
+    event TransferBatch(
+        address indexed operator,
+        address indexed from,
+        address indexed to,
+        uint256[] ids,
+        uint256[] values
+    );
+
+    event ApprovalForAll(
+        address indexed account,
+        address indexed operator,
+        bool approved
+    );
+
+    // ============ Token IDs ============
+
+    /**
+     * @notice Token ID of a market's outcome
+     */
+    function tokenId(address _market, uint256 _outcome) public pure returns (uint256) {
+        require(_outcome < 2 ** 96, "Invalid outcome");
+        return (uint256(uint160(_market)) << 96) | _outcome;
+    }
+
+    /**
+     * @notice Market and outcome index a token ID stands for
+     */
+    function decodeTokenId(uint256 _id) public pure returns (address market, uint256 outcome) {
+        market = address(uint160(_id >> 96));
+        outcome = _id & (2 ** 96 - 1);
+    }
+
+    // ============ ERC-1155 ============
+
+    /**
+     * @notice Shares of an outcome held by an account (0 for markets not bound to this token)
+     */
+    function balanceOf(address _account, uint256 _id) public view returns (uint256) {
+        (address market, uint256 outcome) = decodeTokenId(_id);
+        if (market.code.length == 0) return 0;
+
+        try IOutcomeMarket(market).outcomeToken() returns (address token) {
+            if (token != address(this)) return 0;
+        } catch {
+            return 0;
+        }
+        return IOutcomeMarket(market).outcomeShares(_account, outcome);
+    }
+
+    function balanceOfBatch(address[] calldata _accounts, uint256[] calldata _ids)
+        external
+        view
+        returns (uint256[] memory balances)
+    {
+        require(_accounts.length == _ids.length, "Length mismatch");
+        balances = new uint256[](_accounts.length);
+        for (uint256 i = 0; i < _accounts.length; i++) {
+            balances[i] = balanceOf(_accounts[i], _ids[i]);
+        }
+    }
+
+    function setApprovalForAll(address _operator, bool _approved) external {
+        require(_operator != msg.sender, "Cannot approve self");
+        isApprovedForAll[msg.sender][_operator] = _approved;
+        emit ApprovalForAll(msg.sender, _operator, _approved);
+    }
+
+    function safeTransferFrom(address _from, address _to, uint256 _id, uint256 _value, bytes calldata _data) external {
+        _checkTransfer(_from, _to);
+        _move(_from, _to, _id, _value);
+
+        emit TransferSingle(msg.sender, _from, _to, _id, _value);
+
+        if (_to.code.length > 0) {
+            require(
+                IERC1155Receiver(_to).onERC1155Received(msg.sender, _from, _id, _value, _data) ==
+                    IERC1155Receiver.onERC1155Received.selector,
+                "Transfer rejected"
+            );
+        }
+    }
+
+    function safeBatchTransferFrom(
+        address _from,
+        address _to,
+        uint256[] calldata _ids,
+        uint256[] calldata _values,
+        bytes calldata _data
+    ) external {
+        require(_ids.length == _values.length, "Length mismatch");
+        _checkTransfer(_from, _to);
+        for (uint256 i = 0; i < _ids.length; i++) {
+            _move(_from, _to, _ids[i], _values[i]);
+        }
+
+        emit TransferBatch(msg.sender, _from, _to, _ids, _values);
+
+        if (_to.code.length > 0) {
+            require(
+                IERC1155Receiver(_to).onERC1155BatchReceived(msg.sender, _from, _ids, _values, _data) ==
+                    IERC1155Receiver.onERC1155BatchReceived.selector,
+                "Transfer rejected"
+            );
+        }
+    }
+
+    function supportsInterface(bytes4 _interfaceId) external pure returns (bool) {
+        return _interfaceId == ERC1155_INTERFACE_ID || _interfaceId == ERC165_INTERFACE_ID;
+    }
+
+    // ============ Market Hooks ============
+
+    /**
+     * @notice Emit the ERC-1155 event for shares a market minted (from = 0) or burned (to = 0)
+     * @dev The ID is derived from msg.sender, so a contract can only report its own shares
+     */
+    function emitTransfer(address _from, address _to, uint256 _outcome, uint256 _value) external {
+        address operator = _from == address(0) ? _to : _from;
+        emit TransferSingle(operator, _from, _to, tokenId(msg.sender, _outcome), _value);
+    }
+
+    // ============ Internal Helpers ============
+
+    function _checkTransfer(address _from, address _to) internal view {
+        require(_to != address(0), "Invalid recipient");
+        require(_from == msg.sender || isApprovedForAll[_from][msg.sender], "Not approved");
+    }
+
+    function _move(address _from, address _to, uint256 _id, uint256 _value) internal {
+        (address market, uint256 outcome) = decodeTokenId(_id);
+        require(market.code.length > 0, "Unknown token");
+        IOutcomeMarket(market).transferShares(_from, _to, outcome, _value);
+    }
+}
@@ -1,270 +1,684 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.19;
 
+import "./PredictionMarketBase.sol";
+
 /**
  * @title PredictionMarket
- * @notice A prediction market contract where users can buy YES/NO shares
- * @dev Deployed on Base Sepolia for testing
+ * @notice A prediction market contract where users can buy outcome shares
+ * @dev Deployed on Base Sepolia for testing. Prices are set by an LMSR
+ *      automated market maker funded by the creator and anyone else who adds
+ *      liquidity; each winning share (1e18 units) pays out 1 ETH.
+ *
+ *      Binary markets have two outcomes (0 = YES, 1 = NO) and keep the
+ *      bool-based YES/NO functions. Categorical markets have 3-20 named
+ *      outcomes and trade through the outcome-index functions.
+ *
+ *      The creator's resolution is only a proposal: anyone can dispute it
+ *      with a bond during the dispute period, and winnings are claimable once
+ *      it is finalized or the owner settles the dispute. The factory can also
+ *      appoint a resolver oracle whose signed attestations (relayed from
+ *      GenLayer by anyone) propose the outcome and settle disputes.
+ *
+ *      Ambiguous markets resolve to INVALID_OUTCOME, which voids them: every
+ *      trader reclaims their net stake pro-rata from the pool instead. A market
+ *      nobody has proposed a resolution for by its resolutionDeadline can be
+ *      voided the same way by anyone (voidExpired).
+ *
+ *      Fees taken from winnings accrue as they are claimed and are split
+ *      between the owner (withdrawFees), the creator (claimCreatorFees) and
+ *      liquidity providers (withdrawLiquidity).
+ *
+ *      Liquidity providers (the creator first) hold LP shares and split the
+ *      liquidity left over after resolution pro-rata. addLiquidity deepens the
+ *      market at unchanged prices; liquidity can't leave before resolution.
+ *
+ *      Markets settle in native ETH or in an ERC-20 collateral token chosen
+ *      at creation. Token markets are bought with buyWithCollateral or
+ *      buyWithPermit and pay out in the token; dispute bonds are always ETH.
+ *
+ *      When the factory sets an outcome token, shares are also ERC-1155 tokens
+ *      (id = uint160(market) << 96 | outcome) that move through transferShares.
+ *      Winnings follow the shares; INVALID refunds follow the stake, which
+ *      stays with the buyer.
+ *
+ *      Binary markets also settle EIP-712 signed limit orders: a YES bid and a
+ *      NO bid whose prices add up to at least 1 are filled together as a full
+ *      set of shares, paid for by the two makers (ETH makers pre-fund an order
+ *      deposit). Minting one YES and one NO share for one unit of collateral
+ *      leaves the LMSR prices unchanged.
+ *
+ *      The same complete sets can be minted and redeemed directly: splitPosition
+ *      turns collateral into one share of every outcome and mergePositions turns
+ *      a full set back into collateral, which keeps prices summing to 100%.
+ *
+ *      The factory deploys markets as EIP-1167 clones of a registered
+ *      implementation and sets each one up with initialize. marketVersion()
+ *      tells clients which implementation (and so which ABI) a market runs.
+ *      The order book and liquidity functions live in PredictionMarketExtension,
+ *      which markets delegatecall from their fallback; clients call them on the
+ *      market like any other function.
+ *
+ *      Trading stops tradingCutoff seconds before endTime. If the event happens
+ *      ahead of schedule, the creator, resolver or owner can closeEarly, which
+ *      ends the market at once; trades made after the event are then reversed
+ *      (reverseLateTrades) before it can be resolved.
+ *
+ *      The creator can cap how much each address and the whole pool may buy
+ *      from the market maker (setLimits, getLimits), so a single wallet can't
+ *      move a thin market at will.
+ *
+ *      The owner (the factory, acting for its role holders) can pause trading on
+ *      this market, and trading also stops while the factory itself is paused.
+ *      Its emergency resolution only works after the end time.
  */
-contract PredictionMarket {
-    // ============ State Variables ============
-    
-    address public owner;
-    address public creator;
-    string public question;
-    string public description;
-    uint256 public endTime;
-    uint256 public resolutionTime;
-    
-    bool public isResolved;
-    bool public winningOutcome; // true = YES wins, false = NO wins
-    
-    uint256 public totalYesShares;
-    uint256 public totalNoShares;
-    uint256 public totalPool;
-    
-    uint256 public constant SHARE_PRICE = 0.001 ether; // 1 share = 0.001 ETH
-    uint256 public constant MIN_BUY = 0.001 ether;
-    uint256 public constant PLATFORM_FEE = 200; // 2% fee (basis points)
-    uint256 public constant BASIS_POINTS = 10000;
-    
-    // ============ Mappings ============
-    
-    mapping(address => uint256) public yesShares;
-    mapping(address => uint256) public noShares;
-    mapping(address => bool) public hasClaimed;
-    
-    // ============ Events ============
-    
-    event SharesPurchased(
-        address indexed buyer,
-        bool isYes,
-        uint256 shares,
-        uint256 amount,
-        uint256 timestamp
-    );
+contract PredictionMarket is PredictionMarketBase {
+    // Implements the order book and liquidity functions, see fallback
+    address public immutable extension;
     
-    event SharesSold(
-        address indexed seller,
-        bool isYes,
-        uint256 shares,
-        uint256 amount,
-        uint256 timestamp
-    );
+    // Bump when the ABI or behaviour changes; the factory registers implementations by it
+    uint256 private constant MARKET_VERSION = 8;
     
-    event MarketResolved(
-        bool winningOutcome,
-        uint256 totalPool,
-        uint256 timestamp
-    );
+    // ============ Initialization ============
     
-    event WinningsClaimed(
-        address indexed user,
-        uint256 amount,
-        uint256 timestamp
-    );
+    /**
+     * @dev Locks the implementation itself; clones start uninitialized and use
+     *      the implementation's extension
+     */
+    constructor(address _extension) {
+        initialized = true;
+        extension = _extension;
+    }
     
-    event MarketCreated(
-        address indexed creator,
-        string question,
-        uint256 endTime
-    );
+    /**
+     * @notice Set up a freshly cloned market (called once, by the factory)
+     * @dev msg.value (or _config.tokenLiquidity on token markets) is the creator's
+     *      liquidity subsidy, which makes them the first liquidity provider. The LMSR
+     *      worst-case loss for n outcomes is b * ln(n), so b is sized to match it.
+     * @param _endTime Unix time trading stops
+     * @param _resolutionDeadline Unix time after which an unresolved market can be voided
+     * @param _tradingCutoff Seconds before _endTime that trading stops (0 trades until the end)
+     * @param _outcomes Outcome names, in index order (2 for a YES/NO market)
+     * @param _config Owner, dispute, resolver and fee settings from the factory
+     */
+    function initialize(
+        address _creator,
+        string calldata _question,
+        string calldata _description,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff,
+        string[] calldata _outcomes,
+        MarketConfig calldata _config
+    ) external payable {
+        require(!initialized, "Already initialized");
+        initialized = true;
+        
+        uint256 funding = msg.value;
+        minAmount = MIN_LIQUIDITY;
+        if (_config.collateral != address(0)) {
+            require(msg.value == 0, "Token market");
+            collateral = _config.collateral;
+            funding = _config.tokenLiquidity;
+            // 0.001 tokens, matching the ETH minimum
+            minAmount = uint256(10) ** IERC20Collateral(collateral).decimals() / 1000;
+        }
+        require(funding >= minAmount, "Insufficient liquidity");
+        require(_outcomes.length >= 2 && _outcomes.length <= MAX_OUTCOMES, "Invalid outcome count");
+        require(_config.platformFee <= BASIS_POINTS && _config.creatorFeeShare + _config.lpFeeShare <= BASIS_POINTS, "Invalid fee");
+        
+        owner = _config.owner;
+        creator = _creator;
+        question = _question;
+        description = _description;
+        endTime = _endTime;
+        resolutionDeadline = _resolutionDeadline;
+        tradingCutoff = _tradingCutoff;
+        disputePeriod = _config.disputePeriod;
+        disputeBond = _config.disputeBond;
+        resolver = _config.resolver;
+        platformFee = _config.platformFee;
+        creatorFeeShare = _config.creatorFeeShare;
+        lpFeeShare = _config.lpFeeShare;
+        outcomeToken = _config.outcomeToken;
+        trustedForwarder = _config.trustedForwarder;
+        
+        for (uint256 i = 0; i < _outcomes.length; i++) {
+            require(bytes(_outcomes[i]).length > 0, "Empty outcome name");
+            outcomeNames.push(_outcomes[i]);
+        }
+        outcomeTotals = new uint256[](_outcomes.length);
+        
+        subsidy = funding;
+        lpShares[_creator] = funding;
+        totalLpShares = funding;
+        int256 maxLossFactor = _outcomes.length == 2
+            ? LMSRMath.LN2
+            : LMSRMath.lnWad(_outcomes.length * LMSRMath.WAD);
+        liquidityParameter = (funding * LMSRMath.WAD) / uint256(maxLossFactor);
+        
+        emit MarketCreated(_creator, _question, endTime);
+    }
     
-    // ============ Modifiers ============
+    // ============ Trading Functions ============
     
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner");
-        _;
+    /**
+     * @notice Buy YES shares
+     */
+    function buyYes() external payable marketOpen {
+        _buy(_outcomeIndex(true), msg.value);
     }
     
-    modifier onlyCreator() {
-        require(msg.sender == creator, "Only creator");
-        _;
+    /**
+     * @notice Buy NO shares
+     */
+    function buyNo() external payable marketOpen {
+        _buy(_outcomeIndex(false), msg.value);
     }
     
-    modifier marketOpen() {
-        require(block.timestamp < endTime, "Market closed");
-        require(!isResolved, "Market resolved");
-        _;
+    /**
+     * @notice Buy shares (unified function)
+     * @param _isYes true for YES shares, false for NO shares
+     */
+    function buyShares(bool _isYes) external payable marketOpen {
+        _buy(_outcomeIndex(_isYes), msg.value);
     }
     
-    modifier marketEnded() {
-        require(block.timestamp >= endTime, "Market not ended");
-        _;
+    /**
+     * @notice Buy shares of any outcome
+     * @param _outcome Outcome index
+     */
+    function buyOutcome(uint256 _outcome) external payable marketOpen validOutcome(_outcome) {
+        _buy(_outcome, msg.value);
     }
     
-    modifier marketResolved() {
-        require(isResolved, "Market not resolved");
-        _;
+    /**
+     * @notice Buy shares of any outcome with an explicit amount of collateral
+     * @dev Token markets pull _amount with transferFrom (approve first); ETH markets need msg.value == _amount
+     * @param _outcome Outcome index
+     * @param _amount Collateral to spend
+     */
+    function buyWithCollateral(uint256 _outcome, uint256 _amount) external payable marketOpen validOutcome(_outcome) {
+        _buy(_outcome, _amount);
     }
     
-    modifier notResolved() {
-        require(!isResolved, "Market already resolved");
-        _;
+    /**
+     * @notice Buy shares on a token market, approving the spend with an EIP-2612 permit
+     * @param _outcome Outcome index
+     * @param _amount Collateral to spend, also the permitted value
+     */
+    function buyWithPermit(
+        uint256 _outcome,
+        uint256 _amount,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external marketOpen validOutcome(_outcome) {
+        require(collateral != address(0), "Not a token market");
+        // A front-run permit has already set the allowance, so don't fail on it
+        try IERC20Collateral(collateral).permit(_msgSender(), address(this), _amount, _deadline, _v, _r, _s) {} catch {}
+        _buy(_outcome, _amount);
     }
     
-    // ============ Constructor ============
-    
-    constructor(
-        address _creator,
-        string memory _question,
-        string memory _description,
-        uint256 _durationDays
-    ) {
-        owner = msg.sender;
-        creator = _creator;
-        question = _question;
-        description = _description;
-        endTime = block.timestamp + (_durationDays * 1 days);
-        
-        emit MarketCreated(_creator, _question, endTime);
+    /**
+     * @notice Sell shares back to the market maker before resolution
+     * @param _isYes true for YES shares, false for NO shares
+     * @param _shares Shares to sell (1e18 = 1 share)
+     * @param _minProceeds Minimum ETH to receive, reverts otherwise (slippage protection)
+     */
+    function sellShares(bool _isYes, uint256 _shares, uint256 _minProceeds) external marketOpen {
+        _sell(_outcomeIndex(_isYes), _shares, _minProceeds);
     }
     
-    // ============ Trading Functions ============
+    /**
+     * @notice Sell shares of any outcome back to the market maker
+     * @param _outcome Outcome index
+     * @param _shares Shares to sell (1e18 = 1 share)
+     * @param _minProceeds Minimum ETH to receive (slippage protection)
+     */
+    function sellOutcome(uint256 _outcome, uint256 _shares, uint256 _minProceeds) external marketOpen validOutcome(_outcome) {
+        _sell(_outcome, _shares, _minProceeds);
+    }
     
     /**
-     * @notice Buy YES shares
+     * @dev Spends the full amount on shares at the current LMSR price curve
      */
-    function buyYes() external payable marketOpen {
-        require(msg.value >= MIN_BUY, "Below minimum");
+    function _buy(uint256 _outcome, uint256 _amount) internal {
+        address buyer = _msgSender();
+        require(_amount >= minAmount, "Below minimum");
+        require(maxPerAddress == 0 || totalInvested[buyer] + _amount <= maxPerAddress, "Above address limit");
+        require(maxPool == 0 || totalPool + _amount <= maxPool, "Above pool limit");
+        _collect(_amount);
         
-        uint256 shares = msg.value / SHARE_PRICE;
+        uint256 shares = LMSRMath.sharesForCost(outcomeTotals, liquidityParameter, _outcome, _amount);
         require(shares > 0, "Must buy at least 1 share");
         
-        yesShares[msg.sender] += shares;
-        totalYesShares += shares;
-        totalPool += msg.value;
+        outcomeShares[buyer][_outcome] += shares;
+        outcomeTotals[_outcome] += shares;
+        _logTransfer(address(0), buyer, _outcome, shares);
+        
+        _stake(buyer, _outcome, _amount);
+        totalPool += _amount;
+        _logTrade(buyer, false, _outcome, shares, _amount);
         
-        emit SharesPurchased(msg.sender, true, shares, msg.value, block.timestamp);
+        if (_isBinary()) {
+            emit SharesPurchased(buyer, _outcome == 0, shares, _amount, block.timestamp);
+        }
+        emit OutcomePurchased(buyer, _outcome, shares, _amount, block.timestamp);
     }
     
+    function _sell(uint256 _outcome, uint256 _shares, uint256 _minProceeds) internal {
+        address seller = _msgSender();
+        require(_shares > 0, "Must sell at least 1 share");
+        require(outcomeShares[seller][_outcome] >= _shares, "Insufficient shares");
+        
+        uint256 proceeds = LMSRMath.proceedsOfShares(outcomeTotals, liquidityParameter, _outcome, _shares);
+        // Guard against rounding when the last shares leave the pool
+        if (proceeds > totalPool) proceeds = totalPool;
+        require(proceeds >= _minProceeds, "Slippage exceeded");
+        require(proceeds > 0, "Nothing to sell");
+        
+        outcomeShares[seller][_outcome] -= _shares;
+        outcomeTotals[_outcome] -= _shares;
+        _logTransfer(seller, address(0), _outcome, _shares);
+        
+        _unstake(seller, _outcome, proceeds);
+        totalPool -= proceeds;
+        _logTrade(seller, true, _outcome, _shares, proceeds);
+        
+        _pay(seller, proceeds);
+        
+        if (_isBinary()) {
+            emit SharesSold(seller, _outcome == 0, _shares, proceeds, block.timestamp);
+        }
+        emit OutcomeSold(seller, _outcome, _shares, proceeds, block.timestamp);
+    }
+    
+    // ============ Complete Sets ============
+    
     /**
-     * @notice Buy NO shares
+     * @notice Mint one share of every outcome per unit of collateral
+     * @dev Token markets pull _amount with transferFrom; ETH markets need msg.value == _amount
+     * @param _amount Collateral to lock, also the number of shares of each outcome
      */
-    function buyNo() external payable marketOpen {
-        require(msg.value >= MIN_BUY, "Below minimum");
+    function splitPosition(uint256 _amount) external payable marketOpen {
+        address holder = _msgSender();
+        require(_amount >= minAmount, "Below minimum");
+        _collect(_amount);
         
-        uint256 shares = msg.value / SHARE_PRICE;
-        require(shares > 0, "Must buy at least 1 share");
+        for (uint256 i = 0; i < outcomeNames.length; i++) {
+            outcomeShares[holder][i] += _amount;
+            outcomeTotals[i] += _amount;
+            _logTransfer(address(0), holder, i, _amount);
+        }
         
-        noShares[msg.sender] += shares;
-        totalNoShares += shares;
-        totalPool += msg.value;
+        _stakeEvenly(holder, _amount, true);
+        totalPool += _amount;
         
-        emit SharesPurchased(msg.sender, false, shares, msg.value, block.timestamp);
+        emit PositionSplit(holder, _amount, block.timestamp);
     }
     
     /**
-     * @notice Buy shares (unified function)
-     * @param _isYes true for YES shares, false for NO shares
+     * @notice Burn one share of every outcome per unit of collateral returned
+     * @dev Allowed until resolution, after which claimWinnings pays the winning side, or
+     *      until closeEarly, so shares bought after the event can't escape reversal
+     * @param _amount Shares of each outcome to burn, also the collateral paid out
      */
-    function buyShares(bool _isYes) external payable marketOpen {
-        require(msg.value >= MIN_BUY, "Below minimum");
-        
-        uint256 shares = msg.value / SHARE_PRICE;
-        require(shares > 0, "Must buy at least 1 share");
+    function mergePositions(uint256 _amount) external notResolved {
+        address holder = _msgSender();
+        require(_amount > 0, "Nothing to merge");
+        require(eventTime == 0, "Market closed early");
         
-        if (_isYes) {
-            yesShares[msg.sender] += shares;
-            totalYesShares += shares;
-        } else {
-            noShares[msg.sender] += shares;
-            totalNoShares += shares;
+        for (uint256 i = 0; i < outcomeNames.length; i++) {
+            require(outcomeShares[holder][i] >= _amount, "Insufficient shares");
+            outcomeShares[holder][i] -= _amount;
+            outcomeTotals[i] -= _amount;
+            _logTransfer(holder, address(0), i, _amount);
         }
         
-        totalPool += msg.value;
+        _stakeEvenly(holder, _amount, false);
+        totalPool -= _amount;
+        
+        _pay(holder, _amount);
         
-        emit SharesPurchased(msg.sender, _isYes, shares, msg.value, block.timestamp);
+        emit PositionsMerged(holder, _amount, block.timestamp);
     }
     
     // ============ Resolution Functions ============
     
     /**
-     * @notice Resolve the market (creator only)
+     * @notice Propose the resolution (creator only), final after the dispute period
      * @param _yesWins true if YES wins, false if NO wins
      */
     function resolve(bool _yesWins) external onlyCreator marketEnded notResolved {
-        isResolved = true;
-        winningOutcome = _yesWins;
-        resolutionTime = block.timestamp;
+        _propose(_outcomeIndex(_yesWins));
+    }
+    
+    /**
+     * @notice Propose any outcome as the resolution (creator only)
+     * @param _outcome Winning outcome index, or INVALID_OUTCOME to void the market
+     */
+    function resolveOutcome(uint256 _outcome) external onlyCreator marketEnded notResolved validResolution(_outcome) {
+        _propose(_outcome);
+    }
+    
+    /**
+     * @notice Challenge the proposed resolution by staking the dispute bond
+     * @dev Escalates to the owner, who settles it with GenLayer re-resolution or
+     *      arbitration. The bond is refunded if the outcome changes, otherwise it
+     *      goes to the creator; either collects it with withdrawDisputeBond.
+     */
+    function dispute() external payable notResolved {
+        require(isProposed, "Nothing to dispute");
+        require(!isDisputed, "Already disputed");
+        require(block.timestamp < disputeDeadline, "Dispute period over");
+        require(msg.value == disputeBond, "Wrong bond");
         
-        emit MarketResolved(_yesWins, totalPool, block.timestamp);
+        isDisputed = true;
+        disputer = _msgSender();
+        
+        emit ResolutionDisputed(disputer, msg.value, block.timestamp);
     }
     
     /**
-     * @notice Emergency resolve by owner
+     * @notice Finalize an undisputed proposal once the dispute period has passed
+     */
+    function finalizeResolution() external notResolved {
+        require(isProposed, "No proposed resolution");
+        require(!isDisputed, "Resolution disputed");
+        require(block.timestamp >= disputeDeadline, "Dispute period active");
+        
+        _resolve(proposedOutcomeIndex);
+    }
+    
+    /**
+     * @notice Resolve from a resolver-signed attestation, submitted by anyone (e.g. the relayer)
+     * @dev Proposes the outcome like the creator would; while the proposal is
+     *      disputed, a fresh attestation settles it instead (GenLayer re-resolution).
+     *      The signed digest covers the chain, this market and the nonce, so an
+     *      attestation can't be replayed on another market, chain or round.
+     * @param _outcome Winning outcome index, or INVALID_OUTCOME to void the market
+     * @param _nonce Must equal attestationNonce
+     * @param _signature Resolver's signature over attestationDigest(_outcome, _nonce)
+     */
+    function resolveWithAttestation(
+        uint256 _outcome,
+        uint256 _nonce,
+        bytes calldata _signature
+    ) external marketEnded notResolved validResolution(_outcome) {
+        require(resolver != address(0), "No resolver");
+        require(_nonce == attestationNonce, "Invalid nonce");
+        require(_recoverSigner(attestationDigest(_outcome, _nonce), _signature) == resolver, "Invalid attestation");
+        
+        attestationNonce++;
+        emit AttestationAccepted(_msgSender(), _outcome, _nonce, block.timestamp);
+        
+        if (isDisputed) {
+            _resolve(_outcome);
+        } else {
+            _propose(_outcome);
+        }
+    }
+    
+    /**
+     * @notice The EIP-191 digest the resolver signs for an attestation
+     */
+    function attestationDigest(uint256 _outcome, uint256 _nonce) public view returns (bytes32) {
+        return keccak256(abi.encodePacked(
+            "\x19Ethereum Signed Message:\n32",
+            keccak256(abi.encode(block.chainid, address(this), _outcome, _nonce))
+        ));
+    }
+    
+    /**
+     * @notice Emergency resolve by owner once the market has ended, also settles an open dispute
+     * @dev The factory only calls this after its emergency timelock, or to settle a dispute
      * @param _yesWins true if YES wins, false if NO wins
      */
-    function emergencyResolve(bool _yesWins) external onlyOwner notResolved {
+    function emergencyResolve(bool _yesWins) external onlyOwner marketEnded notResolved {
+        _resolve(_outcomeIndex(_yesWins));
+    }
+    
+    /**
+     * @notice Emergency resolve to any outcome by owner once the market has ended
+     * @param _outcome Winning outcome index, or INVALID_OUTCOME to void the market
+     */
+    function emergencyResolveOutcome(uint256 _outcome) external onlyOwner marketEnded notResolved validResolution(_outcome) {
+        _resolve(_outcome);
+    }
+    
+    /**
+     * @notice Void a market nobody resolved by its resolution deadline, refunding every stake
+     * @dev Anyone can call it. An undisputed proposal is finalized instead; a disputed
+     *      one the owner never settled is voided and the disputer's bond refunded.
+     */
+    function voidExpired() external notResolved {
+        require(block.timestamp >= resolutionDeadline, "Deadline not reached");
+        require(!isProposed || isDisputed, "Resolution proposed");
+        
+        _resolve(INVALID_OUTCOME);
+    }
+    
+    function _propose(uint256 _outcome) internal {
+        require(!isProposed, "Already proposed");
+        require(block.timestamp < resolutionDeadline, "Deadline passed");
+        
+        if (disputePeriod == 0) {
+            _resolve(_outcome);
+            return;
+        }
+        
+        isProposed = true;
+        proposedOutcomeIndex = _outcome;
+        disputeDeadline = block.timestamp + disputePeriod;
+        
+        emit ResolutionProposed(_outcome, disputeDeadline, block.timestamp);
+    }
+    
+    function _resolve(uint256 _outcome) internal {
         isResolved = true;
-        winningOutcome = _yesWins;
+        winningOutcomeIndex = _outcome;
         resolutionTime = block.timestamp;
         
-        emit MarketResolved(_yesWins, totalPool, block.timestamp);
+        if (_outcome == INVALID_OUTCOME) {
+            emit MarketInvalidated(totalPool, block.timestamp);
+        } else {
+            if (_isBinary()) {
+                emit MarketResolved(_outcome == 0, totalPool, block.timestamp);
+            }
+            emit OutcomeResolved(_outcome, totalPool, block.timestamp);
+        }
+        
+        if (isDisputed) {
+            // Refund the disputer if the proposal was overturned, slash the bond to the creator otherwise.
+            // It's credited rather than sent, so a recipient that rejects ETH can't block resolution.
+            bool upheld = _outcome != proposedOutcomeIndex;
+            disputeBondsOwed[upheld ? disputer : creator] += disputeBond;
+            
+            emit DisputeSettled(disputer, upheld, disputeBond, block.timestamp);
+        }
     }
     
     // ============ Claim Functions ============
     
     /**
-     * @notice Claim winnings after market resolution
+     * @notice Claim winnings after market resolution, or the stake refund if it was voided
      */
     function claimWinnings() external marketResolved {
-        require(!hasClaimed[msg.sender], "Already claimed");
-        
-        uint256 userShares;
-        uint256 totalWinningShares;
-        
-        if (winningOutcome) {
-            userShares = yesShares[msg.sender];
-            totalWinningShares = totalYesShares;
-        } else {
-            userShares = noShares[msg.sender];
-            totalWinningShares = totalNoShares;
+        _claim(_msgSender());
+    }
+    
+    /**
+     * @notice Claim for a user and pay them (owner only, see PredictionMarketFactory.batchClaimWinnings)
+     */
+    function claimWinningsFor(address _user) external onlyOwner marketResolved {
+        _claim(_user);
+    }
+    
+    function _claim(address _user) internal {
+        if (isInvalid()) {
+            _claimRefund(_user);
+            return;
         }
         
-        require(userShares > 0, "No winning shares");
-        require(totalWinningShares > 0, "No winners");
+        uint256 userShares = outcomeShares[_user][winningOutcomeIndex];
         
-        // Calculate winnings
-        uint256 grossWinnings = (totalPool * userShares) / totalWinningShares;
-        uint256 fee = (grossWinnings * PLATFORM_FEE) / BASIS_POINTS;
+        // Claiming burns the shares, so ones received after a claim can still be redeemed
+        require(userShares > 0, hasClaimed[_user] ? "Already claimed" : "No winning shares");
+        
+        // Calculate winnings (each winning share redeems for 1 wei), less what reversed sales owe
+        uint256 grossWinnings = userShares - _collectDebt(_user, userShares);
+        uint256 fee = (grossWinnings * platformFee) / BASIS_POINTS;
         uint256 netWinnings = grossWinnings - fee;
         
-        hasClaimed[msg.sender] = true;
+        hasClaimed[_user] = true;
+        outcomeShares[_user][winningOutcomeIndex] = 0;
+        _logTransfer(_user, address(0), winningOutcomeIndex, userShares);
+        _accrueFee(fee);
         
         // Transfer winnings
-        (bool success, ) = payable(msg.sender).call{value: netWinnings}("");
-        require(success, "Transfer failed");
+        _pay(_user, netWinnings);
         
-        emit WinningsClaimed(msg.sender, netWinnings, block.timestamp);
+        emit WinningsClaimed(_user, netWinnings, block.timestamp);
     }
     
     /**
-     * @notice Get claimable amount for a user
+     * @dev Refunds the user's share of the pool, pro-rata to their net stake
      */
-    function getClaimableAmount(address _user) external view returns (uint256) {
-        if (!isResolved || hasClaimed[_user]) return 0;
+    function _claimRefund(address _user) internal {
+        require(!hasClaimed[_user], "Already claimed");
+        uint256 refund = _refundOf(_user);
+        require(refund > 0, "Nothing to refund");
         
-        uint256 userShares;
-        uint256 totalWinningShares;
+        hasClaimed[_user] = true;
+        refund -= _collectDebt(_user, refund);
         
-        if (winningOutcome) {
-            userShares = yesShares[_user];
-            totalWinningShares = totalYesShares;
-        } else {
-            userShares = noShares[_user];
-            totalWinningShares = totalNoShares;
-        }
+        _pay(_user, refund);
+        
+        emit RefundClaimed(_user, refund, block.timestamp);
+    }
+    
+    function _refundOf(address _user) internal view returns (uint256) {
+        if (totalStaked == 0) return 0;
+        return (totalInvested[_user] * totalPool) / totalStaked;
+    }
+    
+    /**
+     * @notice Get claimable amount for a user (the refund if the market was voided)
+     */
+    function getClaimableAmount(address _user) external view returns (uint256) {
+        if (!isResolved) return 0;
+        bool voided = isInvalid();
+        uint256 amount = voided
+            ? (hasClaimed[_user] ? 0 : _refundOf(_user))
+            : outcomeShares[_user][winningOutcomeIndex];
+        uint256 debt = lateTradeDebt[_user];
+        amount -= debt > amount ? amount : debt;
+        return voided ? amount : amount - (amount * platformFee) / BASIS_POINTS;
+    }
+    
+    // ============ Transfer Functions ============
+    
+    /**
+     * @notice Move shares between holders (outcome token only)
+     * @dev OutcomeToken checks approvals and emits the ERC-1155 events. The sender's stake
+     *      on the outcome moves with the shares pro rata, so INVALID refunds follow them.
+     */
+    function transferShares(address _from, address _to, uint256 _outcome, uint256 _amount) external validOutcome(_outcome) {
+        require(msg.sender == outcomeToken && outcomeToken != address(0), "Only outcome token");
+        require(!lateTradesPending(), "Late trades pending");
+        require(!isInvalid(), "Market voided");
+        require(lateTradeDebt[_from] == 0, "Late trade debt");
+        uint256 held = outcomeShares[_from][_outcome];
+        require(held >= _amount, "Insufficient shares");
+        if (_amount == 0) return;
         
-        if (userShares == 0 || totalWinningShares == 0) return 0;
+        uint256 stake = (outcomeStake[_from][_outcome] * _amount) / held;
+        outcomeStake[_from][_outcome] -= stake;
+        outcomeStake[_to][_outcome] += stake;
+        totalInvested[_from] -= stake;
+        totalInvested[_to] += stake;
         
-        uint256 grossWinnings = (totalPool * userShares) / totalWinningShares;
-        uint256 fee = (grossWinnings * PLATFORM_FEE) / BASIS_POINTS;
-        return grossWinnings - fee;
+        outcomeShares[_from][_outcome] = held - _amount;
+        outcomeShares[_to][_outcome] += _amount;
     }
     
     // ============ View Functions ============
     
+    /**
+     * @notice Implementation version, used by clients to pick the market ABI
+     */
+    function marketVersion() external pure returns (uint256) {
+        return MARKET_VERSION;
+    }
+    
+    /**
+     * @notice YES shares held by a user (binary markets)
+     */
+    function yesShares(address _user) external view returns (uint256) {
+        return outcomeShares[_user][0];
+    }
+    
+    /**
+     * @notice NO shares held by a user (binary markets)
+     */
+    function noShares(address _user) external view returns (uint256) {
+        return outcomeShares[_user][1];
+    }
+    
+    /**
+     * @notice Total YES shares outstanding (binary markets)
+     */
+    function totalYesShares() public view returns (uint256) {
+        return outcomeTotals[0];
+    }
+    
+    /**
+     * @notice Total NO shares outstanding (binary markets)
+     */
+    function totalNoShares() public view returns (uint256) {
+        return outcomeTotals[1];
+    }
+    
+    /**
+     * @notice true if YES won (binary markets)
+     */
+    function winningOutcome() public view returns (bool) {
+        return winningOutcomeIndex == 0;
+    }
+    
+    /**
+     * @notice Number of outcomes (2 for a YES/NO market)
+     */
+    function outcomeCount() external view returns (uint256) {
+        return outcomeNames.length;
+    }
+    
+    /**
+     * @notice Get all outcome names in index order
+     */
+    function getOutcomes() external view returns (string[] memory) {
+        return outcomeNames;
+    }
+    
+    /**
+     * @notice Get total shares outstanding per outcome
+     */
+    function getOutcomeTotals() external view returns (uint256[] memory) {
+        return outcomeTotals;
+    }
+    
+    /**
+     * @notice Get a user's shares of every outcome
+     */
+    function getUserOutcomeShares(address _user) external view returns (uint256[] memory userShares) {
+        userShares = new uint256[](outcomeNames.length);
+        for (uint256 i = 0; i < userShares.length; i++) {
+            userShares[i] = outcomeShares[_user][i];
+        }
+    }
+    
     /**
      * @notice Get user's position
      */
@@ -273,9 +687,9 @@ contract PredictionMarket {
         uint256 _noShares,
         uint256 _totalInvested
     ) {
-        _yesShares = yesShares[_user];
-        _noShares = noShares[_user];
-        _totalInvested = (_yesShares + _noShares) * SHARE_PRICE;
+        _yesShares = outcomeShares[_user][0];
+        _noShares = outcomeShares[_user][1];
+        _totalInvested = totalInvested[_user];
     }
     
     /**
@@ -296,9 +710,9 @@ contract PredictionMarket {
             description,
             endTime,
             isResolved,
-            winningOutcome,
-            totalYesShares,
-            totalNoShares,
+            winningOutcome(),
+            totalYesShares(),
+            totalNoShares(),
             totalPool
         );
     }
@@ -307,43 +721,163 @@ contract PredictionMarket {
      * @notice Get current probability (YES percentage)
      */
     function getProbability() external view returns (uint256) {
-        uint256 total = totalYesShares + totalNoShares;
-        if (total == 0) return 50; // Default 50%
-        return (totalYesShares * 100) / total;
+        return (getPrice(true) * 100) / LMSRMath.WAD;
+    }
+    
+    /**
+     * @notice Get the current marginal price of an outcome (1e18 = 1 ETH per share)
+     */
+    function getPrice(bool _isYes) public view returns (uint256) {
+        return getOutcomePrice(_outcomeIndex(_isYes));
+    }
+    
+    /**
+     * @notice Get the current marginal price of any outcome (1e18 = 1 ETH per share)
+     */
+    function getOutcomePrice(uint256 _outcome) public view validOutcome(_outcome) returns (uint256) {
+        return LMSRMath.price(outcomeTotals, liquidityParameter, _outcome);
+    }
+    
+    /**
+     * @notice Get the current marginal price of every outcome (sums to ~1e18)
+     */
+    function getPrices() external view returns (uint256[] memory prices) {
+        prices = new uint256[](outcomeNames.length);
+        for (uint256 i = 0; i < prices.length; i++) {
+            prices[i] = LMSRMath.price(outcomeTotals, liquidityParameter, i);
+        }
+    }
+    
+    /**
+     * @notice Quote the cost of buying a number of shares at the current state
+     * @param _shares Shares to buy (1e18 = 1 share)
+     */
+    function quoteBuy(bool _isYes, uint256 _shares) external view returns (uint256) {
+        return quoteBuyOutcome(_outcomeIndex(_isYes), _shares);
+    }
+    
+    /**
+     * @notice Quote the cost of buying shares of any outcome
+     */
+    function quoteBuyOutcome(uint256 _outcome, uint256 _shares) public view validOutcome(_outcome) returns (uint256) {
+        return LMSRMath.costOfShares(outcomeTotals, liquidityParameter, _outcome, _shares);
+    }
+    
+    /**
+     * @notice Quote the ETH received for selling a number of shares at the current state
+     * @param _shares Shares to sell (1e18 = 1 share)
+     */
+    function quoteSell(bool _isYes, uint256 _shares) external view returns (uint256) {
+        return quoteSellOutcome(_outcomeIndex(_isYes), _shares);
+    }
+    
+    /**
+     * @notice Quote the ETH received for selling shares of any outcome
+     */
+    function quoteSellOutcome(uint256 _outcome, uint256 _shares) public view validOutcome(_outcome) returns (uint256) {
+        uint256 proceeds = LMSRMath.proceedsOfShares(outcomeTotals, liquidityParameter, _outcome, _shares);
+        return proceeds > totalPool ? totalPool : proceeds;
+    }
+    
+    /**
+     * @notice Quote how many shares a given amount of ETH buys at the current state
+     */
+    function getSharesForCost(bool _isYes, uint256 _amount) external view returns (uint256) {
+        return getOutcomeSharesForCost(_outcomeIndex(_isYes), _amount);
+    }
+    
+    /**
+     * @notice Quote how many shares of any outcome a given amount of ETH buys
+     */
+    function getOutcomeSharesForCost(uint256 _outcome, uint256 _amount) public view validOutcome(_outcome) returns (uint256) {
+        return LMSRMath.sharesForCost(outcomeTotals, liquidityParameter, _outcome, _amount);
+    }
+    
+    /**
+     * @notice Current value of the LMSR cost function
+     */
+    function getMarketMakerCost() external view returns (uint256) {
+        return LMSRMath.cost(outcomeTotals, liquidityParameter);
     }
     
     /**
      * @notice Check if market is open for trading
      */
     function isMarketOpen() external view returns (bool) {
-        return block.timestamp < endTime && !isResolved;
+        return block.timestamp < tradingEndTime() && !isResolved && !isPaused();
     }
     
     // ============ Admin Functions ============
     
     /**
-     * @notice Withdraw platform fees (owner only)
+     * @notice Withdraw the platform's share of accrued fees (owner only)
+     * @dev Only fees already taken from claimed winnings, never unclaimed payouts
      */
     function withdrawFees() external onlyOwner {
-        uint256 balance = address(this).balance;
-        require(balance > 0, "No fees");
+        uint256 amount = platformFeesAccrued;
+        require(amount > 0, "No fees");
+        
+        platformFeesAccrued = 0;
+        
+        _pay(owner, amount);
         
-        (bool success, ) = payable(owner).call{value: balance}("");
-        require(success, "Transfer failed");
+        emit FeesWithdrawn(owner, amount, block.timestamp);
     }
     
     /**
-     * @notice Update end time (creator only, before market ends)
+     * @notice Claim the creator's share of accrued fees
+     */
+    function claimCreatorFees() external onlyCreator {
+        uint256 amount = creatorFeesAccrued;
+        require(amount > 0, "No fees");
+        
+        creatorFeesAccrued = 0;
+        creatorFeesClaimed += amount;
+        
+        _pay(creator, amount);
+        
+        emit CreatorFeesClaimed(creator, amount, block.timestamp);
+    }
+    
+    /**
+     * @notice Halt or resume trading on this market (owner only, the factory's pausers)
+     * @dev Claims, merges and resolution keep working while paused
+     */
+    function setPaused(bool _paused) external onlyOwner {
+        paused = _paused;
+        emit TradingPaused(_paused, block.timestamp);
+    }
+    
+    /**
+     * @notice Update end time (creator only, while trading is open)
+     * @dev The resolution deadline moves back by the same amount. Not after the
+     *      trading cutoff, which would reopen trading once the outcome may be known.
      */
     function extendEndTime(uint256 _newEndTime) external onlyCreator {
         require(_newEndTime > endTime, "Must be later");
-        require(block.timestamp < endTime, "Market already ended");
+        require(block.timestamp < tradingEndTime(), "Market already ended");
+        resolutionDeadline += _newEndTime - endTime;
         endTime = _newEndTime;
     }
     
-    // ============ Receive Function ============
+    // ============ Fallback Functions ============
+    
+    /**
+     * @dev Anything this contract doesn't implement (order book, liquidity provision)
+     *      runs in the extension, on this market's storage
+     */
+    fallback() external payable {
+        address target = extension;
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let success := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            if iszero(success) { revert(0, returndatasize()) }
+            return(0, returndatasize())
+        }
+    }
     
     receive() external payable {
-        revert("Use buyYes or buyNo");
+        revert("Use buyYes, buyNo or buyOutcome");
     }
 }
@@ -0,0 +1,587 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./LMSRMath.sol";
+import "./IPauseController.sol";
+import "./ERC2771Recipient.sol";
+
+/**
+ * @dev Factory-level settings handed to each new PredictionMarket
+ */
+struct MarketConfig {
+    address owner; // Admin for pausing, emergency resolution and fees (the factory)
+    uint256 disputePeriod; // Seconds a proposed resolution can be disputed (0 resolves immediately)
+    uint256 disputeBond; // ETH a disputer must stake
+    address resolver; // Oracle whose attestations can resolve the market (0 for none)
+    uint256 platformFee; // Fee on winnings (basis points)
+    uint256 creatorFeeShare; // Creator's cut of each fee (basis points)
+    uint256 lpFeeShare; // Liquidity providers' cut of each fee (basis points)
+    address collateral; // ERC-20 collateral token, 0 for native ETH
+    uint256 tokenLiquidity; // Collateral the factory transfers in after deployment (token markets only)
+    address outcomeToken; // Shared ERC-1155 that makes shares transferable (0 for none)
+    address trustedForwarder; // EIP-2771 forwarder relaying gasless calls (0 for none)
+}
+
+/**
+ * @dev The parts of ERC-20 and EIP-2612 used for token collateral
+ */
+interface IERC20Collateral {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+    function balanceOf(address account) external view returns (uint256);
+    function decimals() external view returns (uint8);
+    function permit(address owner, address spender, uint256 value, uint256 deadline, uint8 v, bytes32 r, bytes32 s) external;
+}
+
+/**
+ * @dev EIP-712 limit order to buy `shares` of `outcome` at up to `price` (collateral per share, 18 decimals)
+ */
+struct Order {
+    address maker;
+    uint256 outcome;
+    uint256 price;
+    uint256 shares;
+    uint256 nonce;
+    uint256 expiry;
+}
+
+/**
+ * @dev A trade logged so the ones after an early close's event time can be reversed.
+ *      Only the hash of the newest one is stored (tradeLogHead); each links the one before it.
+ */
+struct Trade {
+    bytes32 previous; // tradeLogHead before this trade
+    address trader;
+    bool isSale; // Sold to the market maker, otherwise bought from it or filled from an order
+    uint32 outcome;
+    uint64 timestamp;
+    uint128 shares;
+    uint128 amount; // Collateral paid, or received for a sale
+}
+
+/**
+ * @dev Hook on the shared ERC-1155 (see OutcomeToken) that logs mints and burns
+ */
+interface IOutcomeToken {
+    function emitTransfer(address from, address to, uint256 outcome, uint256 value) external;
+}
+
+/**
+ * @title PredictionMarketBase
+ * @notice Storage, events and shared internals of a prediction market
+ * @dev PredictionMarket and PredictionMarketExtension both inherit this, so they
+ *      agree on the storage layout and the extension can run on a market's storage
+ *      through delegatecall.
+ */
+abstract contract PredictionMarketBase is ERC2771Recipient {
+    // ============ State Variables ============
+    
+    address public owner;
+    address public creator;
+    string public question;
+    string public description;
+    uint256 public endTime;
+    uint256 public tradingCutoff; // Trading stops this many seconds before endTime
+    uint256 public eventTime; // When the event happened, if closeEarly ended the market (0 otherwise)
+    uint256 public resolutionDeadline; // Proposals close here; unresolved markets can then be voided
+    uint256 public resolutionTime;
+    
+    bool public isResolved;
+    uint256 public winningOutcomeIndex;
+    
+    // Proposed resolution, final once the dispute period passes undisputed
+    uint256 public disputePeriod;
+    uint256 public disputeBond;
+    bool public isProposed;
+    uint256 public proposedOutcomeIndex;
+    uint256 public disputeDeadline;
+    bool public isDisputed;
+    address public disputer;
+    mapping(address => uint256) public disputeBondsOwed; // Settled bonds, collected with withdrawDisputeBond
+    
+    // Resolver oracle (set by the factory) and the next attestation nonce it may sign
+    address public resolver;
+    uint256 public attestationNonce;
+    
+    string[] internal outcomeNames;
+    uint256[] internal outcomeTotals;
+    uint256 public totalPool;
+    uint256 public totalStaked; // Sum of totalInvested, the base for INVALID refunds
+    
+    // Creator-set caps on buys from the market maker, in collateral units (0 for no cap)
+    uint256 public maxPerAddress; // On each address's totalInvested
+    uint256 public maxPool; // On totalPool
+    
+    // Hash of the newest logged trade, and of the newest one an early close still has to check
+    bytes32 public tradeLogHead;
+    bytes32 public lateTradeHead;
+    bool public eventTimePending; // A creator's earlier eventTime awaits the resolver or owner
+    
+    uint256 public platformFee; // Fee on winnings (basis points)
+    uint256 public creatorFeeShare; // Creator's cut of each fee (basis points)
+    uint256 public platformFeesAccrued; // Owed to the owner
+    uint256 public creatorFeesAccrued; // Owed to the creator
+    uint256 public creatorFeesClaimed;
+    uint256 public lpFeeShare; // Liquidity providers' cut of each fee (basis points)
+    uint256 public lpFeesAccrued; // Owed to liquidity providers pro-rata to lpShares, ever
+    
+    uint256 public liquidityParameter; // LMSR b
+    uint256 public subsidy; // Liquidity funding, covers the market maker's worst-case loss
+    uint256 public totalLpShares;
+    address public collateral; // ERC-20 collateral token, 0 for native ETH
+    address public outcomeToken; // ERC-1155 wrapper allowed to move shares, 0 if non-transferable
+    uint256 public minAmount; // MIN_BUY / MIN_LIQUIDITY in collateral units
+    bool public paused; // Trading halted by the owner (also halted while the owner is paused)
+    bool internal initialized;
+    
+    uint256 public constant MIN_BUY = 0.001 ether;
+    uint256 public constant MIN_LIQUIDITY = 0.001 ether;
+    uint256 public constant MAX_OUTCOMES = 20;
+    uint256 public constant BASIS_POINTS = 10000;
+    uint256 public constant INVALID_OUTCOME = type(uint256).max;
+    uint256 public constant LATE_TRADE_WINDOW = 1 days; // How far back closeEarly can place the event
+    
+    // ============ Mappings ============
+    
+    mapping(address => mapping(uint256 => uint256)) public outcomeShares;
+    mapping(address => uint256) public totalInvested;
+    mapping(address => bool) public hasClaimed;
+    mapping(bytes32 => uint256) public orderFilled; // Shares filled per order hash (cancelled = fully filled)
+    mapping(address => uint256) public orderDeposits; // ETH makers pre-fund to pay for filled orders
+    mapping(address => uint256) public lpShares;
+    mapping(address => uint256) public lpFeesPaid;
+    mapping(address => bool) public liquidityWithdrawn;
+    mapping(address => uint256) public lateTradeRefunds; // Owed for reversed purchases
+    mapping(address => uint256) public lateTradeDebt; // Proceeds of reversed sales, taken out of later payouts
+    mapping(address => mapping(uint256 => uint256)) internal outcomeStake; // totalInvested split by the outcome whose shares carry it
+    
+    // ============ Events ============
+    
+    event SharesPurchased(
+        address indexed buyer,
+        bool isYes,
+        uint256 shares,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event SharesSold(
+        address indexed seller,
+        bool isYes,
+        uint256 shares,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event OutcomePurchased(
+        address indexed buyer,
+        uint256 indexed outcome,
+        uint256 shares,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event OutcomeSold(
+        address indexed seller,
+        uint256 indexed outcome,
+        uint256 shares,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event MarketResolved(
+        bool winningOutcome,
+        uint256 totalPool,
+        uint256 timestamp
+    );
+    
+    event OutcomeResolved(
+        uint256 indexed outcome,
+        uint256 totalPool,
+        uint256 timestamp
+    );
+    
+    event ResolutionProposed(
+        uint256 indexed outcome,
+        uint256 disputeDeadline,
+        uint256 timestamp
+    );
+    
+    event ResolutionDisputed(
+        address indexed disputer,
+        uint256 bond,
+        uint256 timestamp
+    );
+    
+    event DisputeSettled(
+        address indexed disputer,
+        bool upheld,
+        uint256 bond,
+        uint256 timestamp
+    );
+    
+    event DisputeBondWithdrawn(
+        address indexed recipient,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event MarketInvalidated(
+        uint256 totalPool,
+        uint256 timestamp
+    );
+    
+    event RefundClaimed(
+        address indexed user,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event AttestationAccepted(
+        address indexed relayer,
+        uint256 indexed outcome,
+        uint256 nonce,
+        uint256 timestamp
+    );
+    
+    event FeesWithdrawn(
+        address indexed to,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event CreatorFeesClaimed(
+        address indexed creator,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event WinningsClaimed(
+        address indexed user,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event MarketCreated(
+        address indexed creator,
+        string question,
+        uint256 endTime
+    );
+    
+    event LiquidityAdded(
+        address indexed provider,
+        uint256 amount,
+        uint256 lpShares,
+        uint256 timestamp
+    );
+    
+    event LiquidityWithdrawn(
+        address indexed provider,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event OrdersMatched(
+        bytes32 indexed yesOrder,
+        bytes32 indexed noOrder,
+        uint256 shares,
+        uint256 yesCost,
+        uint256 timestamp
+    );
+    
+    event OrderCancelled(
+        bytes32 indexed orderHash,
+        uint256 timestamp
+    );
+    
+    event OrderDepositChanged(
+        address indexed maker,
+        uint256 balance,
+        uint256 timestamp
+    );
+    
+    event PositionSplit(
+        address indexed user,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event PositionsMerged(
+        address indexed user,
+        uint256 amount,
+        uint256 timestamp
+    );
+    
+    event TradingPaused(
+        bool paused,
+        uint256 timestamp
+    );
+    
+    event LimitsUpdated(
+        uint256 maxPerAddress,
+        uint256 maxPool
+    );
+    
+    event MarketClosedEarly(
+        uint256 eventTime,
+        uint256 timestamp
+    );
+    
+    event PurchaseReversed(
+        address indexed buyer,
+        uint256 indexed outcome,
+        uint256 shares,
+        uint256 refund,
+        uint256 timestamp
+    );
+    
+    event SaleReversed(
+        address indexed seller,
+        uint256 indexed outcome,
+        uint256 shares,
+        uint256 debt,
+        uint256 timestamp
+    );
+    
+    event TradeLogged(
+        bytes32 indexed head,
+        Trade trade
+    );
+    
+    // ============ Modifiers ============
+    
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner");
+        _;
+    }
+    
+    modifier onlyCreator() {
+        require(_msgSender() == creator, "Only creator");
+        _;
+    }
+    
+    // Checks live in internal functions so the modifiers don't inline them at every use
+    modifier marketOpen() {
+        _checkMarketOpen();
+        _;
+    }
+    
+    modifier marketEnded() {
+        _checkMarketEnded();
+        _;
+    }
+    
+    modifier marketResolved() {
+        require(isResolved, "Market not resolved");
+        _;
+    }
+    
+    modifier notResolved() {
+        require(!isResolved, "Market already resolved");
+        _;
+    }
+    
+    modifier validOutcome(uint256 _outcome) {
+        _checkOutcome(_outcome);
+        _;
+    }
+    
+    modifier validResolution(uint256 _outcome) {
+        require(_outcome < outcomeNames.length || _outcome == INVALID_OUTCOME, "Invalid outcome");
+        _;
+    }
+    
+    // ============ View Functions ============
+    
+    /**
+     * @notice Whether the market resolved INVALID and pays refunds instead of winnings
+     */
+    function isInvalid() public view returns (bool) {
+        return isResolved && winningOutcomeIndex == INVALID_OUTCOME;
+    }
+    
+    /**
+     * @notice Whether trading is halted, for this market alone or factory-wide
+     */
+    function isPaused() public view returns (bool) {
+        return paused || IPauseController(owner).paused();
+    }
+    
+    /**
+     * @notice Unix time trading stops, tradingCutoff before endTime
+     */
+    function tradingEndTime() public view returns (uint256) {
+        return endTime - tradingCutoff;
+    }
+    
+    /**
+     * @notice Whether an early close's event time still has to be confirmed, or the trades
+     *         made after it reversed (reverseLateTrades), before the market can be resolved
+     */
+    function lateTradesPending() public view returns (bool) {
+        return eventTimePending || lateTradeHead != bytes32(0);
+    }
+    
+    // ============ Internal Helpers ============
+    
+    /**
+     * @dev Splits a fee taken from winnings between the creator, liquidity providers and the owner
+     */
+    function _accrueFee(uint256 _fee) internal {
+        uint256 creatorCut = (_fee * creatorFeeShare) / BASIS_POINTS;
+        uint256 lpCut = (_fee * lpFeeShare) / BASIS_POINTS;
+        creatorFeesAccrued += creatorCut;
+        lpFeesAccrued += lpCut;
+        platformFeesAccrued += _fee - creatorCut - lpCut;
+    }
+    
+    /**
+     * @dev Stakes _amount for _user against their shares of _outcome, so it moves when they're transferred
+     */
+    function _stake(address _user, uint256 _outcome, uint256 _amount) internal {
+        outcomeStake[_user][_outcome] += _amount;
+        totalInvested[_user] += _amount;
+        totalStaked += _amount;
+    }
+    
+    /**
+     * @dev Unstakes up to _amount of _user's stake, taking it from _outcome first and then the others
+     */
+    function _unstake(address _user, uint256 _outcome, uint256 _amount) internal {
+        uint256 count = outcomeNames.length;
+        for (uint256 i = 0; i < count && _amount > 0; i++) {
+            uint256 outcome = (_outcome + i) % count;
+            uint256 held = outcomeStake[_user][outcome];
+            uint256 unstaked = _amount > held ? held : _amount;
+            outcomeStake[_user][outcome] = held - unstaked;
+            totalInvested[_user] -= unstaked;
+            totalStaked -= unstaked;
+            _amount -= unstaked;
+        }
+    }
+    
+    /**
+     * @dev Stakes (or unstakes) _amount spread evenly over every outcome, for positions holding all of them
+     */
+    function _stakeEvenly(address _user, uint256 _amount, bool _add) internal {
+        uint256 count = outcomeNames.length;
+        for (uint256 i = 0; i < count; i++) {
+            uint256 part = i == 0 ? _amount - (_amount / count) * (count - 1) : _amount / count;
+            if (_add) _stake(_user, i, part);
+            else _unstake(_user, i, part);
+        }
+    }
+    
+    /**
+     * @dev Logs a trade on tradeLogHead so an early close can reverse it
+     */
+    function _logTrade(address _trader, bool _isSale, uint256 _outcome, uint256 _shares, uint256 _amount) internal {
+        Trade memory trade = Trade(
+            tradeLogHead,
+            _trader,
+            _isSale,
+            uint32(_outcome),
+            uint64(block.timestamp),
+            uint128(_shares),
+            uint128(_amount)
+        );
+        tradeLogHead = keccak256(abi.encode(trade));
+        emit TradeLogged(tradeLogHead, trade);
+    }
+    
+    /**
+     * @dev Takes what _user owes for reversed sales out of a payout of _amount. The part
+     *      taken, which is returned, stays in the pool to back the shares the reversal
+     *      handed back, since the seller never paid for them.
+     */
+    function _collectDebt(address _user, uint256 _amount) internal returns (uint256 collected) {
+        collected = lateTradeDebt[_user] > _amount ? _amount : lateTradeDebt[_user];
+        if (collected == 0) return 0;
+        lateTradeDebt[_user] -= collected;
+    }
+    
+    /**
+     * @dev Takes _amount of collateral from the caller: msg.value on ETH markets, transferFrom on token markets
+     */
+    function _collect(uint256 _amount) internal {
+        if (collateral == address(0)) {
+            require(msg.value == _amount, "Wrong value");
+        } else {
+            require(msg.value == 0, "Token market");
+            _callToken(abi.encodeCall(IERC20Collateral.transferFrom, (_msgSender(), address(this), _amount)));
+        }
+    }
+    
+    /**
+     * @dev Sends collateral (ETH or the token) out of the market
+     */
+    function _pay(address _to, uint256 _amount) internal {
+        if (collateral == address(0)) {
+            (bool success, ) = payable(_to).call{value: _amount}("");
+            require(success, "Transfer failed");
+        } else {
+            _callToken(abi.encodeCall(IERC20Collateral.transfer, (_to, _amount)));
+        }
+    }
+    
+    /**
+     * @dev Calls the collateral token, accepting tokens that return nothing instead of true
+     */
+    function _callToken(bytes memory _data) internal {
+        (bool success, bytes memory result) = collateral.call(_data);
+        require(success && (result.length == 0 || abi.decode(result, (bool))), "Transfer failed");
+    }
+    
+    /**
+     * @dev Reports a mint (from = 0) or burn (to = 0) to the outcome token, if any
+     */
+    function _logTransfer(address _from, address _to, uint256 _outcome, uint256 _amount) internal {
+        if (outcomeToken != address(0)) {
+            IOutcomeToken(outcomeToken).emitTransfer(_from, _to, _outcome, _amount);
+        }
+    }
+    
+    function _checkMarketOpen() internal view {
+        require(block.timestamp < tradingEndTime(), "Market closed");
+        require(!isResolved, "Market resolved");
+        require(!isPaused(), "Trading paused");
+    }
+    
+    function _checkMarketEnded() internal view {
+        require(block.timestamp >= endTime, "Market not ended");
+        require(!lateTradesPending(), "Late trades pending");
+    }
+    
+    function _checkOutcome(uint256 _outcome) internal view {
+        require(_outcome < outcomeNames.length, "Invalid outcome");
+    }
+    
+    function _isBinary() internal view returns (bool) {
+        return outcomeNames.length == 2;
+    }
+    
+    /**
+     * @dev Maps the YES/NO API onto outcome indices, which only makes sense for binary markets
+     */
+    function _outcomeIndex(bool _isYes) internal view returns (uint256) {
+        require(_isBinary(), "Not a binary market");
+        return _isYes ? 0 : 1;
+    }
+    
+    function _recoverSigner(bytes32 _digest, bytes calldata _signature) internal pure returns (address) {
+        require(_signature.length == 65, "Invalid signature");
+        
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := calldataload(_signature.offset)
+            s := calldataload(add(_signature.offset, 32))
+            v := byte(0, calldataload(add(_signature.offset, 64)))
+        }
+        // Only accept the lower-s form so a signature has a single valid encoding
+        require(uint256(s) <= 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0, "Invalid signature");
+        
+        return ecrecover(_digest, v, r, s);
+    }
+}
@@ -0,0 +1,377 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./PredictionMarketBase.sol";
+
+/**
+ * @title PredictionMarketExtension
+ * @notice Liquidity provision, trading limits, early close and the limit order book of PredictionMarket
+ * @dev Markets reach these functions through their fallback, which delegatecalls
+ *      here: they run on the market's storage and their events come from the
+ *      market. Keeping them out of PredictionMarket keeps it under the 24KB
+ *      contract size limit. Called directly, the extension only sees its own
+ *      empty storage.
+ */
+contract PredictionMarketExtension is PredictionMarketBase {
+    bytes32 public constant ORDER_TYPEHASH =
+        keccak256("Order(address maker,uint256 outcome,uint256 price,uint256 shares,uint256 nonce,uint256 expiry)");
+    
+    // ============ Liquidity ============
+    
+    /**
+     * @notice Deepen the market maker with more collateral, in return for LP shares
+     * @dev Scales b and every outcome's outstanding shares by (cost + _amount) / cost,
+     *      which keeps prices where they are and the market maker solvent. The extra
+     *      outcome shares go to the provider, who breaks even if nobody trades after them.
+     *      The part of _amount backing those shares is staked like a trade (refunded if
+     *      the market is voided), the rest is subsidy. Liquidity stays in the market
+     *      until it resolves, since it covers the market maker's worst-case loss.
+     * @param _amount Collateral to add (msg.value on ETH markets)
+     */
+    function addLiquidity(uint256 _amount) external payable marketOpen {
+        address provider = _msgSender();
+        require(_amount >= minAmount, "Below minimum");
+        _collect(_amount);
+        
+        uint256 cost = LMSRMath.cost(outcomeTotals, liquidityParameter);
+        for (uint256 i = 0; i < outcomeNames.length; i++) {
+            uint256 shares = (outcomeTotals[i] * _amount) / cost;
+            if (shares == 0) continue;
+            outcomeShares[provider][i] += shares;
+            outcomeTotals[i] += shares;
+            _logTransfer(address(0), provider, i, shares);
+        }
+        liquidityParameter += (liquidityParameter * _amount) / cost;
+        
+        uint256 subsidyAdded = (subsidy * _amount) / cost;
+        if (subsidyAdded > _amount) subsidyAdded = _amount;
+        subsidy += subsidyAdded;
+        _stakeEvenly(provider, _amount - subsidyAdded, true);
+        totalPool += _amount - subsidyAdded;
+        
+        uint256 minted = (totalLpShares * _amount) / cost;
+        lpShares[provider] += minted;
+        totalLpShares += minted;
+        
+        emit LiquidityAdded(provider, _amount, minted, block.timestamp);
+    }
+    
+    /**
+     * @notice Withdraw the caller's share of leftover liquidity and LP fees after resolution
+     * @dev Leftover liquidity, everything above the gross payout owed to winning shares
+     *      (or the whole pool, for refunds), is paid once. LP fees keep accruing as
+     *      winners claim, so calling again collects the new ones.
+     */
+    function withdrawLiquidity() external marketResolved {
+        address provider = _msgSender();
+        require(lpShares[provider] > 0, "No liquidity");
+        uint256 amount = getWithdrawableLiquidity(provider);
+        require(amount > 0, "Already withdrawn");
+        
+        lpFeesPaid[provider] = (lpFeesAccrued * lpShares[provider]) / totalLpShares;
+        liquidityWithdrawn[provider] = true;
+        
+        _pay(provider, amount);
+        
+        emit LiquidityWithdrawn(provider, amount, block.timestamp);
+    }
+    
+    /**
+     * @notice What withdrawLiquidity would pay a provider now (0 before resolution)
+     */
+    function getWithdrawableLiquidity(address _provider) public view returns (uint256 amount) {
+        if (!isResolved || lpShares[_provider] == 0) return 0;
+        amount = (lpFeesAccrued * lpShares[_provider]) / totalLpShares - lpFeesPaid[_provider];
+        
+        if (!liquidityWithdrawn[_provider]) {
+            uint256 reserved = isInvalid() ? totalPool : outcomeTotals[winningOutcomeIndex];
+            uint256 funds = totalPool + subsidy;
+            if (funds > reserved) amount += ((funds - reserved) * lpShares[_provider]) / totalLpShares;
+        }
+    }
+    
+    // ============ Disputes ============
+    
+    /**
+     * @notice Collect the dispute bonds credited to you when disputes were settled
+     */
+    function withdrawDisputeBond() external {
+        address recipient = _msgSender();
+        uint256 amount = disputeBondsOwed[recipient];
+        require(amount > 0, "No bond");
+        disputeBondsOwed[recipient] = 0;
+        
+        (bool success, ) = payable(recipient).call{value: amount}("");
+        require(success, "Transfer failed");
+        
+        emit DisputeBondWithdrawn(recipient, amount, block.timestamp);
+    }
+    
+    // ============ Trading Limits ============
+    
+    /**
+     * @notice Cap buys from the market maker per address and for the whole pool (creator only)
+     * @dev Caps count collateral staked (totalInvested and totalPool), 0 removes a cap.
+     *      Once trading has started caps can only be raised or removed, so the creator
+     *      can't shut other traders out mid-market. Order fills and complete sets,
+     *      which don't move prices, aren't capped.
+     * @param _maxPerAddress Most any one address may have staked
+     * @param _maxPool Most the pool may hold
+     */
+    function setLimits(uint256 _maxPerAddress, uint256 _maxPool) external onlyCreator marketOpen {
+        if (totalPool > 0) {
+            require(_raisesCap(maxPerAddress, _maxPerAddress) && _raisesCap(maxPool, _maxPool), "Limits can only be raised");
+        }
+        maxPerAddress = _maxPerAddress;
+        maxPool = _maxPool;
+        
+        emit LimitsUpdated(_maxPerAddress, _maxPool);
+    }
+    
+    /**
+     * @notice The market's caps and how much `_user` and the pool can still buy
+     * @return perAddress Cap per address (0 for none)
+     * @return pool Cap on the pool (0 for none)
+     * @return userHeadroom What `_user` can still stake (type(uint256).max when uncapped)
+     * @return poolHeadroom What the pool can still take (type(uint256).max when uncapped)
+     */
+    function getLimits(address _user) external view returns (
+        uint256 perAddress,
+        uint256 pool,
+        uint256 userHeadroom,
+        uint256 poolHeadroom
+    ) {
+        perAddress = maxPerAddress;
+        pool = maxPool;
+        userHeadroom = _headroom(perAddress, totalInvested[_user]);
+        poolHeadroom = _headroom(pool, totalPool);
+    }
+    
+    function _raisesCap(uint256 _current, uint256 _next) internal pure returns (bool) {
+        return _next == 0 || (_current != 0 && _next >= _current);
+    }
+    
+    function _headroom(uint256 _cap, uint256 _used) internal pure returns (uint256) {
+        if (_cap == 0) return type(uint256).max;
+        return _cap > _used ? _cap - _used : 0;
+    }
+    
+    // ============ Early Close ============
+    
+    /**
+     * @notice End the market now because its event already happened (creator, resolver or owner)
+     * @dev Moves endTime to now so the market can be resolved, and marks every trade
+     *      logged at or after _eventTime for reversal. Until reverseLateTrades has
+     *      undone them, the market can't be resolved. Only the resolver or the owner
+     *      can place the event in the past on their own: an earlier _eventTime from
+     *      the creator waits for one of them to confirm (or correct) it by calling
+     *      closeEarly again.
+     * @param _eventTime Unix time the event happened, at most LATE_TRADE_WINDOW before the close
+     */
+    function closeEarly(uint256 _eventTime) external notResolved {
+        address caller = _msgSender();
+        bool trusted = caller == resolver || caller == owner;
+        require(trusted || caller == creator, "Not authorized");
+        if (eventTime == 0) {
+            require(block.timestamp < endTime, "Market already ended");
+            endTime = block.timestamp;
+            tradingCutoff = 0;
+        } else {
+            require(trusted && eventTimePending, "Already closed");
+        }
+        require(_eventTime <= endTime && _eventTime + LATE_TRADE_WINDOW >= endTime, "Invalid event time");
+        
+        eventTime = _eventTime;
+        eventTimePending = !trusted && _eventTime < endTime;
+        if (!eventTimePending) lateTradeHead = tradeLogHead;
+        
+        emit MarketClosedEarly(_eventTime, endTime);
+    }
+    
+    /**
+     * @notice Reverse the trades made after the event, newest first
+     * @dev Anyone can call this until lateTradesPending() is false, passing the trades
+     *      from the TradeLogged events, newest first, starting at lateTradeHead. The
+     *      walk ends at the first trade from before the event, which has to be passed too.
+     *      A buy or order fill is sold back to the market maker for the lesser of its
+     *      cost and the current sale price, and the refund credited to lateTradeRefunds.
+     *      A sale is bought back for its proceeds: the seller gets back as many of the
+     *      shares as the proceeds buy now, and owes the proceeds in lateTradeDebt.
+     *      Shares the buyer merged or transferred before the close are out of reach, so
+     *      only what they still hold is reversed. Splits and merges swap collateral for
+     *      complete sets 1:1 whatever the result, so they aren't logged.
+     */
+    function reverseLateTrades(Trade[] calldata _trades) external {
+        require(!eventTimePending, "Event time unconfirmed");
+        require(lateTradeHead != bytes32(0), "No late trades");
+        
+        for (uint256 i = 0; i < _trades.length && lateTradeHead != bytes32(0); i++) {
+            Trade calldata trade = _trades[i];
+            require(keccak256(abi.encode(trade)) == lateTradeHead, "Unknown trade");
+            if (trade.timestamp < eventTime) {
+                lateTradeHead = bytes32(0);
+            } else {
+                if (trade.isSale) _reverseSale(trade);
+                else _reversePurchase(trade);
+                lateTradeHead = trade.previous;
+            }
+        }
+    }
+    
+    /**
+     * @notice Collect the refunds of your reversed purchases, less what your reversed sales owe
+     */
+    function withdrawLateTradeRefund() external {
+        address buyer = _msgSender();
+        uint256 amount = lateTradeRefunds[buyer];
+        require(amount > 0, "No refund");
+        lateTradeRefunds[buyer] = 0;
+        // The refund already left the pool, so the debt taken from it goes back in
+        uint256 debt = _collectDebt(buyer, amount);
+        totalPool += debt;
+        amount -= debt;
+        _pay(buyer, amount);
+        emit RefundClaimed(buyer, amount, block.timestamp);
+    }
+    
+    function _reversePurchase(Trade calldata _trade) internal {
+        address buyer = _trade.trader;
+        uint256 held = outcomeShares[buyer][_trade.outcome];
+        uint256 shares = held < _trade.shares ? held : _trade.shares;
+        if (shares == 0) return;
+        
+        uint256 refund = LMSRMath.proceedsOfShares(outcomeTotals, liquidityParameter, _trade.outcome, shares);
+        uint256 cost = (uint256(_trade.amount) * shares) / _trade.shares;
+        if (refund > cost) refund = cost;
+        if (refund > totalPool) refund = totalPool;
+        
+        outcomeShares[buyer][_trade.outcome] -= shares;
+        outcomeTotals[_trade.outcome] -= shares;
+        _logTransfer(buyer, address(0), _trade.outcome, shares);
+        
+        _unstake(buyer, _trade.outcome, refund);
+        totalPool -= refund;
+        lateTradeRefunds[buyer] += refund;
+        
+        emit PurchaseReversed(buyer, _trade.outcome, shares, refund, block.timestamp);
+    }
+    
+    /**
+     * @dev The shares cost no more than the debt now. The debt is taken out of the seller's
+     *      late trade refund, winnings or INVALID refund and left in the pool, so the pool
+     *      stays solvent
+     */
+    function _reverseSale(Trade calldata _trade) internal {
+        address seller = _trade.trader;
+        uint256 shares = LMSRMath.sharesForCost(outcomeTotals, liquidityParameter, _trade.outcome, _trade.amount);
+        if (shares > _trade.shares) shares = _trade.shares;
+        
+        outcomeShares[seller][_trade.outcome] += shares;
+        outcomeTotals[_trade.outcome] += shares;
+        _logTransfer(address(0), seller, _trade.outcome, shares);
+        lateTradeDebt[seller] += _trade.amount;
+        
+        emit SaleReversed(seller, _trade.outcome, shares, _trade.amount, block.timestamp);
+    }
+    
+    // ============ Order Settlement ============
+    
+    /**
+     * @notice Fill a signed YES bid against a signed NO bid for `_shares` shares each
+     * @dev Anyone (e.g. the matching engine) can submit a crossing pair. The makers split
+     *      one unit of collateral per share at the midpoint of their prices, so neither
+     *      pays more than their limit.
+     */
+    function matchOrders(
+        Order calldata _yes,
+        bytes calldata _yesSignature,
+        Order calldata _no,
+        bytes calldata _noSignature,
+        uint256 _shares
+    ) external marketOpen {
+        require(_isBinary(), "Not a binary market");
+        require(_yes.outcome == 0 && _no.outcome == 1, "Outcome mismatch");
+        require(_yes.price + _no.price >= LMSRMath.WAD, "Prices don't cross");
+        require(_shares > 0, "Must buy at least 1 share");
+        
+        bytes32 yesHash = _fillOrder(_yes, _yesSignature, _shares);
+        bytes32 noHash = _fillOrder(_no, _noSignature, _shares);
+        
+        uint256 yesCost = (_shares * (_yes.price + LMSRMath.WAD - _no.price)) / (2 * LMSRMath.WAD);
+        _mintForOrder(_yes.maker, 0, _shares, yesCost);
+        _mintForOrder(_no.maker, 1, _shares, _shares - yesCost);
+        totalPool += _shares;
+        
+        emit OrdersMatched(yesHash, noHash, _shares, yesCost, block.timestamp);
+    }
+    
+    /**
+     * @notice Cancel one of your orders so it can no longer be filled
+     */
+    function cancelOrder(Order calldata _order) external {
+        require(_msgSender() == _order.maker, "Not order maker");
+        bytes32 hash = orderHash(_order);
+        orderFilled[hash] = _order.shares;
+        emit OrderCancelled(hash, block.timestamp);
+    }
+    
+    /**
+     * @notice Add ETH that your filled orders are paid from (ETH markets only)
+     */
+    function depositForOrders() external payable {
+        require(collateral == address(0), "Token market");
+        address maker = _msgSender();
+        orderDeposits[maker] += msg.value;
+        emit OrderDepositChanged(maker, orderDeposits[maker], block.timestamp);
+    }
+    
+    function withdrawOrderDeposit(uint256 _amount) external {
+        address maker = _msgSender();
+        require(orderDeposits[maker] >= _amount, "Insufficient deposit");
+        orderDeposits[maker] -= _amount;
+        _pay(maker, _amount);
+        emit OrderDepositChanged(maker, orderDeposits[maker], block.timestamp);
+    }
+    
+    /**
+     * @notice EIP-712 digest a maker signs for an order on this market
+     */
+    function orderHash(Order calldata _order) public view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256("PredictionMarket"),
+                keccak256("1"),
+                block.chainid,
+                address(this)
+            )
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, keccak256(abi.encode(ORDER_TYPEHASH, _order))));
+    }
+    
+    function _fillOrder(Order calldata _order, bytes calldata _signature, uint256 _shares) internal returns (bytes32 hash) {
+        require(block.timestamp <= _order.expiry, "Order expired");
+        hash = orderHash(_order);
+        require(_order.maker != address(0) && _recoverSigner(hash, _signature) == _order.maker, "Invalid signature");
+        require(orderFilled[hash] + _shares <= _order.shares, "Order overfilled");
+        orderFilled[hash] += _shares;
+    }
+    
+    /**
+     * @dev Takes a maker's payment (deposit or token allowance) and credits their shares
+     */
+    function _mintForOrder(address _maker, uint256 _outcome, uint256 _shares, uint256 _cost) internal {
+        if (collateral == address(0)) {
+            require(orderDeposits[_maker] >= _cost, "Insufficient deposit");
+            orderDeposits[_maker] -= _cost;
+        } else {
+            _callToken(abi.encodeCall(IERC20Collateral.transferFrom, (_maker, address(this), _cost)));
+        }
+        
+        outcomeShares[_maker][_outcome] += _shares;
+        outcomeTotals[_outcome] += _shares;
+        _stake(_maker, _outcome, _cost);
+        _logTransfer(address(0), _maker, _outcome, _shares);
+        _logTrade(_maker, false, _outcome, _shares, _cost);
+    }
+}
@@ -2,19 +2,134 @@
 pragma solidity ^0.8.19;
 
 import "./PredictionMarket.sol";
+import "./PredictionMarketExtension.sol";
+import "./AccessControl.sol";
+
+interface IScalarMarketDeployer {
+    function deploy(
+        address _creator,
+        string calldata _question,
+        string calldata _description,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff,
+        int256 _lowerBound,
+        int256 _upperBound
+    ) external payable returns (address);
+}
+
+interface IScalarMarket {
+    function emergencyResolve(int256 _value) external;
+}
+
+/**
+ * @dev Lifecycle filter for getMarketsByStatus
+ */
+enum MarketStatus {
+    Open, // Trading, before the trading cutoff
+    Ended, // Trading closed, awaiting resolution
+    Resolved
+}
+
+/**
+ * @dev Off-chain details recorded with each market, so the database can be rebuilt from chain
+ */
+struct MarketMetadata {
+    string category;
+    string resolutionSource; // URL the outcome is resolved from
+    address genLayerResolver; // GenLayer intelligent contract that resolves the market, 0 if none
+    bytes32 contentHash; // keccak256 of the market's canonical metadata, checked against the database row
+}
+
+/**
+ * @dev One market's state as returned by getMarketSummaries
+ */
+struct MarketSummary {
+    address market;
+    string question;
+    uint256 endTime;
+    uint256 totalPool;
+    address collateral; // ERC-20 the pool is in, 0 for ETH
+    uint256[] outcomeTotals; // Shares per outcome (empty for scalar markets)
+    bool isResolved;
+    uint256 winningOutcome; // Outcome index once resolved (INVALID_OUTCOME if voided, 0 for scalar markets)
+}
+
+/**
+ * @dev An emergency resolution waiting out the timelock
+ */
+struct EmergencyResolution {
+    uint256 outcome; // Outcome index, INVALID_OUTCOME to void, or a scalar market's int256 value
+    uint256 executableAt; // 0 when nothing is scheduled
+}
 
 /**
  * @title PredictionMarketFactory
  * @notice Factory contract to deploy new prediction markets
- * @dev Deployed on Base Sepolia for testing
+ * @dev Deployed on Base Sepolia for testing. YES/NO and categorical markets are
+ *      EIP-1167 minimal-proxy clones of the active PredictionMarket implementation.
+ *      Implementations are registered under their marketVersion(), so a new version
+ *      only affects markets created after it is activated.
+ *
+ *      Permissions are roles: ADMIN_ROLE changes settings, manages roles and
+ *      withdraws fees, RESOLVER_ROLE settles disputes and emergency-resolves markets
+ *      after the emergencyDelay timelock, and PAUSER_ROLE halts trading on one
+ *      market or, by pausing the factory, on every market and new creations.
+ *      The deployer starts with all three.
+ *
+ *      Creating markets and batch claims accept meta-transactions from trustedForwarder,
+ *      which new markets also trust for trading. Admin functions need a direct call.
  */
-contract PredictionMarketFactory {
+contract PredictionMarketFactory is AccessControl, ERC2771Recipient {
     // ============ State Variables ============
     
-    address public owner;
+    bytes32 public constant RESOLVER_ROLE = keccak256("RESOLVER_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    
     uint256 public marketCount;
     uint256 public creationFee;
     
+    // Dispute settings given to each new PredictionMarket
+    uint256 public disputePeriod;
+    uint256 public disputeBond;
+    uint256 public constant MAX_DISPUTE_PERIOD = 30 days;
+    
+    // Oracle given to each new PredictionMarket, signs GenLayer outcomes for the relayer
+    address public resolver;
+    
+    // Fee on winnings for new markets and the creator's and liquidity providers' cuts of it (basis points)
+    uint256 public platformFee;
+    uint256 public creatorFeeShare;
+    uint256 public lpFeeShare;
+    uint256 public constant MAX_PLATFORM_FEE = 1000; // 10%
+    uint256 public constant BASIS_POINTS = 10000;
+    
+    // Most markets getMarketsByStatus inspects per call, so it stays within eth_call gas limits
+    uint256 public constant MAX_STATUS_SCAN = 500;
+    
+    // Halts trading on every market and new market creation
+    bool public paused;
+    
+    // Wait between scheduling and executing an emergency resolution
+    uint256 public emergencyDelay;
+    uint256 public constant MIN_EMERGENCY_DELAY = 1 hours;
+    uint256 public constant MAX_EMERGENCY_DELAY = 30 days;
+    mapping(address => EmergencyResolution) public emergencyResolutions;
+    
+    // ERC-20 tokens markets may use as collateral instead of ETH
+    mapping(address => bool) public isCollateralAllowed;
+    
+    // Shared ERC-1155 that makes new markets' shares transferable (0 for none)
+    address public outcomeToken;
+    
+    // PredictionMarket implementations by marketVersion(), and the one new markets clone
+    mapping(uint256 => address) public implementations;
+    uint256 public activeVersion;
+    
+    // Deploys ScalarMarket contracts (kept separate to stay under the size limit)
+    address public scalarDeployer;
+    mapping(address => bool) public isScalarMarket;
+    
     // Array of all deployed markets
     address[] public markets;
     
@@ -24,6 +139,12 @@ contract PredictionMarketFactory {
     // Mapping from creator to their markets
     mapping(address => address[]) public marketsByCreator;
     
+    // Markets deployed by this factory
+    mapping(address => bool) public isMarket;
+    
+    // Category, resolution source, resolver and content hash each market was created with
+    mapping(address => MarketMetadata) public marketMetadata;
+    
     // ============ Events ============
     
     event MarketCreated(
@@ -31,77 +152,321 @@ contract PredictionMarketFactory {
         address indexed marketAddress,
         address indexed creator,
         string question,
-        uint256 endTime
+        uint256 endTime,
+        string category,
+        string resolutionSource,
+        address genLayerResolver,
+        bytes32 contentHash
+    );
+    
+    event CategoricalMarketCreated(
+        uint256 indexed marketId,
+        address indexed marketAddress,
+        string[] outcomes
+    );
+    
+    event ScalarMarketCreated(
+        uint256 indexed marketId,
+        address indexed marketAddress,
+        int256 lowerBound,
+        int256 upperBound
+    );
+    
+    event CollateralMarketCreated(
+        uint256 indexed marketId,
+        address indexed marketAddress,
+        address indexed collateral,
+        uint256 liquidity
     );
     
+    event ImplementationRegistered(uint256 indexed version, address implementation);
+    
+    event ActiveVersionUpdated(uint256 oldVersion, uint256 newVersion);
+    
+    event ScalarDeployerUpdated(address oldDeployer, address newDeployer);
+    
     event CreationFeeUpdated(uint256 oldFee, uint256 newFee);
     
+    event DisputeConfigUpdated(uint256 disputePeriod, uint256 disputeBond);
+    
+    event ResolverUpdated(address oldResolver, address newResolver);
+    
+    event FeeConfigUpdated(uint256 platformFee, uint256 creatorFeeShare, uint256 lpFeeShare);
+    
     event FeesWithdrawn(address indexed owner, uint256 amount);
     
-    // ============ Modifiers ============
+    event TokenFeesWithdrawn(address indexed token, address indexed owner, uint256 amount);
     
-    modifier onlyOwner() {
-        require(msg.sender == owner, "Only owner");
-        _;
-    }
+    event CollateralUpdated(address indexed token, bool allowed);
+    
+    event OutcomeTokenUpdated(address oldToken, address newToken);
+    
+    event TrustedForwarderUpdated(address oldForwarder, address newForwarder);
+    
+    event PauseUpdated(bool paused);
+    
+    event EmergencyDelayUpdated(uint256 oldDelay, uint256 newDelay);
+    
+    event EmergencyResolutionScheduled(address indexed market, uint256 outcome, uint256 executableAt);
+    
+    event EmergencyResolutionCancelled(address indexed market);
+    
+    event EmergencyResolutionExecuted(address indexed market, uint256 outcome);
     
     // ============ Constructor ============
     
     constructor() {
-        owner = msg.sender;
+        _grantRole(ADMIN_ROLE, msg.sender);
+        _grantRole(RESOLVER_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        emergencyDelay = 2 days;
         creationFee = 0; // Free for testnet
+        disputePeriod = 1 days;
+        disputeBond = 0.01 ether;
+        platformFee = 200; // 2%
+        creatorFeeShare = 2500; // 25% of fees go to the market creator
+        lpFeeShare = 2500; // 25% of fees go to the market's liquidity providers
     }
     
     // ============ Market Creation ============
     
     /**
-     * @notice Create a new prediction market
+     * @notice Create a new YES/NO prediction market
+     * @dev Any ETH sent above the creation fee seeds the market maker's liquidity
      * @param _question The market question
      * @param _description Additional description
-     * @param _durationDays How long the market is open (in days)
+     * @param _metadata Category, resolution source, GenLayer resolver and content hash, see MarketMetadata
+     * @param _endTime Unix time trading stops (at most a year out)
+     * @param _resolutionDeadline Unix time after which an unresolved market can be voided
+     *        (after _endTime, at most a year later)
+     * @param _tradingCutoff Seconds before _endTime that trading stops, e.g. so nobody can
+     *        trade on the news of an event at _endTime (0 trades until the end)
      */
     function createMarket(
         string calldata _question,
         string calldata _description,
-        uint256 _durationDays
+        MarketMetadata calldata _metadata,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff
     ) external payable returns (address marketAddress, uint256 marketId) {
-        require(msg.value >= creationFee, "Insufficient fee");
-        require(bytes(_question).length > 0, "Empty question");
-        require(_durationDays > 0 && _durationDays <= 365, "Invalid duration");
+        string[] memory outcomes = new string[](2);
+        outcomes[0] = "Yes";
+        outcomes[1] = "No";
+        
+        return _createMarket(_question, _description, _metadata, _endTime, _resolutionDeadline, _tradingCutoff, outcomes, _marketConfig(address(0), 0));
+    }
+    
+    /**
+     * @notice Create a categorical market with 3-20 named outcomes
+     * @dev Any ETH sent above the creation fee seeds the market maker's liquidity
+     * @param _outcomes Outcome names, in index order
+     */
+    function createCategoricalMarket(
+        string calldata _question,
+        string calldata _description,
+        MarketMetadata calldata _metadata,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff,
+        string[] calldata _outcomes
+    ) external payable returns (address marketAddress, uint256 marketId) {
+        require(_outcomes.length >= 3, "Need at least 3 outcomes");
+        
+        (marketAddress, marketId) = _createMarket(_question, _description, _metadata, _endTime, _resolutionDeadline, _tradingCutoff, _outcomes, _marketConfig(address(0), 0));
         
-        // Deploy new market contract
-        PredictionMarket newMarket = new PredictionMarket(
-            msg.sender,
+        emit CategoricalMarketCreated(marketId, marketAddress, _outcomes);
+    }
+    
+    /**
+     * @notice Create a YES/NO or categorical market that settles in an ERC-20 token
+     * @dev Pulls _liquidity from the caller (approve the factory first); msg.value only covers the creation fee
+     * @param _outcomes Outcome names, in index order (["Yes", "No"] for a YES/NO market)
+     * @param _collateral Token allowed with setCollateralAllowed, e.g. USDC
+     * @param _liquidity Collateral seeding the market maker
+     */
+    function createMarketWithCollateral(
+        string calldata _question,
+        string calldata _description,
+        MarketMetadata calldata _metadata,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff,
+        string[] calldata _outcomes,
+        address _collateral,
+        uint256 _liquidity
+    ) external payable returns (address marketAddress, uint256 marketId) {
+        require(isCollateralAllowed[_collateral], "Collateral not allowed");
+        
+        (marketAddress, marketId) = _createMarket(_question, _description, _metadata, _endTime, _resolutionDeadline, _tradingCutoff, _outcomes, _marketConfig(_collateral, _liquidity));
+        
+        emit CollateralMarketCreated(marketId, marketAddress, _collateral, _liquidity);
+    }
+    
+    /**
+     * @notice Create a scalar (range) market with LONG/SHORT shares
+     * @dev Any ETH sent above the creation fee seeds the market maker's liquidity.
+     *      Bounds are 18-decimal fixed point (1e18 = 1.0).
+     * @param _lowerBound Value at which SHORT pays out in full
+     * @param _upperBound Value at which LONG pays out in full
+     */
+    function createScalarMarket(
+        string calldata _question,
+        string calldata _description,
+        MarketMetadata calldata _metadata,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff,
+        int256 _lowerBound,
+        int256 _upperBound
+    ) external payable returns (address marketAddress, uint256 marketId) {
+        require(scalarDeployer != address(0), "Scalar markets disabled");
+        require(_upperBound > _lowerBound, "Invalid bounds");
+        // No liquidity local here either, see _createMarket
+        _validateCreation(_question, _endTime, _resolutionDeadline, _tradingCutoff);
+        
+        marketAddress = IScalarMarketDeployer(scalarDeployer).deploy{value: msg.value - creationFee}(
+            _msgSender(),
             _question,
             _description,
-            _durationDays
+            _endTime,
+            _resolutionDeadline,
+            _tradingCutoff,
+            _lowerBound,
+            _upperBound
         );
+        marketId = _registerMarket(marketAddress, _question, _metadata, _endTime);
+        isScalarMarket[marketAddress] = true;
         
-        marketAddress = address(newMarket);
+        emit ScalarMarketCreated(marketId, marketAddress, _lowerBound, _upperBound);
+    }
+    
+    function _createMarket(
+        string calldata _question,
+        string calldata _description,
+        MarketMetadata calldata _metadata,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff,
+        string[] memory _outcomes,
+        MarketConfig memory _config
+    ) internal returns (address marketAddress, uint256 marketId) {
+        require(implementations[activeVersion] != address(0), "Markets disabled");
+        // The liquidity (msg.value above the fee) isn't kept in a local, to stay within the stack limit
+        _validateCreation(_question, _endTime, _resolutionDeadline, _tradingCutoff);
+        require(_config.collateral == address(0) || msg.value == creationFee, "Liquidity is paid in collateral");
+        
+        // Clone the active implementation and initialize it, funding its market maker
+        marketAddress = _clone(implementations[activeVersion]);
+        PredictionMarket(payable(marketAddress)).initialize{value: msg.value - creationFee}(
+            _msgSender(),
+            _question,
+            _description,
+            _endTime,
+            _resolutionDeadline,
+            _tradingCutoff,
+            _outcomes,
+            _config
+        );
+        if (_config.collateral != address(0)) {
+            require(IERC20Collateral(_config.collateral).transferFrom(_msgSender(), marketAddress, _config.tokenLiquidity), "Transfer failed");
+        }
+        marketId = _registerMarket(marketAddress, _question, _metadata, _endTime);
+        
+        return (marketAddress, marketId);
+    }
+    
+    /**
+     * @dev Deploys an EIP-1167 minimal proxy that delegates every call to _implementation
+     */
+    function _clone(address _implementation) internal returns (address instance) {
+        assembly {
+            mstore(0x00, or(shr(0xe8, shl(0x60, _implementation)), 0x3d602d80600a3d3981f3363d3d373d3d3d363d73000000))
+            mstore(0x20, or(shl(0x78, _implementation), 0x5af43d82803e903d91602b57fd5bf3))
+            instance := create(0, 0x09, 0x37)
+        }
+        require(instance != address(0), "Clone failed");
+    }
+    
+    /**
+     * @dev Settings handed to each new market, from the factory's current config
+     */
+    function _marketConfig(address _collateral, uint256 _tokenLiquidity) internal view returns (MarketConfig memory) {
+        return MarketConfig(
+            address(this),
+            disputePeriod,
+            disputeBond,
+            resolver,
+            platformFee,
+            creatorFeeShare,
+            lpFeeShare,
+            _collateral,
+            _tokenLiquidity,
+            outcomeToken,
+            trustedForwarder
+        );
+    }
+    
+    /**
+     * @dev Checks the common creation params. The liquidity is msg.value minus the fee.
+     */
+    function _validateCreation(
+        string calldata _question,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff
+    ) internal view {
+        require(!paused, "Factory paused");
+        require(msg.value >= creationFee, "Insufficient fee");
+        require(bytes(_question).length > 0, "Empty question");
+        require(_endTime > block.timestamp && _endTime <= block.timestamp + 365 days, "Invalid end time");
+        require(_resolutionDeadline > _endTime && _resolutionDeadline <= _endTime + 365 days, "Invalid deadline");
+        require(_tradingCutoff < _endTime - block.timestamp, "Invalid cutoff");
+    }
+    
+    function _registerMarket(
+        address _marketAddress,
+        string calldata _question,
+        MarketMetadata calldata _metadata,
+        uint256 _endTime
+    ) internal returns (uint256 marketId) {
         marketId = marketCount;
         
         // Store market
-        markets.push(marketAddress);
-        marketById[marketId] = marketAddress;
-        marketsByCreator[msg.sender].push(marketAddress);
+        markets.push(_marketAddress);
+        marketById[marketId] = _marketAddress;
+        marketsByCreator[_msgSender()].push(_marketAddress);
+        isMarket[_marketAddress] = true;
+        marketMetadata[_marketAddress] = _metadata;
         
         marketCount++;
         
         emit MarketCreated(
             marketId,
-            marketAddress,
-            msg.sender,
+            _marketAddress,
+            _msgSender(),
             _question,
-            block.timestamp + (_durationDays * 1 days)
+            _endTime,
+            _metadata.category,
+            _metadata.resolutionSource,
+            _metadata.genLayerResolver,
+            _metadata.contentHash
         );
-        
-        // Refund excess payment
-        if (msg.value > creationFee) {
-            (bool success, ) = payable(msg.sender).call{value: msg.value - creationFee}("");
-            require(success, "Refund failed");
+    }
+    
+    // ============ Claims ============
+    
+    /**
+     * @notice Claim the caller's winnings or refunds from several resolved markets in one transaction
+     * @dev The factory owns every market, so each one pays the caller through claimWinningsFor.
+     *      Reverts if any market has nothing to claim; check getClaimableAmount first.
+     */
+    function batchClaimWinnings(address[] calldata _markets) external {
+        address claimant = _msgSender();
+        for (uint256 i = 0; i < _markets.length; i++) {
+            require(isMarket[_markets[i]], "Unknown market");
+            PredictionMarket(payable(_markets[i])).claimWinningsFor(claimant);
         }
-        
-        return (marketAddress, marketId);
     }
     
     // ============ View Functions ============
@@ -143,6 +508,78 @@ contract PredictionMarketFactory {
         );
     }
     
+    /**
+     * @notice Page through markets in creation order
+     * @param _offset Market ID to start from
+     * @param _limit Most addresses to return
+     */
+    function getMarkets(uint256 _offset, uint256 _limit) external view returns (address[] memory page) {
+        if (_offset >= marketCount) return page;
+        uint256 end = _limit > marketCount - _offset ? marketCount : _offset + _limit;
+        
+        page = new address[](end - _offset);
+        for (uint256 i = _offset; i < end; i++) {
+            page[i - _offset] = markets[i];
+        }
+    }
+    
+    /**
+     * @notice Page through markets in one lifecycle state, in creation order
+     * @dev Inspects at most MAX_STATUS_SCAN markets per call. Pass nextOffset back in
+     *      as _offset to continue; it equals marketCount once every market was checked.
+     * @param _offset Market ID to start scanning from
+     * @param _limit Most addresses to return
+     */
+    function getMarketsByStatus(MarketStatus _status, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (address[] memory page, uint256 nextOffset)
+    {
+        if (_offset >= marketCount) return (page, _offset);
+        uint256 scanEnd = MAX_STATUS_SCAN > marketCount - _offset ? marketCount : _offset + MAX_STATUS_SCAN;
+        // A page can't hold more than the markets scanned, so don't allocate for more
+        if (_limit > scanEnd - _offset) _limit = scanEnd - _offset;
+        page = new address[](_limit);
+        uint256 found;
+        
+        nextOffset = _offset;
+        while (nextOffset < scanEnd && found < _limit) {
+            if (_statusOf(markets[nextOffset]) == _status) {
+                page[found++] = markets[nextOffset];
+            }
+            nextOffset++;
+        }
+        
+        // Trim the unused tail
+        assembly {
+            mstore(page, found)
+        }
+    }
+    
+    /**
+     * @notice Question, end time, pools and resolution of many markets in one call
+     */
+    function getMarketSummaries(address[] calldata _markets) external view returns (MarketSummary[] memory summaries) {
+        summaries = new MarketSummary[](_markets.length);
+        for (uint256 i = 0; i < _markets.length; i++) {
+            PredictionMarket market = PredictionMarket(payable(_markets[i]));
+            MarketSummary memory summary = summaries[i];
+            
+            summary.market = _markets[i];
+            summary.question = market.question();
+            summary.endTime = market.endTime();
+            summary.totalPool = market.totalPool();
+            summary.isResolved = market.isResolved();
+            
+            // Scalar markets have no outcome list, their payout follows resolvedValue instead
+            try market.getOutcomeTotals() returns (uint256[] memory totals) {
+                summary.outcomeTotals = totals;
+                summary.winningOutcome = market.winningOutcomeIndex();
+                summary.collateral = market.collateral();
+            } catch {}
+        }
+    }
+    
     /**
      * @notice Get recent markets (last N)
      */
@@ -157,35 +594,265 @@ contract PredictionMarketFactory {
         return recent;
     }
     
+    function _statusOf(address _market) internal view returns (MarketStatus) {
+        PredictionMarket market = PredictionMarket(payable(_market));
+        if (market.isResolved()) return MarketStatus.Resolved;
+        return block.timestamp < market.tradingEndTime() ? MarketStatus.Open : MarketStatus.Ended;
+    }
+    
     // ============ Admin Functions ============
     
     /**
      * @notice Update creation fee
      */
-    function setCreationFee(uint256 _newFee) external onlyOwner {
+    function setCreationFee(uint256 _newFee) external onlyRole(ADMIN_ROLE) {
         emit CreationFeeUpdated(creationFee, _newFee);
         creationFee = _newFee;
     }
     
     /**
-     * @notice Withdraw collected fees
+     * @notice Update the dispute period and bond for new markets
+     * @param _disputePeriod Seconds a proposed resolution can be disputed (0 disables disputes)
      */
-    function withdrawFees() external onlyOwner {
+    function setDisputeConfig(uint256 _disputePeriod, uint256 _disputeBond) external onlyRole(ADMIN_ROLE) {
+        require(_disputePeriod <= MAX_DISPUTE_PERIOD, "Invalid dispute period");
+        disputePeriod = _disputePeriod;
+        disputeBond = _disputeBond;
+        emit DisputeConfigUpdated(_disputePeriod, _disputeBond);
+    }
+    
+    /**
+     * @notice Update the fee on winnings and how it is shared for new markets
+     * @dev Whatever the creator and liquidity providers don't get goes to the platform.
+     *      Scalar markets have no liquidity providers besides the creator and ignore _lpFeeShare.
+     * @param _platformFee Basis points of winnings, at most MAX_PLATFORM_FEE
+     * @param _creatorFeeShare Basis points of each fee paid to the market creator
+     * @param _lpFeeShare Basis points of each fee paid to liquidity providers
+     */
+    function setFeeConfig(uint256 _platformFee, uint256 _creatorFeeShare, uint256 _lpFeeShare) external onlyRole(ADMIN_ROLE) {
+        require(_platformFee <= MAX_PLATFORM_FEE && _creatorFeeShare + _lpFeeShare <= BASIS_POINTS, "Invalid fee");
+        platformFee = _platformFee;
+        creatorFeeShare = _creatorFeeShare;
+        lpFeeShare = _lpFeeShare;
+        emit FeeConfigUpdated(_platformFee, _creatorFeeShare, _lpFeeShare);
+    }
+    
+    /**
+     * @notice Pull a market's accrued platform fees into the factory
+     * @dev Markets are owned by the factory; withdrawFees() then pays them out
+     */
+    function collectMarketFees(address _market) external onlyRole(ADMIN_ROLE) {
+        PredictionMarket(payable(_market)).withdrawFees();
+    }
+    
+    /**
+     * @notice Allow or disallow an ERC-20 token as market collateral
+     * @dev Only allow plain tokens; fee-on-transfer and rebasing tokens break market accounting
+     */
+    function setCollateralAllowed(address _token, bool _allowed) external onlyRole(ADMIN_ROLE) {
+        require(_token != address(0), "Invalid token");
+        isCollateralAllowed[_token] = _allowed;
+        emit CollateralUpdated(_token, _allowed);
+    }
+    
+    /**
+     * @notice Set the ERC-1155 outcome token for new markets (0 keeps shares non-transferable)
+     * @dev Existing markets stay bound to the token they were created with
+     */
+    function setOutcomeToken(address _outcomeToken) external onlyRole(ADMIN_ROLE) {
+        emit OutcomeTokenUpdated(outcomeToken, _outcomeToken);
+        outcomeToken = _outcomeToken;
+    }
+    
+    /**
+     * @notice Set the EIP-2771 forwarder for the factory and new markets (0 disables relayed calls)
+     * @dev Existing markets keep trusting the forwarder they were created with
+     */
+    function setTrustedForwarder(address _forwarder) external onlyRole(ADMIN_ROLE) {
+        emit TrustedForwarderUpdated(trustedForwarder, _forwarder);
+        trustedForwarder = _forwarder;
+    }
+    
+    /**
+     * @notice Set the resolver oracle for new markets (0 disables attestations)
+     */
+    function setResolver(address _resolver) external onlyRole(ADMIN_ROLE) {
+        emit ResolverUpdated(resolver, _resolver);
+        resolver = _resolver;
+    }
+    
+    /**
+     * @notice Queue the settlement of a disputed market, executable after emergencyDelay
+     * @dev Markets are owned by the factory, so owner actions go through here. Settlements
+     *      go through the emergency timelock like any other override, so admins can still
+     *      cancel one before executeEmergencyResolution applies it.
+     * @param _outcome Winning outcome index (or INVALID_OUTCOME to void), e.g. from GenLayer re-resolution
+     */
+    function resolveDispute(address _market, uint256 _outcome) external onlyRole(RESOLVER_ROLE) {
+        require(isMarket[_market], "Unknown market");
+        require(!isScalarMarket[_market], "Scalar markets have no disputes");
+        require(PredictionMarket(payable(_market)).isDisputed(), "Not disputed");
+        _scheduleEmergencyResolution(_market, _outcome);
+    }
+    
+    /**
+     * @notice Close a market whose event happened ahead of schedule, or confirm the event time its
+     *         creator gave, see PredictionMarketExtension.closeEarly
+     * @param _eventTime Unix time the event happened; trades from then on are reversed
+     */
+    function closeMarketEarly(address _market, uint256 _eventTime) external onlyRole(RESOLVER_ROLE) {
+        require(isMarket[_market], "Unknown market");
+        PredictionMarketExtension(payable(_market)).closeEarly(_eventTime);
+    }
+    
+    // ============ Emergency Resolution ============
+    
+    /**
+     * @notice Queue an emergency resolution, executable after emergencyDelay
+     * @dev Replaces any resolution already queued for the market. The market must
+     *      have ended by the time it is executed.
+     * @param _outcome Winning outcome index, or INVALID_OUTCOME to void the market
+     */
+    function scheduleEmergencyResolution(address _market, uint256 _outcome) external onlyRole(RESOLVER_ROLE) {
+        require(isMarket[_market], "Unknown market");
+        require(!isScalarMarket[_market], "Use scheduleScalarResolution");
+        _scheduleEmergencyResolution(_market, _outcome);
+    }
+    
+    /**
+     * @notice Queue an emergency resolution of a scalar market, executable after emergencyDelay
+     * @dev Shares the queue with scheduleEmergencyResolution, which stores the value as its uint256 bits
+     * @param _value Observed value (1e18 = 1.0), clamped to the market's bounds
+     */
+    function scheduleScalarResolution(address _market, int256 _value) external onlyRole(RESOLVER_ROLE) {
+        require(isScalarMarket[_market], "Not a scalar market");
+        _scheduleEmergencyResolution(_market, uint256(_value));
+    }
+    
+    function _scheduleEmergencyResolution(address _market, uint256 _outcome) internal {
+        uint256 executableAt = block.timestamp + emergencyDelay;
+        emergencyResolutions[_market] = EmergencyResolution(_outcome, executableAt);
+        emit EmergencyResolutionScheduled(_market, _outcome, executableAt);
+    }
+    
+    /**
+     * @notice Drop a queued emergency resolution (admins only)
+     */
+    function cancelEmergencyResolution(address _market) external onlyRole(ADMIN_ROLE) {
+        require(emergencyResolutions[_market].executableAt != 0, "Not scheduled");
+        delete emergencyResolutions[_market];
+        emit EmergencyResolutionCancelled(_market);
+    }
+    
+    /**
+     * @notice Resolve a market with its queued emergency resolution once the timelock has passed
+     */
+    function executeEmergencyResolution(address _market) external onlyRole(RESOLVER_ROLE) {
+        EmergencyResolution memory pending = emergencyResolutions[_market];
+        require(pending.executableAt != 0, "Not scheduled");
+        require(block.timestamp >= pending.executableAt, "Timelock active");
+        
+        delete emergencyResolutions[_market];
+        if (isScalarMarket[_market]) {
+            IScalarMarket(_market).emergencyResolve(int256(pending.outcome));
+        } else {
+            PredictionMarket(payable(_market)).emergencyResolveOutcome(pending.outcome);
+        }
+        
+        emit EmergencyResolutionExecuted(_market, pending.outcome);
+    }
+    
+    /**
+     * @notice Update the emergency resolution timelock
+     */
+    function setEmergencyDelay(uint256 _delay) external onlyRole(ADMIN_ROLE) {
+        require(_delay >= MIN_EMERGENCY_DELAY && _delay <= MAX_EMERGENCY_DELAY, "Invalid delay");
+        emit EmergencyDelayUpdated(emergencyDelay, _delay);
+        emergencyDelay = _delay;
+    }
+    
+    // ============ Pausing ============
+    
+    /**
+     * @notice Halt or resume trading on every market, and market creation
+     */
+    function setPaused(bool _paused) external onlyRole(PAUSER_ROLE) {
+        paused = _paused;
+        emit PauseUpdated(_paused);
+    }
+    
+    /**
+     * @notice Halt or resume trading on a single market (emits TradingPaused on the market)
+     */
+    function setMarketPaused(address _market, bool _paused) external onlyRole(PAUSER_ROLE) {
+        require(isMarket[_market], "Unknown market");
+        PredictionMarket(payable(_market)).setPaused(_paused);
+    }
+    
+    /**
+     * @notice Register a PredictionMarket implementation under its marketVersion()
+     * @dev A version newer than the active one becomes active for new markets
+     */
+    function registerImplementation(address _implementation) external onlyRole(ADMIN_ROLE) {
+        uint256 version = PredictionMarket(payable(_implementation)).marketVersion();
+        require(version > 0 && implementations[version] == address(0), "Version registered");
+        
+        implementations[version] = _implementation;
+        emit ImplementationRegistered(version, _implementation);
+        
+        if (version > activeVersion) {
+            emit ActiveVersionUpdated(activeVersion, version);
+            activeVersion = version;
+        }
+    }
+    
+    /**
+     * @notice Clone a different registered version for new markets, e.g. to roll back
+     */
+    function setActiveVersion(uint256 _version) external onlyRole(ADMIN_ROLE) {
+        require(implementations[_version] != address(0), "Unknown version");
+        emit ActiveVersionUpdated(activeVersion, _version);
+        activeVersion = _version;
+    }
+    
+    /**
+     * @notice Implementation new markets are cloned from (0 if none is registered)
+     */
+    function marketImplementation() external view returns (address) {
+        return implementations[activeVersion];
+    }
+    
+    /**
+     * @notice Set the deployer used by createScalarMarket
+     */
+    function setScalarDeployer(address _deployer) external onlyRole(ADMIN_ROLE) {
+        emit ScalarDeployerUpdated(scalarDeployer, _deployer);
+        scalarDeployer = _deployer;
+    }
+    
+    /**
+     * @notice Withdraw collected fees to the calling admin
+     */
+    function withdrawFees() external onlyRole(ADMIN_ROLE) {
         uint256 balance = address(this).balance;
         require(balance > 0, "No fees");
         
-        (bool success, ) = payable(owner).call{value: balance}("");
+        (bool success, ) = payable(msg.sender).call{value: balance}("");
         require(success, "Transfer failed");
         
-        emit FeesWithdrawn(owner, balance);
+        emit FeesWithdrawn(msg.sender, balance);
     }
     
     /**
-     * @notice Transfer ownership
+     * @notice Withdraw fees collected from token markets to the calling admin
      */
-    function transferOwnership(address _newOwner) external onlyOwner {
-        require(_newOwner != address(0), "Invalid address");
-        owner = _newOwner;
+    function withdrawTokenFees(address _token) external onlyRole(ADMIN_ROLE) {
+        uint256 balance = IERC20Collateral(_token).balanceOf(address(this));
+        require(balance > 0, "No fees");
+        
+        require(IERC20Collateral(_token).transfer(msg.sender, balance), "Transfer failed");
+        
+        emit TokenFeesWithdrawn(_token, msg.sender, balance);
     }
     
     // ============ Receive Function ============
@@ -0,0 +1,643 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./LMSRMath.sol";
+import "./IPauseController.sol";
+
+/**
+ * @dev Fee settings handed to each new ScalarMarket
+ */
+struct FeeConfig {
+    uint256 platformFee; // Fee on winnings (basis points)
+    uint256 creatorFeeShare; // Creator's cut of each fee (basis points)
+}
+
+/**
+ * @title ScalarMarket
+ * @notice A range market where LONG/SHORT shares pay out linearly on a resolved value
+ * @dev Deployed through ScalarMarketDeployer by PredictionMarketFactory. Bounds and
+ *      the resolved value are 18-decimal fixed point (1e18 = 1.0). After resolution
+ *      a LONG share (1e18 units) pays (value - lower) / (upper - lower) ETH and a
+ *      SHORT share pays the rest, with the value clamped to the bounds. Prices are
+ *      set by a two-outcome LMSR market maker funded by the creator, so the LONG
+ *      price is the market's estimate of where the value lands in the range.
+ *      Fees on winnings accrue as they are claimed and are split between the
+ *      owner and the creator, as in PredictionMarket.
+ *      A market nobody resolves by its resolutionDeadline can be voided by anyone,
+ *      refunding each trader's net stake pro-rata from the pool.
+ *      Trading pauses with the owning factory or through setPaused, and stops
+ *      tradingCutoff before endTime, as in PredictionMarket. Scalar markets have
+ *      no early close.
+ */
+contract ScalarMarket {
+    // ============ State Variables ============
+
+    address public owner;
+    address public creator;
+    string public question;
+    string public description;
+    uint256 public endTime;
+    uint256 public tradingCutoff; // Trading stops this many seconds before endTime
+    uint256 public resolutionDeadline; // Unresolved markets can be voided from here
+    uint256 public resolutionTime;
+
+    int256 public lowerBound;
+    int256 public upperBound;
+
+    bool public isResolved;
+    bool public isVoided; // Resolved without a value, pays refunds instead of winnings
+    int256 public resolvedValue;
+    uint256 public longPayout; // ETH per LONG share (1e18 = 1 ETH), SHORT pays 1e18 - longPayout
+
+    uint256 public totalLongShares;
+    uint256 public totalShortShares;
+    uint256 public totalPool;
+    uint256 public totalStaked; // Sum of totalInvested, the base for refunds
+
+    uint256 public liquidityParameter; // LMSR b
+    uint256 public subsidy; // Creator funding, covers the market maker's worst-case loss
+    bool public liquidityWithdrawn;
+    bool public paused; // Trading halted by the owner (also halted while the owner is paused)
+
+    uint256 public platformFee; // Fee on winnings (basis points)
+    uint256 public creatorFeeShare; // Creator's cut of each fee (basis points)
+    uint256 public platformFeesAccrued; // Owed to the owner
+    uint256 public creatorFeesAccrued; // Owed to the creator
+    uint256 public creatorFeesClaimed;
+
+    uint256 public constant MIN_BUY = 0.001 ether;
+    uint256 public constant MIN_LIQUIDITY = 0.001 ether;
+    uint256 public constant BASIS_POINTS = 10000;
+
+    // Bump when the ABI or behaviour changes (see PredictionMarket.marketVersion). Scalar
+    // versions count from 1000, so clients can't mistake them for PredictionMarket's.
+    uint256 private constant MARKET_VERSION = 1006;
+
+    // ============ Mappings ============
+
+    mapping(address => uint256) public longShares;
+    mapping(address => uint256) public shortShares;
+    mapping(address => uint256) public totalInvested;
+    mapping(address => bool) public hasClaimed;
+
+    // ============ Events ============
+
+    event SharesPurchased(
+        address indexed buyer,
+        bool isLong,
+        uint256 shares,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    event SharesSold(
+        address indexed seller,
+        bool isLong,
+        uint256 shares,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    event MarketResolved(
+        int256 value,
+        uint256 longPayout,
+        uint256 totalPool,
+        uint256 timestamp
+    );
+
+    event MarketVoided(
+        uint256 totalPool,
+        uint256 timestamp
+    );
+
+    event RefundClaimed(
+        address indexed user,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    event FeesWithdrawn(
+        address indexed to,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    event CreatorFeesClaimed(
+        address indexed creator,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    event WinningsClaimed(
+        address indexed user,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    event MarketCreated(
+        address indexed creator,
+        string question,
+        int256 lowerBound,
+        int256 upperBound,
+        uint256 endTime
+    );
+
+    event LiquidityWithdrawn(
+        address indexed creator,
+        uint256 amount,
+        uint256 timestamp
+    );
+
+    event TradingPaused(
+        bool paused,
+        uint256 timestamp
+    );
+
+    // ============ Modifiers ============
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Only owner");
+        _;
+    }
+
+    modifier onlyCreator() {
+        require(msg.sender == creator, "Only creator");
+        _;
+    }
+
+    modifier marketOpen() {
+        require(block.timestamp < tradingEndTime(), "Market closed");
+        require(!isResolved, "Market resolved");
+        require(!isPaused(), "Trading paused");
+        _;
+    }
+
+    modifier marketEnded() {
+        require(block.timestamp >= endTime, "Market not ended");
+        _;
+    }
+
+    modifier marketResolved() {
+        require(isResolved, "Market not resolved");
+        _;
+    }
+
+    modifier notResolved() {
+        require(!isResolved, "Market already resolved");
+        _;
+    }
+
+    // ============ Constructor ============
+
+    /**
+     * @dev msg.value is the creator's liquidity subsidy, sized as b * ln(2)
+     *      like a binary PredictionMarket.
+     * @param _owner Owner for emergency resolution (the factory)
+     * @param _endTime Unix time trading stops
+     * @param _resolutionDeadline Unix time after which an unresolved market can be voided
+     * @param _tradingCutoff Seconds before _endTime that trading stops (0 trades until the end)
+     * @param _lowerBound Lowest resolvable value (1e18 = 1.0)
+     * @param _upperBound Highest resolvable value (1e18 = 1.0)
+     * @param _fees Fee on winnings and the creator's cut of it
+     */
+    constructor(
+        address _owner,
+        address _creator,
+        string memory _question,
+        string memory _description,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff,
+        int256 _lowerBound,
+        int256 _upperBound,
+        FeeConfig memory _fees
+    ) payable {
+        require(msg.value >= MIN_LIQUIDITY, "Insufficient liquidity");
+        require(_upperBound > _lowerBound, "Invalid bounds");
+        require(_fees.platformFee <= BASIS_POINTS && _fees.creatorFeeShare <= BASIS_POINTS, "Invalid fee");
+
+        owner = _owner;
+        creator = _creator;
+        question = _question;
+        description = _description;
+        endTime = _endTime;
+        resolutionDeadline = _resolutionDeadline;
+        tradingCutoff = _tradingCutoff;
+        lowerBound = _lowerBound;
+        upperBound = _upperBound;
+        platformFee = _fees.platformFee;
+        creatorFeeShare = _fees.creatorFeeShare;
+
+        subsidy = msg.value;
+        liquidityParameter = (msg.value * LMSRMath.WAD) / uint256(LMSRMath.LN2);
+
+        emit MarketCreated(_creator, _question, _lowerBound, _upperBound, endTime);
+    }
+
+    // ============ Trading Functions ============
+
+    /**
+     * @notice Buy LONG shares (pay more the higher the value resolves)
+     */
+    function buyLong() external payable marketOpen {
+        _buy(true);
+    }
+
+    /**
+     * @notice Buy SHORT shares (pay more the lower the value resolves)
+     */
+    function buyShort() external payable marketOpen {
+        _buy(false);
+    }
+
+    /**
+     * @notice Buy shares (unified function)
+     * @param _isLong true for LONG shares, false for SHORT shares
+     */
+    function buyShares(bool _isLong) external payable marketOpen {
+        _buy(_isLong);
+    }
+
+    /**
+     * @notice Sell shares back to the market maker before resolution
+     * @param _isLong true for LONG shares, false for SHORT shares
+     * @param _shares Shares to sell (1e18 = 1 share)
+     * @param _minProceeds Minimum ETH to receive, reverts otherwise (slippage protection)
+     */
+    function sellShares(bool _isLong, uint256 _shares, uint256 _minProceeds) external marketOpen {
+        require(_shares > 0, "Must sell at least 1 share");
+
+        if (_isLong) {
+            require(longShares[msg.sender] >= _shares, "Insufficient shares");
+        } else {
+            require(shortShares[msg.sender] >= _shares, "Insufficient shares");
+        }
+
+        uint256 proceeds = LMSRMath.proceedsOfShares(_quantities(), liquidityParameter, _outcomeIndex(_isLong), _shares);
+        // Guard against rounding when the last shares leave the pool
+        if (proceeds > totalPool) proceeds = totalPool;
+        require(proceeds >= _minProceeds, "Slippage exceeded");
+        require(proceeds > 0, "Nothing to sell");
+
+        if (_isLong) {
+            longShares[msg.sender] -= _shares;
+            totalLongShares -= _shares;
+        } else {
+            shortShares[msg.sender] -= _shares;
+            totalShortShares -= _shares;
+        }
+
+        uint256 unstaked = proceeds > totalInvested[msg.sender] ? totalInvested[msg.sender] : proceeds;
+        totalInvested[msg.sender] -= unstaked;
+        totalStaked -= unstaked;
+        totalPool -= proceeds;
+
+        (bool success, ) = payable(msg.sender).call{value: proceeds}("");
+        require(success, "Transfer failed");
+
+        emit SharesSold(msg.sender, _isLong, _shares, proceeds, block.timestamp);
+    }
+
+    /**
+     * @dev Spends the full msg.value on shares at the current LMSR price curve
+     */
+    function _buy(bool _isLong) internal {
+        require(msg.value >= MIN_BUY, "Below minimum");
+
+        uint256 shares = LMSRMath.sharesForCost(_quantities(), liquidityParameter, _outcomeIndex(_isLong), msg.value);
+        require(shares > 0, "Must buy at least 1 share");
+
+        if (_isLong) {
+            longShares[msg.sender] += shares;
+            totalLongShares += shares;
+        } else {
+            shortShares[msg.sender] += shares;
+            totalShortShares += shares;
+        }
+
+        totalInvested[msg.sender] += msg.value;
+        totalStaked += msg.value;
+        totalPool += msg.value;
+
+        emit SharesPurchased(msg.sender, _isLong, shares, msg.value, block.timestamp);
+    }
+
+    // ============ Resolution Functions ============
+
+    /**
+     * @notice Resolve the market with the observed value (creator only)
+     * @param _value Observed value (1e18 = 1.0), clamped to the bounds
+     */
+    function resolve(int256 _value) external onlyCreator marketEnded notResolved {
+        require(block.timestamp < resolutionDeadline, "Deadline passed");
+        _resolve(_value);
+    }
+
+    /**
+     * @notice Emergency resolve by owner once the market has ended
+     * @dev The factory calls this through its timelock, see PredictionMarketFactory.scheduleScalarResolution
+     * @param _value Observed value (1e18 = 1.0), clamped to the bounds
+     */
+    function emergencyResolve(int256 _value) external onlyOwner marketEnded notResolved {
+        _resolve(_value);
+    }
+
+    /**
+     * @notice Void a market nobody resolved by its resolution deadline (anyone can call)
+     */
+    function voidExpired() external notResolved {
+        require(block.timestamp >= resolutionDeadline, "Deadline not reached");
+
+        isResolved = true;
+        isVoided = true;
+        resolutionTime = block.timestamp;
+
+        emit MarketVoided(totalPool, block.timestamp);
+    }
+
+    function _resolve(int256 _value) internal {
+        int256 clamped = _value < lowerBound ? lowerBound : (_value > upperBound ? upperBound : _value);
+
+        isResolved = true;
+        resolvedValue = _value;
+        longPayout = (uint256(clamped - lowerBound) * LMSRMath.WAD) / uint256(upperBound - lowerBound);
+        resolutionTime = block.timestamp;
+
+        emit MarketResolved(_value, longPayout, totalPool, block.timestamp);
+    }
+
+    // ============ Claim Functions ============
+
+    /**
+     * @notice Claim the payout on both LONG and SHORT shares after resolution, or the refund if voided
+     */
+    function claimWinnings() external marketResolved {
+        _claim(msg.sender);
+    }
+
+    /**
+     * @notice Claim for a user and pay them (owner only, see PredictionMarketFactory.batchClaimWinnings)
+     */
+    function claimWinningsFor(address _user) external onlyOwner marketResolved {
+        _claim(_user);
+    }
+
+    function _claim(address _user) internal {
+        require(!hasClaimed[_user], "Already claimed");
+
+        if (isVoided) {
+            uint256 refund = _refundOf(_user);
+            require(refund > 0, "Nothing to refund");
+
+            hasClaimed[_user] = true;
+
+            (bool refunded, ) = payable(_user).call{value: refund}("");
+            require(refunded, "Transfer failed");
+
+            emit RefundClaimed(_user, refund, block.timestamp);
+            return;
+        }
+
+        uint256 grossWinnings = _grossPayout(longShares[_user], shortShares[_user]);
+        require(grossWinnings > 0, "No winning shares");
+
+        uint256 fee = (grossWinnings * platformFee) / BASIS_POINTS;
+        uint256 netWinnings = grossWinnings - fee;
+
+        hasClaimed[_user] = true;
+        _accrueFee(fee);
+
+        (bool success, ) = payable(_user).call{value: netWinnings}("");
+        require(success, "Transfer failed");
+
+        emit WinningsClaimed(_user, netWinnings, block.timestamp);
+    }
+
+    /**
+     * @notice Get claimable amount for a user (the refund if the market was voided)
+     */
+    function getClaimableAmount(address _user) external view returns (uint256) {
+        if (!isResolved || hasClaimed[_user]) return 0;
+        if (isVoided) return _refundOf(_user);
+
+        uint256 grossWinnings = _grossPayout(longShares[_user], shortShares[_user]);
+        uint256 fee = (grossWinnings * platformFee) / BASIS_POINTS;
+        return grossWinnings - fee;
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Implementation version, used by clients to pick the market ABI
+     */
+    function marketVersion() external pure returns (uint256) {
+        return MARKET_VERSION;
+    }
+
+    /**
+     * @notice Get user's position
+     */
+    function getUserPosition(address _user) external view returns (
+        uint256 _longShares,
+        uint256 _shortShares,
+        uint256 _totalInvested
+    ) {
+        _longShares = longShares[_user];
+        _shortShares = shortShares[_user];
+        _totalInvested = totalInvested[_user];
+    }
+
+    /**
+     * @notice Get market info
+     */
+    function getMarketInfo() external view returns (
+        string memory _question,
+        string memory _description,
+        uint256 _endTime,
+        int256 _lowerBound,
+        int256 _upperBound,
+        bool _isResolved,
+        int256 _resolvedValue,
+        uint256 _totalPool
+    ) {
+        return (
+            question,
+            description,
+            endTime,
+            lowerBound,
+            upperBound,
+            isResolved,
+            resolvedValue,
+            totalPool
+        );
+    }
+
+    /**
+     * @notice The market's implied estimate of the value: lower + LONG price * (upper - lower)
+     */
+    function getEstimate() external view returns (int256) {
+        return lowerBound + int256((getPrice(true) * uint256(upperBound - lowerBound)) / LMSRMath.WAD);
+    }
+
+    /**
+     * @notice Get the current marginal price of LONG or SHORT (1e18 = 1 ETH per share)
+     */
+    function getPrice(bool _isLong) public view returns (uint256) {
+        return LMSRMath.price(_quantities(), liquidityParameter, _outcomeIndex(_isLong));
+    }
+
+    /**
+     * @notice Quote the cost of buying a number of shares at the current state
+     * @param _shares Shares to buy (1e18 = 1 share)
+     */
+    function quoteBuy(bool _isLong, uint256 _shares) external view returns (uint256) {
+        return LMSRMath.costOfShares(_quantities(), liquidityParameter, _outcomeIndex(_isLong), _shares);
+    }
+
+    /**
+     * @notice Quote the ETH received for selling a number of shares at the current state
+     * @param _shares Shares to sell (1e18 = 1 share)
+     */
+    function quoteSell(bool _isLong, uint256 _shares) external view returns (uint256) {
+        uint256 proceeds = LMSRMath.proceedsOfShares(_quantities(), liquidityParameter, _outcomeIndex(_isLong), _shares);
+        return proceeds > totalPool ? totalPool : proceeds;
+    }
+
+    /**
+     * @notice Quote how many shares a given amount of ETH buys at the current state
+     */
+    function getSharesForCost(bool _isLong, uint256 _amount) external view returns (uint256) {
+        return LMSRMath.sharesForCost(_quantities(), liquidityParameter, _outcomeIndex(_isLong), _amount);
+    }
+
+    /**
+     * @notice Check if market is open for trading
+     */
+    function isMarketOpen() external view returns (bool) {
+        return block.timestamp < tradingEndTime() && !isResolved && !isPaused();
+    }
+
+    /**
+     * @notice Unix time trading stops, tradingCutoff before endTime
+     */
+    function tradingEndTime() public view returns (uint256) {
+        return endTime - tradingCutoff;
+    }
+
+    /**
+     * @notice Whether trading is halted, for this market alone or factory-wide
+     */
+    function isPaused() public view returns (bool) {
+        return paused || IPauseController(owner).paused();
+    }
+
+    // ============ Admin Functions ============
+
+    /**
+     * @notice Withdraw the platform's share of accrued fees (owner only)
+     */
+    function withdrawFees() external onlyOwner {
+        uint256 amount = platformFeesAccrued;
+        require(amount > 0, "No fees");
+
+        platformFeesAccrued = 0;
+
+        (bool success, ) = payable(owner).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit FeesWithdrawn(owner, amount, block.timestamp);
+    }
+
+    /**
+     * @notice Claim the creator's share of accrued fees
+     */
+    function claimCreatorFees() external onlyCreator {
+        uint256 amount = creatorFeesAccrued;
+        require(amount > 0, "No fees");
+
+        creatorFeesAccrued = 0;
+        creatorFeesClaimed += amount;
+
+        (bool success, ) = payable(creator).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit CreatorFeesClaimed(creator, amount, block.timestamp);
+    }
+
+    /**
+     * @notice Withdraw the creator's leftover liquidity after resolution
+     * @dev Everything above the gross payout owed to LONG and SHORT holders (or the
+     *      whole pool, for refunds) is returned
+     */
+    function withdrawLiquidity() external onlyCreator marketResolved {
+        require(!liquidityWithdrawn, "Already withdrawn");
+
+        // Round the reserve up so claims can never be short by a wei
+        uint256 reserved = isVoided ? totalPool : _grossPayout(totalLongShares, totalShortShares) + 2;
+        uint256 funds = totalPool + subsidy;
+        require(funds > reserved, "No liquidity left");
+
+        uint256 amount = funds - reserved;
+        liquidityWithdrawn = true;
+
+        (bool success, ) = payable(creator).call{value: amount}("");
+        require(success, "Transfer failed");
+
+        emit LiquidityWithdrawn(creator, amount, block.timestamp);
+    }
+
+    /**
+     * @notice Halt or resume trading on this market (owner only, the factory's pausers)
+     */
+    function setPaused(bool _paused) external onlyOwner {
+        paused = _paused;
+        emit TradingPaused(_paused, block.timestamp);
+    }
+
+    /**
+     * @notice Update end time (creator only, while trading is open)
+     * @dev The resolution deadline moves back by the same amount
+     */
+    function extendEndTime(uint256 _newEndTime) external onlyCreator {
+        require(_newEndTime > endTime, "Must be later");
+        require(block.timestamp < tradingEndTime(), "Market already ended");
+        resolutionDeadline += _newEndTime - endTime;
+        endTime = _newEndTime;
+    }
+
+    // ============ Internal Helpers ============
+
+    /**
+     * @dev Splits a fee taken from winnings between the creator and the owner
+     */
+    function _accrueFee(uint256 _fee) internal {
+        uint256 creatorCut = (_fee * creatorFeeShare) / BASIS_POINTS;
+        creatorFeesAccrued += creatorCut;
+        platformFeesAccrued += _fee - creatorCut;
+    }
+
+    function _refundOf(address _user) internal view returns (uint256) {
+        if (totalStaked == 0) return 0;
+        return (totalInvested[_user] * totalPool) / totalStaked;
+    }
+
+    function _grossPayout(uint256 _long, uint256 _short) internal view returns (uint256) {
+        return (_long * longPayout) / LMSRMath.WAD + (_short * (LMSRMath.WAD - longPayout)) / LMSRMath.WAD;
+    }
+
+    function _quantities() internal view returns (uint256[] memory q) {
+        q = new uint256[](2);
+        q[0] = totalLongShares;
+        q[1] = totalShortShares;
+    }
+
+    function _outcomeIndex(bool _isLong) internal pure returns (uint256) {
+        return _isLong ? 0 : 1;
+    }
+
+    // ============ Receive Function ============
+
+    receive() external payable {
+        revert("Use buyLong or buyShort");
+    }
+}
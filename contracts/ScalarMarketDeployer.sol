@@ -0,0 +1,56 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+import "./ScalarMarket.sol";
+
+interface IFeeConfig {
+    function platformFee() external view returns (uint256);
+    function creatorFeeShare() external view returns (uint256);
+}
+
+/**
+ * @title ScalarMarketDeployer
+ * @notice Deploys ScalarMarket contracts on behalf of PredictionMarketFactory
+ * @dev Holds the ScalarMarket creation code so the factory stays under the
+ *      contract size limit. Only the factory it was deployed for can call it.
+ */
+contract ScalarMarketDeployer {
+    address public immutable factory;
+
+    constructor(address _factory) {
+        require(_factory != address(0), "Invalid factory");
+        factory = _factory;
+    }
+
+    /**
+     * @notice Deploy a scalar market, forwarding msg.value as its liquidity
+     * @dev Fee settings are read from the factory at deploy time
+     */
+    function deploy(
+        address _creator,
+        string calldata _question,
+        string calldata _description,
+        uint256 _endTime,
+        uint256 _resolutionDeadline,
+        uint256 _tradingCutoff,
+        int256 _lowerBound,
+        int256 _upperBound
+    ) external payable returns (address) {
+        require(msg.sender == factory, "Only factory");
+
+        ScalarMarket market = new ScalarMarket{value: msg.value}(
+            factory,
+            _creator,
+            _question,
+            _description,
+            _endTime,
+            _resolutionDeadline,
+            _tradingCutoff,
+            _lowerBound,
+            _upperBound,
+            FeeConfig(IFeeConfig(factory).platformFee(), IFeeConfig(factory).creatorFeeShare())
+        );
+
+        return address(market);
+    }
+}
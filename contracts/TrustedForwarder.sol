@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @dev EIP-712 request to call `to` with `data` on behalf of `from`
+ */
+struct ForwardRequest {
+    address from;
+    address to;
+    uint256 value;
+    uint256 gas;
+    uint256 nonce;
+    uint256 deadline;
+    bytes data;
+}
+
+/**
+ * @title TrustedForwarder
+ * @notice EIP-2771 forwarder that lets a relayer pay gas for calls users sign
+ * @dev Verifies the signed request, bumps the signer's nonce and calls the target with
+ *      the signer's address appended to the calldata, where ERC2771Recipient reads it.
+ *      Signed with domain `TrustedForwarder` version `1`.
+ */
+contract TrustedForwarder {
+    // ============ State Variables ============
+
+    bytes32 public constant FORWARD_REQUEST_TYPEHASH = keccak256(
+        "ForwardRequest(address from,address to,uint256 value,uint256 gas,uint256 nonce,uint256 deadline,bytes data)"
+    );
+
+    // Next nonce each signer must use
+    mapping(address => uint256) public nonces;
+
+    // ============ Events ============
+
+    event RequestExecuted(address indexed from, address indexed to, uint256 nonce, address relayer);
+
+    // ============ Forwarding ============
+
+    /**
+     * @notice Execute a signed request, paying its gas (and `value`, if any)
+     * @dev Reverts with the target's revert reason if the call fails, so the nonce is
+     *      only spent on calls that went through.
+     */
+    function execute(ForwardRequest calldata _request, bytes calldata _signature) external payable returns (bytes memory) {
+        require(verify(_request, _signature), "Invalid request");
+        require(msg.value == _request.value, "Wrong value");
+
+        nonces[_request.from]++;
+
+        (bool success, bytes memory result) = _request.to.call{gas: _request.gas, value: _request.value}(
+            abi.encodePacked(_request.data, _request.from)
+        );
+        // A relayer must not be able to make the call fail by passing too little gas (EIP-150 keeps 1/64 back)
+        if (gasleft() <= _request.gas / 63) {
+            assembly {
+                invalid()
+            }
+        }
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+
+        emit RequestExecuted(_request.from, _request.to, _request.nonce, msg.sender);
+        return result;
+    }
+
+    // ============ View Functions ============
+
+    /**
+     * @notice Whether a request is signed by `from`, uses their next nonce and hasn't expired
+     */
+    function verify(ForwardRequest calldata _request, bytes calldata _signature) public view returns (bool) {
+        return
+            _request.nonce == nonces[_request.from] &&
+            block.timestamp <= _request.deadline &&
+            _recoverSigner(requestHash(_request), _signature) == _request.from &&
+            _request.from != address(0);
+    }
+
+    /**
+     * @notice EIP-712 digest the signer signs for a request
+     */
+    function requestHash(ForwardRequest calldata _request) public view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(
+            abi.encode(
+                keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                keccak256("TrustedForwarder"),
+                keccak256("1"),
+                block.chainid,
+                address(this)
+            )
+        );
+        bytes32 structHash = keccak256(
+            abi.encode(
+                FORWARD_REQUEST_TYPEHASH,
+                _request.from,
+                _request.to,
+                _request.value,
+                _request.gas,
+                _request.nonce,
+                _request.deadline,
+                keccak256(_request.data)
+            )
+        );
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
+    }
+
+    // ============ Internal Helpers ============
+
+    function _recoverSigner(bytes32 _digest, bytes calldata _signature) internal pure returns (address) {
+        if (_signature.length != 65) return address(0);
+
+        bytes32 r;
+        bytes32 s;
+        uint8 v;
+        assembly {
+            r := calldataload(_signature.offset)
+            s := calldataload(add(_signature.offset, 32))
+            v := byte(0, calldataload(add(_signature.offset, 64)))
+        }
+        // Only accept the lower-s form so a signature has a single valid encoding
+        if (uint256(s) > 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0) return address(0);
+
+        return ecrecover(_digest, v, r, s);
+    }
+}
@@ -20,6 +20,103 @@ async function main() {
   const factoryAddress = await factory.getAddress();
   console.log("✅ PredictionMarketFactory deployed to:", factoryAddress);
   
+  // Deploy the LMSR library that markets link against (keeps them under the size limit)
+  console.log("\nDeploying LMSRMath...");
+  const LMSRMath = await hre.ethers.getContractFactory("LMSRMath");
+  const lmsrMath = await LMSRMath.deploy();
+  
+  await lmsrMath.waitForDeployment();
+  
+  const lmsrMathAddress = await lmsrMath.getAddress();
+  console.log("✅ LMSRMath deployed to:", lmsrMathAddress);
+  const libraries = { LMSRMath: lmsrMathAddress };
+  
+  // Deploy the extension holding the order book and liquidity functions, which markets delegate to
+  console.log("\nDeploying PredictionMarketExtension...");
+  const Extension = await hre.ethers.getContractFactory("PredictionMarketExtension", { libraries });
+  const extension = await Extension.deploy();
+  
+  await extension.waitForDeployment();
+  
+  const extensionAddress = await extension.getAddress();
+  console.log("✅ PredictionMarketExtension deployed to:", extensionAddress);
+  
+  // Deploy the market implementation that new markets are cloned from, and register it
+  console.log("\nDeploying PredictionMarket implementation...");
+  const Implementation = await hre.ethers.getContractFactory("PredictionMarket", { libraries });
+  const implementation = await Implementation.deploy(extensionAddress);
+  
+  await implementation.waitForDeployment();
+  
+  const implementationAddress = await implementation.getAddress();
+  const marketVersion = await implementation.marketVersion();
+  console.log("✅ PredictionMarket v" + marketVersion + " deployed to:", implementationAddress);
+  
+  await (await factory.registerImplementation(implementationAddress)).wait();
+  console.log("✅ Markets enabled on factory");
+  
+  // Deploy the scalar market deployer and register it with the factory
+  console.log("\nDeploying ScalarMarketDeployer...");
+  const ScalarDeployer = await hre.ethers.getContractFactory("ScalarMarketDeployer", { libraries });
+  const scalarDeployer = await ScalarDeployer.deploy(factoryAddress);
+  
+  await scalarDeployer.waitForDeployment();
+  
+  const scalarDeployerAddress = await scalarDeployer.getAddress();
+  console.log("✅ ScalarMarketDeployer deployed to:", scalarDeployerAddress);
+  
+  await (await factory.setScalarDeployer(scalarDeployerAddress)).wait();
+  console.log("✅ Scalar markets enabled on factory");
+  
+  // Shared ERC-1155 that makes outcome shares transferable
+  console.log("\nDeploying OutcomeToken...");
+  const OutcomeToken = await hre.ethers.getContractFactory("OutcomeToken");
+  const outcomeToken = await OutcomeToken.deploy();
+  
+  await outcomeToken.waitForDeployment();
+  
+  const outcomeTokenAddress = await outcomeToken.getAddress();
+  console.log("✅ OutcomeToken deployed to:", outcomeTokenAddress);
+  
+  await (await factory.setOutcomeToken(outcomeTokenAddress)).wait();
+  console.log("✅ Transferable shares enabled on factory");
+  
+  // EIP-2771 forwarder the relay-transaction function submits gasless calls through
+  console.log("\nDeploying TrustedForwarder...");
+  const TrustedForwarder = await hre.ethers.getContractFactory("TrustedForwarder");
+  const forwarder = await TrustedForwarder.deploy();
+  
+  await forwarder.waitForDeployment();
+  
+  const forwarderAddress = await forwarder.getAddress();
+  console.log("✅ TrustedForwarder deployed to:", forwarderAddress);
+  
+  await (await factory.setTrustedForwarder(forwarderAddress)).wait();
+  console.log("✅ Gasless trading enabled on factory");
+  
+  // Optional resolver oracle for the GenLayer relayer (scripts/relayer.cjs)
+  if (process.env.RESOLVER_ADDRESS) {
+    await (await factory.setResolver(process.env.RESOLVER_ADDRESS)).wait();
+    console.log("✅ Resolver oracle set to:", process.env.RESOLVER_ADDRESS);
+  }
+  
+  // The deployer holds every role; optionally hand resolving and pausing to other accounts too
+  if (process.env.RESOLVER_ROLE_ADDRESS) {
+    await (await factory.grantRole(await factory.RESOLVER_ROLE(), process.env.RESOLVER_ROLE_ADDRESS)).wait();
+    console.log("✅ RESOLVER_ROLE granted to:", process.env.RESOLVER_ROLE_ADDRESS);
+  }
+  if (process.env.PAUSER_ROLE_ADDRESS) {
+    await (await factory.grantRole(await factory.PAUSER_ROLE(), process.env.PAUSER_ROLE_ADDRESS)).wait();
+    console.log("✅ PAUSER_ROLE granted to:", process.env.PAUSER_ROLE_ADDRESS);
+  }
+
+  // ERC-20 collateral markets, Base Sepolia USDC unless overridden
+  const collateralToken = process.env.COLLATERAL_TOKEN ?? "0x036CbD53842c5426634e7929541eC2318f3dCF7e";
+  if (collateralToken) {
+    await (await factory.setCollateralAllowed(collateralToken, true)).wait();
+    console.log("✅ Collateral token allowed:", collateralToken);
+  }
+  
   // Wait for confirmations
   console.log("\nWaiting for confirmations...");
   await factory.deploymentTransaction().wait(5);
@@ -31,6 +128,33 @@ async function main() {
       address: factoryAddress,
       constructorArguments: [],
     });
+    await hre.run("verify:verify", {
+      address: lmsrMathAddress,
+      constructorArguments: [],
+    });
+    await hre.run("verify:verify", {
+      address: extensionAddress,
+      constructorArguments: [],
+      libraries,
+    });
+    await hre.run("verify:verify", {
+      address: implementationAddress,
+      constructorArguments: [extensionAddress],
+      libraries,
+    });
+    await hre.run("verify:verify", {
+      address: scalarDeployerAddress,
+      constructorArguments: [factoryAddress],
+      libraries,
+    });
+    await hre.run("verify:verify", {
+      address: outcomeTokenAddress,
+      constructorArguments: [],
+    });
+    await hre.run("verify:verify", {
+      address: forwarderAddress,
+      constructorArguments: [],
+    });
     console.log("✅ Contract verified!");
   } catch (error) {
     if (error.message.includes("Already Verified")) {
@@ -46,6 +170,12 @@ async function main() {
   console.log("=".repeat(50));
   console.log("Network:          Base Sepolia (Chain ID: 84532)");
   console.log("Factory Address: ", factoryAddress);
+  console.log("LMSR Library:    ", lmsrMathAddress);
+  console.log("Market Impl:     ", implementationAddress, "(v" + marketVersion + ")");
+  console.log("Market Extension:", extensionAddress);
+  console.log("Scalar Deployer: ", scalarDeployerAddress);
+  console.log("Outcome Token:   ", outcomeTokenAddress);
+  console.log("Forwarder:       ", forwarderAddress);
   console.log("Deployer:        ", deployer.address);
   console.log("Block Explorer:   https://sepolia.basescan.org/address/" + factoryAddress);
   console.log("=".repeat(50));
@@ -56,6 +186,13 @@ async function main() {
     network: "baseSepolia",
     chainId: 84532,
     factoryAddress: factoryAddress,
+    lmsrMathAddress: lmsrMathAddress,
+    marketImplementationAddress: implementationAddress,
+    marketVersion: Number(marketVersion),
+    marketExtensionAddress: extensionAddress,
+    scalarDeployerAddress: scalarDeployerAddress,
+    outcomeTokenAddress: outcomeTokenAddress,
+    forwarderAddress: forwarderAddress,
     deployer: deployer.address,
     timestamp: new Date().toISOString(),
     blockExplorer: `https://sepolia.basescan.org/address/${factoryAddress}`,
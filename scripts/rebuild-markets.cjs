@@ -0,0 +1,196 @@
+/**
+ * Rebuild the markets table from chain
+ *
+ * Reads every MarketCreated event from the factory, with the category, resolution
+ * source, GenLayer resolver and content hash recorded at creation, and turns each
+ * one into a `markets` row. Rows already in the table (by base_contract_address)
+ * are checked against the content hash, so metadata edited off-chain is reported;
+ * missing rows are printed, or inserted with --write.
+ *
+ * Usage:
+ *   node --env-file=.env scripts/rebuild-markets.cjs           # dry run
+ *   node --env-file=.env scripts/rebuild-markets.cjs --write   # insert missing markets
+ *
+ * Env:
+ *   FACTORY_ADDRESS        factory to read (defaults to VITE_FACTORY_ADDRESS)
+ *   FROM_BLOCK             block the factory was deployed in (default 0)
+ *   BASE_SEPOLIA_RPC       Base RPC URL
+ *   VITE_SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY   markets table (inserts need the service role)
+ */
+const { ethers } = require("ethers");
+
+const FACTORY_ABI = [
+  "event MarketCreated(uint256 indexed marketId, address indexed marketAddress, address indexed creator, string question, uint256 endTime, string category, string resolutionSource, address genLayerResolver, bytes32 contentHash)",
+  "event CategoricalMarketCreated(uint256 indexed marketId, address indexed marketAddress, string[] outcomes)",
+  "event ScalarMarketCreated(uint256 indexed marketId, address indexed marketAddress, int256 lowerBound, int256 upperBound)",
+  "event CollateralMarketCreated(uint256 indexed marketId, address indexed marketAddress, address indexed collateral, uint256 liquidity)",
+];
+
+const MARKET_ABI = [
+  "function description() view returns (string)",
+  "function getOutcomes() view returns (string[])",
+  "function tradingEndTime() view returns (uint256)",
+];
+
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+];
+
+// Public RPCs cap the block range of eth_getLogs
+const LOG_CHUNK = 10000;
+
+/**
+ * Content hash committed in MarketMetadata. Keep in sync with src/lib/marketMetadata.ts.
+ */
+function hashMarketMetadata({ question, description, category, resolutionSource, endTime, outcomes }) {
+  return ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ["string", "string", "string", "string", "uint256", "string[]"],
+      [question, description ?? "", category, resolutionSource ?? "", endTime, outcomes ?? []]
+    )
+  );
+}
+
+/**
+ * The hashed fields of a markets row
+ */
+function metadataFromRow(row) {
+  return {
+    question: row.title,
+    description: row.description,
+    category: row.category,
+    resolutionSource: row.resolution_source,
+    endTime: Math.floor(new Date(row.end_date).getTime() / 1000),
+    outcomes: row.outcomes,
+  };
+}
+
+async function queryLogs(factory, filter, fromBlock, toBlock) {
+  const logs = [];
+  for (let start = fromBlock; start <= toBlock; start += LOG_CHUNK) {
+    logs.push(...(await factory.queryFilter(filter, start, Math.min(start + LOG_CHUNK - 1, toBlock))));
+  }
+  return logs;
+}
+
+/**
+ * A markets row for every market the factory created, with the content hash it was created with
+ */
+async function readCreatedMarkets(factory, fromBlock = 0) {
+  const toBlock = await factory.runner.provider.getBlockNumber();
+  const [created, categorical, scalar, collateral] = await Promise.all(
+    ["MarketCreated", "CategoricalMarketCreated", "ScalarMarketCreated", "CollateralMarketCreated"].map((name) =>
+      queryLogs(factory, factory.filters[name](), fromBlock, toBlock)
+    )
+  );
+  const byMarket = (logs) => new Map(logs.map((log) => [log.args.marketAddress, log.args]));
+  const categoricalArgs = byMarket(categorical);
+  const scalarArgs = byMarket(scalar);
+  const collateralArgs = byMarket(collateral);
+
+  const markets = [];
+  for (const { args } of created) {
+    const market = new ethers.Contract(args.marketAddress, MARKET_ABI, factory.runner);
+    const description = await market.description();
+    // Markets from before trading cutoffs trade until their end time
+    const tradingEndTime = await market.tradingEndTime().catch(() => args.endTime);
+
+    // Token markets report their outcomes through CollateralMarketCreated's market
+    let outcomes = categoricalArgs.get(args.marketAddress)?.outcomes.toArray() ?? null;
+    const token = collateralArgs.get(args.marketAddress)?.collateral;
+    if (token && !outcomes) {
+      const names = await market.getOutcomes();
+      if (names.length > 2) outcomes = names.toArray();
+    }
+    const range = scalarArgs.get(args.marketAddress);
+    const erc20 = token ? new ethers.Contract(token, ERC20_ABI, factory.runner) : null;
+
+    const row = {
+      title: args.question,
+      description,
+      category: args.category,
+      resolution_source: args.resolutionSource,
+      end_date: new Date(Number(args.endTime) * 1000).toISOString(),
+      trading_closes_at: new Date(Number(tradingEndTime) * 1000).toISOString(),
+      market_type: range ? "scalar" : outcomes ? "categorical" : "binary",
+      outcomes,
+      probability: outcomes ? Math.round(100 / outcomes.length) : 50,
+      scalar_lower: range ? Number(ethers.formatEther(range.lowerBound)) : null,
+      scalar_upper: range ? Number(ethers.formatEther(range.upperBound)) : null,
+      ...(erc20 && {
+        collateral_address: token,
+        collateral_symbol: await erc20.symbol(),
+        collateral_decimals: Number(await erc20.decimals()),
+      }),
+      created_by: args.creator,
+      deployer_wallet: args.creator,
+      verified: true,
+      resolution_status: "open",
+      base_contract_address: args.marketAddress,
+      genlayer_resolution_address: args.genLayerResolver === ethers.ZeroAddress ? null : args.genLayerResolver,
+      network: "base_sepolia",
+    };
+    markets.push({ row, contentHash: args.contentHash });
+  }
+  return markets;
+}
+
+async function main() {
+  const factoryAddress = process.env.FACTORY_ADDRESS || process.env.VITE_FACTORY_ADDRESS;
+  if (!factoryAddress) {
+    throw new Error("FACTORY_ADDRESS is required");
+  }
+  const write = process.argv.includes("--write");
+
+  // ESM-only package
+  const { createClient } = await import("@supabase/supabase-js");
+  const supabase = createClient(
+    process.env.VITE_SUPABASE_URL,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.VITE_SUPABASE_ANON_KEY
+  );
+
+  const provider = new ethers.JsonRpcProvider(process.env.BASE_SEPOLIA_RPC || "https://sepolia.base.org");
+  const factory = new ethers.Contract(factoryAddress, FACTORY_ABI, provider);
+
+  console.log("🧱 Rebuilding markets from", factoryAddress);
+  const markets = await readCreatedMarkets(factory, Number(process.env.FROM_BLOCK) || 0);
+  console.log(`Found ${markets.length} markets on-chain`);
+
+  const { data: existing, error } = await supabase
+    .from("markets")
+    .select("title, description, category, resolution_source, end_date, outcomes, base_contract_address")
+    .not("base_contract_address", "is", null);
+  if (error) throw error;
+  const rows = new Map(existing.map((row) => [row.base_contract_address.toLowerCase(), row]));
+
+  for (const { row, contentHash } of markets) {
+    const current = rows.get(row.base_contract_address.toLowerCase());
+    if (current) {
+      if (contentHash !== ethers.ZeroHash && hashMarketMetadata(metadataFromRow(current)) !== contentHash) {
+        console.log(`  ⚠️  ${row.title}: database row doesn't match the on-chain content hash`);
+      }
+      continue;
+    }
+
+    if (!write) {
+      console.log(`  Missing: ${row.title} (${row.base_contract_address})`);
+      continue;
+    }
+    const { error: insertError } = await supabase.from("markets").insert(row);
+    if (insertError) {
+      console.error(`  ❌ ${row.title}:`, insertError.message);
+    } else {
+      console.log(`  ✅ Restored ${row.title}`);
+    }
+  }
+}
+
+module.exports = { hashMarketMetadata, metadataFromRow, readCreatedMarkets };
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
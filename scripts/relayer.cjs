@@ -0,0 +1,217 @@
+/**
+ * GenLayer → Base resolution relayer
+ *
+ * Watches markets that have both a GenLayer intelligent contract and a Base
+ * contract. Once GenLayer reports a market resolved (read the same way as
+ * src/lib/resolverClient.ts), the resolver key signs an outcome
+ * attestation and the relayer submits it with resolveWithAttestation().
+ * Attestations are bound to the chain, the market and its nonce, so they
+ * can't be replayed; disputed markets get a fresh attestation that settles them.
+ *
+ * Usage:
+ *   node --env-file=.env scripts/relayer.cjs          # poll forever
+ *   node --env-file=.env scripts/relayer.cjs --once   # single pass, e.g. from cron
+ *
+ * Env:
+ *   RESOLVER_PRIVATE_KEY   key registered with the factory's setResolver
+ *   RELAYER_PRIVATE_KEY    pays gas (defaults to the resolver key)
+ *   BASE_SEPOLIA_RPC       Base RPC URL
+ *   GENLAYER_RPC           GenLayer RPC URL
+ *   VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY   market list
+ *   POLL_INTERVAL_MS       delay between passes (default 60000)
+ */
+const { ethers } = require("ethers");
+
+const MARKET_ABI = [
+  "function resolver() view returns (address)",
+  "function attestationNonce() view returns (uint256)",
+  "function endTime() view returns (uint256)",
+  "function isResolved() view returns (bool)",
+  "function isProposed() view returns (bool)",
+  "function isDisputed() view returns (bool)",
+  "function resolveWithAttestation(uint256 _outcome, uint256 _nonce, bytes _signature)",
+];
+
+const DEFAULT_POLL_INTERVAL_MS = 60000;
+
+// get_winner() of generated GenLayer contracts when the market resolved INVALID
+const GENLAYER_INVALID_WINNER = -2;
+const INVALID_OUTCOME = ethers.MaxUint256;
+
+/**
+ * Legacy GenLayer resolvers report 1 = YES and 2 = NO; Base markets use 0 = YES, 1 = NO
+ */
+function toOutcomeIndex(genLayerOutcome) {
+  if (genLayerOutcome === 1) return 0;
+  if (genLayerOutcome === 2) return 1;
+  return null;
+}
+
+/**
+ * Sign an attestation for the market's current nonce
+ */
+async function signAttestation(resolverWallet, market, outcome) {
+  const { chainId } = await market.runner.provider.getNetwork();
+  const nonce = await market.attestationNonce();
+
+  const hash = ethers.keccak256(
+    ethers.AbiCoder.defaultAbiCoder().encode(
+      ["uint256", "address", "uint256", "uint256"],
+      [chainId, await market.getAddress(), outcome, nonce]
+    )
+  );
+  const signature = await resolverWallet.signMessage(ethers.getBytes(hash));
+
+  return { outcome, nonce, signature };
+}
+
+/**
+ * Submit the outcome to a Base market if it still needs one.
+ * Returns the transaction hash, or null when there was nothing to do.
+ */
+async function relayOutcome(market, resolverWallet, outcome) {
+  const [resolver, endTime, isResolved, isProposed, isDisputed] = await Promise.all([
+    market.resolver(),
+    market.endTime(),
+    market.isResolved(),
+    market.isProposed(),
+    market.isDisputed(),
+  ]);
+
+  if (resolver.toLowerCase() !== resolverWallet.address.toLowerCase()) {
+    console.log("  Skipping: market resolver is", resolver);
+    return null;
+  }
+  if (isResolved) return null;
+  // An undisputed proposal just waits out its dispute period
+  if (isProposed && !isDisputed) return null;
+
+  const block = await market.runner.provider.getBlock("latest");
+  if (BigInt(block.timestamp) < endTime) return null;
+
+  const attestation = await signAttestation(resolverWallet, market, outcome);
+  const tx = await market.resolveWithAttestation(attestation.outcome, attestation.nonce, attestation.signature);
+  await tx.wait();
+
+  return tx.hash;
+}
+
+// genlayer-js decodes dicts as Maps; plain objects are read the same way, as the client does
+const isDict = (value) =>
+  value instanceof Map || (value !== null && typeof value === "object" && !Array.isArray(value));
+
+const field = (info, key) => (info instanceof Map ? info.get(key) : info?.[key]);
+
+/**
+ * Whether a GenLayer resolver is resolved and the Base outcome it resolved to (null if
+ * there's none to relay). Generated contracts (resolver interface version 1 and up)
+ * return a dict from get_market_info, legacy ones a tuple. Keep in sync with
+ * src/lib/resolverClient.ts.
+ */
+async function readGenLayerStatus(client, contractAddress) {
+  const read = (functionName) => client.readContract({ address: contractAddress, functionName, args: [] });
+  try {
+    const info = await read("get_market_info");
+    if (isDict(info)) {
+      const resolved = Boolean(field(info, "is_resolved"));
+      const winner = Number(field(info, "winner"));
+      if (!resolved || Number.isNaN(winner)) return { resolved, outcome: null };
+      return { resolved, outcome: winner === GENLAYER_INVALID_WINNER ? INVALID_OUTCOME : winner >= 0 ? winner : null };
+    }
+
+    const [resolved, outcome] = await Promise.all([read("resolved"), read("outcome")]);
+    return { resolved: Boolean(resolved), outcome: toOutcomeIndex(Number(outcome)) };
+  } catch (error) {
+    console.log("  GenLayer read failed:", error.message);
+    return null;
+  }
+}
+
+async function runOnce({ supabase, genLayer, relayerWallet, resolverWallet }) {
+  const { data: markets, error } = await supabase
+    .from("markets")
+    .select("id, title, intelligent_contract_address, base_contract_address, resolution_status")
+    .not("intelligent_contract_address", "is", null)
+    .not("base_contract_address", "is", null)
+    .in("resolution_status", ["open", "pending_resolution", "disputed"]);
+
+  if (error) {
+    console.error("Failed to load markets:", error.message);
+    return;
+  }
+
+  console.log(`\n[${new Date().toISOString()}] Checking ${markets.length} markets`);
+
+  for (const row of markets) {
+    const status = await readGenLayerStatus(genLayer, row.intelligent_contract_address);
+    if (!status?.resolved) continue;
+
+    const { outcome } = status;
+    if (outcome === null) {
+      console.log(`  ${row.title}: no outcome to relay from GenLayer`);
+      continue;
+    }
+
+    const market = new ethers.Contract(row.base_contract_address, MARKET_ABI, relayerWallet);
+    try {
+      const txHash = await relayOutcome(market, resolverWallet, outcome);
+      if (txHash) {
+        console.log(`  ✅ ${row.title}: relayed ${outcome === INVALID_OUTCOME ? "INVALID" : `outcome ${outcome}`} (${txHash})`);
+      }
+    } catch (err) {
+      console.error(`  ❌ ${row.title}:`, err.shortMessage || err.message);
+    }
+  }
+}
+
+async function main() {
+  if (!process.env.RESOLVER_PRIVATE_KEY) {
+    throw new Error("RESOLVER_PRIVATE_KEY is required");
+  }
+
+  // ESM-only packages
+  const { createClient: createSupabaseClient } = await import("@supabase/supabase-js");
+  const { createClient: createGenLayerClient } = await import("genlayer-js");
+  const { testnetAsimov } = await import("genlayer-js/chains");
+
+  const provider = new ethers.JsonRpcProvider(process.env.BASE_SEPOLIA_RPC || "https://sepolia.base.org");
+  const resolverWallet = new ethers.Wallet(process.env.RESOLVER_PRIVATE_KEY);
+  const relayerWallet = new ethers.Wallet(
+    process.env.RELAYER_PRIVATE_KEY || process.env.RESOLVER_PRIVATE_KEY,
+    provider
+  );
+
+  const context = {
+    supabase: createSupabaseClient(process.env.VITE_SUPABASE_URL, process.env.VITE_SUPABASE_ANON_KEY),
+    genLayer: createGenLayerClient({
+      chain: testnetAsimov,
+      endpoint: process.env.GENLAYER_RPC || "https://studio.genlayer.com/api/",
+    }),
+    relayerWallet,
+    resolverWallet,
+  };
+
+  console.log("🔁 Resolution relayer");
+  console.log("Resolver:", resolverWallet.address);
+  console.log("Relayer: ", relayerWallet.address);
+
+  if (process.argv.includes("--once")) {
+    await runOnce(context);
+    return;
+  }
+
+  const interval = Number(process.env.POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS;
+  for (;;) {
+    await runOnce(context);
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
+
+module.exports = { toOutcomeIndex, readGenLayerStatus, signAttestation, relayOutcome };
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
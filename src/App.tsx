@@ -11,6 +11,7 @@ import Portfolio from "./pages/Portfolio";
 import CreateMarket from "./pages/CreateMarket";
 import MyDeployments from "./pages/MyDeployments";
 import BuildersLeaderboard from "./pages/BuildersLeaderboard";
+import Admin from "./pages/Admin";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -30,6 +31,7 @@ const App = () => (
               <Route path="/create" element={<CreateMarket />} />
               <Route path="/my-deployments" element={<MyDeployments />} />
               <Route path="/leaderboard" element={<BuildersLeaderboard />} />
+              <Route path="/admin" element={<Admin />} />
               <Route path="*" element={<NotFound />} />
             </Routes>
           </BrowserRouter>
@@ -0,0 +1,107 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowRight, Loader2, Trophy } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { useClaimableMarkets, useBatchClaim } from "@/hooks/useBatchClaim";
+
+const formatTotals = (totals: Record<string, number>) =>
+  Object.entries(totals)
+    .map(([symbol, amount]) => `${amount.toFixed(4)} ${symbol}`)
+    .join(" + ");
+
+/**
+ * Winnings and refunds waiting in resolved markets, claimable together in one transaction.
+ * Hidden when there is nothing to claim.
+ */
+export const ClaimAll = () => {
+  const { chainId, switchToBase } = useWalletAuth();
+  const { data, isLoading } = useClaimableMarkets();
+  const batchClaim = useBatchClaim();
+  const [confirmOpen, setConfirmOpen] = useState(false);
+
+  if (isLoading || !data || data.markets.length === 0) return null;
+
+  const batchable = data.markets.filter((m) => m.batchable);
+  const isOnBase = chainId === 84532;
+
+  return (
+    <Card className="mb-8">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Trophy className="h-5 w-5" />
+          Claimable Winnings
+        </CardTitle>
+        {isOnBase ? (
+          <Button
+            size="sm"
+            disabled={batchable.length === 0 || batchClaim.isPending}
+            onClick={() => setConfirmOpen(true)}
+            className="gap-1.5"
+          >
+            {batchClaim.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+            Claim all
+          </Button>
+        ) : (
+          <Button size="sm" variant="outline" onClick={switchToBase}>
+            Switch to Base
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {data.markets.map((m) => (
+          <Link
+            key={m.address}
+            to={`/market/${m.id}`}
+            className="flex items-center justify-between p-3 rounded-lg border border-border hover:bg-secondary/50 transition-colors"
+          >
+            <div className="flex-1">
+              <p className="font-medium text-sm line-clamp-1">{m.title}</p>
+              {!m.batchable && (
+                <p className="text-xs text-muted-foreground mt-1">Older market, claim it from its page</p>
+              )}
+            </div>
+            <p className="font-medium">
+              {parseFloat(m.amount).toFixed(4)} {m.symbol}
+            </p>
+            <ArrowRight className="h-4 w-4 ml-2 text-muted-foreground" />
+          </Link>
+        ))}
+        {batchable.length > 0 && (
+          <p className="text-sm text-muted-foreground text-right">
+            Total: <span className="font-medium text-foreground">{formatTotals(data.totals)}</span>
+          </p>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Claim all winnings</AlertDialogTitle>
+            <AlertDialogDescription>
+              You will receive {formatTotals(data.totals)} from {batchable.length} market
+              {batchable.length === 1 ? "" : "s"} in a single transaction, after platform fees.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => batchClaim.mutate(batchable.map((m) => m.address))}>
+              Claim
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
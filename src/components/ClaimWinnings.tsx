@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from "react";
-import { Trophy, Loader2, Zap, CheckCircle2, Coins, ExternalLink, PartyPopper } from "lucide-react";
+import { Trophy, Loader2, Zap, CheckCircle2, Coins, ExternalLink, PartyPopper, Ban, Undo2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -17,14 +17,18 @@ export const ClaimWinnings = ({
   onClaimComplete,
 }: ClaimWinningsProps) => {
   const { isConnected, address, switchToBase } = useWalletAuth();
-  const { claimWinnings, readMarketData, getUserPosition, isOnBase, isPending } = useBaseTrading();
+  const { claimWinnings, readMarketData, getUserPosition, getClaimableAmount, isOnBase, isPending } = useBaseTrading();
 
   const [marketData, setMarketData] = useState<{
     isResolved: boolean;
     winner: number;
     totalPool: string;
+    isInvalid: boolean;
+    symbol: string; // Collateral the market pays out in
   } | null>(null);
   
+  const [refundAmount, setRefundAmount] = useState<string | null>(null); // Voided markets only
+  
   const [userPosition, setUserPosition] = useState<{
     yesShares: string;
     noShares: string;
@@ -50,7 +54,13 @@ export const ClaimWinnings = ({
           isResolved: data.isResolved,
           winner: data.winner,
           totalPool: data.totalPool,
+          isInvalid: !!data.isInvalid,
+          symbol: data.collateral.symbol,
         });
+
+        if (data.isInvalid) {
+          setRefundAmount(await getClaimableAmount(baseContractAddress));
+        }
       }
 
       const position = await getUserPosition(baseContractAddress);
@@ -62,7 +72,7 @@ export const ClaimWinnings = ({
     }
 
     setIsLoading(false);
-  }, [baseContractAddress, readMarketData, getUserPosition]);
+  }, [baseContractAddress, readMarketData, getUserPosition, getClaimableAmount]);
 
   useEffect(() => {
     if (isConnected) {
@@ -142,6 +152,7 @@ export const ClaimWinnings = ({
   }
 
   const winnings = calculateWinnings();
+  const symbol = marketData?.symbol ?? "ETH";
 
   // User already claimed
   if (hasClaimed) {
@@ -151,10 +162,86 @@ export const ClaimWinnings = ({
           <div className="flex items-center justify-center gap-3 py-4">
             <PartyPopper className="h-8 w-8 text-emerald-400" />
             <div className="text-center">
-              <p className="text-lg font-bold text-emerald-400">Winnings Claimed!</p>
-              <p className="text-xs text-white/50 font-mono">Check your wallet for ETH</p>
+              <p className="text-lg font-bold text-emerald-400">
+                {marketData.isInvalid ? "Refund Claimed!" : "Winnings Claimed!"}
+              </p>
+              <p className="text-xs text-white/50 font-mono">Check your wallet for {symbol}</p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Market voided - every trader gets their stake back, whichever side they took
+  if (marketData.isInvalid) {
+    const refund = parseFloat(refundAmount || "0");
+
+    if (refund <= 0) {
+      return null; // No stake, or already refunded
+    }
+
+    return (
+      <Card className="relative overflow-hidden bg-gradient-to-br from-slate-900/70 via-slate-900/50 to-slate-800/30 backdrop-blur-xl border-slate-500/30">
+        <CardContent className="p-4">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2">
+              <div className="w-10 h-10 rounded-lg bg-slate-500/20 border border-slate-500/30 flex items-center justify-center">
+                <Ban className="h-5 w-5 text-slate-300" />
+              </div>
+              <div>
+                <span className="text-sm font-bold text-white/90">Market Invalid</span>
+                <p className="text-[10px] text-white/50 font-mono">The outcome could not be determined</p>
+              </div>
+            </div>
+            <Badge className="bg-slate-500/20 text-slate-300 border-slate-500/30">Refund</Badge>
+          </div>
+
+          <div className="p-4 rounded-xl bg-white/[0.02] border border-white/5 mb-4">
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] text-white/40 font-mono uppercase tracking-widest">Your Refund</span>
+              <div className="flex items-center gap-1">
+                <Coins className="h-4 w-4 text-slate-300" />
+                <span className="text-lg font-bold text-white/90 font-mono">{refund.toFixed(4)} {symbol}</span>
+              </div>
             </div>
+            <p className="text-[10px] text-white/30 mt-2 font-mono">
+              Your net stake, pro-rata across both sides of the pool
+            </p>
           </div>
+
+          {!isConnected ? (
+            <p className="text-xs text-white/40 text-center font-mono">
+              Connect wallet to claim your refund
+            </p>
+          ) : !isOnBase ? (
+            <Button
+              onClick={switchToBase}
+              variant="outline"
+              className="w-full gap-2 bg-blue-500/10 border-blue-500/30 hover:bg-blue-500/20 text-blue-400"
+            >
+              <Zap className="h-4 w-4" />
+              Switch to Base Sepolia
+            </Button>
+          ) : (
+            <Button
+              onClick={handleClaim}
+              disabled={isClaiming || isPending}
+              className="w-full gap-2 bg-slate-600 hover:bg-slate-500 text-white font-bold"
+            >
+              {isClaiming || isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                  Claiming...
+                </>
+              ) : (
+                <>
+                  <Undo2 className="h-4 w-4" />
+                  Claim {refund.toFixed(4)} {symbol} Refund
+                </>
+              )}
+            </Button>
+          )}
         </CardContent>
       </Card>
     );
@@ -208,7 +295,7 @@ export const ClaimWinnings = ({
               <span className="text-[10px] text-white/40 font-mono uppercase tracking-widest">Estimated Payout</span>
               <div className="flex items-center gap-1">
                 <Coins className="h-4 w-4 text-amber-400" />
-                <span className="text-lg font-bold text-emerald-400 font-mono">{winnings.estimatedWinnings} ETH</span>
+                <span className="text-lg font-bold text-emerald-400 font-mono">{winnings.estimatedWinnings} {symbol}</span>
               </div>
             </div>
           </div>
@@ -241,14 +328,14 @@ export const ClaimWinnings = ({
               ) : (
                 <>
                   <Trophy className="h-5 w-5" />
-                  Claim {winnings.estimatedWinnings} ETH
+                  Claim {winnings.estimatedWinnings} {symbol}
                 </>
               )}
             </Button>
           )}
 
           <p className="text-[10px] text-white/30 mt-3 text-center font-mono">
-            ETH will be sent directly to your connected wallet
+            {symbol} will be sent directly to your connected wallet
           </p>
         </CardContent>
         
@@ -0,0 +1,127 @@
+import { useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import { Coins, Loader2, Zap } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useBaseTrading, CreatorFees } from "@/hooks/useBaseTrading";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+
+interface CreatorEarningsProps {
+  markets: { id: string; title: string; base_contract_address: string | null }[];
+}
+
+/**
+ * Creator's share of the fees taken from winnings on each of their Base markets,
+ * with a claim button per market. Renders nothing when no market has earned fees.
+ */
+export const CreatorEarnings = ({ markets }: CreatorEarningsProps) => {
+  const { isConnected, switchToBase } = useWalletAuth();
+  const { readCreatorFees, claimCreatorFees, isOnBase, isPending } = useBaseTrading();
+
+  const [fees, setFees] = useState<Record<string, CreatorFees>>({});
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+
+  const onChainMarkets = markets.filter((m) => m.base_contract_address);
+
+  const refresh = useCallback(async () => {
+    const entries = await Promise.all(
+      markets
+        .filter((m) => m.base_contract_address)
+        .map(async (m) => [m.id, await readCreatorFees(m.base_contract_address!)] as const)
+    );
+    const next: Record<string, CreatorFees> = {};
+    for (const [id, creatorFees] of entries) {
+      if (creatorFees) next[id] = creatorFees;
+    }
+    setFees(next);
+  }, [markets, readCreatorFees]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const earning = onChainMarkets.filter((m) => {
+    const f = fees[m.id];
+    return f && (parseFloat(f.accrued) > 0 || parseFloat(f.claimed) > 0);
+  });
+
+  if (earning.length === 0) return null;
+
+  // Markets can settle in different collateral, so total per token
+  const totals: Record<string, { claimable: number; claimed: number }> = {};
+  for (const m of earning) {
+    const f = fees[m.id];
+    totals[f.symbol] ??= { claimable: 0, claimed: 0 };
+    totals[f.symbol].claimable += parseFloat(f.accrued);
+    totals[f.symbol].claimed += parseFloat(f.claimed);
+  }
+
+  const handleClaim = async (marketId: string, contractAddress: string) => {
+    setClaimingId(marketId);
+    const result = await claimCreatorFees(contractAddress);
+    setClaimingId(null);
+    if (result.success) await refresh();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          Creator Earnings
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 gap-4 text-center">
+          <div>
+            {Object.entries(totals).map(([symbol, total]) => (
+              <p key={symbol} className="text-2xl font-bold">{total.claimable.toFixed(6)} {symbol}</p>
+            ))}
+            <p className="text-sm text-muted-foreground">Claimable</p>
+          </div>
+          <div>
+            {Object.entries(totals).map(([symbol, total]) => (
+              <p key={symbol} className="text-2xl font-bold">{total.claimed.toFixed(6)} {symbol}</p>
+            ))}
+            <p className="text-sm text-muted-foreground">Claimed</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {earning.map((m) => {
+            const f = fees[m.id];
+            const claimable = parseFloat(f.accrued);
+            return (
+              <div key={m.id} className="flex items-center justify-between gap-4 border rounded-lg p-3">
+                <div className="flex-1 min-w-0">
+                  <Link to={`/market/${m.id}`} className="text-sm font-medium hover:underline line-clamp-1">
+                    {m.title}
+                  </Link>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {claimable.toFixed(6)} {f.symbol} claimable · {parseFloat(f.claimed).toFixed(6)} {f.symbol} claimed
+                  </p>
+                </div>
+                <Badge variant="outline">{f.feeShareBps / 100}% of fees</Badge>
+                {isConnected && !isOnBase ? (
+                  <Button size="sm" variant="outline" onClick={switchToBase} className="gap-1">
+                    <Zap className="h-3 w-3" />
+                    Switch
+                  </Button>
+                ) : (
+                  <Button
+                    size="sm"
+                    disabled={!isConnected || claimable === 0 || isPending}
+                    onClick={() => handleClaim(m.id, m.base_contract_address!)}
+                  >
+                    {claimingId === m.id ? <Loader2 className="h-4 w-4 animate-spin" /> : "Claim"}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback } from "react";
+import { Clock, Loader2, ShieldAlert, Gavel, Zap, CheckCircle2, Wallet } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useBaseTrading, DisputeState } from "@/hooks/useBaseTrading";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { supabase } from "@/integrations/supabase/client";
+
+interface DisputeWindowProps {
+  baseContractAddress: string | null | undefined;
+  outcomeNames?: string[] | null; // Outcome labels in index order, defaults to YES/NO
+  onSettled?: () => void;
+}
+
+const formatCountdown = (seconds: number): string => {
+  if (seconds <= 0) return "0s";
+  const d = Math.floor(seconds / 86400);
+  const h = Math.floor((seconds % 86400) / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (d > 0) return `${d}d ${h}h ${m}m`;
+  if (h > 0) return `${h}h ${m}m ${s}s`;
+  return `${m}m ${s}s`;
+};
+
+/**
+ * Shows a proposed on-chain resolution during its dispute period:
+ * countdown, bonded dispute button, and finalize once the period passes.
+ * After resolution it only offers the connected wallet's settled bond, if any.
+ * Renders nothing otherwise.
+ */
+export const DisputeWindow = ({
+  baseContractAddress,
+  outcomeNames,
+  onSettled,
+}: DisputeWindowProps) => {
+  const { isConnected, switchToBase } = useWalletAuth();
+  const { readDisputeState, disputeResolution, finalizeResolution, withdrawDisputeBond, isOnBase, isPending } =
+    useBaseTrading();
+
+  const [dispute, setDispute] = useState<DisputeState | null>(null);
+  const [now, setNow] = useState(Math.floor(Date.now() / 1000));
+
+  const refresh = useCallback(async () => {
+    if (!baseContractAddress) return;
+    setDispute(await readDisputeState(baseContractAddress));
+  }, [baseContractAddress, readDisputeState]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Tick the countdown while the dispute period is open
+  useEffect(() => {
+    if (!dispute?.isProposed || dispute.isResolved) return;
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(interval);
+  }, [dispute?.isProposed, dispute?.isResolved]);
+
+  const handleWithdrawBond = async () => {
+    if (!baseContractAddress) return;
+    const result = await withdrawDisputeBond(baseContractAddress);
+    if (result.success) await refresh();
+  };
+
+  // Settled bonds wait here for the disputer (overturned) or the creator (upheld)
+  if (baseContractAddress && dispute?.isResolved && parseFloat(dispute.bondOwed) > 0) {
+    return (
+      <Card className="relative overflow-hidden bg-gradient-to-br from-slate-900/90 via-slate-900/70 to-slate-800/50 backdrop-blur-xl border-white/10">
+        <CardContent className="p-4 space-y-3">
+          <p className="text-xs text-white/60">The dispute was settled and its bond is yours to withdraw.</p>
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-mono text-white/90">{dispute.bondOwed} ETH</span>
+            <Button size="sm" onClick={handleWithdrawBond} disabled={isPending || !isOnBase} className="gap-2">
+              {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Wallet className="h-4 w-4" />}
+              Withdraw bond
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (!baseContractAddress || !dispute?.isProposed || dispute.isResolved) {
+    return null;
+  }
+
+  const labels = outcomeNames?.length ? outcomeNames : ["YES", "NO"];
+  const proposedLabel = labels[dispute.proposedOutcome] ?? `Outcome ${dispute.proposedOutcome}`;
+  const secondsLeft = dispute.disputeDeadline - now;
+  const isWindowOpen = secondsLeft > 0;
+
+  const handleDispute = async () => {
+    const result = await disputeResolution(baseContractAddress, dispute.disputeBond);
+    if (result.success) {
+      // Keep the listing in sync with the on-chain escalation
+      const { error } = await supabase
+        .from("markets")
+        .update({ resolution_status: "disputed" })
+        .eq("base_contract_address", baseContractAddress);
+      if (error) console.error("Failed to mark market disputed:", error);
+      await refresh();
+    }
+  };
+
+  const handleFinalize = async () => {
+    const result = await finalizeResolution(baseContractAddress);
+    if (result.success) {
+      await refresh();
+      onSettled?.();
+    }
+  };
+
+  // Disputed - waiting on GenLayer re-resolution or owner arbitration
+  if (dispute.isDisputed) {
+    return (
+      <Card className="relative overflow-hidden bg-gradient-to-br from-red-950/30 via-slate-900/70 to-slate-900/90 backdrop-blur-xl border-red-500/20">
+        <CardContent className="p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div className="flex items-center gap-2">
+              <div className="w-8 h-8 rounded-lg bg-red-500/20 border border-red-500/30 flex items-center justify-center">
+                <ShieldAlert className="h-4 w-4 text-red-400" />
+              </div>
+              <span className="text-sm font-semibold text-white/90">Resolution Disputed</span>
+            </div>
+            <Badge className="bg-red-500/20 text-red-400 border-red-500/30">Escalated</Badge>
+          </div>
+          <p className="text-xs text-white/60">
+            The proposed outcome <span className="font-semibold text-white/80">{proposedLabel}</span> was
+            challenged with a {dispute.disputeBond} ETH bond. It will be settled by GenLayer re-resolution or
+            owner arbitration; the bond can be withdrawn if the outcome is overturned.
+          </p>
+          {dispute.disputer && (
+            <p className="text-[10px] text-white/40 mt-2 font-mono">
+              Disputer: {dispute.disputer.slice(0, 8)}...{dispute.disputer.slice(-6)}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="relative overflow-hidden bg-gradient-to-br from-amber-950/30 via-slate-900/70 to-slate-900/90 backdrop-blur-xl border-amber-500/20">
+      <CardContent className="p-4">
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <div className="w-8 h-8 rounded-lg bg-amber-500/20 border border-amber-500/30 flex items-center justify-center">
+              <Gavel className="h-4 w-4 text-amber-400" />
+            </div>
+            <span className="text-sm font-semibold text-white/90">Proposed: {proposedLabel}</span>
+          </div>
+          <Badge className="bg-amber-500/20 text-amber-400 border-amber-500/30">
+            {isWindowOpen ? "Dispute Period" : "Ready to Finalize"}
+          </Badge>
+        </div>
+
+        <div className="flex items-center justify-between p-3 rounded-lg bg-white/[0.02] border border-white/5 mb-3">
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4 text-amber-400" />
+            <span className="text-xs text-white/60 font-mono">
+              {isWindowOpen ? "Disputes close in" : "Dispute period ended"}
+            </span>
+          </div>
+          <span className="text-sm font-bold text-white/90 font-mono">
+            {isWindowOpen ? formatCountdown(secondsLeft) : new Date(dispute.disputeDeadline * 1000).toLocaleString()}
+          </span>
+        </div>
+
+        <p className="text-xs text-white/50 mb-3">
+          {isWindowOpen
+            ? `Winnings unlock once the period ends. Think the outcome is wrong? Stake a ${dispute.disputeBond} ETH bond to escalate it.`
+            : "No one disputed the proposal. Anyone can finalize it to unlock winnings."}
+        </p>
+
+        {!isConnected ? (
+          <p className="text-xs text-white/40 text-center font-mono">Connect wallet to take action</p>
+        ) : !isOnBase ? (
+          <Button
+            onClick={switchToBase}
+            variant="outline"
+            className="w-full gap-2 bg-blue-500/10 border-blue-500/30 hover:bg-blue-500/20 text-blue-400"
+          >
+            <Zap className="h-4 w-4" />
+            Switch to Base Sepolia
+          </Button>
+        ) : isWindowOpen ? (
+          <Button
+            onClick={handleDispute}
+            disabled={isPending}
+            variant="outline"
+            className="w-full gap-2 bg-red-500/10 border-red-500/30 hover:bg-red-500/20 text-red-400"
+          >
+            {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldAlert className="h-4 w-4" />}
+            Dispute ({dispute.disputeBond} ETH bond)
+          </Button>
+        ) : (
+          <Button
+            onClick={handleFinalize}
+            disabled={isPending}
+            className="w-full gap-2 bg-emerald-600 hover:bg-emerald-500 text-white"
+          >
+            {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4" />}
+            Finalize Resolution
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,16 +5,20 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useGenLayer, GENLAYER_TESTNET } from "@/hooks/useGenLayer";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { evidenceLink, resolutionLabel } from "@/lib/resolverClient";
+import type { ResolverStatus } from "@/lib/resolverInterface";
 
 interface GenLayerResolutionProps {
   contractAddress: string | null | undefined;
   marketEndDate: string;
-  onResolved?: (outcome: number, reasoning: string) => void;
+  outcomes?: string[]; // Categorical outcome names, to label the winner
+  onResolved?: (status: ResolverStatus, txHash?: string) => void;
 }
 
 export const GenLayerResolution = ({
   contractAddress,
   marketEndDate,
+  outcomes,
   onResolved,
 }: GenLayerResolutionProps) => {
   const { isConnected } = useWalletAuth();
@@ -27,11 +31,7 @@ export const GenLayerResolution = ({
     explorerUrl,
   } = useGenLayer();
 
-  const [resolutionStatus, setResolutionStatus] = useState<{
-    resolved: boolean;
-    outcome: number;
-    reasoning: string;
-  } | null>(null);
+  const [resolutionStatus, setResolutionStatus] = useState<ResolverStatus | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   const isMarketEnded = new Date(marketEndDate) < new Date();
@@ -50,7 +50,7 @@ export const GenLayerResolution = ({
       if (status) {
         setResolutionStatus(status);
         if (status.resolved && onResolved) {
-          onResolved(status.outcome, status.reasoning);
+          onResolved(status);
         }
       }
       setIsLoading(false);
@@ -82,7 +82,10 @@ export const GenLayerResolution = ({
 
   // Already resolved
   if (resolutionStatus?.resolved) {
-    const isYes = resolutionStatus.outcome === 1;
+    // Green for YES, red for NO and INVALID; other outcomes and values stay neutral
+    const isYes = resolutionStatus.winner === 0 && !(outcomes && outcomes.length > 2);
+    const isNo = resolutionStatus.invalid || (resolutionStatus.winner === 1 && !(outcomes && outcomes.length > 2));
+    const evidenceUrl = evidenceLink(resolutionStatus);
 
     return (
       <Card className="border border-purple-500/30 bg-purple-50/50 dark:bg-purple-950/20">
@@ -97,15 +100,17 @@ export const GenLayerResolution = ({
               className={`text-xs ${
                 isYes
                   ? "text-green-600 border-green-500/30"
-                  : "text-red-600 border-red-500/30"
+                  : isNo
+                    ? "text-red-600 border-red-500/30"
+                    : "text-purple-600 border-purple-500/30"
               }`}
             >
-              {isYes ? (
-                <CheckCircle2 className="h-3 w-3 mr-1" />
-              ) : (
+              {isNo ? (
                 <XCircle className="h-3 w-3 mr-1" />
+              ) : (
+                <CheckCircle2 className="h-3 w-3 mr-1" />
               )}
-              {isYes ? "YES" : "NO"}
+              {resolutionLabel(resolutionStatus, outcomes)}
             </Badge>
           </div>
 
@@ -116,6 +121,34 @@ export const GenLayerResolution = ({
             </div>
           )}
 
+          {(resolutionStatus.evidenceQuote || evidenceUrl) && (
+            <div className="mt-2 p-2 bg-background/50 rounded text-xs text-muted-foreground">
+              <span className="font-medium">Evidence:</span>
+              {resolutionStatus.evidenceQuote && (
+                <blockquote className="mt-1 border-l-2 border-purple-500/30 pl-2 italic">
+                  "{resolutionStatus.evidenceQuote}"
+                </blockquote>
+              )}
+              {evidenceUrl && (
+                <a
+                  href={evidenceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mt-1 text-purple-600 hover:text-purple-700 flex items-center gap-1 break-all"
+                >
+                  {evidenceUrl}
+                  <ExternalLink className="h-3 w-3 shrink-0" />
+                </a>
+              )}
+            </div>
+          )}
+
+          {resolutionStatus.resolvedAt && (
+            <p className="mt-2 text-[10px] text-muted-foreground">
+              Resolved {new Date(resolutionStatus.resolvedAt).toLocaleString()}
+            </p>
+          )}
+
           <div className="mt-3 pt-3 border-t border-border/50">
             <a
               href={`${explorerUrl}/address/${contractAddress}`}
@@ -174,14 +207,10 @@ export const GenLayerResolution = ({
                 size="sm"
                 onClick={async () => {
                   const result = await resolveMarket(contractAddress);
-                  if (result.success && result.outcome !== undefined) {
-                    setResolutionStatus({
-                      resolved: true,
-                      outcome: result.outcome,
-                      reasoning: result.reasoning || "",
-                    });
+                  if (result.success && result.status?.resolved) {
+                    setResolutionStatus(result.status);
                     if (onResolved) {
-                      onResolved(result.outcome, result.reasoning || "");
+                      onResolved(result.status, result.txHash);
                     }
                   }
                 }}
@@ -0,0 +1,110 @@
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowRight, Droplets, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { useBaseTrading } from "@/hooks/useBaseTrading";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+
+/**
+ * Markets the connected wallet provides liquidity to, with its share of the pool and
+ * what it can withdraw now (leftover liquidity and LP fees, once the market resolves).
+ */
+export const LiquidityPositions = () => {
+  const { address } = useWalletAuth();
+  const { readLiquidityPosition, withdrawLiquidity, isPending } = useBaseTrading();
+
+  const { data: rows, isLoading, refetch } = useQuery({
+    queryKey: ["lp-positions", address],
+    queryFn: async () => {
+      // Scalar markets keep creator-only liquidity
+      const { data, error } = await supabase
+        .from("markets")
+        .select("id, title, base_contract_address")
+        .not("base_contract_address", "is", null)
+        .neq("market_type", "scalar");
+      if (error) throw error;
+
+      const positions = await Promise.all(
+        (data ?? []).map((m) => readLiquidityPosition(m.base_contract_address!))
+      );
+      return (data ?? [])
+        .map((m, i) => ({ ...m, position: positions[i] }))
+        .filter((row) => row.position && parseFloat(row.position.lpShares) > 0);
+    },
+    enabled: !!address,
+  });
+
+  const handleWithdraw = async (contractAddress: string) => {
+    const result = await withdrawLiquidity(contractAddress);
+    if (result.success) await refetch();
+  };
+
+  return (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Droplets className="h-5 w-5" />
+          Liquidity Positions
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows && rows.length > 0 ? (
+          <div className="space-y-3">
+            {rows.map(({ id, title, base_contract_address, position }) => {
+              const withdrawable = parseFloat(position!.withdrawable);
+              return (
+                <div key={id} className="flex items-center gap-2">
+                  <Link
+                    to={`/market/${id}`}
+                    className="flex flex-1 items-center justify-between p-3 rounded-lg border border-border hover:bg-secondary/50 transition-colors"
+                  >
+                    <div className="flex-1">
+                      <p className="font-medium text-sm line-clamp-1">{title}</p>
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {(position!.poolShare * 100).toFixed(2)}% of the pool
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      {position!.locked ? (
+                        <>
+                          <p className="font-medium">Locked</p>
+                          <p className="text-xs text-muted-foreground">Until the market resolves</p>
+                        </>
+                      ) : (
+                        <>
+                          <p className="font-medium">
+                            {withdrawable.toFixed(4)} {position!.symbol}
+                          </p>
+                          <p className="text-xs text-muted-foreground">Withdrawable</p>
+                        </>
+                      )}
+                    </div>
+                    <ArrowRight className="h-4 w-4 ml-2 text-muted-foreground" />
+                  </Link>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={withdrawable === 0 || isPending}
+                    onClick={() => handleWithdraw(base_contract_address!)}
+                  >
+                    Withdraw
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-muted-foreground text-center py-8">
+            No liquidity provided. Add liquidity from a market's trade panel to earn a share of its fees.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useBaseTrading } from "@/hooks/useBaseTrading";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { DisputeWindow } from "@/components/DisputeWindow";
 import { Contract, JsonRpcProvider } from "ethers";
 
 // Provider with fallback
@@ -38,7 +39,7 @@ export const ManualResolution = ({
   onResolved,
 }: ManualResolutionProps) => {
   const { isConnected, address, switchToBase } = useWalletAuth();
-  const { resolveOnBase, isOnBase, isPending } = useBaseTrading();
+  const { resolveOnBase, readDisputeState, voidExpired, isOnBase, isPending } = useBaseTrading();
 
   const [selectedOutcome, setSelectedOutcome] = useState<1 | 2 | null>(null);
   const [isResolving, setIsResolving] = useState(false);
@@ -46,15 +47,14 @@ export const ManualResolution = ({
   const [contractCreator, setContractCreator] = useState<string | null>(null);
   const [isCheckingContract, setIsCheckingContract] = useState(true);
   const [alreadyResolved, setAlreadyResolved] = useState(false);
-  const [onChainEndTime, setOnChainEndTime] = useState<number | null>(null);
+  const [isProposed, setIsProposed] = useState(false); // In its dispute period
+  const [resolutionDeadline, setResolutionDeadline] = useState<number | null>(null); // unix seconds
 
-  // Check database end date
-  const dbEndDate = new Date(marketEndDate);
-  const isDbMarketEnded = dbEndDate < new Date();
-  
-  // Check on-chain end time (may differ from database due to minimum 1 day)
-  const now = Math.floor(Date.now() / 1000);
-  const isOnChainEnded = onChainEndTime ? now >= onChainEndTime : true; // Default to true if unknown
+  // Factory markets end at exactly the database end date
+  const isDbMarketEnded = new Date(marketEndDate) < new Date();
+
+  // Past the deadline nobody can propose a resolution any more, only void the market
+  const isExpired = resolutionDeadline !== null && Math.floor(Date.now() / 1000) >= resolutionDeadline;
   
   // Check if user is the creator
   const isOwner = address && (
@@ -80,28 +80,16 @@ export const ManualResolution = ({
             "function marketCreator() view returns (address)",
             "function isResolved() view returns (bool)",
             "function resolved() view returns (bool)",
-            "function endDate() view returns (uint256)",
-            "function endTime() view returns (uint256)",
+            "function isProposed() view returns (bool)",
+            "function resolutionDeadline() view returns (uint256)",
           ],
           provider
         );
 
-        // Get on-chain end time
         try {
-          const endTime = await contract.endDate();
-          const endTimeNum = Number(endTime);
-          setOnChainEndTime(endTimeNum);
-          console.log("On-chain endDate:", endTimeNum, "Now:", Math.floor(Date.now() / 1000));
-          console.log("On-chain end date:", new Date(endTimeNum * 1000).toISOString());
+          setResolutionDeadline(Number(await contract.resolutionDeadline()));
         } catch {
-          try {
-            const endTime = await contract.endTime();
-            const endTimeNum = Number(endTime);
-            setOnChainEndTime(endTimeNum);
-            console.log("On-chain endTime:", endTimeNum);
-          } catch {
-            console.log("No endDate/endTime function found");
-          }
+          // Markets from before resolution deadlines can be resolved at any time
         }
 
         // Get creator
@@ -143,6 +131,13 @@ export const ManualResolution = ({
         }
         setAlreadyResolved(resolved);
 
+        // Factory markets propose first and finalize after the dispute period
+        try {
+          setIsProposed(await contract.isProposed());
+        } catch {
+          // Older contracts finalize immediately
+        }
+
       } catch (error) {
         console.error("Error checking contract:", error);
       } finally {
@@ -170,35 +165,34 @@ export const ManualResolution = ({
     const result = await resolveOnBase(baseContractAddress, selectedOutcome);
     
     if (result.success) {
-      setIsResolved(true);
-      setAlreadyResolved(true);
+      const dispute = await readDisputeState(baseContractAddress);
+      if (dispute?.isProposed && !dispute.isResolved) {
+        setIsProposed(true);
+      } else {
+        setIsResolved(true);
+        setAlreadyResolved(true);
+      }
       onResolved?.();
     }
     
     setIsResolving(false);
   };
 
-  const displayCreator = contractCreator || marketCreatorAddress;
+  const handleVoid = async () => {
+    if (!baseContractAddress) return;
 
-  // Format time remaining for on-chain end
-  const formatTimeRemaining = () => {
-    if (!onChainEndTime) return null;
-    const remaining = onChainEndTime - Math.floor(Date.now() / 1000);
-    if (remaining <= 0) return null;
-    
-    const hours = Math.floor(remaining / 3600);
-    const minutes = Math.floor((remaining % 3600) / 60);
-    
-    if (hours >= 24) {
-      const days = Math.floor(hours / 24);
-      return `${days}d ${hours % 24}h`;
-    }
-    if (hours > 0) {
-      return `${hours}h ${minutes}m`;
+    setIsResolving(true);
+    const result = await voidExpired(baseContractAddress);
+    if (result.success) {
+      setIsResolved(true);
+      setAlreadyResolved(true);
+      onResolved?.();
     }
-    return `${minutes}m`;
+    setIsResolving(false);
   };
 
+  const displayCreator = contractCreator || marketCreatorAddress;
+
   // Already resolved state
   if (isResolved || alreadyResolved) {
     return (
@@ -218,6 +212,20 @@ export const ManualResolution = ({
     );
   }
 
+  // Proposed, waiting out the dispute period
+  if (isProposed) {
+    return (
+      <DisputeWindow
+        baseContractAddress={baseContractAddress}
+        onSettled={() => {
+          setIsResolved(true);
+          setAlreadyResolved(true);
+          onResolved?.();
+        }}
+      />
+    );
+  }
+
   // Loading state
   if (isCheckingContract) {
     return (
@@ -232,7 +240,45 @@ export const ManualResolution = ({
     );
   }
 
-  const timeRemaining = formatTimeRemaining();
+  // Nobody resolved in time: anyone can void the market so traders get refunds
+  if (isExpired) {
+    return (
+      <Card className="relative overflow-hidden bg-gradient-to-br from-red-950/30 via-slate-900/70 to-slate-900/90 backdrop-blur-xl border-red-500/20">
+        <CardContent className="p-4">
+          <div className="flex items-center gap-2 mb-3">
+            <div className="w-8 h-8 rounded-lg bg-red-500/20 border border-red-500/30 flex items-center justify-center">
+              <Clock className="h-4 w-4 text-red-400" />
+            </div>
+            <span className="text-sm font-semibold text-white/90">Resolution Deadline Passed</span>
+          </div>
+          <p className="text-xs text-white/50 mb-4">
+            This market wasn't resolved by {new Date(resolutionDeadline * 1000).toLocaleString()}. Anyone can void
+            it, after which every trader reclaims their stake.
+          </p>
+          {!isConnected ? (
+            <p className="text-xs text-white/40 text-center">Connect wallet to void the market</p>
+          ) : !isOnBase ? (
+            <Button
+              onClick={switchToBase}
+              variant="outline"
+              className="w-full gap-2 bg-blue-500/10 border-blue-500/30 hover:bg-blue-500/20 text-blue-400"
+            >
+              <Zap className="h-4 w-4" />
+              Switch to Base Sepolia
+            </Button>
+          ) : (
+            <Button
+              onClick={handleVoid}
+              disabled={isResolving || isPending}
+              className="w-full gap-2 bg-red-500 hover:bg-red-600 text-white font-semibold disabled:opacity-50"
+            >
+              {isResolving || isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Void Market"}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
 
   return (
     <Card className="relative overflow-hidden bg-gradient-to-br from-amber-950/30 via-slate-900/70 to-slate-900/90 backdrop-blur-xl border-amber-500/20">
@@ -250,15 +296,15 @@ export const ManualResolution = ({
           </Badge>
         </div>
 
-        {/* On-chain end time warning */}
-        {!isOnChainEnded && timeRemaining && (
+        {/* Resolution deadline */}
+        {resolutionDeadline && (
           <div className="mb-3 p-2 rounded-lg bg-blue-500/10 border border-blue-500/20">
             <div className="flex items-center gap-2 text-xs text-blue-400">
               <Clock className="h-3 w-3" />
-              <span>On-chain lock: <strong>{timeRemaining}</strong> remaining</span>
+              <span>Resolve by <strong>{new Date(resolutionDeadline * 1000).toLocaleString()}</strong></span>
             </div>
             <p className="text-[10px] text-blue-300/70 mt-1">
-              Factory contracts have minimum 1 day duration. Wait for this to pass.
+              After this the market can be voided and every trader refunded.
             </p>
           </div>
         )}
@@ -298,7 +344,7 @@ export const ManualResolution = ({
         <div className="flex gap-2 mb-4">
           <button
             onClick={() => setSelectedOutcome(1)}
-            disabled={(!isOwner && isConnected) || !isOnChainEnded}
+            disabled={!isOwner && isConnected}
             className={`flex-1 py-3 rounded-lg font-semibold text-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
               selectedOutcome === 1
                 ? "bg-emerald-500/20 text-emerald-400 border-2 border-emerald-500/50"
@@ -309,7 +355,7 @@ export const ManualResolution = ({
           </button>
           <button
             onClick={() => setSelectedOutcome(2)}
-            disabled={(!isOwner && isConnected) || !isOnChainEnded}
+            disabled={!isOwner && isConnected}
             className={`flex-1 py-3 rounded-lg font-semibold text-sm transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
               selectedOutcome === 2
                 ? "bg-red-500/20 text-red-400 border-2 border-red-500/50"
@@ -332,14 +378,6 @@ export const ManualResolution = ({
             <Zap className="h-4 w-4" />
             Switch to Base Sepolia
           </Button>
-        ) : !isOnChainEnded ? (
-          <Button
-            disabled
-            className="w-full gap-2 bg-white/10 text-white/50 cursor-not-allowed"
-          >
-            <Clock className="h-4 w-4" />
-            Wait {timeRemaining || "for end time"}
-          </Button>
         ) : !isOwner ? (
           <Button
             disabled
@@ -369,7 +407,7 @@ export const ManualResolution = ({
         )}
 
         <p className="text-[10px] text-white/30 mt-3 text-center">
-          Resolution is final and cannot be changed.
+          Factory markets can be disputed for a period before the resolution is final.
         </p>
       </CardContent>
     </Card>
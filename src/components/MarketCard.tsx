@@ -1,8 +1,9 @@
 import { useNavigate } from "react-router-dom";
 import { Market } from "@/types/market";
-import { Bookmark, TrendingUp, TrendingDown, Zap, Brain } from "lucide-react";
+import { Bookmark, TrendingUp, TrendingDown, Zap, Brain, Lock, CheckCircle2 } from "lucide-react";
 import { useState, useEffect } from "react";
 import { cn } from "@/lib/utils";
+import { getTradingPhase, TRADING_PHASE_LABELS } from "@/lib/tradingPhase";
 
 interface MarketCardProps {
   market: Market;
@@ -103,6 +104,8 @@ export const MarketCard = ({ market, previousProbability }: MarketCardProps) =>
   // Derive confidence from market data (using aiInsight if available)
   const confidence = market.aiInsight?.confidenceScore || 50;
 
+  const phase = getTradingPhase(market.resolutionStatus, market.endDate, market.tradingClosesAt);
+
   return (
     <div
       onClick={() => navigate(`/market/${market.id}`)}
@@ -164,6 +167,17 @@ export const MarketCard = ({ market, previousProbability }: MarketCardProps) =>
             )}>
               {market.title}
             </h3>
+            {phase !== "open" && (
+              <span className={cn(
+                "inline-flex items-center gap-1 mt-1.5 px-2 py-0.5 rounded-full border text-[9px] font-mono uppercase tracking-wider",
+                phase === "closed"
+                  ? "bg-amber-500/15 text-amber-400 border-amber-500/30"
+                  : "bg-emerald-500/15 text-emerald-400 border-emerald-500/30"
+              )}>
+                {phase === "closed" ? <Lock className="h-2.5 w-2.5" /> : <CheckCircle2 className="h-2.5 w-2.5" />}
+                {TRADING_PHASE_LABELS[phase]}
+              </span>
+            )}
           </div>
         </div>
 
@@ -197,8 +211,9 @@ export const MarketCard = ({ market, previousProbability }: MarketCardProps) =>
         <div className="flex gap-2 mb-4">
           <button 
             onClick={(e) => e.stopPropagation()}
+            disabled={phase !== "open"}
             className={cn(
-              "flex-1 py-2.5 px-4 rounded-lg text-sm font-semibold transition-all duration-200",
+              "flex-1 py-2.5 px-4 rounded-lg text-sm font-semibold transition-all duration-200 disabled:opacity-40 disabled:pointer-events-none",
               "bg-emerald-500/20 text-emerald-400 border border-emerald-500/30",
               "hover:bg-emerald-500 hover:text-white hover:border-emerald-400",
               "hover:shadow-[0_4px_0_0_#065f46,0_6px_15px_rgba(16,185,129,0.3)]",
@@ -209,8 +224,9 @@ export const MarketCard = ({ market, previousProbability }: MarketCardProps) =>
           </button>
           <button 
             onClick={(e) => e.stopPropagation()}
+            disabled={phase !== "open"}
             className={cn(
-              "flex-1 py-2.5 px-4 rounded-lg text-sm font-semibold transition-all duration-200",
+              "flex-1 py-2.5 px-4 rounded-lg text-sm font-semibold transition-all duration-200 disabled:opacity-40 disabled:pointer-events-none",
               "bg-red-500/20 text-red-400 border border-red-500/30",
               "hover:bg-red-500 hover:text-white hover:border-red-400",
               "hover:shadow-[0_4px_0_0_#991b1b,0_6px_15px_rgba(239,68,68,0.3)]",
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Gavel, CheckCircle2, XCircle, AlertTriangle, Loader2, Trophy, Clock } from "lucide-react";
+import { Gavel, CheckCircle2, XCircle, AlertTriangle, Loader2, Trophy, Clock, ShieldAlert } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -14,6 +14,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useMarketResolution } from "@/hooks/useMarketResolution";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { DisputeWindow } from "@/components/DisputeWindow";
 import { cn } from "@/lib/utils";
 
 interface MarketResolutionProps {
@@ -23,6 +24,7 @@ interface MarketResolutionProps {
   endDate: string;
   resolutionStatus?: string;
   resolvedOutcome?: string | null;
+  baseContractAddress?: string | null; // Shows the on-chain dispute period when set
   onResolved?: () => void;
 }
 
@@ -33,6 +35,7 @@ export const MarketResolution = ({
   endDate,
   resolutionStatus,
   resolvedOutcome,
+  baseContractAddress,
   onResolved,
 }: MarketResolutionProps) => {
   const { address, isConnected } = useWalletAuth();
@@ -148,19 +151,23 @@ export const MarketResolution = ({
     );
   }
 
-  // Not the creator
-  if (!isCreator) {
-    return (
-      <Card className="border border-neutral-800 bg-neutral-900/50">
+  const disputeWindow = baseContractAddress ? (
+    <DisputeWindow baseContractAddress={baseContractAddress} onSettled={onResolved} />
+  ) : null;
+
+  // Disputed - escalated to GenLayer re-resolution or owner arbitration
+  if (resolutionStatus === "disputed") {
+    return disputeWindow ?? (
+      <Card className="border border-red-500/30 bg-red-500/5">
         <CardContent className="p-4">
           <div className="flex items-center gap-3">
-            <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center">
-              <Gavel className="w-5 h-5 text-neutral-500" />
+            <div className="w-10 h-10 rounded-full bg-red-500/20 flex items-center justify-center">
+              <ShieldAlert className="w-5 h-5 text-red-400" />
             </div>
             <div>
-              <h3 className="font-medium text-neutral-200">Awaiting Resolution</h3>
+              <h3 className="font-medium text-neutral-200">Resolution Disputed</h3>
               <p className="text-sm text-neutral-500">
-                The market creator will resolve this market
+                The proposed outcome is being re-resolved
               </p>
             </div>
           </div>
@@ -169,9 +176,34 @@ export const MarketResolution = ({
     );
   }
 
+  // Not the creator
+  if (!isCreator) {
+    return (
+      <div className="space-y-3">
+        {disputeWindow}
+        <Card className="border border-neutral-800 bg-neutral-900/50">
+          <CardContent className="p-4">
+            <div className="flex items-center gap-3">
+              <div className="w-10 h-10 rounded-full bg-neutral-800 flex items-center justify-center">
+                <Gavel className="w-5 h-5 text-neutral-500" />
+              </div>
+              <div>
+                <h3 className="font-medium text-neutral-200">Awaiting Resolution</h3>
+                <p className="text-sm text-neutral-500">
+                  The market creator will resolve this market
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   // Creator can resolve
   return (
     <>
+      {disputeWindow}
       <Card className="border-2 border-amber-500/30 bg-amber-500/5">
         <CardHeader className="pb-3">
           <CardTitle className="text-base flex items-center gap-2">
@@ -0,0 +1,161 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { formatUnits } from "ethers";
+import { ChevronLeft, ChevronRight, ExternalLink, Layers, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { useMarketFactory, FactoryMarketStatus, MARKET_STATUSES } from "@/hooks/useMarketFactory";
+import { readCollateral, ETH_COLLATERAL } from "@/hooks/useBaseTrading";
+
+const PAGE_SIZE = 9;
+
+const outcomeLabel = (outcome: number | null, outcomeCount: number): string => {
+  if (outcome === null) return "Resolved";
+  if (outcomeCount === 2) return outcome === 0 ? "YES won" : "NO won";
+  return `Outcome ${outcome + 1} won`;
+};
+
+/**
+ * Markets read straight from the Base factory, a page at a time and filtered by
+ * lifecycle status. Rows link to the app's market page when the market is indexed.
+ */
+export const OnChainMarkets = () => {
+  const { getFactoryMarkets, getMarketSummaries } = useMarketFactory();
+  const [status, setStatus] = useState<FactoryMarketStatus>("open");
+  // Offsets of the pages visited so far, so Previous can step back
+  const [offsets, setOffsets] = useState<number[]>([0]);
+  const offset = offsets[offsets.length - 1];
+
+  const { data, isLoading } = useQuery({
+    queryKey: ["factory-markets", status, offset],
+    queryFn: async () => {
+      const page = await getFactoryMarkets(offset, PAGE_SIZE, status);
+      const summaries = await getMarketSummaries(page.markets);
+
+      const [indexed, collaterals] = await Promise.all([
+        supabase.from("markets").select("id, base_contract_address").in("base_contract_address", page.markets),
+        Promise.all(summaries.map((s) => (s.collateral ? readCollateral(s.address) : ETH_COLLATERAL))),
+      ]);
+      const ids: Record<string, string> = {};
+      for (const row of indexed.data ?? []) {
+        if (row.base_contract_address) ids[row.base_contract_address.toLowerCase()] = row.id;
+      }
+
+      return {
+        ...page,
+        rows: summaries.map((s, i) => ({ ...s, id: ids[s.address.toLowerCase()], collateralInfo: collaterals[i] })),
+      };
+    },
+  });
+
+  const selectStatus = (next: FactoryMarketStatus) => {
+    setStatus(next);
+    setOffsets([0]);
+  };
+
+  const hasMore = !!data && data.nextOffset < data.total;
+
+  return (
+    <section className="mt-10">
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-blue-500/20 border border-blue-500/30 flex items-center justify-center">
+            <Layers className="h-4 w-4 text-blue-400" />
+          </div>
+          <h2 className="text-sm font-semibold text-white/90">On-chain Markets</h2>
+          {data && <span className="text-xs text-white/40 font-mono">{data.total} on Base</span>}
+        </div>
+        <div className="flex gap-1 p-1 rounded-lg bg-white/5 border border-white/10">
+          {MARKET_STATUSES.map((s) => (
+            <button
+              key={s}
+              onClick={() => selectStatus(s)}
+              className={`px-3 py-1.5 text-xs rounded-md capitalize transition-all duration-200 ${
+                status === s
+                  ? "bg-purple-500/20 text-purple-400 font-semibold"
+                  : "text-white/50 hover:text-white/70 hover:bg-white/5"
+              }`}
+            >
+              {s}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="h-5 w-5 animate-spin text-white/40" />
+        </div>
+      ) : !data || data.rows.length === 0 ? (
+        <p className="text-center text-sm text-white/40 py-8">
+          {hasMore ? "No matches in these markets, check the next page." : `No ${status} markets.`}
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+          {data.rows.map((m) => {
+            const pool = parseFloat(formatUnits(m.totalPool, m.collateralInfo.decimals));
+            const body = (
+              <>
+                <p className="text-sm font-medium text-white/90 line-clamp-2 mb-3">{m.question}</p>
+                <div className="flex items-center justify-between text-[11px] font-mono text-white/50">
+                  <span>
+                    {pool.toFixed(4)} {m.collateralInfo.symbol}
+                  </span>
+                  {m.isResolved ? (
+                    <Badge variant="outline" className="text-[10px]">
+                      {outcomeLabel(m.winningOutcome, m.outcomeTotals.length)}
+                    </Badge>
+                  ) : (
+                    <span>Ends {new Date(m.endTime * 1000).toLocaleDateString("en-US", { month: "short", day: "numeric" })}</span>
+                  )}
+                </div>
+              </>
+            );
+            const className = "block p-4 rounded-xl bg-gradient-to-br from-slate-900/80 to-slate-800/50 border border-white/10 hover:border-purple-500/30 transition-all duration-300";
+
+            return m.id ? (
+              <Link key={m.address} to={`/market/${m.id}`} className={className}>
+                {body}
+              </Link>
+            ) : (
+              <a
+                key={m.address}
+                href={`https://sepolia.basescan.org/address/${m.address}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={className}
+              >
+                {body}
+                <span className="flex items-center gap-1 mt-2 text-[10px] text-white/30">
+                  <ExternalLink className="h-3 w-3" />
+                  Not indexed, view on BaseScan
+                </span>
+              </a>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2 mt-4">
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={offsets.length === 1}
+          onClick={() => setOffsets((prev) => prev.slice(0, -1))}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          disabled={!hasMore}
+          onClick={() => data && setOffsets((prev) => [...prev, data.nextOffset])}
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+    </section>
+  );
+};
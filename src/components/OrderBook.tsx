@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { BookOpen, Loader2, X, Zap } from "lucide-react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useOrderBook, usePlaceOrder, useCancelOrder, DepthLevel } from "@/hooks/useOrderBook";
+import { useBaseTrading } from "@/hooks/useBaseTrading";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+
+interface OrderBookProps {
+  marketId: string;
+  contractAddress: string;
+  collateralSymbol: string;
+  collateralDecimals: number;
+  disabled?: boolean;
+}
+
+const DepthSide = ({ label, levels, color }: { label: string; levels: DepthLevel[]; color: string }) => {
+  const max = Math.max(...levels.map((l) => l.shares), 0);
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-xs text-white/40 uppercase tracking-wider">
+        <span>{label} bids</span>
+        <span>Shares</span>
+      </div>
+      {levels.length === 0 ? (
+        <p className="text-xs text-white/30 py-2">No orders</p>
+      ) : (
+        levels.slice(0, 8).map((level) => (
+          <div key={level.price} className="relative flex justify-between text-xs font-mono px-2 py-1 rounded">
+            <div
+              className={`absolute inset-y-0 left-0 rounded ${color}`}
+              style={{ width: `${max > 0 ? (level.shares / max) * 100 : 0}%` }}
+            />
+            <span className="relative text-white/80">{(level.price * 100).toFixed(1)}¢</span>
+            <span className="relative text-white/60">{level.shares.toFixed(2)}</span>
+          </div>
+        ))
+      )}
+    </div>
+  );
+};
+
+/**
+ * Limit order book of a binary Base market: bid depth on both sides, a form to
+ * place a signed order and the connected wallet's open orders.
+ */
+export const OrderBook = ({ marketId, contractAddress, collateralSymbol, collateralDecimals, disabled }: OrderBookProps) => {
+  const { isConnected, switchToBase } = useWalletAuth();
+  const { isOnBase } = useBaseTrading();
+  const { data: book, isLoading } = useOrderBook(marketId, collateralDecimals);
+  const placeOrder = usePlaceOrder();
+  const cancelOrder = useCancelOrder();
+
+  const [side, setSide] = useState<0 | 1>(0);
+  const [price, setPrice] = useState("");
+  const [shares, setShares] = useState("");
+
+  const priceCents = parseFloat(price);
+  const shareCount = parseFloat(shares);
+  const canPlace = priceCents > 0 && priceCents < 100 && shareCount > 0 && !disabled;
+  const cost = canPlace ? (priceCents / 100) * shareCount : 0;
+
+  const handlePlace = async () => {
+    const result = await placeOrder.mutateAsync({
+      marketId,
+      contractAddress,
+      outcomeIndex: side,
+      price: priceCents / 100,
+      shares: shareCount,
+    });
+    if (result === null) return;
+    setPrice("");
+    setShares("");
+  };
+
+  return (
+    <Card className="relative overflow-hidden bg-gradient-to-br from-slate-900/90 via-slate-900/70 to-slate-800/50 backdrop-blur-xl border-white/10">
+      <CardContent className="relative p-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <div className="w-8 h-8 rounded-lg bg-white/5 border border-white/10 flex items-center justify-center">
+            <BookOpen className="h-4 w-4 text-purple-400" />
+          </div>
+          <span className="text-sm font-medium text-white/90">Order Book</span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-white/40" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 gap-4">
+            <DepthSide label="Yes" levels={book?.yes ?? []} color="bg-green-500/20" />
+            <DepthSide label="No" levels={book?.no ?? []} color="bg-red-500/20" />
+          </div>
+        )}
+
+        <div className="space-y-3 border-t border-white/10 pt-4">
+          <div className="grid grid-cols-2 gap-2">
+            <Button size="sm" variant={side === 0 ? "default" : "outline"} onClick={() => setSide(0)}>
+              Bid Yes
+            </Button>
+            <Button size="sm" variant={side === 1 ? "default" : "outline"} onClick={() => setSide(1)}>
+              Bid No
+            </Button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="order-price" className="text-xs text-white/60">Price (¢)</Label>
+              <Input id="order-price" type="number" placeholder="50" value={price} onChange={(e) => setPrice(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="order-shares" className="text-xs text-white/60">Shares</Label>
+              <Input id="order-shares" type="number" placeholder="0.00" value={shares} onChange={(e) => setShares(e.target.value)} />
+            </div>
+          </div>
+          {cost > 0 && (
+            <p className="text-xs text-white/50">
+              Up to {cost.toFixed(4)} {collateralSymbol}, fills when a {side === 0 ? "No" : "Yes"} bid crosses your price
+            </p>
+          )}
+          {isConnected && !isOnBase ? (
+            <Button variant="outline" onClick={switchToBase} className="w-full gap-1">
+              <Zap className="h-4 w-4" />
+              Switch to Base
+            </Button>
+          ) : (
+            <Button className="w-full" onClick={handlePlace} disabled={!isConnected || !canPlace || placeOrder.isPending}>
+              {placeOrder.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Place limit order"}
+            </Button>
+          )}
+        </div>
+
+        {book && book.mine.length > 0 && (
+          <div className="space-y-2 border-t border-white/10 pt-4">
+            <span className="text-xs text-white/40 uppercase tracking-wider">Your open orders</span>
+            {book.mine.map((order) => {
+              const remaining = (Number(order.shares) - Number(order.filled)) / 10 ** collateralDecimals;
+              return (
+                <div key={order.id} className="flex items-center justify-between text-xs font-mono text-white/70">
+                  <span>
+                    {order.outcome === 0 ? "YES" : "NO"} {remaining.toFixed(2)} @ {((Number(order.price) / 1e18) * 100).toFixed(1)}¢
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-6 px-2"
+                    disabled={cancelOrder.isPending}
+                    onClick={() => cancelOrder.mutate(order)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
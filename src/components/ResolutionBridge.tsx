@@ -6,6 +6,9 @@ import { Badge } from "@/components/ui/badge";
 import { useGenLayer, GENLAYER_TESTNET } from "@/hooks/useGenLayer";
 import { useBaseTrading } from "@/hooks/useBaseTrading";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { DisputeWindow } from "@/components/DisputeWindow";
+import { evidenceLink, resolutionLabel } from "@/lib/resolverClient";
+import type { ResolverStatus } from "@/lib/resolverInterface";
 
 interface ResolutionBridgeProps {
   genLayerContractAddress: string | null | undefined;
@@ -22,17 +25,15 @@ export const ResolutionBridge = ({
 }: ResolutionBridgeProps) => {
   const { isConnected, switchToBase } = useWalletAuth();
   const { checkResolutionStatus, explorerUrl: genLayerExplorer } = useGenLayer();
-  const { resolveOnBase, readMarketData, isOnBase, isPending } = useBaseTrading();
+  const { resolveOnBase, readMarketData, readDisputeState, isOnBase, isPending } = useBaseTrading();
 
-  const [genLayerStatus, setGenLayerStatus] = useState<{
-    resolved: boolean;
-    outcome: number;
-    reasoning: string;
-  } | null>(null);
+  const [genLayerStatus, setGenLayerStatus] = useState<ResolverStatus | null>(null);
   
   const [baseStatus, setBaseStatus] = useState<{
     isResolved: boolean;
     winner: number | null;
+    isProposed: boolean; // Bridged outcome waiting out its dispute period
+    hasResolver: boolean; // The relayer bridges this market automatically
   } | null>(null);
   
   const [isLoading, setIsLoading] = useState(true);
@@ -54,29 +55,40 @@ export const ResolutionBridge = ({
 
     // Check Base Sepolia status
     if (baseContractAddress) {
-      const baseData = await readMarketData(baseContractAddress);
+      const [baseData, dispute] = await Promise.all([
+        readMarketData(baseContractAddress),
+        readDisputeState(baseContractAddress),
+      ]);
       if (baseData) {
         setBaseStatus({
           isResolved: baseData.isResolved,
           winner: baseData.winner,
+          isProposed: !!dispute?.isProposed,
+          hasResolver: !!dispute?.resolver,
         });
       }
     }
 
     setIsLoading(false);
-  }, [genLayerContractAddress, baseContractAddress, checkResolutionStatus, readMarketData]);
+  }, [genLayerContractAddress, baseContractAddress, checkResolutionStatus, readMarketData, readDisputeState]);
 
   useEffect(() => {
     checkStatuses();
   }, [checkStatuses]);
 
+  // Only YES/NO outcomes can be bridged by hand; INVALID needs the resolution relayer
+  const bridgeOutcome = genLayerStatus?.winner === 0 || genLayerStatus?.winner === 1 ? genLayerStatus.winner : null;
+  const genLayerYes = genLayerStatus?.winner === 0;
+  const evidenceUrl = genLayerStatus ? evidenceLink(genLayerStatus) : null;
+
   // Handle bridge action
   const handleBridge = async () => {
-    if (!baseContractAddress || !genLayerStatus?.resolved) return;
+    if (!baseContractAddress || !genLayerStatus?.resolved || bridgeOutcome === null) return;
 
     setIsBridging(true);
     
-    const result = await resolveOnBase(baseContractAddress, genLayerStatus.outcome);
+    // resolveOnBase takes 1 = YES, 2 = NO
+    const result = await resolveOnBase(baseContractAddress, bridgeOutcome + 1);
     
     if (result.success) {
       // Refresh statuses
@@ -108,8 +120,6 @@ export const ResolutionBridge = ({
 
   // Both chains resolved
   if (genLayerStatus?.resolved && baseStatus?.isResolved) {
-    const outcomeMatch = genLayerStatus.outcome === baseStatus.winner;
-    
     return (
       <Card className="relative overflow-hidden bg-gradient-to-br from-emerald-950/30 via-slate-900/70 to-slate-900/90 backdrop-blur-xl border-emerald-500/20 shadow-[0_0_20px_rgba(16,185,129,0.1)]">
         <CardContent className="p-4">
@@ -131,8 +141,8 @@ export const ResolutionBridge = ({
             <div className="flex-1 flex items-center gap-2">
               <Brain className="h-4 w-4 text-purple-400" />
               <span className="text-xs text-white/60 font-mono">GenLayer</span>
-              <Badge className={`text-[10px] ${genLayerStatus.outcome === 1 ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
-                {genLayerStatus.outcome === 1 ? 'YES' : 'NO'}
+              <Badge className={`text-[10px] ${genLayerYes ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
+                {resolutionLabel(genLayerStatus)}
               </Badge>
             </div>
             
@@ -157,6 +167,19 @@ export const ResolutionBridge = ({
     );
   }
 
+  // Outcome bridged but still in its dispute period - SHOW COUNTDOWN / DISPUTE
+  if (baseStatus?.isProposed && !baseStatus.isResolved) {
+    return (
+      <DisputeWindow
+        baseContractAddress={baseContractAddress}
+        onSettled={async () => {
+          await checkStatuses();
+          onBridgeComplete?.();
+        }}
+      />
+    );
+  }
+
   // GenLayer resolved but Base not resolved - SHOW BRIDGE BUTTON
   if (genLayerStatus?.resolved && !baseStatus?.isResolved) {
     return (
@@ -181,7 +204,9 @@ export const ResolutionBridge = ({
           </div>
 
           <p className="text-xs text-white/60 mb-4">
-            GenLayer AI has resolved the market. Bridge the outcome to Base Sepolia to enable winner payouts.
+            {baseStatus?.hasResolver
+              ? "GenLayer AI has resolved the market. The resolution relayer will post a signed attestation to Base Sepolia shortly, or the creator can bridge it now."
+              : "GenLayer AI has resolved the market. Bridge the outcome to Base Sepolia to enable winner payouts."}
           </p>
 
           {/* Chain status row */}
@@ -194,8 +219,8 @@ export const ResolutionBridge = ({
               </div>
               <div className="flex items-center gap-2">
                 <CheckCircle2 className="h-3 w-3 text-emerald-400" />
-                <Badge className={`text-[10px] ${genLayerStatus.outcome === 1 ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
-                  {genLayerStatus.outcome === 1 ? 'YES' : 'NO'}
+                <Badge className={`text-[10px] ${genLayerYes ? 'bg-emerald-500/20 text-emerald-400' : 'bg-red-500/20 text-red-400'}`}>
+                  {resolutionLabel(genLayerStatus)}
                 </Badge>
               </div>
             </div>
@@ -235,7 +260,7 @@ export const ResolutionBridge = ({
           ) : (
             <Button
               onClick={handleBridge}
-              disabled={isBridging || isPending}
+              disabled={isBridging || isPending || bridgeOutcome === null}
               className="w-full gap-2 bg-gradient-to-r from-purple-500 to-amber-500 hover:from-purple-600 hover:to-amber-600 text-white font-semibold shadow-[0_4px_0_0_rgba(139,92,246,0.5),0_6px_20px_rgba(168,85,247,0.3)] active:shadow-[0_2px_0_0_rgba(139,92,246,0.5)] active:translate-y-[2px] transition-all"
             >
               {isBridging || isPending ? (
@@ -246,7 +271,7 @@ export const ResolutionBridge = ({
               ) : (
                 <>
                   <Link2 className="h-4 w-4" />
-                  Bridge Resolution ({genLayerStatus.outcome === 1 ? 'YES' : 'NO'})
+                  Bridge Resolution ({resolutionLabel(genLayerStatus)})
                 </>
               )}
             </Button>
@@ -259,6 +284,22 @@ export const ResolutionBridge = ({
               <p className="text-[11px] text-white/60 line-clamp-2">
                 {genLayerStatus.reasoning}
               </p>
+              {genLayerStatus.evidenceQuote && (
+                <p className="mt-1 text-[11px] text-white/50 italic line-clamp-2">
+                  "{genLayerStatus.evidenceQuote}"
+                </p>
+              )}
+              {evidenceUrl && (
+                <a
+                  href={evidenceUrl}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="mt-1 text-[10px] text-purple-400 hover:text-purple-300 font-mono flex items-center gap-1"
+                >
+                  View evidence
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              )}
             </div>
           )}
         </CardContent>
@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { Loader2, Send, Zap } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useBaseTrading } from "@/hooks/useBaseTrading";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+
+interface SendSharesDialogProps {
+  contractAddress: string;
+  outcomeIndex: number;
+  outcomeLabel: string;
+  onSent?: () => void;
+}
+
+/**
+ * Sends a position's on-chain shares to another wallet as ERC-1155 outcome tokens.
+ * The available balance is read from the market when the dialog opens.
+ */
+export const SendSharesDialog = ({ contractAddress, outcomeIndex, outcomeLabel, onSent }: SendSharesDialogProps) => {
+  const { isConnected, switchToBase } = useWalletAuth();
+  const { getUserOutcomeShares, transferShares, isOnBase, isPending } = useBaseTrading();
+
+  const [open, setOpen] = useState(false);
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [held, setHeld] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    getUserOutcomeShares(contractAddress).then((shares) => setHeld(shares?.[outcomeIndex] ?? "0"));
+  }, [open, contractAddress, outcomeIndex, getUserOutcomeShares]);
+
+  const shares = parseFloat(amount);
+  const canSend = recipient.length > 0 && shares > 0 && held !== null && shares <= parseFloat(held);
+
+  const handleSend = async () => {
+    const result = await transferShares({ contractAddress, outcomeIndex, to: recipient.trim(), shares: amount });
+    if (!result.success) return;
+    setOpen(false);
+    setRecipient("");
+    setAmount("");
+    onSent?.();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button size="sm" variant="outline" className="gap-1" disabled={!isConnected}>
+          <Send className="h-3 w-3" />
+          Send
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Send {outcomeLabel} shares</DialogTitle>
+          <DialogDescription>
+            Shares move as ERC-1155 outcome tokens. The recipient collects any winnings they pay out.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="send-recipient">Recipient</Label>
+            <Input
+              id="send-recipient"
+              placeholder="0x..."
+              value={recipient}
+              onChange={(e) => setRecipient(e.target.value)}
+              className="font-mono"
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <Label htmlFor="send-amount">Shares</Label>
+              {held !== null && parseFloat(held) > 0 && (
+                <button onClick={() => setAmount(held)} className="text-xs text-muted-foreground hover:text-foreground">
+                  Max {parseFloat(held).toFixed(4)}
+                </button>
+              )}
+            </div>
+            <Input
+              id="send-amount"
+              type="number"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          {!isOnBase ? (
+            <Button variant="outline" onClick={switchToBase} className="gap-1">
+              <Zap className="h-4 w-4" />
+              Switch to Base
+            </Button>
+          ) : (
+            <Button onClick={handleSend} disabled={!canSend || isPending}>
+              {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Send shares"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
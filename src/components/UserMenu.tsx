@@ -9,7 +9,7 @@ import {
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useWalletAuth, formatAddress } from "@/contexts/WalletAuthContext";
-import { Wallet, LogOut, BarChart3, Zap, Copy, Check, ExternalLink } from "lucide-react";
+import { Wallet, LogOut, BarChart3, Zap, Copy, Check, ExternalLink, Shield } from "lucide-react";
 import { useState } from "react";
 import { toast } from "sonner";
 
@@ -89,6 +89,11 @@ export const UserMenu = ({ onOpenWallet }: UserMenuProps) => {
           Portfolio
         </DropdownMenuItem>
         
+        <DropdownMenuItem onClick={() => navigate("/admin")}>
+          <Shield className="h-4 w-4 mr-2" />
+          Factory Admin
+        </DropdownMenuItem>
+        
         <DropdownMenuItem onClick={onOpenWallet}>
           <Wallet className="h-4 w-4 mr-2" />
           Wallet Details
@@ -1,4 +1,4 @@
-import { Users, CheckCircle2, Clock, AlertTriangle, Brain, Wifi, Activity } from "lucide-react";
+import { Users, CheckCircle2, Clock, AlertTriangle, Brain, Wifi, Activity, Ban } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface ValidatorConsensusProps {
@@ -136,6 +136,17 @@ export const ValidatorConsensus = ({
           isThinking: true,
           isResolved: false,
         };
+      case "invalid":
+        return {
+          icon: Ban,
+          label: "Invalid - Refunded",
+          color: "text-slate-300",
+          bg: "bg-slate-500/10",
+          border: "border-slate-500/30",
+          glow: "",
+          isThinking: false,
+          isResolved: true,
+        };
       case "disputed":
         return {
           icon: AlertTriangle,
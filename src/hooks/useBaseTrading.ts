@@ -1,6 +1,22 @@
 import { useState, useCallback } from "react";
-import { BrowserProvider, Contract, parseEther, formatEther, JsonRpcProvider } from "ethers";
+import {
+  BrowserProvider,
+  Contract,
+  JsonRpcSigner,
+  parseEther,
+  formatEther,
+  parseUnits,
+  formatUnits,
+  Signature,
+  JsonRpcProvider,
+  ZeroAddress,
+  ZeroHash,
+  EventLog,
+  MaxUint256,
+  isAddress,
+} from "ethers";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 
 const BASE_SEPOLIA = {
@@ -46,12 +62,341 @@ const OLD_CONTRACT_ABI = [
   "function creator() view returns (address)",
 ];
 
+const ERC20_ABI = [
+  "function name() view returns (string)",
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+  "function nonces(address owner) view returns (uint256)",
+  "function version() view returns (string)",
+];
+
+export interface CollateralInfo {
+  address: string | null; // ERC-20 token, null for native ETH
+  symbol: string;
+  decimals: number;
+}
+
+export const ETH_COLLATERAL: CollateralInfo = { address: null, symbol: "ETH", decimals: 18 };
+
+// Base Sepolia USDC, the token handed out by the base-faucet function
+export const USDC_COLLATERAL: CollateralInfo = {
+  address: import.meta.env.VITE_USDC_ADDRESS || "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+  symbol: "USDC",
+  decimals: 6,
+};
+
+// Collateral per market contract (only token lookups that succeeded are cached)
+const collateralCache: Record<string, CollateralInfo> = {};
+
+/**
+ * Read what a market settles in. Old contracts and markets without collateral() use ETH.
+ */
+export const readCollateral = async (contractAddress: string): Promise<CollateralInfo> => {
+  if (collateralCache[contractAddress]) return collateralCache[contractAddress];
+
+  try {
+    const provider = await ensureProvider();
+    const market = new Contract(contractAddress, ["function collateral() view returns (address)"], provider);
+    const token: string = await market.collateral();
+    if (token === ZeroAddress) return ETH_COLLATERAL;
+
+    const erc20 = new Contract(token, ERC20_ABI, provider);
+    const [symbol, decimals] = await Promise.all([erc20.symbol(), erc20.decimals()]);
+    collateralCache[contractAddress] = { address: token, symbol, decimals: Number(decimals) };
+    return collateralCache[contractAddress];
+  } catch {
+    return ETH_COLLATERAL;
+  }
+};
+
+/**
+ * Parse an amount typed by the user, or a balance read back from a market, into
+ * `decimals` units. It stays a string throughout, so balances pass through exactly,
+ * and digits past the token's precision are dropped instead of making parseUnits throw.
+ */
+const toUnits = (amount: string, decimals: number): bigint => {
+  const [whole, fraction = ""] = amount.trim().split(".");
+  const kept = fraction.slice(0, decimals);
+  return parseUnits(kept ? `${whole || "0"}.${kept}` : whole || "0", decimals);
+};
+
+/**
+ * Scalar markets report marketVersion() from here up, so they can't be mistaken for
+ * PredictionMarket versions. Scalar markets deployed before the split reported 1-5.
+ */
+export const SCALAR_VERSION_BASE = 1000;
+
+/**
+ * Implementation version a market reports through marketVersion().
+ * Returns 0 for contracts deployed before markets were versioned.
+ */
+export const readMarketVersion = async (contractAddress: string): Promise<number> => {
+  try {
+    const provider = await ensureProvider();
+    const market = new Contract(contractAddress, ["function marketVersion() view returns (uint256)"], provider);
+    return Number(await market.marketVersion());
+  } catch {
+    return 0;
+  }
+};
+
+/**
+ * Sign an EIP-2612 permit for the market to spend `value` of the token.
+ * Returns null when the token doesn't support permits.
+ */
+const signPermit = async (
+  signer: JsonRpcSigner,
+  token: string,
+  spender: string,
+  value: bigint
+): Promise<{ deadline: bigint; v: number; r: string; s: string } | null> => {
+  const erc20 = new Contract(token, ERC20_ABI, signer);
+  const owner = await signer.getAddress();
+
+  let name: string;
+  let nonce: bigint;
+  try {
+    [name, nonce] = await Promise.all([erc20.name(), erc20.nonces(owner)]);
+  } catch {
+    return null;
+  }
+  // USDC uses version "2"; tokens without version() default to "1"
+  const version: string = await erc20.version().catch(() => "1");
+
+  const { chainId } = await signer.provider.getNetwork();
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + 60 * 20);
+  const signature = await signer.signTypedData(
+    { name, version, chainId, verifyingContract: token },
+    {
+      Permit: [
+        { name: "owner", type: "address" },
+        { name: "spender", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+    { owner, spender, value, nonce, deadline }
+  );
+  const { v, r, s } = Signature.from(signature);
+  return { deadline, v, r, s };
+};
+
+// EIP-2771 meta-transactions: users without ETH for gas sign a ForwardRequest and the
+// relay-transaction function submits it through the market's trusted forwarder
+const FORWARD_REQUEST_TYPES = {
+  ForwardRequest: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "gas", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "data", type: "bytes" },
+  ],
+};
+
+// Gas a relayed buy may use, also what the wallet needs ETH for to skip the relayer
+const RELAYED_BUY_GAS = 500_000n;
+
+// Forwarder the market accepts meta-transactions from, ZeroAddress for none (markets before v6)
+const readTrustedForwarder = async (contractAddress: string): Promise<string> => {
+  const provider = await ensureProvider();
+  const market = new Contract(contractAddress, ["function trustedForwarder() view returns (address)"], provider);
+  return market.trustedForwarder().catch(() => ZeroAddress);
+};
+
+// Whether the wallet can't pay for a buy's gas itself
+const lacksGas = async (owner: string): Promise<boolean> => {
+  const provider = await ensureProvider();
+  const [balance, { maxFeePerGas, gasPrice }] = await Promise.all([provider.getBalance(owner), provider.getFeeData()]);
+  return balance < (maxFeePerGas ?? gasPrice ?? 0n) * RELAYED_BUY_GAS;
+};
+
+/**
+ * Sign a call to `target` as a forward request and have the relayer pay its gas.
+ * Resolves once the relayed transaction is mined.
+ */
+const relayCall = async (
+  signer: JsonRpcSigner,
+  forwarder: string,
+  target: string,
+  data: string
+): Promise<{ txHash: string; remaining: number }> => {
+  const from = await signer.getAddress();
+  const nonces = new Contract(forwarder, ["function nonces(address) view returns (uint256)"], await ensureProvider());
+  const request = {
+    from,
+    to: target,
+    value: 0n,
+    gas: RELAYED_BUY_GAS,
+    nonce: (await nonces.nonces(from)) as bigint,
+    deadline: BigInt(Math.floor(Date.now() / 1000) + 60 * 20),
+    data,
+  };
+  const signature = await signer.signTypedData(
+    { name: "TrustedForwarder", version: "1", chainId: BASE_SEPOLIA.chainId, verifyingContract: forwarder },
+    FORWARD_REQUEST_TYPES,
+    request
+  );
+
+  const { data: result, error } = await supabase.functions.invoke("relay-transaction", {
+    body: {
+      request: Object.fromEntries(Object.entries(request).map(([key, value]) => [key, value.toString()])),
+      signature,
+    },
+  });
+  if (error) {
+    // Non-2xx responses carry the relayer's reason (quota used up, call would revert) in the body
+    const body = await (error as { context?: Response }).context?.json().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  return { txHash: result.txHash, remaining: result.remaining };
+};
+
 interface TradeParams {
   contractAddress: string;
   positionType: "yes" | "no";
-  amount: number;
+  amount: string; // as entered, parsed in the collateral's decimals
+  outcomeIndex?: number; // categorical markets, takes precedence over positionType
+}
+
+interface SellParams extends TradeParams {
+  shares: string; // as entered, or the exact held balance
+  slippageBps?: number; // max allowed drop from the quoted proceeds, factory markets only
+}
+
+interface TransferParams {
+  contractAddress: string;
+  outcomeIndex: number; // 0 = YES, 1 = NO on binary markets
+  to: string;
+  shares: string;
+}
+
+interface SetParams {
+  contractAddress: string;
+  amount: string; // collateral locked or returned, also the shares of each outcome
+}
+
+const COMPLETE_SET_ABI = [
+  "function splitPosition(uint256 _amount) payable",
+  "function mergePositions(uint256 _amount)",
+];
+
+interface LiquidityParams {
+  contractAddress: string;
+  amount: string; // collateral deposited, split between new LP shares and outcome shares
+}
+
+const LIQUIDITY_ABI = [
+  "function addLiquidity(uint256 _amount) payable",
+  "function withdrawLiquidity()",
+  "function getWithdrawableLiquidity(address _provider) view returns (uint256)",
+  "function lpShares(address) view returns (uint256)",
+  "function totalLpShares() view returns (uint256)",
+  "function isResolved() view returns (bool)",
+];
+
+const OUTCOME_TOKEN_ABI = [
+  "function tokenId(address _market, uint256 _outcome) view returns (uint256)",
+  "function safeTransferFrom(address _from, address _to, uint256 _id, uint256 _value, bytes _data)",
+];
+
+// EIP-712 limit order, see PredictionMarket.matchOrders
+export interface LimitOrder {
+  maker: string;
+  outcome: number; // 0 = YES, 1 = NO
+  price: bigint; // collateral per share, 18 decimals
+  shares: bigint; // collateral decimals
+  nonce: bigint;
+  expiry: bigint; // unix seconds
+}
+
+interface LimitOrderParams {
+  contractAddress: string;
+  outcomeIndex: number;
+  price: number; // 0-1
+  shares: number;
+  expiryHours?: number;
 }
 
+const ORDER_TYPES = {
+  Order: [
+    { name: "maker", type: "address" },
+    { name: "outcome", type: "uint256" },
+    { name: "price", type: "uint256" },
+    { name: "shares", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+const ORDER_ABI = [
+  "function orderDeposits(address) view returns (uint256)",
+  "function depositForOrders() payable",
+  "function cancelOrder((address maker, uint256 outcome, uint256 price, uint256 shares, uint256 nonce, uint256 expiry) _order)",
+];
+
+const DEFAULT_ORDER_EXPIRY_HOURS = 24 * 7;
+
+const LOGGED_TRADE =
+  "(bytes32 previous, address trader, bool isSale, uint32 outcome, uint64 timestamp, uint128 shares, uint128 amount)";
+
+const EARLY_CLOSE_ABI = [
+  "function closeEarly(uint256 _eventTime)",
+  `function reverseLateTrades(${LOGGED_TRADE}[] _trades)`,
+  "function lateTradesPending() view returns (bool)",
+  "function eventTimePending() view returns (bool)",
+  "function eventTime() view returns (uint256)",
+  "function lateTradeHead() view returns (bytes32)",
+  "function lateTradeRefunds(address) view returns (uint256)",
+  "function withdrawLateTradeRefund()",
+  `event TradeLogged(bytes32 indexed head, ${LOGGED_TRADE} trade)`,
+];
+
+// Late trades reversed per transaction after an early close
+const REVERSAL_BATCH = 50;
+
+// Public RPCs cap the block range of eth_getLogs
+const LOG_CHUNK = 10000;
+
+// The next trades reverseLateTrades checks, newest first from lateTradeHead. Markets only
+// store the newest trade's hash, so the trades themselves come from TradeLogged events.
+const readLateTrades = async (contract: Contract, provider: BrowserProvider): Promise<Record<string, unknown>[]> => {
+  const eventTime: bigint = await contract.eventTime();
+  let head: string = await contract.lateTradeHead();
+  const trades: Record<string, unknown>[] = [];
+
+  let toBlock = await provider.getBlockNumber();
+  while (head !== ZeroHash && toBlock >= 0 && trades.length < REVERSAL_BATCH) {
+    const fromBlock = Math.max(0, toBlock - LOG_CHUNK + 1);
+    const logs = await contract.queryFilter(contract.filters.TradeLogged(), fromBlock, toBlock);
+    const byHead = new Map(
+      logs.filter((log): log is EventLog => log instanceof EventLog).map((log) => [log.args.head as string, log.args.trade])
+    );
+
+    for (let trade = byHead.get(head); trade && trades.length < REVERSAL_BATCH; trade = byHead.get(head)) {
+      trades.push(trade.toObject());
+      // The walk ends at the first trade from before the event
+      if (trade.timestamp < eventTime) return trades;
+      head = trade.previous;
+    }
+    toBlock = fromBlock - 1;
+  }
+  return trades;
+};
+
+// Creator-set caps on buys from the market maker (version 8+ markets)
+export const TRADING_LIMITS_ABI = [
+  "function setLimits(uint256 _maxPerAddress, uint256 _maxPool)",
+  "function getLimits(address _user) view returns (uint256 perAddress, uint256 pool, uint256 userHeadroom, uint256 poolHeadroom)",
+];
+
+// Default slippage tolerance for sells (1%)
+const DEFAULT_SLIPPAGE_BPS = 100;
+
 interface TradeResult {
   success: boolean;
   transactionHash?: string;
@@ -67,6 +412,55 @@ interface MarketData {
   totalPool: string;
   yesShares: string;
   noShares: string;
+  yesPrice?: number; // LMSR marginal price of YES (0-1), factory markets only
+  isInvalid?: boolean; // Resolved INVALID, claims refund stakes instead of paying winners
+  tradingEndDate?: number; // Unix seconds trading stops, before endDate with a cutoff or an early close
+  closedEarly?: boolean; // Closed with closeEarly because the event happened ahead of schedule
+  lateTradesPending?: boolean; // The early close's event time awaits confirmation or its late trades reversal
+  eventTimePending?: boolean; // The creator's event time awaits the resolver or a factory resolver
+  collateral: CollateralInfo; // Pools and shares are in these units
+}
+
+export interface DisputeState {
+  isProposed: boolean;
+  proposedOutcome: number; // outcome index (0 = YES, 1 = NO for binary)
+  disputeDeadline: number; // unix seconds
+  isDisputed: boolean;
+  disputer: string | null;
+  disputeBond: string; // ETH
+  bondOwed: string; // ETH of settled bonds the connected wallet can withdraw
+  isResolved: boolean;
+  resolver: string | null; // Oracle whose relayed attestations resolve the market
+}
+
+export interface CreatorFees {
+  accrued: string; // Claimable by the creator now, in the market's collateral
+  claimed: string; // Already claimed
+  symbol: string; // Collateral symbol
+  feeShareBps: number; // Creator's cut of each fee (basis points)
+}
+
+export interface LiquidityPosition {
+  lpShares: string;
+  poolShare: number; // Fraction of all LP shares (0-1)
+  withdrawable: string; // Leftover liquidity and LP fees payable now, in the market's collateral
+  locked: boolean; // Liquidity can't be withdrawn before the market resolves
+  symbol: string; // Collateral symbol
+}
+
+export interface TradingLimits {
+  maxPerAddress: number | null; // Cap on each address's stake, null when uncapped
+  maxPool: number | null; // Cap on the pool, null when uncapped
+  remaining: number | null; // What the connected wallet can still buy, null when uncapped
+  symbol: string; // Collateral symbol
+}
+
+export interface ScalarData {
+  lowerBound: number;
+  upperBound: number;
+  estimate: number; // lower + LONG price * (upper - lower)
+  resolvedValue: number | null;
+  longPayout: number | null; // ETH per LONG share once resolved (0-1)
 }
 
 interface UserPosition {
@@ -74,8 +468,17 @@ interface UserPosition {
   noShares: string;
 }
 
+export interface OutcomeData {
+  names: string[];
+  prices: number[]; // LMSR marginal prices (0-1), in outcome index order
+  totals: string[];
+}
+
+// "new" is a factory PredictionMarket (binary or categorical), "scalar" a factory ScalarMarket
+type ContractType = "old" | "new" | "scalar" | "invalid";
+
 // Cache for contract types (only caches valid results)
-const contractTypeCache: Record<string, "old" | "new" | "invalid"> = {};
+const contractTypeCache: Record<string, ContractType> = {};
 
 // Clear contract cache (useful when retrying after errors)
 export const clearContractCache = (contractAddress?: string) => {
@@ -117,7 +520,7 @@ export const useBaseTrading = () => {
 
   // Detect contract type (uses dedicated Base Sepolia RPC)
   const detectContractType = useCallback(
-    async (contractAddress: string): Promise<"old" | "new" | "invalid"> => {
+    async (contractAddress: string): Promise<ContractType> => {
       // Only use cache for valid results, not for invalid
       if (contractTypeCache[contractAddress] && contractTypeCache[contractAddress] !== "invalid") {
         return contractTypeCache[contractAddress];
@@ -144,7 +547,20 @@ export const useBaseTrading = () => {
           return "invalid";
         }
 
-        // Try OLD contract (has totalShares with uint8 param)
+        // Versioned markets (factory clones) say which ABI they use
+        const version = await readMarketVersion(contractAddress);
+        if (version >= SCALAR_VERSION_BASE) {
+          console.log("Detected scalar contract v" + (version - SCALAR_VERSION_BASE));
+          contractTypeCache[contractAddress] = "scalar";
+          return "scalar";
+        }
+        if (version > 0) {
+          console.log("Detected factory contract v" + version);
+          contractTypeCache[contractAddress] = "new";
+          return "new";
+        }
+
+        // Unversioned: OLD contract has totalShares with uint8 param
         try {
           const oldContract = new Contract(contractAddress, OLD_CONTRACT_ABI, provider);
           await oldContract.totalShares(1);
@@ -152,7 +568,7 @@ export const useBaseTrading = () => {
           contractTypeCache[contractAddress] = "old";
           return "old";
         } catch {
-          // Not old contract, assume new factory contract
+          // Not old contract, an unversioned factory contract
           console.log("Detected NEW factory contract");
           contractTypeCache[contractAddress] = "new";
           return "new";
@@ -189,8 +605,6 @@ export const useBaseTrading = () => {
         console.log("Contract:", params.contractAddress);
         console.log("Contract type:", contractType);
         console.log("Position:", params.positionType);
-        console.log("Amount:", params.amount, "ETH");
-
         if (contractType === "invalid") {
           toast.error("Trading not available", {
             description: "This market's contract was not found on Base Sepolia.",
@@ -198,35 +612,77 @@ export const useBaseTrading = () => {
           return { success: false, error: "Invalid contract" };
         }
 
-        const value = parseEther(params.amount.toString());
+        const collateral = contractType === "new" ? await readCollateral(params.contractAddress) : ETH_COLLATERAL;
+        console.log("Amount:", params.amount, collateral.symbol);
+
+        const value = toUnits(params.amount, collateral.decimals);
         let tx;
 
-        if (contractType === "old") {
+        if (collateral.address) {
+          // Token market - spend an existing allowance, else sign a permit, else approve first
+          const outcome = params.outcomeIndex ?? (params.positionType === "yes" ? 0 : 1);
+          const contract = new Contract(params.contractAddress, [
+            "function buyWithCollateral(uint256 _outcome, uint256 _amount) payable",
+            "function buyWithPermit(uint256 _outcome, uint256 _amount, uint256 _deadline, uint8 _v, bytes32 _r, bytes32 _s)",
+          ], signer);
+          const token = new Contract(collateral.address, ERC20_ABI, signer);
+          const allowance: bigint = await token.allowance(address, params.contractAddress);
+          const forwarder = await readTrustedForwarder(params.contractAddress);
+
+          if (forwarder !== ZeroAddress && (await lacksGas(address))) {
+            // No ETH for gas - sign the buy (and a permit if needed) and let the relayer submit it
+            let data: string;
+            if (allowance >= value) {
+              data = contract.interface.encodeFunctionData("buyWithCollateral", [outcome, value]);
+            } else {
+              const permit = await signPermit(signer, collateral.address, params.contractAddress, value);
+              if (!permit) throw new Error(`${collateral.symbol} has no permit, get Base Sepolia ETH to approve it`);
+              data = contract.interface.encodeFunctionData("buyWithPermit", [
+                outcome, value, permit.deadline, permit.v, permit.r, permit.s,
+              ]);
+            }
+            toast.info("Sign the gasless trade in your wallet");
+            const { txHash, remaining } = await relayCall(signer, forwarder, params.contractAddress, data);
+            console.log("Relayed, gasless trades left today:", remaining);
+            tx = await (await ensureProvider()).getTransaction(txHash);
+            if (!tx) throw new Error("Relayed transaction not found");
+          } else if (allowance >= value) {
+            tx = await contract.buyWithCollateral(outcome, value);
+          } else {
+            const permit = await signPermit(signer, collateral.address, params.contractAddress, value);
+            if (permit) {
+              console.log("Calling buyWithPermit(" + outcome + ")");
+              tx = await contract.buyWithPermit(outcome, value, permit.deadline, permit.v, permit.r, permit.s);
+            } else {
+              toast.info(`Approve ${collateral.symbol} spending in your wallet`);
+              const approval = await token.approve(params.contractAddress, value);
+              await approval.wait();
+              console.log("Calling buyWithCollateral(" + outcome + ")");
+              tx = await contract.buyWithCollateral(outcome, value);
+            }
+          }
+        } else if (contractType === "old") {
           const contract = new Contract(params.contractAddress, OLD_CONTRACT_ABI, signer);
           const outcome = params.positionType === "yes" ? 1 : 2;
           console.log("Calling buyShares(" + outcome + ")");
           tx = await contract.buyShares(outcome, { value });
+        } else if (params.outcomeIndex !== undefined) {
+          // NEW contract, categorical market - buy by outcome index
+          const contract = new Contract(params.contractAddress, ["function buyOutcome(uint256 _outcome) payable"], signer);
+          console.log("Calling buyOutcome(" + params.outcomeIndex + ")");
+          tx = await contract.buyOutcome(params.outcomeIndex, { value });
         } else {
-          // NEW contract - use buyYes() or buyNo()
-          const abi = params.positionType === "yes" 
-            ? ["function buyYes() payable"]
-            : ["function buyNo() payable"];
-          const contract = new Contract(params.contractAddress, abi, signer);
-          
-          if (params.positionType === "yes") {
-            console.log("Calling buyYes()");
-            tx = await contract.buyYes({ value });
-          } else {
-            console.log("Calling buyNo()");
-            tx = await contract.buyNo({ value });
-          }
+          // NEW contract - buyShares(bool) is shared by binary (YES/NO) and scalar (LONG/SHORT) markets
+          const contract = new Contract(params.contractAddress, ["function buyShares(bool _isYes) payable"], signer);
+          console.log("Calling buyShares(" + (params.positionType === "yes") + ")");
+          tx = await contract.buyShares(params.positionType === "yes", { value });
         }
 
         setCurrentTxHash(tx.hash);
         console.log("TX Hash:", tx.hash);
         
         await tx.wait();
-        toast.success(`Bought ${params.positionType.toUpperCase()} shares!`);
+        toast.success(params.outcomeIndex !== undefined ? "Bought shares!" : `Bought ${params.positionType.toUpperCase()} shares!`);
         
         return { success: true, transactionHash: tx.hash };
       } catch (error: any) {
@@ -245,7 +701,7 @@ export const useBaseTrading = () => {
   );
 
   const sellShares = useCallback(
-    async (params: TradeParams & { shares: number }): Promise<TradeResult> => {
+    async (params: SellParams): Promise<TradeResult> => {
       if (!isConnected || !address) {
         toast.error("Please connect your wallet first");
         return { success: false, error: "Wallet not connected" };
@@ -268,9 +724,43 @@ export const useBaseTrading = () => {
           return { success: false, error: "Invalid contract" };
         }
 
-        const contract = new Contract(params.contractAddress, OLD_CONTRACT_ABI, signer);
-        const outcome = params.positionType === "yes" ? 1 : 2;
-        const tx = await contract.sellShares(outcome, parseEther(params.shares.toString()));
+        // Shares use the collateral's decimals (each pays one token unit)
+        const collateral = contractType === "new" ? await readCollateral(params.contractAddress) : ETH_COLLATERAL;
+        const shares = toUnits(params.shares, collateral.decimals);
+        let tx;
+
+        if (contractType === "old") {
+          const contract = new Contract(params.contractAddress, OLD_CONTRACT_ABI, signer);
+          const outcome = params.positionType === "yes" ? 1 : 2;
+          tx = await contract.sellShares(outcome, shares);
+        } else {
+          // NEW contract - sell back to the market maker with a minimum refund
+          // Categorical markets sell by outcome index, binary markets by YES/NO
+          const contract = new Contract(params.contractAddress, [
+            "function quoteSell(bool _isYes, uint256 _shares) view returns (uint256)",
+            "function sellShares(bool _isYes, uint256 _shares, uint256 _minProceeds)",
+            "function quoteSellOutcome(uint256 _outcome, uint256 _shares) view returns (uint256)",
+            "function sellOutcome(uint256 _outcome, uint256 _shares, uint256 _minProceeds)",
+          ], signer);
+          const isYes = params.positionType === "yes";
+          const quote: bigint = params.outcomeIndex !== undefined
+            ? await contract.quoteSellOutcome(params.outcomeIndex, shares)
+            : await contract.quoteSell(isYes, shares);
+          const slippageBps = BigInt(params.slippageBps ?? DEFAULT_SLIPPAGE_BPS);
+          const minProceeds = quote - (quote * slippageBps) / 10000n;
+
+          console.log(
+            "Quoted proceeds:", formatUnits(quote, collateral.decimals),
+            "min:", formatUnits(minProceeds, collateral.decimals), collateral.symbol
+          );
+          if (params.outcomeIndex !== undefined) {
+            console.log("Calling sellOutcome(" + params.outcomeIndex + ")");
+            tx = await contract.sellOutcome(params.outcomeIndex, shares, minProceeds);
+          } else {
+            console.log("Calling sellShares(" + isYes + ")");
+            tx = await contract.sellShares(isYes, shares, minProceeds);
+          }
+        }
 
         setCurrentTxHash(tx.hash);
         await tx.wait();
@@ -279,6 +769,14 @@ export const useBaseTrading = () => {
         return { success: true, transactionHash: tx.hash };
       } catch (error: any) {
         console.error("Sell shares error:", error);
+        if (error?.code === 4001 || error?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        if (error?.message?.includes("Slippage exceeded")) {
+          toast.error("Price moved", { description: "The refund fell below your slippage tolerance. Try again." });
+          return { success: false, error: "Slippage exceeded" };
+        }
         toast.error("Failed to sell shares", { description: error?.message });
         return { success: false, error: error?.message };
       } finally {
@@ -324,6 +822,71 @@ export const useBaseTrading = () => {
     [isConnected, address, isOnBase, getProvider]
   );
 
+  // Read the proposed resolution and dispute status (null for contracts without disputes)
+  const readDisputeState = useCallback(
+    async (contractAddress: string): Promise<DisputeState | null> => {
+      try {
+        const provider = await ensureProvider();
+        const contract = new Contract(contractAddress, [
+          "function isProposed() view returns (bool)",
+          "function proposedOutcomeIndex() view returns (uint256)",
+          "function disputeDeadline() view returns (uint256)",
+          "function isDisputed() view returns (bool)",
+          "function disputer() view returns (address)",
+          "function disputeBond() view returns (uint256)",
+          "function isResolved() view returns (bool)",
+        ], provider);
+
+        const [isProposed, proposedOutcome, disputeDeadline, isDisputed, disputer, disputeBond, isResolved] =
+          await Promise.all([
+            contract.isProposed(),
+            contract.proposedOutcomeIndex(),
+            contract.disputeDeadline(),
+            contract.isDisputed(),
+            contract.disputer(),
+            contract.disputeBond(),
+            contract.isResolved(),
+          ]);
+
+        // Markets from before pull-paid bonds sent them on settlement
+        let bondOwed = 0n;
+        if (address) {
+          try {
+            const bonds = new Contract(contractAddress, ["function disputeBondsOwed(address) view returns (uint256)"], provider);
+            bondOwed = await bonds.disputeBondsOwed(address);
+          } catch {
+            // Bond already sent
+          }
+        }
+
+        // Markets from before the resolver oracle have no resolver()
+        let resolver: string | null = null;
+        try {
+          const oracle = new Contract(contractAddress, ["function resolver() view returns (address)"], provider);
+          const resolverAddress: string = await oracle.resolver();
+          if (resolverAddress !== ZeroAddress) resolver = resolverAddress;
+        } catch {
+          // No resolver oracle
+        }
+
+        return {
+          isProposed,
+          proposedOutcome: Number(proposedOutcome),
+          disputeDeadline: Number(disputeDeadline),
+          isDisputed,
+          disputer: isDisputed ? disputer : null,
+          disputeBond: formatEther(disputeBond),
+          bondOwed: formatEther(bondOwed),
+          isResolved,
+          resolver,
+        };
+      } catch {
+        return null;
+      }
+    },
+    [address]
+  );
+
   // Resolve market on Base Sepolia (bridge outcome from GenLayer)
   const resolveOnBase = useCallback(
     async (contractAddress: string, winner: number): Promise<TradeResult> => {
@@ -367,6 +930,14 @@ export const useBaseTrading = () => {
           return { success: false, error: "Invalid contract" };
         }
 
+        // Scalar markets resolve to a value with resolve(int256), not to a side
+        if (contractType === "scalar") {
+          toast.error("Scalar markets resolve to a value", {
+            description: "Resolve it with the outcome value, not YES/NO.",
+          });
+          return { success: false, error: "Scalar market" };
+        }
+
         // Create contract instance for pre-checks
         const readProvider = await ensureProvider();
         const checkContract = new Contract(
@@ -443,20 +1014,35 @@ export const useBaseTrading = () => {
         }
 
         // Use the appropriate resolve function
-        const contract = new Contract(
-          contractAddress, 
-          ["function resolve(uint8 _winner)"], 
-          signer
-        );
-        
-        console.log("Calling resolve(" + winner + ")...");
-        const tx = await contract.resolve(winner);
+        let tx;
+        if (contractType === "old") {
+          const contract = new Contract(
+            contractAddress, 
+            ["function resolve(uint8 _winner)"], 
+            signer
+          );
+          
+          console.log("Calling resolve(" + winner + ")...");
+          tx = await contract.resolve(winner);
+        } else {
+          // Factory markets take a bool and open a dispute period before finalizing
+          const contract = new Contract(contractAddress, ["function resolve(bool _yesWins)"], signer);
+          console.log("Calling resolve(" + (winner === 1) + ")...");
+          tx = await contract.resolve(winner === 1);
+        }
         setCurrentTxHash(tx.hash);
         
         console.log("Resolution TX Hash:", tx.hash);
         await tx.wait();
 
-        toast.success(`Market resolved as ${winner === 1 ? "YES" : "NO"}!`);
+        const dispute = contractType === "new" ? await readDisputeState(contractAddress) : null;
+        if (dispute?.isProposed && !dispute.isResolved) {
+          toast.success(`Proposed ${winner === 1 ? "YES" : "NO"} as the outcome`, {
+            description: `Final after the dispute period ends ${new Date(dispute.disputeDeadline * 1000).toLocaleString()}`,
+          });
+        } else {
+          toast.success(`Market resolved as ${winner === 1 ? "YES" : "NO"}!`);
+        }
         return { success: true, transactionHash: tx.hash };
       } catch (error: any) {
         console.error("Resolve on Base error:", error);
@@ -485,83 +1071,814 @@ export const useBaseTrading = () => {
         setIsPending(false);
       }
     },
-    [isConnected, address, isOnBase, getProvider, detectContractType]
+    [isConnected, address, isOnBase, getProvider, detectContractType, readDisputeState]
   );
 
-  // Helper to safely call a contract function on Base Sepolia
-  const safeCall = async (contractAddress: string, abi: string[], functionName: string, args: any[] = []): Promise<any> => {
-    try {
-      const provider = await ensureProvider();
-      const contract = new Contract(contractAddress, abi, provider);
-      return await contract[functionName](...args);
-    } catch {
-      return null;
-    }
-  };
+  // Stake the dispute bond against a proposed resolution
+  const disputeResolution = useCallback(
+    async (contractAddress: string, bondEth: string): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
 
-  const readMarketData = useCallback(
-    async (contractAddress: string): Promise<MarketData | null> => {
-      try {
-        // Use dedicated Base Sepolia provider for reads (works regardless of wallet network)
-        const contractType = await detectContractType(contractAddress);
-        const provider = await ensureProvider();
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
 
-        console.log("=== READ MARKET DATA ===");
-        console.log("Contract:", contractAddress);
-        console.log("Type:", contractType);
+      setIsPending(true);
 
-        if (contractType === "invalid") {
-          return null;
-        }
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const contract = new Contract(contractAddress, ["function dispute() payable"], signer);
 
-        if (contractType === "old") {
-          try {
-            const contract = new Contract(contractAddress, OLD_CONTRACT_ABI, provider);
-            const [question, description, endDate, isResolved, winner, totalPool, yesShares, noShares] =
-              await Promise.all([
-                contract.question(),
-                contract.description(),
-                contract.endDate(),
-                contract.isResolved(),
-                contract.winner(),
-                contract.totalPool(),
-                contract.totalShares(1),
-                contract.totalShares(2),
-              ]);
+        console.log("Calling dispute() with bond", bondEth, "ETH");
+        const tx = await contract.dispute({ value: parseEther(bondEth) });
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
 
-            return {
-              question,
-              description,
-              endDate: Number(endDate),
-              isResolved,
-              winner: Number(winner),
-              totalPool: formatEther(totalPool),
-              yesShares: formatEther(yesShares),
-              noShares: formatEther(noShares),
-            };
-          } catch (error) {
-            console.error("Error reading OLD contract:", error);
-            return null;
-          }
+        toast.success("Resolution disputed", {
+          description: "Your bond is refunded if the outcome is overturned",
+        });
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Dispute error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
         }
+        toast.error("Failed to dispute resolution", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
 
-        // NEW factory contract - try multiple possible function names
-        let yesPool = BigInt(0);
-        let noPool = BigInt(0);
-        let question = "";
-        let description = "";
-        let endDate = 0;
-        let isResolved = false;
-        let winner = 0;
-        let readSuccess = false;
+  // Finalize an undisputed proposal once its dispute period has passed
+  const finalizeResolution = useCallback(
+    async (contractAddress: string): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
 
-        // List of possible pool function pairs to try
-        const poolFunctionPairs = [
-          { yes: "yesPool", no: "noPool", abi: ["function yesPool() view returns (uint256)", "function noPool() view returns (uint256)"] },
-          { yes: "totalYesShares", no: "totalNoShares", abi: ["function totalYesShares() view returns (uint256)", "function totalNoShares() view returns (uint256)"] },
-          { yes: "yesTotal", no: "noTotal", abi: ["function yesTotal() view returns (uint256)", "function noTotal() view returns (uint256)"] },
-          { yes: "yesAmount", no: "noAmount", abi: ["function yesAmount() view returns (uint256)", "function noAmount() view returns (uint256)"] },
-        ];
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const contract = new Contract(contractAddress, ["function finalizeResolution()"], signer);
+
+        const tx = await contract.finalizeResolution();
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Resolution finalized!", { description: "Winners can now claim" });
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Finalize resolution error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to finalize resolution", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Collect dispute bonds credited to the connected wallet when disputes were settled
+  const withdrawDisputeBond = useCallback(
+    async (contractAddress: string): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const contract = new Contract(contractAddress, ["function withdrawDisputeBond()"], signer);
+
+        const tx = await contract.withdrawDisputeBond();
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Bond withdrawn!");
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Withdraw bond error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to withdraw bond", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Void a market nobody resolved by its resolution deadline, so traders can reclaim their stakes
+  const voidExpired = useCallback(
+    async (contractAddress: string): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const contract = new Contract(contractAddress, ["function voidExpired()"], signer);
+
+        const tx = await contract.voidExpired();
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Market voided", { description: "Traders can now claim refunds" });
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Void market error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to void market", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Reverse the trades made after an early close's event, a batch per transaction
+  const reverseAllLateTrades = useCallback(async (contract: Contract, provider: BrowserProvider) => {
+    while (await contract.lateTradesPending()) {
+      const trades = await readLateTrades(contract, provider);
+      if (trades.length === 0) throw new Error("Logged trades not found");
+
+      toast.info("Reversing trades made after the event...");
+      const reversal = await contract.reverseLateTrades(trades);
+      setCurrentTxHash(reversal.hash);
+      await reversal.wait();
+    }
+  }, []);
+
+  // End a market whose event already happened, then reverse the trades made after it
+  // so the market can be resolved (creator only from the app; the factory's resolvers
+  // can also close markets). An event time in the past waits for the resolver to confirm it.
+  const closeEarly = useCallback(
+    async (contractAddress: string, eventTime: number): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const contract = new Contract(contractAddress, EARLY_CLOSE_ABI, signer);
+
+        const tx = await contract.closeEarly(eventTime);
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        if (await contract.eventTimePending()) {
+          toast.success("Market closed early", {
+            description: "Trades after the event are reversed once the resolver confirms its time",
+          });
+          return { success: true, transactionHash: tx.hash };
+        }
+
+        await reverseAllLateTrades(contract, provider);
+
+        toast.success("Market closed early", { description: "Trading is closed and the market can be resolved" });
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Close early error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to close market", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider, reverseAllLateTrades]
+  );
+
+  // Reverse the late trades of a market whose early close was confirmed (anyone can)
+  const reverseLateTrades = useCallback(
+    async (contractAddress: string): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const contract = new Contract(contractAddress, EARLY_CLOSE_ABI, signer);
+
+        await reverseAllLateTrades(contract, provider);
+
+        toast.success("Late trades reversed", { description: "The market can now be resolved" });
+        return { success: true };
+      } catch (error) {
+        console.error("Reverse late trades error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to reverse late trades", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider, reverseAllLateTrades]
+  );
+
+  // Collect what reversed purchases refunded after an early close
+  const withdrawLateTradeRefund = useCallback(
+    async (contractAddress: string): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const contract = new Contract(contractAddress, EARLY_CLOSE_ABI, signer);
+
+        const tx = await contract.withdrawLateTradeRefund();
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Refund withdrawn!");
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Withdraw refund error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to withdraw refund", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Claim the creator's share of fees accrued from winnings
+  const claimCreatorFees = useCallback(
+    async (contractAddress: string): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const contract = new Contract(contractAddress, ["function claimCreatorFees()"], signer);
+
+        const tx = await contract.claimCreatorFees();
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Creator fees claimed!");
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Claim creator fees error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to claim creator fees", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Send shares to another wallet through the market's ERC-1155 outcome token
+  const transferShares = useCallback(
+    async (params: TransferParams): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      if (!isAddress(params.to) || params.to.toLowerCase() === address.toLowerCase()) {
+        toast.error("Enter a different wallet address");
+        return { success: false, error: "Invalid recipient" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const market = new Contract(params.contractAddress, ["function outcomeToken() view returns (address)"], signer);
+        const tokenAddress: string = await market.outcomeToken().catch(() => ZeroAddress);
+
+        if (tokenAddress === ZeroAddress) {
+          toast.error("Shares in this market aren't transferable");
+          return { success: false, error: "Not transferable" };
+        }
+
+        const { decimals } = await readCollateral(params.contractAddress);
+        const outcomeToken = new Contract(tokenAddress, OUTCOME_TOKEN_ABI, signer);
+        const id: bigint = await outcomeToken.tokenId(params.contractAddress, params.outcomeIndex);
+
+        const tx = await outcomeToken.safeTransferFrom(
+          address,
+          params.to,
+          id,
+          toUnits(params.shares, decimals),
+          "0x"
+        );
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Shares sent!");
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Transfer shares error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to send shares", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Mint a complete set: one share of every outcome per unit of collateral
+  const splitPosition = useCallback(
+    async (params: SetParams): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const collateral = await readCollateral(params.contractAddress);
+        const market = new Contract(params.contractAddress, COMPLETE_SET_ABI, signer);
+        const value = toUnits(params.amount, collateral.decimals);
+
+        let tx;
+        if (collateral.address) {
+          const token = new Contract(collateral.address, ERC20_ABI, signer);
+          const allowance: bigint = await token.allowance(address, params.contractAddress);
+          if (allowance < value) {
+            toast.info(`Approve ${collateral.symbol} spending in your wallet`);
+            await (await token.approve(params.contractAddress, value)).wait();
+          }
+          tx = await market.splitPosition(value);
+        } else {
+          tx = await market.splitPosition(value, { value });
+        }
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Minted a complete set!");
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Split position error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to mint set", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Redeem a complete set back into collateral
+  const mergePositions = useCallback(
+    async (params: SetParams): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const { decimals } = await readCollateral(params.contractAddress);
+        const market = new Contract(params.contractAddress, COMPLETE_SET_ABI, signer);
+
+        const tx = await market.mergePositions(toUnits(params.amount, decimals));
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Redeemed a complete set!");
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Merge positions error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to redeem set", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Deposit liquidity at current prices in exchange for LP shares
+  const addLiquidity = useCallback(
+    async (params: LiquidityParams): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const collateral = await readCollateral(params.contractAddress);
+        const market = new Contract(params.contractAddress, LIQUIDITY_ABI, signer);
+        const value = toUnits(params.amount, collateral.decimals);
+
+        let tx;
+        if (collateral.address) {
+          const token = new Contract(collateral.address, ERC20_ABI, signer);
+          const allowance: bigint = await token.allowance(address, params.contractAddress);
+          if (allowance < value) {
+            toast.info(`Approve ${collateral.symbol} spending in your wallet`);
+            await (await token.approve(params.contractAddress, value)).wait();
+          }
+          tx = await market.addLiquidity(value);
+        } else {
+          tx = await market.addLiquidity(value, { value });
+        }
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Liquidity added!");
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Add liquidity error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to add liquidity", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Collect leftover liquidity and LP fees once the market is resolved
+  const withdrawLiquidity = useCallback(
+    async (contractAddress: string): Promise<TradeResult> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return { success: false, error: "Wallet not connected" };
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const market = new Contract(contractAddress, LIQUIDITY_ABI, signer);
+
+        const tx = await market.withdrawLiquidity();
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Liquidity withdrawn!");
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Withdraw liquidity error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Transaction rejected");
+          return { success: false, error: "Transaction rejected" };
+        }
+        toast.error("Failed to withdraw liquidity", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Make sure a limit order can be paid for when it fills, then sign it.
+  // ETH markets pay from an on-chain deposit, token markets from an allowance.
+  const signLimitOrder = useCallback(
+    async (params: LimitOrderParams): Promise<{ order: LimitOrder; signature: string } | null> => {
+      if (!isConnected || !address) {
+        toast.error("Please connect your wallet first");
+        return null;
+      }
+
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return null;
+      }
+
+      if (!(params.price > 0 && params.price < 1)) {
+        toast.error("Price must be between 0 and 1");
+        return null;
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const collateral = await readCollateral(params.contractAddress);
+        const market = new Contract(params.contractAddress, ORDER_ABI, signer);
+
+        const price = parseEther(params.price.toFixed(18));
+        const shares = parseUnits(params.shares.toString(), collateral.decimals);
+        const cost = (shares * price) / 10n ** 18n;
+
+        if (collateral.address) {
+          const token = new Contract(collateral.address, ERC20_ABI, signer);
+          const allowance: bigint = await token.allowance(address, params.contractAddress);
+          // Top up rather than replace, earlier open orders rely on the allowance too
+          toast.info(`Approve ${collateral.symbol} for your order`);
+          await (await token.approve(params.contractAddress, allowance + cost)).wait();
+        } else {
+          const deposit: bigint = await market.orderDeposits(address);
+          if (deposit < cost) {
+            toast.info("Deposit ETH for your order");
+            await (await market.depositForOrders({ value: cost - deposit })).wait();
+          }
+        }
+
+        const order: LimitOrder = {
+          maker: address,
+          outcome: params.outcomeIndex,
+          price,
+          shares,
+          nonce: BigInt(Date.now()),
+          expiry: BigInt(Math.floor(Date.now() / 1000) + (params.expiryHours ?? DEFAULT_ORDER_EXPIRY_HOURS) * 3600),
+        };
+        const { chainId } = await provider.getNetwork();
+        const signature = await signer.signTypedData(
+          { name: "PredictionMarket", version: "1", chainId, verifyingContract: params.contractAddress },
+          ORDER_TYPES,
+          order
+        );
+
+        return { order, signature };
+      } catch (error) {
+        console.error("Sign limit order error:", error);
+        const err = error as { code?: number; message?: string };
+        if (err?.code === 4001 || err?.message?.includes("rejected")) {
+          toast.error("Order cancelled");
+        } else {
+          toast.error("Failed to place order", { description: err?.message?.slice(0, 100) });
+        }
+        return null;
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isConnected, address, isOnBase, getProvider]
+  );
+
+  // Cancel a limit order on-chain so it can no longer be filled
+  const cancelLimitOrder = useCallback(
+    async (contractAddress: string, order: LimitOrder): Promise<TradeResult> => {
+      if (!isOnBase) {
+        toast.error("Please switch to Base Sepolia");
+        return { success: false, error: "Wrong network" };
+      }
+
+      setIsPending(true);
+
+      try {
+        const provider = await getProvider();
+        const signer = await provider.getSigner();
+        const market = new Contract(contractAddress, ORDER_ABI, signer);
+
+        const tx = await market.cancelOrder(order);
+        setCurrentTxHash(tx.hash);
+        await tx.wait();
+
+        toast.success("Order cancelled");
+        return { success: true, transactionHash: tx.hash };
+      } catch (error) {
+        console.error("Cancel order error:", error);
+        const err = error as { code?: number; message?: string };
+        toast.error("Failed to cancel order", { description: err?.message?.slice(0, 100) });
+        return { success: false, error: err?.message };
+      } finally {
+        setIsPending(false);
+      }
+    },
+    [isOnBase, getProvider]
+  );
+
+  // Helper to safely call a contract function on Base Sepolia
+  const safeCall = async (contractAddress: string, abi: string[], functionName: string, args: any[] = []): Promise<any> => {
+    try {
+      const provider = await ensureProvider();
+      const contract = new Contract(contractAddress, abi, provider);
+      return await contract[functionName](...args);
+    } catch {
+      return null;
+    }
+  };
+
+  const readMarketData = useCallback(
+    async (contractAddress: string): Promise<MarketData | null> => {
+      try {
+        // Use dedicated Base Sepolia provider for reads (works regardless of wallet network)
+        const contractType = await detectContractType(contractAddress);
+        const provider = await ensureProvider();
+
+        console.log("=== READ MARKET DATA ===");
+        console.log("Contract:", contractAddress);
+        console.log("Type:", contractType);
+
+        if (contractType === "invalid") {
+          return null;
+        }
+
+        if (contractType === "old") {
+          try {
+            const contract = new Contract(contractAddress, OLD_CONTRACT_ABI, provider);
+            const [question, description, endDate, isResolved, winner, totalPool, yesShares, noShares] =
+              await Promise.all([
+                contract.question(),
+                contract.description(),
+                contract.endDate(),
+                contract.isResolved(),
+                contract.winner(),
+                contract.totalPool(),
+                contract.totalShares(1),
+                contract.totalShares(2),
+              ]);
+
+            return {
+              question,
+              description,
+              endDate: Number(endDate),
+              isResolved,
+              winner: Number(winner),
+              totalPool: formatEther(totalPool),
+              yesShares: formatEther(yesShares),
+              noShares: formatEther(noShares),
+              collateral: ETH_COLLATERAL,
+            };
+          } catch (error) {
+            console.error("Error reading OLD contract:", error);
+            return null;
+          }
+        }
+
+        // NEW factory contract - try multiple possible function names
+        let yesPool = BigInt(0);
+        let noPool = BigInt(0);
+        let question = "";
+        let description = "";
+        let endDate = 0;
+        let isResolved = false;
+        let winner = 0;
+        let readSuccess = false;
+
+        // List of possible pool function pairs to try
+        const poolFunctionPairs = [
+          { yes: "yesPool", no: "noPool", abi: ["function yesPool() view returns (uint256)", "function noPool() view returns (uint256)"] },
+          { yes: "totalYesShares", no: "totalNoShares", abi: ["function totalYesShares() view returns (uint256)", "function totalNoShares() view returns (uint256)"] },
+          { yes: "yesTotal", no: "noTotal", abi: ["function yesTotal() view returns (uint256)", "function noTotal() view returns (uint256)"] },
+          { yes: "yesAmount", no: "noAmount", abi: ["function yesAmount() view returns (uint256)", "function noAmount() view returns (uint256)"] },
+          { yes: "totalLongShares", no: "totalShortShares", abi: ["function totalLongShares() view returns (uint256)", "function totalShortShares() view returns (uint256)"] },
+        ];
 
         for (const pair of poolFunctionPairs) {
           try {
@@ -605,9 +1922,22 @@ export const useBaseTrading = () => {
         }
         if (winnerResult !== null) winner = Number(winnerResult);
 
+        // Voided markets (factory contracts only)
+        const invalidResult = await safeCall(contractAddress, ["function isInvalid() view returns (bool)"], "isInvalid");
+
+        // LMSR price (market maker contracts only)
+        const priceResult = await safeCall(contractAddress, ["function getPrice(bool) view returns (uint256)"], "getPrice", [true]);
+
+        // Trading cutoff and early close (factory markets from v7)
+        const tradingEndResult = await safeCall(contractAddress, ["function tradingEndTime() view returns (uint256)"], "tradingEndTime");
+        const eventTimeResult = await safeCall(contractAddress, ["function eventTime() view returns (uint256)"], "eventTime");
+        const lateTradesResult = await safeCall(contractAddress, EARLY_CLOSE_ABI, "lateTradesPending");
+        const eventTimePendingResult = await safeCall(contractAddress, EARLY_CLOSE_ABI, "eventTimePending");
+
+        const collateral = await readCollateral(contractAddress);
         const totalPool = yesPool + noPool;
 
-        console.log("Final pool data - Yes:", formatEther(yesPool), "No:", formatEther(noPool));
+        console.log("Final pool data - Yes:", formatUnits(yesPool, collateral.decimals), "No:", formatUnits(noPool, collateral.decimals));
 
         return {
           question,
@@ -615,9 +1945,16 @@ export const useBaseTrading = () => {
           endDate,
           isResolved,
           winner,
-          totalPool: formatEther(totalPool),
-          yesShares: formatEther(yesPool),
-          noShares: formatEther(noPool),
+          totalPool: formatUnits(totalPool, collateral.decimals),
+          yesShares: formatUnits(yesPool, collateral.decimals),
+          noShares: formatUnits(noPool, collateral.decimals),
+          yesPrice: priceResult !== null ? Number(formatEther(priceResult)) : undefined,
+          isInvalid: invalidResult === true,
+          tradingEndDate: tradingEndResult !== null ? Number(tradingEndResult) : undefined,
+          closedEarly: eventTimeResult !== null && eventTimeResult > 0n,
+          lateTradesPending: lateTradesResult === true,
+          eventTimePending: eventTimePendingResult === true,
+          collateral,
         };
       } catch (error) {
         console.error("Read market data error:", error);
@@ -627,6 +1964,130 @@ export const useBaseTrading = () => {
     [detectContractType]
   );
 
+  // Quote how many shares an amount of collateral buys at the current LMSR price
+  const quoteShares = useCallback(
+    async (contractAddress: string, positionType: "yes" | "no", amount: string, outcomeIndex?: number): Promise<string | null> => {
+      if (!(parseFloat(amount) > 0)) return null;
+
+      const { decimals } = await readCollateral(contractAddress);
+      const cost = toUnits(amount, decimals);
+
+      const shares = outcomeIndex !== undefined
+        ? await safeCall(
+            contractAddress,
+            ["function getOutcomeSharesForCost(uint256 _outcome, uint256 _amount) view returns (uint256)"],
+            "getOutcomeSharesForCost",
+            [outcomeIndex, cost]
+          )
+        : await safeCall(
+            contractAddress,
+            ["function getSharesForCost(bool _isYes, uint256 _amount) view returns (uint256)"],
+            "getSharesForCost",
+            [positionType === "yes", cost]
+          );
+
+      return shares !== null ? formatUnits(shares, decimals) : null;
+    },
+    []
+  );
+
+  // Quote the collateral refunded for selling shares back to the LMSR market maker
+  const quoteSell = useCallback(
+    async (contractAddress: string, positionType: "yes" | "no", shares: string, outcomeIndex?: number): Promise<string | null> => {
+      if (!(parseFloat(shares) > 0)) return null;
+
+      const { decimals } = await readCollateral(contractAddress);
+      const amount = toUnits(shares, decimals);
+
+      const proceeds = outcomeIndex !== undefined
+        ? await safeCall(
+            contractAddress,
+            ["function quoteSellOutcome(uint256 _outcome, uint256 _shares) view returns (uint256)"],
+            "quoteSellOutcome",
+            [outcomeIndex, amount]
+          )
+        : await safeCall(
+            contractAddress,
+            ["function quoteSell(bool _isYes, uint256 _shares) view returns (uint256)"],
+            "quoteSell",
+            [positionType === "yes", amount]
+          );
+
+      return proceeds !== null ? formatUnits(proceeds, decimals) : null;
+    },
+    []
+  );
+
+  // Read outcome names, prices and totals (categorical and binary factory markets)
+  const readOutcomes = useCallback(
+    async (contractAddress: string): Promise<OutcomeData | null> => {
+      const [names, prices, totals] = await Promise.all([
+        safeCall(contractAddress, ["function getOutcomes() view returns (string[])"], "getOutcomes"),
+        safeCall(contractAddress, ["function getPrices() view returns (uint256[])"], "getPrices"),
+        safeCall(contractAddress, ["function getOutcomeTotals() view returns (uint256[])"], "getOutcomeTotals"),
+      ]);
+
+      if (!names || !prices || !totals) return null;
+
+      const { decimals } = await readCollateral(contractAddress);
+      return {
+        names: [...names],
+        prices: (prices as bigint[]).map((p) => Number(formatEther(p))),
+        totals: (totals as bigint[]).map((t) => formatUnits(t, decimals)),
+      };
+    },
+    []
+  );
+
+  // Read the bounds and implied estimate of a scalar market
+  const readScalarData = useCallback(
+    async (contractAddress: string): Promise<ScalarData | null> => {
+      const [info, estimate, longPayout] = await Promise.all([
+        safeCall(
+          contractAddress,
+          ["function getMarketInfo() view returns (string, string, uint256, int256, int256, bool, int256, uint256)"],
+          "getMarketInfo"
+        ),
+        safeCall(contractAddress, ["function getEstimate() view returns (int256)"], "getEstimate"),
+        safeCall(contractAddress, ["function longPayout() view returns (uint256)"], "longPayout"),
+      ]);
+
+      if (!info || estimate === null) return null;
+
+      const isResolved = info[5] as boolean;
+
+      // Bounds and values are 18-decimal fixed point
+      return {
+        lowerBound: Number(formatEther(info[3])),
+        upperBound: Number(formatEther(info[4])),
+        estimate: Number(formatEther(estimate)),
+        resolvedValue: isResolved ? Number(formatEther(info[6])) : null,
+        longPayout: isResolved && longPayout !== null ? Number(formatEther(longPayout)) : null,
+      };
+    },
+    []
+  );
+
+  // Read the connected wallet's shares of every outcome
+  const getUserOutcomeShares = useCallback(
+    async (contractAddress: string): Promise<string[] | null> => {
+      if (!address) return null;
+
+      const shares = await safeCall(
+        contractAddress,
+        ["function getUserOutcomeShares(address _user) view returns (uint256[])"],
+        "getUserOutcomeShares",
+        [address]
+      );
+
+      if (!shares) return null;
+
+      const { decimals } = await readCollateral(contractAddress);
+      return (shares as bigint[]).map((s) => formatUnits(s, decimals));
+    },
+    [address]
+  );
+
   const getUserPosition = useCallback(
     async (contractAddress: string): Promise<UserPosition | null> => {
       if (!address) return null;
@@ -653,6 +2114,21 @@ export const useBaseTrading = () => {
           };
         }
 
+        // getUserPosition(address) is shared by binary (YES/NO) and scalar (LONG/SHORT) factory markets
+        const position = await safeCall(
+          contractAddress,
+          ["function getUserPosition(address _user) view returns (uint256, uint256, uint256)"],
+          "getUserPosition",
+          [address]
+        );
+        if (position) {
+          const { decimals } = await readCollateral(contractAddress);
+          return {
+            yesShares: formatUnits(position[0], decimals),
+            noShares: formatUnits(position[1], decimals),
+          };
+        }
+
         // NEW contract - try multiple possible function signatures
         let yesShares = BigInt(0);
         let noShares = BigInt(0);
@@ -701,13 +2177,143 @@ export const useBaseTrading = () => {
     [address, detectContractType]
   );
 
+  // What the connected wallet can claim right now (winnings, or the refund on a voided market)
+  const getClaimableAmount = useCallback(
+    async (contractAddress: string): Promise<string | null> => {
+      if (!address) return null;
+
+      const amount = await safeCall(
+        contractAddress,
+        ["function getClaimableAmount(address _user) view returns (uint256)"],
+        "getClaimableAmount",
+        [address]
+      );
+      if (amount === null) return null;
+
+      const { decimals } = await readCollateral(contractAddress);
+      return formatUnits(amount, decimals);
+    },
+    [address]
+  );
+
+  // Creator fee earnings of a market (null for markets without a creator fee share)
+  const readCreatorFees = useCallback(
+    async (contractAddress: string): Promise<CreatorFees | null> => {
+      const abi = [
+        "function creatorFeesAccrued() view returns (uint256)",
+        "function creatorFeesClaimed() view returns (uint256)",
+        "function creatorFeeShare() view returns (uint256)",
+      ];
+      const [accrued, claimed, feeShare] = await Promise.all([
+        safeCall(contractAddress, abi, "creatorFeesAccrued"),
+        safeCall(contractAddress, abi, "creatorFeesClaimed"),
+        safeCall(contractAddress, abi, "creatorFeeShare"),
+      ]);
+      if (accrued === null || claimed === null || feeShare === null) return null;
+
+      const { decimals, symbol } = await readCollateral(contractAddress);
+      return {
+        accrued: formatUnits(accrued, decimals),
+        claimed: formatUnits(claimed, decimals),
+        symbol,
+        feeShareBps: Number(feeShare),
+      };
+    },
+    []
+  );
+
+  // Refund owed to the connected wallet for purchases reversed after an early close
+  const readLateTradeRefund = useCallback(
+    async (contractAddress: string): Promise<string | null> => {
+      if (!address) return null;
+
+      const refund = await safeCall(contractAddress, EARLY_CLOSE_ABI, "lateTradeRefunds", [address]);
+      if (refund === null) return null;
+
+      const { decimals } = await readCollateral(contractAddress);
+      return formatUnits(refund, decimals);
+    },
+    [address]
+  );
+
+  // Caps on buys and the connected wallet's headroom under them (null for markets without limits)
+  const readTradingLimits = useCallback(
+    async (contractAddress: string): Promise<TradingLimits | null> => {
+      const limits = await safeCall(contractAddress, TRADING_LIMITS_ABI, "getLimits", [address ?? ZeroAddress]);
+      if (limits === null) return null;
+
+      const { decimals, symbol } = await readCollateral(contractAddress);
+      const toAmount = (value: bigint) => (value === 0n ? null : Number(formatUnits(value, decimals)));
+      const headroom: bigint = limits.userHeadroom < limits.poolHeadroom ? limits.userHeadroom : limits.poolHeadroom;
+      return {
+        maxPerAddress: toAmount(limits.perAddress),
+        maxPool: toAmount(limits.pool),
+        remaining: headroom === MaxUint256 ? null : Number(formatUnits(headroom, decimals)),
+        symbol,
+      };
+    },
+    [address]
+  );
+
+  // The connected wallet's LP position (null for markets without LP shares)
+  const readLiquidityPosition = useCallback(
+    async (contractAddress: string): Promise<LiquidityPosition | null> => {
+      if (!address) return null;
+
+      const [shares, total, withdrawable, isResolved] = await Promise.all([
+        safeCall(contractAddress, LIQUIDITY_ABI, "lpShares", [address]),
+        safeCall(contractAddress, LIQUIDITY_ABI, "totalLpShares"),
+        safeCall(contractAddress, LIQUIDITY_ABI, "getWithdrawableLiquidity", [address]),
+        safeCall(contractAddress, LIQUIDITY_ABI, "isResolved"),
+      ]);
+      if (shares === null || total === null || withdrawable === null) return null;
+
+      const { decimals, symbol } = await readCollateral(contractAddress);
+      return {
+        lpShares: formatUnits(shares, decimals),
+        poolShare: total > 0n ? Number((shares * 10000n) / total) / 10000 : 0,
+        withdrawable: formatUnits(withdrawable, decimals),
+        locked: isResolved !== true,
+        symbol,
+      };
+    },
+    [address]
+  );
+
   return {
     buyShares,
     sellShares,
     claimWinnings,
     resolveOnBase,
+    readDisputeState,
+    disputeResolution,
+    finalizeResolution,
+    withdrawDisputeBond,
+    voidExpired,
+    closeEarly,
+    reverseLateTrades,
+    withdrawLateTradeRefund,
+    readLateTradeRefund,
+    readTradingLimits,
     readMarketData,
+    quoteShares,
+    quoteSell,
+    readOutcomes,
+    readScalarData,
+    getUserOutcomeShares,
     getUserPosition,
+    getClaimableAmount,
+    readCreatorFees,
+    readCollateral,
+    claimCreatorFees,
+    transferShares,
+    splitPosition,
+    mergePositions,
+    addLiquidity,
+    withdrawLiquidity,
+    readLiquidityPosition,
+    signLimitOrder,
+    cancelLimitOrder,
     isPending,
     currentTxHash,
     isOnBase,
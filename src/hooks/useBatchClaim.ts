@@ -0,0 +1,119 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BrowserProvider, Contract, JsonRpcProvider, formatUnits } from "ethers";
+import { toast } from "sonner";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { supabase } from "@/integrations/supabase/client";
+import { readCollateral, readMarketVersion } from "@/hooks/useBaseTrading";
+
+const FACTORY_ADDRESS = import.meta.env.VITE_FACTORY_ADDRESS || "0xB7F06cC21DeE9b1FC0349d08C72fF5c632feC2d7";
+
+const BATCH_CLAIM_ABI = ["function batchClaimWinnings(address[] _markets)"];
+
+const readProvider = new JsonRpcProvider("https://sepolia.base.org");
+
+// First versions with claimWinningsFor, which the factory's batch claim calls
+const BATCH_CLAIM_VERSION = { market: 5, scalar: 4 };
+
+export interface ClaimableMarket {
+  id: string;
+  title: string;
+  address: string;
+  amount: string; // Winnings or refund, in the market's collateral
+  symbol: string;
+  batchable: boolean; // false for markets deployed before batch claims, claim those one by one
+}
+
+export const claimKeys = {
+  claimable: (address: string | null) => ["claimable-markets", address?.toLowerCase() ?? ""] as const,
+};
+
+/**
+ * Every indexed market the connected wallet can claim winnings or a refund from,
+ * with the totals per collateral that a batch claim would pay out.
+ */
+export const useClaimableMarkets = () => {
+  const { address } = useWalletAuth();
+
+  return useQuery({
+    queryKey: claimKeys.claimable(address),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("markets")
+        .select("id, title, base_contract_address, market_type")
+        .not("base_contract_address", "is", null);
+      if (error) throw error;
+
+      const rows = await Promise.all(
+        (data ?? []).map(async (m): Promise<ClaimableMarket | null> => {
+          const market = new Contract(
+            m.base_contract_address!,
+            ["function getClaimableAmount(address _user) view returns (uint256)"],
+            readProvider
+          );
+          const amount: bigint = await market.getClaimableAmount(address).catch(() => 0n);
+          if (amount === 0n) return null;
+
+          const [{ symbol, decimals }, version] = await Promise.all([
+            readCollateral(m.base_contract_address!),
+            readMarketVersion(m.base_contract_address!),
+          ]);
+          const minVersion = m.market_type === "scalar" ? BATCH_CLAIM_VERSION.scalar : BATCH_CLAIM_VERSION.market;
+          return {
+            id: m.id,
+            title: m.title,
+            address: m.base_contract_address!,
+            amount: formatUnits(amount, decimals),
+            symbol,
+            batchable: version >= minVersion,
+          };
+        })
+      );
+
+      const markets = rows.filter((row): row is ClaimableMarket => row !== null);
+      const totals: Record<string, number> = {};
+      for (const m of markets.filter((m) => m.batchable)) {
+        totals[m.symbol] = (totals[m.symbol] ?? 0) + parseFloat(m.amount);
+      }
+      return { markets, totals };
+    },
+    enabled: !!address,
+  });
+};
+
+/**
+ * Claim from several markets in one factory transaction
+ */
+export const useBatchClaim = () => {
+  const { address } = useWalletAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (markets: string[]) => {
+      if (!window.ethereum) throw new Error("No wallet found");
+      const signer = await new BrowserProvider(window.ethereum).getSigner();
+      const factory = new Contract(FACTORY_ADDRESS, BATCH_CLAIM_ABI, signer);
+
+      toast.info("Please confirm in your wallet");
+      const tx = await factory.batchClaimWinnings(markets);
+      await tx.wait();
+      return tx.hash as string;
+    },
+    onSuccess: (txHash, markets) => {
+      toast.success(`Claimed from ${markets.length} market${markets.length === 1 ? "" : "s"}!`, {
+        action: {
+          label: "View TX",
+          onClick: () => window.open(`https://sepolia.basescan.org/tx/${txHash}`, "_blank"),
+        },
+      });
+      queryClient.invalidateQueries({ queryKey: claimKeys.claimable(address) });
+    },
+    onError: (error) => {
+      const err = error as { code?: number | string; shortMessage?: string; message?: string };
+      if (err.code === 4001 || err.code === "ACTION_REJECTED") {
+        toast.error("Transaction cancelled by user");
+        return;
+      }
+      toast.error("Failed to claim", { description: (err.shortMessage || err.message || "").slice(0, 100) });
+    },
+  });
+};
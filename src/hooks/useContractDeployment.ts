@@ -2,7 +2,7 @@ import { useState, useCallback } from "react";
 import { createClient } from "genlayer-js";
 import { testnetAsimov } from "genlayer-js/chains";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
-import { generatePredictionMarketContract, getContractConstructorArgs, ContractParams } from "@/lib/contractGenerator";
+import { generatePredictionMarketContract, getContractConstructorArgs, getResolutionSources, ContractParams } from "@/lib/contractGenerator";
 import { toast } from "sonner";
 
 export interface DeploymentStatus {
@@ -70,7 +70,7 @@ export const useContractDeployment = () => {
         
         console.log("=== GENLAYER DEPLOYMENT ===");
         console.log("Question:", params.question);
-        console.log("Resolution source:", params.resolutionSource);
+        console.log("Resolution sources:", getResolutionSources(params));
 
         // Step 2: Deploy contract
         setStatus({
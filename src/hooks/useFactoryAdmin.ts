@@ -0,0 +1,182 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { BrowserProvider, Contract, JsonRpcProvider, id } from "ethers";
+import { toast } from "sonner";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+
+const FACTORY_ADDRESS = import.meta.env.VITE_FACTORY_ADDRESS || "0xB7F06cC21DeE9b1FC0349d08C72fF5c632feC2d7";
+
+const FACTORY_ADMIN_ABI = [
+  "function getRoleMembers(bytes32 _role) view returns (address[])",
+  "function grantRole(bytes32 _role, address _account)",
+  "function revokeRole(bytes32 _role, address _account)",
+  "function paused() view returns (bool)",
+  "function setPaused(bool _paused)",
+  "function setMarketPaused(address _market, bool _paused)",
+  "function emergencyDelay() view returns (uint256)",
+  "function emergencyResolutions(address) view returns (uint256 outcome, uint256 executableAt)",
+  "function scheduleEmergencyResolution(address _market, uint256 _outcome)",
+  "function cancelEmergencyResolution(address _market)",
+  "function executeEmergencyResolution(address _market)",
+];
+
+const MARKET_PAUSE_ABI = [
+  "function paused() view returns (bool)",
+  "function endTime() view returns (uint256)",
+  "function isResolved() view returns (bool)",
+];
+
+const readProvider = new JsonRpcProvider("https://sepolia.base.org");
+
+// Matches PredictionMarket.INVALID_OUTCOME
+export const INVALID_OUTCOME = 2n ** 256n - 1n;
+
+export const FACTORY_ROLES = {
+  ADMIN_ROLE: "Settings, roles and fee withdrawals",
+  RESOLVER_ROLE: "Settles disputes and runs emergency resolutions",
+  PAUSER_ROLE: "Pauses trading on one market or everywhere",
+} as const;
+export type FactoryRole = keyof typeof FACTORY_ROLES;
+
+const roleId = (role: FactoryRole) => id(role);
+
+export interface MarketAdminState {
+  paused: boolean;
+  endTime: number; // unix seconds
+  isResolved: boolean;
+  scheduledOutcome: bigint | null; // null when no emergency resolution is queued
+  executableAt: number; // unix seconds, 0 when nothing is queued
+}
+
+export const adminKeys = {
+  factory: ["factory-admin"] as const,
+  market: (market: string) => ["factory-admin", market.toLowerCase()] as const,
+};
+
+/**
+ * Role holders, pause state and emergency timelock of the Base factory
+ */
+export const useFactoryAdmin = () => {
+  const { address } = useWalletAuth();
+
+  const query = useQuery({
+    queryKey: adminKeys.factory,
+    queryFn: async () => {
+      const factory = new Contract(FACTORY_ADDRESS, FACTORY_ADMIN_ABI, readProvider);
+      const roles = Object.keys(FACTORY_ROLES) as FactoryRole[];
+      const [members, paused, emergencyDelay] = await Promise.all([
+        Promise.all(roles.map((role) => factory.getRoleMembers(roleId(role)) as Promise<string[]>)),
+        factory.paused() as Promise<boolean>,
+        factory.emergencyDelay() as Promise<bigint>,
+      ]);
+
+      return {
+        members: Object.fromEntries(roles.map((role, i) => [role, [...members[i]]])) as Record<FactoryRole, string[]>,
+        paused,
+        emergencyDelay: Number(emergencyDelay),
+      };
+    },
+  });
+
+  const hasRole = (role: FactoryRole) =>
+    !!address && !!query.data?.members[role].some((m) => m.toLowerCase() === address.toLowerCase());
+
+  return { ...query, hasRole, factoryAddress: FACTORY_ADDRESS };
+};
+
+/**
+ * A market's own pause flag and any emergency resolution queued for it
+ */
+export const useMarketAdminState = (market: string | undefined) => {
+  return useQuery({
+    queryKey: adminKeys.market(market ?? ""),
+    queryFn: async (): Promise<MarketAdminState> => {
+      const factory = new Contract(FACTORY_ADDRESS, FACTORY_ADMIN_ABI, readProvider);
+      const contract = new Contract(market!, MARKET_PAUSE_ABI, readProvider);
+      const [paused, endTime, isResolved, pending] = await Promise.all([
+        contract.paused() as Promise<boolean>,
+        contract.endTime() as Promise<bigint>,
+        contract.isResolved() as Promise<boolean>,
+        factory.emergencyResolutions(market!) as Promise<{ outcome: bigint; executableAt: bigint }>,
+      ]);
+
+      const executableAt = Number(pending.executableAt);
+      return {
+        paused,
+        endTime: Number(endTime),
+        isResolved,
+        scheduledOutcome: executableAt > 0 ? pending.outcome : null,
+        executableAt,
+      };
+    },
+    enabled: !!market && /^0x[0-9a-fA-F]{40}$/.test(market),
+  });
+};
+
+type AdminAction =
+  | { type: "grantRole" | "revokeRole"; role: FactoryRole; account: string }
+  | { type: "setPaused"; paused: boolean }
+  | { type: "setMarketPaused"; market: string; paused: boolean }
+  | { type: "scheduleEmergencyResolution"; market: string; outcome: bigint }
+  | { type: "cancelEmergencyResolution" | "executeEmergencyResolution"; market: string };
+
+const ACTION_LABELS: Record<AdminAction["type"], string> = {
+  grantRole: "Role granted",
+  revokeRole: "Role revoked",
+  setPaused: "Factory pause updated",
+  setMarketPaused: "Market pause updated",
+  scheduleEmergencyResolution: "Emergency resolution scheduled",
+  cancelEmergencyResolution: "Emergency resolution cancelled",
+  executeEmergencyResolution: "Market resolved",
+};
+
+/**
+ * Send one admin transaction to the factory from the connected wallet
+ */
+export const useAdminAction = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (action: AdminAction) => {
+      if (!window.ethereum) throw new Error("No wallet found");
+      const signer = await new BrowserProvider(window.ethereum).getSigner();
+      const factory = new Contract(FACTORY_ADDRESS, FACTORY_ADMIN_ABI, signer);
+
+      toast.info("Please confirm in your wallet");
+      const tx = await (() => {
+        switch (action.type) {
+          case "grantRole":
+          case "revokeRole":
+            return factory[action.type](roleId(action.role), action.account);
+          case "setPaused":
+            return factory.setPaused(action.paused);
+          case "setMarketPaused":
+            return factory.setMarketPaused(action.market, action.paused);
+          case "scheduleEmergencyResolution":
+            return factory.scheduleEmergencyResolution(action.market, action.outcome);
+          case "cancelEmergencyResolution":
+          case "executeEmergencyResolution":
+            return factory[action.type](action.market);
+        }
+      })();
+      await tx.wait();
+      return tx.hash as string;
+    },
+    onSuccess: (txHash, action) => {
+      toast.success(ACTION_LABELS[action.type], {
+        action: {
+          label: "View TX",
+          onClick: () => window.open(`https://sepolia.basescan.org/tx/${txHash}`, "_blank"),
+        },
+      });
+      queryClient.invalidateQueries({ queryKey: adminKeys.factory });
+    },
+    onError: (error) => {
+      const err = error as { code?: number | string; shortMessage?: string; message?: string };
+      if (err.code === 4001 || err.code === "ACTION_REJECTED") {
+        toast.error("Transaction cancelled by user");
+        return;
+      }
+      toast.error("Admin action failed", { description: (err.shortMessage || err.message || "").slice(0, 100) });
+    },
+  });
+};
@@ -2,6 +2,8 @@ import { useState, useCallback } from "react";
 import { createClient } from "genlayer-js";
 import { testnetAsimov } from "genlayer-js/chains";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { readResolverMarketInfo, readResolverStatus, resolutionLabel } from "@/lib/resolverClient";
+import type { ResolverMarketInfo, ResolverStatus } from "@/lib/resolverInterface";
 import { toast } from "sonner";
 
 // GenLayer Testnet config
@@ -13,34 +15,9 @@ export const GENLAYER_TESTNET = {
   explorerUrl: "https://explorer-asimov.genlayer.com",
 };
 
-// Contract ABI for reading GenLayer intelligent contracts
-const RESOLVER_ABI = [
-  "function question() view returns (string)",
-  "function description() view returns (string)",
-  "function resolution_source() view returns (string)",
-  "function end_time() view returns (uint256)",
-  "function resolved() view returns (bool)",
-  "function outcome() view returns (uint8)",
-  "function resolution_reasoning() view returns (string)",
-  "function resolve() returns (uint8)",
-  "function get_market_info() view returns (tuple(string,string,string,uint256,address,bool,uint8,string))",
-];
-
-interface GenLayerMarketInfo {
-  question: string;
-  description: string;
-  resolutionSource: string;
-  endTime: number;
-  creator: string;
-  resolved: boolean;
-  outcome: number;
-  reasoning: string;
-}
-
 interface ResolveResult {
   success: boolean;
-  outcome?: number;
-  reasoning?: string;
+  status?: ResolverStatus;
   txHash?: string;
   error?: string;
 }
@@ -103,77 +80,17 @@ export const useGenLayer = () => {
     });
   }, [address]);
 
-  // Read market info from GenLayer contract
+  // Read market info from GenLayer contract, whatever its interface version
   const readMarketInfo = useCallback(
-    async (contractAddress: string): Promise<GenLayerMarketInfo | null> => {
-      try {
-        const client = getClient();
-
-        const result = await client.readContract({
-          address: contractAddress as `0x${string}`,
-          functionName: "get_market_info",
-          args: [],
-        });
-
-        // Parse the tuple result
-        if (Array.isArray(result)) {
-          return {
-            question: result[0] as string,
-            description: result[1] as string,
-            resolutionSource: result[2] as string,
-            endTime: Number(result[3]),
-            creator: result[4] as string,
-            resolved: result[5] as boolean,
-            outcome: Number(result[6]),
-            reasoning: result[7] as string,
-          };
-        }
-
-        return null;
-      } catch (error) {
-        console.error("Read GenLayer market info error:", error);
-        return null;
-      }
-    },
+    async (contractAddress: string): Promise<ResolverMarketInfo | null> =>
+      readResolverMarketInfo(getClient(), contractAddress),
     [getClient]
   );
 
   // Check if market is resolved
   const checkResolutionStatus = useCallback(
-    async (
-      contractAddress: string
-    ): Promise<{ resolved: boolean; outcome: number; reasoning: string } | null> => {
-      try {
-        const client = getClient();
-
-        const [resolved, outcome, reasoning] = await Promise.all([
-          client.readContract({
-            address: contractAddress as `0x${string}`,
-            functionName: "resolved",
-            args: [],
-          }),
-          client.readContract({
-            address: contractAddress as `0x${string}`,
-            functionName: "outcome",
-            args: [],
-          }),
-          client.readContract({
-            address: contractAddress as `0x${string}`,
-            functionName: "resolution_reasoning",
-            args: [],
-          }).catch(() => ""),
-        ]);
-
-        return {
-          resolved: resolved as boolean,
-          outcome: Number(outcome),
-          reasoning: (reasoning as string) || "",
-        };
-      } catch (error) {
-        console.error("Check resolution status error:", error);
-        return null;
-      }
-    },
+    async (contractAddress: string): Promise<ResolverStatus | null> =>
+      readResolverStatus(getClient(), contractAddress),
     [getClient]
   );
 
@@ -234,16 +151,13 @@ export const useGenLayer = () => {
         // Get the outcome
         const status = await checkResolutionStatus(contractAddress);
 
-        const outcomeText = status?.outcome === 1 ? "YES" : "NO";
-
-        toast.success(`Market resolved: ${outcomeText}`, {
+        toast.success(`Market resolved: ${status ? resolutionLabel(status) : "see explorer"}`, {
           description: status?.reasoning?.slice(0, 100) || "Resolution complete",
         });
 
         return {
           success: true,
-          outcome: status?.outcome,
-          reasoning: status?.reasoning,
+          status: status ?? undefined,
           txHash: txHash as string,
         };
       } catch (error: any) {
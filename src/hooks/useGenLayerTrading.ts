@@ -2,6 +2,7 @@ import { useState, useCallback } from "react";
 import { createClient } from "genlayer-js";
 import { testnetAsimov } from "genlayer-js/chains";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { readResolverStatus } from "@/lib/resolverClient";
 import { toast } from "sonner";
 
 export interface TradeParams {
@@ -136,7 +137,7 @@ export const useGenLayerTrading = () => {
       try {
         const client = getClient();
 
-        const [totalYes, totalNo, resolved, winner] = await Promise.all([
+        const [totalYes, totalNo, status] = await Promise.all([
           client.readContract({
             address: contractAddress as `0x${string}`,
             functionName: "get_total_shares",
@@ -147,23 +148,15 @@ export const useGenLayerTrading = () => {
             functionName: "get_total_shares",
             args: [1], // No outcome
           }),
-          client.readContract({
-            address: contractAddress as `0x${string}`,
-            functionName: "is_resolved",
-            args: [],
-          }),
-          client.readContract({
-            address: contractAddress as `0x${string}`,
-            functionName: "get_winner",
-            args: [],
-          }).catch(() => null), // May not exist if not resolved
+          readResolverStatus(client, contractAddress),
         ]);
 
         return {
           totalYesShares: Number(totalYes),
           totalNoShares: Number(totalNo),
-          isResolved: Boolean(resolved),
-          winner: winner !== null ? Number(winner) : null,
+          isResolved: !!status?.resolved,
+          winner: status?.winner ?? null, // 0 = YES, 1 = NO
+          isInvalid: !!status?.invalid,
         };
       } catch (error) {
         console.error("Error reading market data:", error);
@@ -1,15 +1,24 @@
 import { useState, useCallback } from "react";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
 import { useContractDeployment } from "@/hooks/useContractDeployment";
-import { BrowserProvider, Contract, parseEther } from "ethers";
+import { DEFAULT_LIQUIDITY_ETH, toMarketSchedule } from "@/hooks/useMarketFactory";
+import { TRADING_LIMITS_ABI, type CollateralInfo } from "@/hooks/useBaseTrading";
+import type { ScalarRange } from "@/lib/contractGenerator";
+import type { ResolutionSource } from "@/lib/resolverInterface";
+import { MARKET_METADATA_TUPLE, toOnChainMetadata } from "@/lib/marketMetadata";
+import { BrowserProvider, Contract, parseEther, parseUnits } from "ethers";
 import { toast } from "sonner";
 
 // Factory contract on Base Sepolia
 const FACTORY_ADDRESS = import.meta.env.VITE_FACTORY_ADDRESS || "0xB7F06cC21DeE9b1FC0349d08C72fF5c632feC2d7";
 
 const FACTORY_ABI = [
-  "function createMarket(string calldata _question, string calldata _description, uint256 _durationDays) external payable returns (address marketAddress, uint256 marketId)",
-  "event MarketCreated(uint256 indexed marketId, address indexed marketAddress, address indexed creator, string question, uint256 endTime)",
+  `function createMarket(string calldata _question, string calldata _description, ${MARKET_METADATA_TUPLE} _metadata, uint256 _endTime, uint256 _resolutionDeadline, uint256 _tradingCutoff) external payable returns (address marketAddress, uint256 marketId)`,
+  `function createCategoricalMarket(string calldata _question, string calldata _description, ${MARKET_METADATA_TUPLE} _metadata, uint256 _endTime, uint256 _resolutionDeadline, uint256 _tradingCutoff, string[] calldata _outcomes) external payable returns (address marketAddress, uint256 marketId)`,
+  `function createMarketWithCollateral(string calldata _question, string calldata _description, ${MARKET_METADATA_TUPLE} _metadata, uint256 _endTime, uint256 _resolutionDeadline, uint256 _tradingCutoff, string[] calldata _outcomes, address _collateral, uint256 _liquidity) external payable returns (address marketAddress, uint256 marketId)`,
+  `function createScalarMarket(string calldata _question, string calldata _description, ${MARKET_METADATA_TUPLE} _metadata, uint256 _endTime, uint256 _resolutionDeadline, uint256 _tradingCutoff, int256 _lowerBound, int256 _upperBound) external payable returns (address marketAddress, uint256 marketId)`,
+  "function creationFee() external view returns (uint256)",
+  "event MarketCreated(uint256 indexed marketId, address indexed marketAddress, address indexed creator, string question, uint256 endTime, string category, string resolutionSource, address genLayerResolver, bytes32 contentHash)",
 ];
 
 const BASE_SEPOLIA = {
@@ -22,6 +31,12 @@ const GENLAYER = {
   chainIdHex: "0x107d",
 };
 
+// Creator caps on buys from the market maker, in collateral units (0 for no cap)
+export interface BuyLimits {
+  maxPerAddress: number;
+  maxPool: number;
+}
+
 export interface HybridDeploymentResult {
   baseContractAddress?: string;
   baseTxHash?: string;
@@ -115,7 +130,15 @@ export const useHybridDeployment = () => {
   const deployToBase = useCallback(async (
     question: string,
     description: string,
-    durationDays: number
+    category: string,
+    resolutionSource: string,
+    endDate: Date,
+    liquidityEth: number,
+    outcomes?: string[],
+    scalar?: ScalarRange,
+    collateral?: CollateralInfo,
+    tradingCutoff = 0,
+    limits?: BuyLimits
   ): Promise<{ contractAddress?: string; txHash?: string; success: boolean }> => {
     if (!window.ethereum || !address) {
       return { success: false };
@@ -129,9 +152,66 @@ export const useHybridDeployment = () => {
       console.log("=== BASE DEPLOYMENT ===");
       console.log("Factory:", FACTORY_ADDRESS);
       console.log("Question:", question);
-      console.log("Duration:", durationDays, "days");
+      // The market ends exactly at the chosen date, matching the database end_date
+      const { endTime, resolutionDeadline } = toMarketSchedule(endDate);
+      console.log("End time:", endDate.toISOString(), "Resolution deadline:", new Date(resolutionDeadline * 1000).toISOString());
+      console.log("Liquidity:", liquidityEth, collateral?.symbol ?? "ETH");
+      if (outcomes) console.log("Outcomes:", outcomes);
+      if (tradingCutoff) console.log("Trading closes:", new Date((endTime - tradingCutoff) * 1000).toISOString());
+      if (scalar) console.log("Range:", scalar.lowerBound, "-", scalar.upperBound);
+
+      // Recorded on-chain so the database row can be rebuilt and checked. The GenLayer
+      // resolver is deployed after this market, so it isn't linked here.
+      const metadata = toOnChainMetadata({
+        question,
+        description,
+        category,
+        resolutionSource,
+        endTime,
+        outcomes: outcomes && outcomes.length > 2 ? outcomes : [],
+      });
 
-      const tx = await factory.createMarket(question, description, durationDays);
+      // The factory forwards everything above the creation fee to the market maker
+      const creationFee: bigint = await factory.creationFee();
+      const overrides = { value: creationFee + parseEther(liquidityEth.toString()) };
+      let tx;
+      if (collateral?.address) {
+        // Token markets: the factory pulls the liquidity, msg.value only pays the creation fee
+        const liquidity = parseUnits(liquidityEth.toString(), collateral.decimals);
+        const token = new Contract(collateral.address, ["function approve(address spender, uint256 amount) returns (bool)"], signer);
+        toast.info(`Approve ${collateral.symbol} liquidity in your wallet`);
+        await (await token.approve(FACTORY_ADDRESS, liquidity)).wait();
+
+        tx = await factory.createMarketWithCollateral(
+          question,
+          description,
+          metadata,
+          endTime,
+          resolutionDeadline,
+          tradingCutoff,
+          outcomes && outcomes.length > 2 ? outcomes : ["Yes", "No"],
+          collateral.address,
+          liquidity,
+          { value: creationFee }
+        );
+      } else if (scalar) {
+        // Bounds are 18-decimal fixed point on-chain
+        tx = await factory.createScalarMarket(
+          question,
+          description,
+          metadata,
+          endTime,
+          resolutionDeadline,
+          tradingCutoff,
+          parseEther(scalar.lowerBound.toString()),
+          parseEther(scalar.upperBound.toString()),
+          overrides
+        );
+      } else if (outcomes && outcomes.length > 2) {
+        tx = await factory.createCategoricalMarket(question, description, metadata, endTime, resolutionDeadline, tradingCutoff, outcomes, overrides);
+      } else {
+        tx = await factory.createMarket(question, description, metadata, endTime, resolutionDeadline, tradingCutoff, overrides);
+      }
       console.log("TX Hash:", tx.hash);
       
       const receipt = await tx.wait();
@@ -192,6 +272,25 @@ export const useHybridDeployment = () => {
 
       console.log("Final contract address:", contractAddress);
 
+      // Caps can only be raised once trading starts, so they go on right away.
+      // Scalar markets have no caps.
+      if (contractAddress && !scalar && limits && (limits.maxPerAddress > 0 || limits.maxPool > 0)) {
+        const decimals = collateral?.decimals ?? 18;
+        try {
+          toast.info("Confirm the trading limits in your wallet");
+          const market = new Contract(contractAddress, TRADING_LIMITS_ABI, signer);
+          await (
+            await market.setLimits(
+              parseUnits(limits.maxPerAddress.toString(), decimals),
+              parseUnits(limits.maxPool.toString(), decimals)
+            )
+          ).wait();
+        } catch (error) {
+          console.error("Set limits error:", error);
+          toast.error("Market created without trading limits");
+        }
+      }
+
       return {
         contractAddress,
         txHash: tx.hash,
@@ -210,6 +309,13 @@ export const useHybridDeployment = () => {
     category: string;
     endDate: Date;
     resolutionSource: string;
+    sources?: ResolutionSource[]; // Weighted sources for the GenLayer resolver, [resolutionSource] when omitted
+    liquidity?: number;
+    outcomes?: string[]; // 3-20 names for a categorical market
+    scalar?: ScalarRange; // Bounds for a scalar market
+    collateral?: CollateralInfo; // ERC-20 the market settles in, ETH when omitted
+    tradingCutoff?: number; // Seconds before the end date that trading closes
+    limits?: BuyLimits; // Caps on buys, none when omitted
     deployBase: boolean;
     deployGenLayer: boolean;
   }): Promise<HybridDeploymentResult> => {
@@ -221,7 +327,6 @@ export const useHybridDeployment = () => {
     setIsDeploying(true);
     
     const result: HybridDeploymentResult = { success: true };
-    const durationDays = Math.max(1, Math.ceil((params.endDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24)));
 
     // Step 1: Deploy to Base Sepolia (for trading)
     if (params.deployBase) {
@@ -261,7 +366,15 @@ export const useHybridDeployment = () => {
       const baseResult = await deployToBase(
         params.question,
         params.description,
-        durationDays
+        params.category,
+        params.resolutionSource,
+        params.endDate,
+        params.liquidity ?? DEFAULT_LIQUIDITY_ETH,
+        params.outcomes,
+        params.scalar,
+        params.collateral,
+        params.tradingCutoff,
+        params.limits
       );
 
       if (baseResult.success && baseResult.contractAddress) {
@@ -355,6 +468,9 @@ export const useHybridDeployment = () => {
         description: params.description,
         endDate: params.endDate.toISOString(),
         resolutionSource: params.resolutionSource,
+        sources: params.sources,
+        outcomes: params.outcomes,
+        scalar: params.scalar,
       });
 
       if (genLayerTxHash) {
@@ -1,6 +1,7 @@
 import { useState, useCallback } from "react";
-import { BrowserProvider, Contract, parseEther } from "ethers";
+import { BrowserProvider, Contract, JsonRpcProvider, parseEther } from "ethers";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { MARKET_METADATA_TUPLE, toOnChainMetadata, type MarketMetadataFields } from "@/lib/marketMetadata";
 import { toast } from "sonner";
 
 // Factory contract address (deployed on Base Sepolia)
@@ -8,20 +9,69 @@ const FACTORY_ADDRESS = import.meta.env.VITE_FACTORY_ADDRESS || "0xB7F06cC21DeE9
 
 // Factory ABI
 const FACTORY_ABI = [
-  "function createMarket(string calldata _question, string calldata _description, uint256 _durationDays) external payable returns (address marketAddress, uint256 marketId)",
-  "function getAllMarkets() external view returns (address[] memory)",
+  `function createMarket(string calldata _question, string calldata _description, ${MARKET_METADATA_TUPLE} _metadata, uint256 _endTime, uint256 _resolutionDeadline, uint256 _tradingCutoff) external payable returns (address marketAddress, uint256 marketId)`,
+  `function createCategoricalMarket(string calldata _question, string calldata _description, ${MARKET_METADATA_TUPLE} _metadata, uint256 _endTime, uint256 _resolutionDeadline, uint256 _tradingCutoff, string[] calldata _outcomes) external payable returns (address marketAddress, uint256 marketId)`,
+  "function getMarkets(uint256 _offset, uint256 _limit) external view returns (address[] memory page)",
+  "function getMarketsByStatus(uint8 _status, uint256 _offset, uint256 _limit) external view returns (address[] memory page, uint256 nextOffset)",
+  "function getMarketSummaries(address[] calldata _markets) external view returns (tuple(address market, string question, uint256 endTime, uint256 totalPool, address collateral, uint256[] outcomeTotals, bool isResolved, uint256 winningOutcome)[] summaries)",
   "function getMarketsByCreator(address _creator) external view returns (address[] memory)",
   "function marketCount() external view returns (uint256)",
   "function creationFee() external view returns (uint256)",
-  "event MarketCreated(uint256 indexed marketId, address indexed marketAddress, address indexed creator, string question, uint256 endTime)",
+  "event MarketCreated(uint256 indexed marketId, address indexed marketAddress, address indexed creator, string question, uint256 endTime, string category, string resolutionSource, address genLayerResolver, bytes32 contentHash)",
 ];
 
+// Default market maker liquidity seeded by the creator (ETH)
+export const DEFAULT_LIQUIDITY_ETH = 0.01;
+
+// Days after the end date a market can still be resolved before anyone can void it
+export const DEFAULT_RESOLUTION_WINDOW_DAYS = 7;
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+/**
+ * The exact unix end time and resolution deadline the factory takes for a market
+ */
+export const toMarketSchedule = (endDate: Date, resolutionDeadline?: Date) => {
+  const endTime = Math.floor(endDate.getTime() / 1000);
+  return {
+    endTime,
+    resolutionDeadline: resolutionDeadline
+      ? Math.floor(resolutionDeadline.getTime() / 1000)
+      : endTime + DEFAULT_RESOLUTION_WINDOW_DAYS * DAY_SECONDS,
+  };
+};
+
 // Base Sepolia config
 const BASE_SEPOLIA = {
   chainId: 84532,
+  rpc: "https://sepolia.base.org",
   blockExplorer: "https://sepolia.basescan.org",
 };
 
+// Browsing reads through a public RPC so it works without a wallet
+const readProvider = new JsonRpcProvider(BASE_SEPOLIA.rpc);
+
+// Order matches the factory's MarketStatus enum
+export const MARKET_STATUSES = ["open", "ended", "resolved"] as const;
+export type FactoryMarketStatus = (typeof MARKET_STATUSES)[number];
+
+export interface FactoryMarketSummary {
+  address: string;
+  question: string;
+  endTime: number; // unix seconds
+  totalPool: bigint; // collateral units
+  collateral: string | null; // ERC-20 address, null for ETH
+  outcomeTotals: bigint[]; // empty for scalar markets
+  isResolved: boolean;
+  winningOutcome: number | null; // null until resolved, or for scalar and voided markets
+}
+
+export interface FactoryMarketPage {
+  markets: string[];
+  nextOffset: number; // pass back as offset for the next page
+  total: number; // markets on the factory
+}
+
 interface DeployMarketResult {
   success: boolean;
   contractAddress?: string;
@@ -39,12 +89,18 @@ export const useMarketFactory = () => {
 
   /**
    * Deploy a new prediction market contract via the Factory
+   * liquidityEth funds the market maker (sent on top of the creation fee)
+   * Passing 3-20 outcomes deploys a categorical market instead of YES/NO
+   * details is recorded on-chain with the market's content hash (empty when omitted)
    */
   const deployMarket = useCallback(
     async (
       question: string,
       description: string,
-      durationDays: number
+      endDate: Date,
+      liquidityEth: number = DEFAULT_LIQUIDITY_ETH,
+      outcomes?: string[],
+      details: Pick<MarketMetadataFields, "category" | "resolutionSource"> = { category: "", resolutionSource: "" }
     ): Promise<DeployMarketResult> => {
       // Validation
       if (!isConnected || !address) {
@@ -81,9 +137,21 @@ export const useMarketFactory = () => {
         return { success: false, error: "Empty question" };
       }
 
-      if (durationDays < 1 || durationDays > 365) {
-        toast.error("Duration must be between 1 and 365 days");
-        return { success: false, error: "Invalid duration" };
+      const { endTime, resolutionDeadline } = toMarketSchedule(endDate);
+      const now = Math.floor(Date.now() / 1000);
+      if (endTime <= now || endTime > now + 365 * DAY_SECONDS) {
+        toast.error("End date must be within the next 365 days");
+        return { success: false, error: "Invalid end time" };
+      }
+
+      if (!(liquidityEth >= 0.001)) {
+        toast.error("Liquidity must be at least 0.001 ETH");
+        return { success: false, error: "Insufficient liquidity" };
+      }
+
+      if (outcomes && (outcomes.length < 3 || outcomes.length > 20)) {
+        toast.error("Categorical markets need 3 to 20 outcomes");
+        return { success: false, error: "Invalid outcomes" };
       }
 
       setIsDeploying(true);
@@ -103,16 +171,41 @@ export const useMarketFactory = () => {
           description: "Deploying your market contract on Base Sepolia",
         });
 
-        // Call createMarket on the factory
-        const tx = await factory.createMarket(
+        const overrides = { 
+          value: creationFee + parseEther(liquidityEth.toString()),
+          gasLimit: 3000000n, // Higher gas limit for contract deployment
+        };
+
+        const marketDescription = description || "No description provided";
+        const metadata = toOnChainMetadata({
           question,
-          description || "No description provided",
-          durationDays,
-          { 
-            value: creationFee,
-            gasLimit: 3000000n, // Higher gas limit for contract deployment
-          }
-        );
+          description: marketDescription,
+          ...details,
+          endTime,
+          outcomes: outcomes ?? [],
+        });
+
+        // Call createMarket (or createCategoricalMarket) on the factory
+        const tx = outcomes
+          ? await factory.createCategoricalMarket(
+              question,
+              marketDescription,
+              metadata,
+              endTime,
+              resolutionDeadline,
+              0, // Trading runs until the end time
+              outcomes,
+              overrides
+            )
+          : await factory.createMarket(
+              question,
+              marketDescription,
+              metadata,
+              endTime,
+              resolutionDeadline,
+              0, // Trading runs until the end time
+              overrides
+            );
 
         console.log("Transaction sent:", tx.hash);
 
@@ -220,19 +313,63 @@ export const useMarketFactory = () => {
   );
 
   /**
-   * Get all markets deployed via the factory
+   * Page through factory markets in creation order, optionally only one status.
+   * Status pages can come back short: keep going from nextOffset until it reaches total.
    */
-  const getAllFactoryMarkets = useCallback(async (): Promise<string[]> => {
+  const getFactoryMarkets = useCallback(
+    async (offset: number, limit: number, status?: FactoryMarketStatus): Promise<FactoryMarketPage> => {
+      try {
+        const factory = new Contract(FACTORY_ADDRESS, FACTORY_ABI, readProvider);
+        const total = Number(await factory.marketCount());
+
+        if (status) {
+          const [page, nextOffset] = await factory.getMarketsByStatus(MARKET_STATUSES.indexOf(status), offset, limit);
+          return { markets: [...page], nextOffset: Number(nextOffset), total };
+        }
+
+        const page: string[] = await factory.getMarkets(offset, limit);
+        return { markets: [...page], nextOffset: Math.min(offset + limit, total), total };
+      } catch (err) {
+        console.error("Error getting factory markets:", err);
+        return { markets: [], nextOffset: offset, total: 0 };
+      }
+    },
+    []
+  );
+
+  /**
+   * Question, end time, pools and resolution of several markets in one call
+   */
+  const getMarketSummaries = useCallback(async (markets: string[]): Promise<FactoryMarketSummary[]> => {
+    if (markets.length === 0) return [];
     try {
-      if (!window.ethereum) return [];
-      
-      const provider = new BrowserProvider(window.ethereum);
-      const factory = new Contract(FACTORY_ADDRESS, FACTORY_ABI, provider);
-      
-      const markets = await factory.getAllMarkets();
-      return markets as string[];
+      const factory = new Contract(FACTORY_ADDRESS, FACTORY_ABI, readProvider);
+      const summaries = await factory.getMarketSummaries(markets);
+
+      return summaries.map((s: {
+        market: string;
+        question: string;
+        endTime: bigint;
+        totalPool: bigint;
+        collateral: string;
+        outcomeTotals: bigint[];
+        isResolved: boolean;
+        winningOutcome: bigint;
+      }) => {
+        const hasOutcome = s.isResolved && s.outcomeTotals.length > 0 && s.winningOutcome < BigInt(s.outcomeTotals.length);
+        return {
+          address: s.market,
+          question: s.question,
+          endTime: Number(s.endTime),
+          totalPool: s.totalPool,
+          collateral: /^0x0+$/.test(s.collateral) ? null : s.collateral,
+          outcomeTotals: [...s.outcomeTotals],
+          isResolved: s.isResolved,
+          winningOutcome: hasOutcome ? Number(s.winningOutcome) : null,
+        };
+      });
     } catch (err) {
-      console.error("Error getting factory markets:", err);
+      console.error("Error getting market summaries:", err);
       return [];
     }
   }, []);
@@ -257,7 +394,8 @@ export const useMarketFactory = () => {
 
   return {
     deployMarket,
-    getAllFactoryMarkets,
+    getFactoryMarkets,
+    getMarketSummaries,
     getMarketsByCreator,
     isDeploying,
     error,
@@ -13,6 +13,7 @@ export interface DbMarket {
   probability: number;
   volume: number;
   end_date: string;
+  trading_closes_at: string | null;
   verified: boolean;
   resolution_status: string;
   resolution_source: string | null;
@@ -21,6 +22,15 @@ export interface DbMarket {
   intelligent_contract_address: string | null;
   base_contract_address: string | null;
   network: string | null;
+  market_type: string;
+  outcomes: string[] | null;
+  resolved_outcome_index: number | null;
+  scalar_lower: number | null;
+  scalar_upper: number | null;
+  collateral_address: string | null;
+  collateral_symbol: string;
+  collateral_decimals: number;
+  resolved_value: number | null;
   deployer_wallet: string | null;
   genlayer_resolution_address: string | null;
   created_by: string | null;
@@ -41,6 +51,7 @@ export interface CreateMarketInput {
   description?: string;
   category?: string;
   end_date: string;
+  trading_closes_at?: string | null;
   resolution_source?: string;
   probability?: number;
   volume?: number;
@@ -52,6 +63,13 @@ export interface CreateMarketInput {
   intelligent_contract_address?: string | null;
   base_contract_address?: string | null;
   network?: string | null;
+  market_type?: "binary" | "categorical" | "scalar";
+  outcomes?: string[] | null;
+  scalar_lower?: number | null;
+  scalar_upper?: number | null;
+  collateral_address?: string | null;
+  collateral_symbol?: string;
+  collateral_decimals?: number;
 }
 
 // ============================================
@@ -142,6 +160,7 @@ export const useCreateMarket = () => {
           description: input.description || null,
           category: input.category || "Other",
           end_date: input.end_date,
+          trading_closes_at: input.trading_closes_at || null,
           resolution_source: input.resolution_source || null,
           probability: input.probability ?? 50,
           volume: input.volume ?? 0,
@@ -153,6 +172,13 @@ export const useCreateMarket = () => {
           intelligent_contract_address: input.intelligent_contract_address || null,
           base_contract_address: input.base_contract_address || null,
           network: input.network || null,
+          market_type: input.market_type || "binary",
+          outcomes: input.outcomes || null,
+          scalar_lower: input.scalar_lower ?? null,
+          scalar_upper: input.scalar_upper ?? null,
+          collateral_address: input.collateral_address || null,
+          collateral_symbol: input.collateral_symbol || "ETH",
+          collateral_decimals: input.collateral_decimals ?? 18,
         })
         .select()
         .single();
@@ -0,0 +1,151 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import { useBaseTrading, LimitOrder } from "@/hooks/useBaseTrading";
+
+export interface OrderRow {
+  id: string;
+  market_id: string;
+  contract_address: string;
+  maker: string;
+  outcome: number;
+  price: string;
+  shares: string;
+  nonce: string;
+  expiry: number;
+  signature: string;
+  filled: string;
+  status: string;
+  created_at: string;
+}
+
+export interface DepthLevel {
+  price: number; // 0-1
+  shares: number; // remaining, in collateral units
+}
+
+const WAD = 1e18;
+
+const toDepth = (orders: OrderRow[], decimals: number): DepthLevel[] => {
+  const levels = new Map<number, number>();
+  for (const o of orders) {
+    const price = Number(o.price) / WAD;
+    const remaining = (Number(o.shares) - Number(o.filled)) / 10 ** decimals;
+    if (remaining <= 0) continue;
+    levels.set(price, (levels.get(price) ?? 0) + remaining);
+  }
+  return [...levels.entries()]
+    .map(([price, shares]) => ({ price, shares }))
+    .sort((a, b) => b.price - a.price);
+};
+
+export const toLimitOrder = (row: OrderRow): LimitOrder => ({
+  maker: row.maker,
+  outcome: row.outcome,
+  price: BigInt(row.price),
+  shares: BigInt(row.shares),
+  nonce: BigInt(row.nonce),
+  expiry: BigInt(row.expiry),
+});
+
+export const orderKeys = {
+  market: (marketId: string) => ["orders", marketId] as const,
+};
+
+/**
+ * Open limit orders of a Base market, aggregated into YES and NO bid depth
+ */
+export const useOrderBook = (marketId: string | undefined, decimals = 18) => {
+  const { address } = useWalletAuth();
+
+  return useQuery({
+    queryKey: orderKeys.market(marketId ?? ""),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("orders")
+        .select("*")
+        .eq("market_id", marketId!)
+        .eq("status", "open")
+        .order("price", { ascending: false });
+
+      if (error) throw error;
+      const orders = (data ?? []) as OrderRow[];
+
+      return {
+        yes: toDepth(orders.filter((o) => o.outcome === 0), decimals),
+        no: toDepth(orders.filter((o) => o.outcome === 1), decimals),
+        mine: address ? orders.filter((o) => o.maker.toLowerCase() === address.toLowerCase()) : [],
+      };
+    },
+    enabled: !!marketId,
+    refetchInterval: 15000,
+  });
+};
+
+/**
+ * Sign a limit order, store it in the book and ask the matcher to settle crossing orders
+ */
+export const usePlaceOrder = () => {
+  const queryClient = useQueryClient();
+  const { signLimitOrder } = useBaseTrading();
+
+  return useMutation({
+    mutationFn: async (params: {
+      marketId: string;
+      contractAddress: string;
+      outcomeIndex: number;
+      price: number;
+      shares: number;
+    }) => {
+      const signed = await signLimitOrder(params);
+      if (!signed) return null;
+
+      const { order, signature } = signed;
+      const { error } = await supabase.from("orders").insert({
+        market_id: params.marketId,
+        contract_address: params.contractAddress,
+        maker: order.maker,
+        outcome: order.outcome,
+        price: order.price.toString(),
+        shares: order.shares.toString(),
+        nonce: order.nonce.toString(),
+        expiry: Number(order.expiry),
+        signature,
+      });
+      if (error) throw error;
+
+      const { data, error: matchError } = await supabase.functions.invoke("match-orders", {
+        body: { marketId: params.marketId },
+      });
+      // The order is already in the book, a failed match is retried by the next order
+      if (matchError) console.error("match-orders error:", matchError);
+      return data as { matched: number } | null;
+    },
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.market(variables.marketId) });
+    },
+  });
+};
+
+/**
+ * Cancel an order on-chain, then have the matcher mark it cancelled in the book
+ */
+export const useCancelOrder = () => {
+  const queryClient = useQueryClient();
+  const { cancelLimitOrder } = useBaseTrading();
+
+  return useMutation({
+    mutationFn: async (row: OrderRow) => {
+      const result = await cancelLimitOrder(row.contract_address, toLimitOrder(row));
+      if (!result.success) return false;
+
+      await supabase.functions.invoke("match-orders", {
+        body: { marketId: row.market_id, cancelledOrderId: row.id },
+      });
+      return true;
+    },
+    onSuccess: (_data, row) => {
+      queryClient.invalidateQueries({ queryKey: orderKeys.market(row.market_id) });
+    },
+  });
+};
@@ -2,11 +2,34 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
 
+// Binary markets use yes/no, categorical markets outcome_<index>
+export type PositionType = "yes" | "no" | `outcome_${number}`;
+
+/**
+ * Display label for a position, using the market's outcome names when categorical
+ */
+export const getPositionLabel = (positionType: string, outcomes?: string[] | null, marketType?: string): string => {
+  // Scalar markets store LONG/SHORT positions as yes/no
+  if (marketType === "scalar") return positionType === "yes" ? "LONG" : "SHORT";
+  const match = /^outcome_(\d+)$/.exec(positionType);
+  if (!match) return positionType.toUpperCase();
+  return outcomes?.[Number(match[1])] ?? `Outcome ${match[1]}`;
+};
+
+/**
+ * On-chain outcome index of a position (0 = YES, 1 = NO on binary markets)
+ */
+export const getOutcomeIndex = (positionType: string): number => {
+  const match = /^outcome_(\d+)$/.exec(positionType);
+  if (match) return Number(match[1]);
+  return positionType === "yes" ? 0 : 1;
+};
+
 export interface Position {
   id: string;
   user_id: string;
   market_id: string;
-  position_type: "yes" | "no";
+  position_type: PositionType;
   shares: number;
   avg_price: number;
   total_invested: number;
@@ -21,6 +44,11 @@ export interface PositionWithMarket extends Position {
     probability: number;
     end_date: string;
     resolution_status: string;
+    outcomes: string[] | null;
+    market_type: string;
+    base_contract_address: string | null;
+    collateral_symbol: string;
+    collateral_decimals: number;
   };
 }
 
@@ -36,7 +64,7 @@ export const usePositions = () => {
         .from("positions")
         .select(`
           *,
-          market:markets(id, title, probability, end_date, resolution_status)
+          market:markets(id, title, probability, end_date, resolution_status, outcomes, market_type, base_contract_address, collateral_symbol, collateral_decimals)
         `)
         .eq("user_id", address);
 
@@ -59,7 +87,7 @@ export const useTrades = () => {
         .from("trades")
         .select(`
           *,
-          market:markets(id, title)
+          market:markets(id, title, base_contract_address, collateral_symbol, collateral_decimals)
         `)
         .eq("user_id", address)
         .order("created_at", { ascending: false })
@@ -82,11 +110,13 @@ export const useCreateTrade = () => {
       positionType,
       shares,
       price,
+      tradeType = "buy",
     }: {
       marketId: string;
-      positionType: "yes" | "no";
+      positionType: PositionType;
       shares: number;
       price: number;
+      tradeType?: "buy" | "sell";
     }) => {
       if (!isConnected || !address) throw new Error("Must connect wallet to trade");
 
@@ -96,7 +126,7 @@ export const useCreateTrade = () => {
       const { error: tradeError } = await supabase.from("trades").insert({
         user_id: address,
         market_id: marketId,
-        trade_type: "buy",
+        trade_type: tradeType,
         position_type: positionType,
         shares,
         price,
@@ -114,7 +144,23 @@ export const useCreateTrade = () => {
         .eq("position_type", positionType)
         .maybeSingle();
 
-      if (existingPosition) {
+      if (tradeType === "sell") {
+        // Reduce the position, keeping the average entry price
+        if (existingPosition) {
+          const newShares = Math.max(Number(existingPosition.shares) - shares, 0);
+          const newTotalInvested = newShares * Number(existingPosition.avg_price);
+
+          const { error: updateError } = await supabase
+            .from("positions")
+            .update({
+              shares: newShares,
+              total_invested: newTotalInvested,
+            })
+            .eq("id", existingPosition.id);
+
+          if (updateError) throw updateError;
+        }
+      } else if (existingPosition) {
         // Update existing position
         const newShares = Number(existingPosition.shares) + shares;
         const newTotalInvested = Number(existingPosition.total_invested) + totalAmount;
@@ -2,6 +2,8 @@ import { useState, useCallback } from "react";
 import { BrowserProvider, Contract, parseEther, formatEther } from "ethers";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
 import { toast } from "sonner";
+import { toMarketSchedule } from "@/hooks/useMarketFactory";
+import { MARKET_METADATA_TUPLE, toOnChainMetadata, type MarketMetadataFields } from "@/lib/marketMetadata";
 
 // Contract ABIs (minimal for what we need)
 const PREDICTION_MARKET_ABI = [
@@ -27,13 +29,13 @@ const PREDICTION_MARKET_ABI = [
 ];
 
 const FACTORY_ABI = [
-  "function createMarket(string calldata _question, string calldata _description, uint256 _durationDays) external payable returns (address marketAddress, uint256 marketId)",
+  `function createMarket(string calldata _question, string calldata _description, ${MARKET_METADATA_TUPLE} _metadata, uint256 _endTime, uint256 _resolutionDeadline, uint256 _tradingCutoff) external payable returns (address marketAddress, uint256 marketId)`,
   "function getAllMarkets() external view returns (address[] memory)",
   "function getMarketsByCreator(address _creator) external view returns (address[] memory)",
   "function getMarketInfo(uint256 _marketId) external view returns (address marketAddress, string memory question, uint256 endTime, bool isResolved, uint256 totalPool)",
   "function marketCount() external view returns (uint256)",
   "function creationFee() external view returns (uint256)",
-  "event MarketCreated(uint256 indexed marketId, address indexed marketAddress, address indexed creator, string question, uint256 endTime)",
+  "event MarketCreated(uint256 indexed marketId, address indexed marketAddress, address indexed creator, string question, uint256 endTime, string category, string resolutionSource, address genLayerResolver, bytes32 contentHash)",
 ];
 
 // Base Sepolia configuration
@@ -104,7 +106,12 @@ export const useRealContract = () => {
 
   // Create a new market on-chain
   const createMarketOnChain = useCallback(
-    async (question: string, description: string, durationDays: number): Promise<{
+    async (
+      question: string,
+      description: string,
+      endDate: Date,
+      details: Pick<MarketMetadataFields, "category" | "resolutionSource"> = { category: "", resolutionSource: "" }
+    ): Promise<{
       success: boolean;
       marketAddress?: string;
       marketId?: number;
@@ -133,7 +140,9 @@ export const useRealContract = () => {
           description: "Creating market on Base Sepolia",
         });
 
-        const tx = await factory.createMarket(question, description, durationDays);
+        const { endTime, resolutionDeadline } = toMarketSchedule(endDate);
+        const metadata = toOnChainMetadata({ question, description, ...details, endTime });
+        const tx = await factory.createMarket(question, description, metadata, endTime, resolutionDeadline, 0);
         
         toast.info("Transaction submitted", {
           description: "Waiting for confirmation...",
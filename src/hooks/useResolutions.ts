@@ -0,0 +1,45 @@
+import { useMutation } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { useWalletAuth } from "@/contexts/WalletAuthContext";
+import type { ResolverStatus } from "@/lib/resolverInterface";
+
+interface RecordResolutionParams {
+  marketId: string;
+  contractAddress: string;
+  status: ResolverStatus;
+  txHash?: string;
+}
+
+/**
+ * Record a resolved GenLayer market in the resolutions audit table. The first record
+ * of a contract is kept, so recording it again is a no-op.
+ */
+export const useRecordResolution = () => {
+  const { address } = useWalletAuth();
+
+  return useMutation({
+    mutationFn: async ({ marketId, contractAddress, status, txHash }: RecordResolutionParams) => {
+      if (!status.resolved) return;
+
+      const { error } = await supabase.from("resolutions").upsert(
+        {
+          market_id: marketId,
+          contract_address: contractAddress.toLowerCase(),
+          resolver_version: status.version,
+          outcome: status.winner,
+          resolved_value: status.value,
+          is_invalid: status.invalid,
+          reasoning: status.reasoning,
+          evidence_url: status.evidenceUrl || null,
+          evidence_quote: status.evidenceQuote || null,
+          resolved_at: status.resolvedAt,
+          tx_hash: txHash ?? null,
+          recorded_by: address?.toLowerCase() ?? null,
+        },
+        { onConflict: "contract_address", ignoreDuplicates: true }
+      );
+
+      if (error) throw error;
+    },
+  });
+};
@@ -18,6 +18,9 @@ export type Database = {
         Row: {
           base_contract_address: string | null
           category: string
+          collateral_address: string | null
+          collateral_decimals: number
+          collateral_symbol: string
           consensus_percentage: number | null
           created_at: string
           created_by: string | null
@@ -27,11 +30,18 @@ export type Database = {
           genlayer_resolution_address: string | null
           id: string
           intelligent_contract_address: string | null
+          market_type: string
           network: string | null
+          outcomes: string[] | null
           probability: number
           resolution_source: string | null
           resolution_status: string
+          resolved_outcome_index: number | null
+          resolved_value: number | null
+          scalar_lower: number | null
+          scalar_upper: number | null
           title: string
+          trading_closes_at: string | null
           updated_at: string
           validator_count: number
           verified: boolean
@@ -40,6 +50,9 @@ export type Database = {
         Insert: {
           base_contract_address?: string | null
           category?: string
+          collateral_address?: string | null
+          collateral_decimals?: number
+          collateral_symbol?: string
           consensus_percentage?: number | null
           created_at?: string
           created_by?: string | null
@@ -49,11 +62,18 @@ export type Database = {
           genlayer_resolution_address?: string | null
           id?: string
           intelligent_contract_address?: string | null
+          market_type?: string
           network?: string | null
+          outcomes?: string[] | null
           probability?: number
           resolution_source?: string | null
           resolution_status?: string
+          resolved_outcome_index?: number | null
+          resolved_value?: number | null
+          scalar_lower?: number | null
+          scalar_upper?: number | null
           title: string
+          trading_closes_at?: string | null
           updated_at?: string
           validator_count?: number
           verified?: boolean
@@ -62,6 +82,9 @@ export type Database = {
         Update: {
           base_contract_address?: string | null
           category?: string
+          collateral_address?: string | null
+          collateral_decimals?: number
+          collateral_symbol?: string
           consensus_percentage?: number | null
           created_at?: string
           created_by?: string | null
@@ -71,11 +94,18 @@ export type Database = {
           genlayer_resolution_address?: string | null
           id?: string
           intelligent_contract_address?: string | null
+          market_type?: string
           network?: string | null
+          outcomes?: string[] | null
           probability?: number
           resolution_source?: string | null
           resolution_status?: string
+          resolved_outcome_index?: number | null
+          resolved_value?: number | null
+          scalar_lower?: number | null
+          scalar_upper?: number | null
           title?: string
+          trading_closes_at?: string | null
           updated_at?: string
           validator_count?: number
           verified?: boolean
@@ -83,6 +113,65 @@ export type Database = {
         }
         Relationships: []
       }
+      orders: {
+        Row: {
+          contract_address: string
+          created_at: string
+          expiry: number
+          filled: string
+          id: string
+          maker: string
+          market_id: string
+          nonce: string
+          outcome: number
+          price: string
+          shares: string
+          signature: string
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          contract_address: string
+          created_at?: string
+          expiry: number
+          filled?: string
+          id?: string
+          maker: string
+          market_id: string
+          nonce: string
+          outcome: number
+          price: string
+          shares: string
+          signature: string
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          contract_address?: string
+          created_at?: string
+          expiry?: number
+          filled?: string
+          id?: string
+          maker?: string
+          market_id?: string
+          nonce?: string
+          outcome?: number
+          price?: string
+          shares?: string
+          signature?: string
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "markets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       positions: {
         Row: {
           avg_price: number
@@ -192,6 +281,92 @@ export type Database = {
         }
         Relationships: []
       }
+      relayed_transactions: {
+        Row: {
+          created_at: string
+          gas_used: string | null
+          id: string
+          target: string
+          tx_hash: string | null
+          wallet: string
+        }
+        Insert: {
+          created_at?: string
+          gas_used?: string | null
+          id?: string
+          target: string
+          tx_hash?: string | null
+          wallet: string
+        }
+        Update: {
+          created_at?: string
+          gas_used?: string | null
+          id?: string
+          target?: string
+          tx_hash?: string | null
+          wallet?: string
+        }
+        Relationships: []
+      }
+      resolutions: {
+        Row: {
+          contract_address: string
+          created_at: string
+          evidence_quote: string | null
+          evidence_url: string | null
+          id: string
+          is_invalid: boolean
+          market_id: string
+          outcome: number | null
+          reasoning: string
+          recorded_by: string | null
+          resolved_at: string | null
+          resolved_value: string | null
+          resolver_version: number
+          tx_hash: string | null
+        }
+        Insert: {
+          contract_address: string
+          created_at?: string
+          evidence_quote?: string | null
+          evidence_url?: string | null
+          id?: string
+          is_invalid?: boolean
+          market_id: string
+          outcome?: number | null
+          reasoning?: string
+          recorded_by?: string | null
+          resolved_at?: string | null
+          resolved_value?: string | null
+          resolver_version: number
+          tx_hash?: string | null
+        }
+        Update: {
+          contract_address?: string
+          created_at?: string
+          evidence_quote?: string | null
+          evidence_url?: string | null
+          id?: string
+          is_invalid?: boolean
+          market_id?: string
+          outcome?: number | null
+          reasoning?: string
+          recorded_by?: string | null
+          resolved_at?: string | null
+          resolved_value?: string | null
+          resolver_version?: number
+          tx_hash?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "resolutions_market_id_fkey"
+            columns: ["market_id"]
+            isOneToOne: false
+            referencedRelation: "markets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       trades: {
         Row: {
           created_at: string
@@ -242,6 +417,10 @@ export type Database = {
     }
     Functions: {
       current_wallet_address: { Args: never; Returns: string }
+      reserve_relay_slot: {
+        Args: { _quota: number; _target: string; _wallet: string; _window: unknown }
+        Returns: { remaining: number; slot_id: string }[]
+      }
     }
     Enums: {
       [_ in never]: never
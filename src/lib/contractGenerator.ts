@@ -3,36 +3,139 @@
  * Generates Python Intelligent Contract code for deployment to GenLayer
  */
 
+import { RESOLVER_INTERFACE_VERSION, type ResolutionSource } from "@/lib/resolverInterface";
+
 export interface ContractParams {
   question: string;
   endDate: string;
-  resolutionSource: string;
+  resolutionSource: string; // Primary source, stored in the contract's resolution_source
   description: string;
+  sources?: ResolutionSource[]; // Weighted sources the validators consult, [resolutionSource] when omitted
+  quorum?: number; // Share of the source weight that must reach a verdict, DEFAULT_SOURCE_QUORUM when omitted
+  outcomes?: string[]; // 3-20 names for a categorical market, omit for YES/NO
+  scalar?: ScalarRange; // Bounds for a scalar (range) market, overrides outcomes
+}
+
+export interface ScalarRange {
+  lowerBound: number;
+  upperBound: number;
+}
+
+// Decimal places the scalar resolver rounds to, so validators can agree on the value
+export const SCALAR_VALUE_DECIMALS = 4;
+
+// Longest justification and evidence quote a resolver stores
+export const MAX_REASONING_LENGTH = 500;
+export const MAX_EVIDENCE_QUOTE_LENGTH = 300;
+
+// Principle validators check the leader's resolution against: the verdict must match,
+// the justification only has to support it
+const RESOLUTION_PRINCIPLE = (verdict: string) =>
+  `The ${verdict} must be identical. The reasoning and evidence_quote may be worded differently but must support the same ${verdict}.`;
+
+export const BINARY_OUTCOMES = ["Yes", "No"];
+export const MAX_OUTCOMES = 20;
+
+export const MAX_SOURCES = 5;
+export const MAX_SOURCE_WEIGHT = 10;
+export const DEFAULT_SOURCE_QUORUM = 0.5;
+
+/**
+ * The sources a resolver consults, with whole-number weights from 1 to MAX_SOURCE_WEIGHT;
+ * the single resolutionSource when no list is given
+ */
+export function getResolutionSources(params: Pick<ContractParams, "resolutionSource" | "sources">): ResolutionSource[] {
+  const sources = (params.sources ?? [])
+    .map((s) => ({ url: s.url.trim(), weight: Math.min(Math.max(Math.round(s.weight), 1), MAX_SOURCE_WEIGHT) }))
+    .filter((s) => s.url);
+  return sources.length > 0 ? sources.slice(0, MAX_SOURCES) : [{ url: params.resolutionSource.trim(), weight: 1 }];
 }
 
+// Python constants for the sources and quorum; JSON objects of strings and ints are valid Python literals
+const sourceConstants = (params: ContractParams): string =>
+  `SOURCES = ${JSON.stringify(getResolutionSources(params))}  # Weighted resolution sources
+QUORUM = ${Math.min(Math.max(params.quorum ?? DEFAULT_SOURCE_QUORUM, 0), 1)}  # Share of the source weight that must reach a verdict`;
+
+/**
+ * Outcome names in index order; anything short of a categorical list is YES/NO
+ */
+export function getOutcomes(params: Pick<ContractParams, "outcomes">): string[] {
+  const outcomes = (params.outcomes ?? []).map((o) => o.trim()).filter(Boolean);
+  return outcomes.length > 2 ? outcomes.slice(0, MAX_OUTCOMES) : BINARY_OUTCOMES;
+}
+
+// Escape special characters in strings for Python
+const escapeString = (str: string): string => {
+  return str
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\r/g, "\\r");
+};
+
 /**
  * Generates a Python Intelligent Contract for a prediction market
  * This contract uses GenLayer's Equivalence Principle for trustless resolution
  */
 export function generatePredictionMarketContract(params: ContractParams): string {
-  // Escape special characters in strings for Python
-  const escapeString = (str: string): string => {
-    return str
-      .replace(/\\/g, "\\\\")
-      .replace(/"/g, '\\"')
-      .replace(/\n/g, "\\n")
-      .replace(/\r/g, "\\r");
-  };
+  if (params.scalar) {
+    return generateScalarMarketContract(params, params.scalar);
+  }
 
   const question = escapeString(params.question);
   const endDate = escapeString(params.endDate);
-  const resolutionSource = escapeString(params.resolutionSource);
   const description = escapeString(params.description);
+  const outcomes = getOutcomes(params);
+  const isCategorical = outcomes !== BINARY_OUTCOMES;
+  // JSON string arrays are valid Python list literals
+  const outcomesLiteral = JSON.stringify(outcomes);
+
+  const answerInstructions = isCategorical
+    ? `Analyze the data and determine which of the following outcomes is correct:
+{outcome_lines}
+
+Respond with a JSON object containing the index of the winning outcome, e.g. {{"outcome": 0}}.`
+    : `Analyze the data and determine if the answer to the question is YES or NO.
+Respond with a JSON object: {{"outcome": 0}} for YES or {{"outcome": 1}} for NO.`;
 
   return `# { "Depends": "py-genlayer:test" }
 from genlayer import *
+import datetime
 import json
 
+CONTRACT_VERSION = ${RESOLVER_INTERFACE_VERSION}  # Resolver interface version, see src/lib/resolverInterface.ts
+OUTCOMES = ${outcomesLiteral}
+INVALID = -2  # Ambiguous or unresolvable question, every trader is refunded
+MAX_REASONING_LENGTH = ${MAX_REASONING_LENGTH}
+MAX_QUOTE_LENGTH = ${MAX_EVIDENCE_QUOTE_LENGTH}
+${sourceConstants(params)}
+
+def combine_verdicts(verdicts: list) -> dict:
+    """
+    Weighted majority of the sources' verdicts. Undetermined (-1) unless the sources that
+    reached one make up QUORUM of the weight and more than half of theirs agrees.
+    """
+    undetermined = {"outcome": -1, "reasoning": "", "evidence_url": "", "evidence_quote": ""}
+    responding = sum(v["weight"] for v in verdicts)
+    if responding == 0 or responding < QUORUM * sum(s["weight"] for s in SOURCES):
+        return undetermined
+    
+    tally = {}
+    for v in verdicts:
+        tally[v["outcome"]] = tally.get(v["outcome"], 0) + v["weight"]
+    outcome = max(tally, key=lambda o: tally[o])
+    if tally[outcome] * 2 <= responding:
+        return undetermined
+    
+    # Evidence comes from the heaviest source backing the outcome
+    best = max((v for v in verdicts if v["outcome"] == outcome), key=lambda v: v["weight"])
+    return {
+        "outcome": outcome,
+        "reasoning": best["reasoning"],
+        "evidence_url": best["url"],
+        "evidence_quote": best["evidence_quote"]
+    }
+
 @gl.contract
 class PredictionMarket:
     """
@@ -46,9 +149,12 @@ class PredictionMarket:
     end_date: str
     creator: str
     is_resolved: bool
-    winner: int  # -1 = unresolved, 0 = YES wins, 1 = NO wins
-    total_yes_shares: int
-    total_no_shares: int
+    winner: int  # -1 = unresolved, INVALID, otherwise the winning index into OUTCOMES (0 = YES, 1 = NO for binary)
+    reasoning: str  # Validators' justification of the resolution
+    evidence_url: str  # Page the evidence was taken from
+    evidence_quote: str  # Passage of that page the resolution rests on
+    resolved_at: str  # ISO 8601 time of resolution, "" until resolved
+    total_shares: TreeMap[int, int]  # outcome -> shares
     user_shares: TreeMap[str, TreeMap[int, int]]  # user -> outcome -> shares
     user_deposits: TreeMap[str, int]  # user -> total deposited wei
 
@@ -60,22 +166,27 @@ class PredictionMarket:
         self.creator = gl.message.sender_account
         self.is_resolved = False
         self.winner = -1
-        self.total_yes_shares = 0
-        self.total_no_shares = 0
+        self.reasoning = ""
+        self.evidence_url = ""
+        self.evidence_quote = ""
+        self.resolved_at = ""
+        self.total_shares = TreeMap[int, int]()
+        for i in range(len(OUTCOMES)):
+            self.total_shares[i] = 0
         self.user_shares = TreeMap[str, TreeMap[int, int]]()
         self.user_deposits = TreeMap[str, int]()
 
     @gl.public.write.payable
     def buy_shares(self, outcome_index: int, num_shares: int) -> bool:
         """
-        Buy shares for a given outcome (0 = YES, 1 = NO).
+        Buy shares for a given outcome (index into OUTCOMES, 0 = YES, 1 = NO for binary).
         Sends value with the transaction to purchase shares.
         """
         if self.is_resolved:
             raise Exception("Market is already resolved")
         
-        if outcome_index not in [0, 1]:
-            raise Exception("Invalid outcome index. Use 0 for YES, 1 for NO")
+        if outcome_index < 0 or outcome_index >= len(OUTCOMES):
+            raise Exception(f"Invalid outcome index. Use 0 to {len(OUTCOMES) - 1}")
         
         if num_shares <= 0:
             raise Exception("Must buy at least 1 share")
@@ -86,8 +197,8 @@ class PredictionMarket:
         # Track user's shares
         if sender not in self.user_shares:
             self.user_shares[sender] = TreeMap[int, int]()
-            self.user_shares[sender][0] = 0
-            self.user_shares[sender][1] = 0
+            for i in range(len(OUTCOMES)):
+                self.user_shares[sender][i] = 0
         
         self.user_shares[sender][outcome_index] = self.user_shares[sender][outcome_index] + num_shares
         
@@ -97,10 +208,7 @@ class PredictionMarket:
         self.user_deposits[sender] = self.user_deposits[sender] + value
         
         # Update totals
-        if outcome_index == 0:
-            self.total_yes_shares = self.total_yes_shares + num_shares
-        else:
-            self.total_no_shares = self.total_no_shares + num_shares
+        self.total_shares[outcome_index] = self.total_shares[outcome_index] + num_shares
         
         return True
 
@@ -117,16 +225,15 @@ class PredictionMarket:
         if sender not in self.user_shares:
             raise Exception("No shares to sell")
         
+        if outcome_index < 0 or outcome_index >= len(OUTCOMES):
+            raise Exception("Invalid outcome index")
+        
         current_shares = self.user_shares[sender][outcome_index]
         if current_shares < num_shares:
             raise Exception("Insufficient shares")
         
         self.user_shares[sender][outcome_index] = current_shares - num_shares
-        
-        if outcome_index == 0:
-            self.total_yes_shares = self.total_yes_shares - num_shares
-        else:
-            self.total_no_shares = self.total_no_shares - num_shares
+        self.total_shares[outcome_index] = self.total_shares[outcome_index] - num_shares
         
         return True
 
@@ -134,18 +241,21 @@ class PredictionMarket:
     def resolve(self) -> int:
         """
         Resolve the market using GenLayer's Equivalence Principle.
-        Validators will fetch data from the resolution source and use AI to determine the outcome.
+        Validators fetch every resolution source, use AI to reach a verdict on each and combine
+        them by weighted majority (see combine_verdicts), recording why and the passage of the
+        source the outcome rests on.
         """
         if self.is_resolved:
             raise Exception("Market is already resolved")
         
-        # Use Equivalence Principle for consensus
-        def determine_outcome() -> int:
-            # Fetch data from the resolution source
+        outcome_lines = "\\n".join(f"{i}: {name}" for i, name in enumerate(OUTCOMES))
+        
+        def judge_source(url: str):
+            # A source that can't be fetched or doesn't settle the question abstains
             try:
-                web_data = gl.get_webpage("${resolutionSource}", mode="text")
+                web_data = gl.get_webpage(url, mode="text")
             except:
-                web_data = "Unable to fetch data from source"
+                return None
             
             # Create prompt for LLM to analyze
             prompt = f"""Based on the following information, determine the outcome of this prediction market.
@@ -154,12 +264,14 @@ Question: ${question}
 
 Resolution Criteria: ${description}
 
-Data from resolution source (${resolutionSource}):
+Data from resolution source ({url}):
 {web_data}
 
-Analyze the data and determine if the answer to the question is YES or NO.
-Respond with a JSON object: {{"outcome": 0}} for YES or {{"outcome": 1}} for NO.
+${answerInstructions}
 If the outcome cannot be determined yet, respond with {{"outcome": -1}}.
+If the question is ambiguous or can never be resolved as asked, respond with {{"outcome": -2}}.
+Also include "reasoning", one or two sentences explaining the outcome, and "evidence_quote",
+the passage of the data the outcome rests on, copied word for word.
 
 IMPORTANT: Only respond with the JSON object, nothing else."""
 
@@ -167,17 +279,44 @@ IMPORTANT: Only respond with the JSON object, nothing else."""
             
             try:
                 parsed = json.loads(result)
-                return parsed.get("outcome", -1)
+                outcome = int(parsed.get("outcome", -1))
             except:
-                return -1
+                return None
+            if not (0 <= outcome < len(OUTCOMES) or outcome == INVALID):
+                return None
+            return {
+                "url": url,
+                "outcome": outcome,
+                "reasoning": str(parsed.get("reasoning", ""))[:MAX_REASONING_LENGTH],
+                "evidence_quote": str(parsed.get("evidence_quote", ""))[:MAX_QUOTE_LENGTH]
+            }
+        
+        # Use Equivalence Principle for consensus
+        def determine_outcome() -> str:
+            verdicts = []
+            for source in SOURCES:
+                verdict = judge_source(source["url"])
+                if verdict is not None:
+                    verdict["weight"] = source["weight"]
+                    verdicts.append(verdict)
+            return json.dumps(combine_verdicts(verdicts))
         
-        # Use strict equivalence - all validators must agree
-        outcome = gl.eq_principle_strict_eq(determine_outcome)
+        # Validators must reach the leader's outcome; its justification only has to hold up
+        resolution = json.loads(gl.eq_principle_prompt_comparative(
+            determine_outcome,
+            "${RESOLUTION_PRINCIPLE("outcome")}"
+        ))
+        outcome = resolution["outcome"]
         
         if outcome == -1:
             raise Exception("Cannot determine outcome yet")
         
         self.winner = outcome
+        self.reasoning = resolution["reasoning"]
+        self.evidence_url = resolution["evidence_url"]
+        self.evidence_quote = resolution["evidence_quote"]
+        # GenVM's clock is the transaction's timestamp, so every validator stores the same time
+        self.resolved_at = datetime.datetime.now(datetime.timezone.utc).isoformat()
         self.is_resolved = True
         
         return outcome
@@ -185,7 +324,7 @@ IMPORTANT: Only respond with the JSON object, nothing else."""
     @gl.public.write
     def claim_winnings(self) -> int:
         """
-        Claim winnings after the market is resolved.
+        Claim winnings after the market is resolved, or the deposit refund if it resolved INVALID.
         Returns the amount claimed.
         """
         if not self.is_resolved:
@@ -196,13 +335,26 @@ IMPORTANT: Only respond with the JSON object, nothing else."""
         if sender not in self.user_shares:
             raise Exception("No position in this market")
         
+        if self.winner == INVALID:
+            # Deposits make up the whole pool, so refunding them is pro-rata across all outcomes
+            refund = self.user_deposits[sender] if sender in self.user_deposits else 0
+            if refund <= 0:
+                raise Exception("Nothing to refund")
+            self.user_deposits[sender] = 0
+            for i in range(len(OUTCOMES)):
+                self.user_shares[sender][i] = 0
+            gl.transfer(sender, refund)
+            return refund
+        
         winning_shares = self.user_shares[sender][self.winner]
         
         if winning_shares <= 0:
             raise Exception("No winning shares to claim")
         
         # Calculate payout - winners split the total pool
-        total_shares = self.total_yes_shares + self.total_no_shares
+        total_shares = 0
+        for i in range(len(OUTCOMES)):
+            total_shares = total_shares + self.total_shares[i]
         if total_shares == 0:
             raise Exception("No shares in market")
         
@@ -212,15 +364,15 @@ IMPORTANT: Only respond with the JSON object, nothing else."""
             total_pool = total_pool + self.user_deposits[user]
         
         # Payout proportional to winning shares
-        winning_total = self.total_yes_shares if self.winner == 0 else self.total_no_shares
+        winning_total = self.total_shares[self.winner]
         if winning_total == 0:
             raise Exception("No winning shares exist")
         
         payout = (winning_shares * total_pool) // winning_total
         
         # Clear user's shares to prevent double claiming
-        self.user_shares[sender][0] = 0
-        self.user_shares[sender][1] = 0
+        for i in range(len(OUTCOMES)):
+            self.user_shares[sender][i] = 0
         
         # Transfer winnings
         gl.transfer(sender, payout)
@@ -229,10 +381,10 @@ IMPORTANT: Only respond with the JSON object, nothing else."""
 
     @gl.public.view
     def get_total_shares(self, outcome_index: int) -> int:
-        """Get total shares for an outcome (0 = YES, 1 = NO)."""
-        if outcome_index == 0:
-            return self.total_yes_shares
-        return self.total_no_shares
+        """Get total shares for an outcome (0 = YES, 1 = NO for binary)."""
+        if outcome_index < 0 or outcome_index >= len(OUTCOMES):
+            return 0
+        return self.total_shares[outcome_index]
 
     @gl.public.view
     def get_user_shares(self, user: str, outcome_index: int) -> int:
@@ -245,21 +397,343 @@ IMPORTANT: Only respond with the JSON object, nothing else."""
     def get_market_info(self) -> dict:
         """Get market information."""
         return {
+            "contract_version": CONTRACT_VERSION,
             "question": self.question,
             "description": self.description,
             "resolution_source": self.resolution_source,
             "end_date": self.end_date,
             "creator": self.creator,
             "is_resolved": self.is_resolved,
+            "is_invalid": self.winner == INVALID,
             "winner": self.winner,
-            "total_yes_shares": self.total_yes_shares,
-            "total_no_shares": self.total_no_shares
+            "outcomes": OUTCOMES,
+            "total_shares": [self.total_shares[i] for i in range(len(OUTCOMES))],
+            "total_yes_shares": self.total_shares[0],
+            "total_no_shares": self.total_shares[1]
         }
 
+    @gl.public.view
+    def contract_version(self) -> int:
+        """Get the resolver interface version this contract implements."""
+        return CONTRACT_VERSION
+
+    @gl.public.view
+    def get_sources(self) -> dict:
+        """Get the weighted resolution sources and the share of their weight needed to resolve."""
+        return {"sources": SOURCES, "quorum": QUORUM}
+
+    @gl.public.view
+    def get_outcomes(self) -> list:
+        """Get the outcome names in index order."""
+        return OUTCOMES
+
     @gl.public.view
     def get_winner(self) -> int:
-        """Get the winning outcome (-1 if not resolved)."""
+        """Get the winning outcome (-1 if not resolved, -2 if INVALID)."""
         return self.winner
+
+    @gl.public.view
+    def get_resolution(self) -> dict:
+        """Get the resolution with the validators' reasoning and evidence."""
+        return {
+            "is_resolved": self.is_resolved,
+            "winner": self.winner,
+            "reasoning": self.reasoning,
+            "evidence_url": self.evidence_url,
+            "evidence_quote": self.evidence_quote,
+            "resolved_at": self.resolved_at
+        }
+`;
+}
+
+/**
+ * Generates a Python Intelligent Contract for a scalar (range) market.
+ * Validators extract a number from the resolution source instead of picking an
+ * outcome; LONG shares pay out linearly on where it lands between the bounds.
+ */
+export function generateScalarMarketContract(params: ContractParams, range: ScalarRange): string {
+  const question = escapeString(params.question);
+  const description = escapeString(params.description);
+
+  return `# { "Depends": "py-genlayer:test" }
+from genlayer import *
+import datetime
+import json
+
+CONTRACT_VERSION = ${RESOLVER_INTERFACE_VERSION}  # Resolver interface version, see src/lib/resolverInterface.ts
+LOWER_BOUND = ${JSON.stringify(range.lowerBound)}
+UPPER_BOUND = ${JSON.stringify(range.upperBound)}
+VALUE_DECIMALS = ${SCALAR_VALUE_DECIMALS}
+BASIS_POINTS = 10000
+MAX_REASONING_LENGTH = ${MAX_REASONING_LENGTH}
+MAX_QUOTE_LENGTH = ${MAX_EVIDENCE_QUOTE_LENGTH}
+${sourceConstants(params)}
+
+def combine_values(readings: list) -> dict:
+    """
+    Weighted median of the sources' values. Undetermined ("") unless the sources that
+    reported one make up QUORUM of the weight.
+    """
+    responding = sum(r["weight"] for r in readings)
+    if responding == 0 or responding < QUORUM * sum(s["weight"] for s in SOURCES):
+        return {"value": "", "reasoning": "", "evidence_url": "", "evidence_quote": ""}
+    
+    running = 0
+    for median in sorted(readings, key=lambda r: float(r["value"])):
+        running = running + median["weight"]
+        if running * 2 >= responding:
+            break
+    
+    # Evidence comes from the source the median was taken from
+    return {
+        "value": median["value"],
+        "reasoning": median["reasoning"],
+        "evidence_url": median["url"],
+        "evidence_quote": median["evidence_quote"]
+    }
+
+@gl.contract
+class ScalarMarket:
+    """
+    A scalar (range) market contract for GenLayer.
+    Question: ${question}
+    """
+    
+    question: str
+    description: str
+    resolution_source: str
+    end_date: str
+    creator: str
+    is_resolved: bool
+    resolved_value: str  # Decimal string, "" until resolved
+    reasoning: str  # Validators' justification of the resolution
+    evidence_url: str  # Page the evidence was taken from
+    evidence_quote: str  # Passage of that page the resolution rests on
+    resolved_at: str  # ISO 8601 time of resolution, "" until resolved
+    long_payout_bps: int  # Share of a unit payout owed to LONG (SHORT gets the rest)
+    total_long_shares: int
+    total_short_shares: int
+    user_long_shares: TreeMap[str, int]
+    user_short_shares: TreeMap[str, int]
+    user_deposits: TreeMap[str, int]  # user -> total deposited wei
+
+    def __init__(self, question: str, end_date: str, resolution_source: str, description: str):
+        self.question = question
+        self.description = description
+        self.resolution_source = resolution_source
+        self.end_date = end_date
+        self.creator = gl.message.sender_account
+        self.is_resolved = False
+        self.resolved_value = ""
+        self.reasoning = ""
+        self.evidence_url = ""
+        self.evidence_quote = ""
+        self.resolved_at = ""
+        self.long_payout_bps = 0
+        self.total_long_shares = 0
+        self.total_short_shares = 0
+        self.user_long_shares = TreeMap[str, int]()
+        self.user_short_shares = TreeMap[str, int]()
+        self.user_deposits = TreeMap[str, int]()
+
+    @gl.public.write.payable
+    def buy_shares(self, is_long: bool, num_shares: int) -> bool:
+        """
+        Buy LONG or SHORT shares.
+        Sends value with the transaction to purchase shares.
+        """
+        if self.is_resolved:
+            raise Exception("Market is already resolved")
+        
+        if num_shares <= 0:
+            raise Exception("Must buy at least 1 share")
+        
+        sender = gl.message.sender_account
+        
+        if is_long:
+            if sender not in self.user_long_shares:
+                self.user_long_shares[sender] = 0
+            self.user_long_shares[sender] = self.user_long_shares[sender] + num_shares
+            self.total_long_shares = self.total_long_shares + num_shares
+        else:
+            if sender not in self.user_short_shares:
+                self.user_short_shares[sender] = 0
+            self.user_short_shares[sender] = self.user_short_shares[sender] + num_shares
+            self.total_short_shares = self.total_short_shares + num_shares
+        
+        # Track deposits
+        if sender not in self.user_deposits:
+            self.user_deposits[sender] = 0
+        self.user_deposits[sender] = self.user_deposits[sender] + gl.message.value
+        
+        return True
+
+    @gl.public.write
+    def resolve(self) -> str:
+        """
+        Resolve the market using GenLayer's Equivalence Principle.
+        Validators fetch every resolution source, use AI to extract the observed value from each
+        and take their weighted median (see combine_values), recording why and the passage of
+        the source the value rests on.
+        """
+        if self.is_resolved:
+            raise Exception("Market is already resolved")
+        
+        def read_source(url: str):
+            # A source that can't be fetched or doesn't report the value abstains
+            try:
+                web_data = gl.get_webpage(url, mode="text")
+            except:
+                return None
+            
+            prompt = f"""Based on the following information, determine the value that resolves this prediction market.
+
+Question: ${question}
+
+Resolution Criteria: ${description}
+
+Data from resolution source ({url}):
+{web_data}
+
+Extract the single number that answers the question. The market range is {LOWER_BOUND} to {UPPER_BOUND},
+but report the actual value even if it falls outside the range.
+Respond with a JSON object containing the number, e.g. {{"value": 1234.5}}.
+If the value cannot be determined yet, respond with {{"value": null}}.
+Also include "reasoning", one or two sentences explaining the value, and "evidence_quote",
+the passage of the data the value was taken from, copied word for word.
+
+IMPORTANT: Only respond with the JSON object, nothing else."""
+
+            result = gl.exec_prompt(prompt)
+            
+            try:
+                parsed = json.loads(result)
+                value = parsed.get("value")
+                if value is None:
+                    return None
+                return {
+                    "url": url,
+                    # Round so every validator reports the same string
+                    "value": f"{float(value):.{VALUE_DECIMALS}f}",
+                    "reasoning": str(parsed.get("reasoning", ""))[:MAX_REASONING_LENGTH],
+                    "evidence_quote": str(parsed.get("evidence_quote", ""))[:MAX_QUOTE_LENGTH]
+                }
+            except:
+                return None
+        
+        def determine_value() -> str:
+            readings = []
+            for source in SOURCES:
+                reading = read_source(source["url"])
+                if reading is not None:
+                    reading["weight"] = source["weight"]
+                    readings.append(reading)
+            return json.dumps(combine_values(readings))
+        
+        # Validators must reach the leader's value; its justification only has to hold up
+        resolution = json.loads(gl.eq_principle_prompt_comparative(
+            determine_value,
+            "${RESOLUTION_PRINCIPLE("value")}"
+        ))
+        value = resolution["value"]
+        
+        if value == "":
+            raise Exception("Cannot determine value yet")
+        
+        clamped = min(max(float(value), LOWER_BOUND), UPPER_BOUND)
+        self.long_payout_bps = int(round((clamped - LOWER_BOUND) * BASIS_POINTS / (UPPER_BOUND - LOWER_BOUND)))
+        self.resolved_value = value
+        self.reasoning = resolution["reasoning"]
+        self.evidence_url = resolution["evidence_url"]
+        self.evidence_quote = resolution["evidence_quote"]
+        # GenVM's clock is the transaction's timestamp, so every validator stores the same time
+        self.resolved_at = datetime.datetime.now(datetime.timezone.utc).isoformat()
+        self.is_resolved = True
+        
+        return value
+
+    @gl.public.write
+    def claim_winnings(self) -> int:
+        """
+        Claim the payout on LONG and SHORT shares after the market is resolved.
+        Returns the amount claimed.
+        """
+        if not self.is_resolved:
+            raise Exception("Market is not resolved yet")
+        
+        sender = gl.message.sender_account
+        long_shares = self.user_long_shares[sender] if sender in self.user_long_shares else 0
+        short_shares = self.user_short_shares[sender] if sender in self.user_short_shares else 0
+        
+        short_payout_bps = BASIS_POINTS - self.long_payout_bps
+        user_weight = long_shares * self.long_payout_bps + short_shares * short_payout_bps
+        if user_weight <= 0:
+            raise Exception("No winning shares to claim")
+        
+        total_weight = self.total_long_shares * self.long_payout_bps + self.total_short_shares * short_payout_bps
+        
+        # Calculate total pool from deposits
+        total_pool = 0
+        for user in self.user_deposits:
+            total_pool = total_pool + self.user_deposits[user]
+        
+        # Holders split the pool by the payout owed on their shares
+        payout = (user_weight * total_pool) // total_weight
+        
+        # Clear user's shares to prevent double claiming
+        self.user_long_shares[sender] = 0
+        self.user_short_shares[sender] = 0
+        
+        # Transfer winnings
+        gl.transfer(sender, payout)
+        
+        return payout
+
+    @gl.public.view
+    def get_market_info(self) -> dict:
+        """Get market information."""
+        return {
+            "contract_version": CONTRACT_VERSION,
+            "question": self.question,
+            "description": self.description,
+            "resolution_source": self.resolution_source,
+            "end_date": self.end_date,
+            "creator": self.creator,
+            "is_resolved": self.is_resolved,
+            "lower_bound": LOWER_BOUND,
+            "upper_bound": UPPER_BOUND,
+            "resolved_value": self.resolved_value,
+            "long_payout_bps": self.long_payout_bps,
+            "total_long_shares": self.total_long_shares,
+            "total_short_shares": self.total_short_shares
+        }
+
+    @gl.public.view
+    def contract_version(self) -> int:
+        """Get the resolver interface version this contract implements."""
+        return CONTRACT_VERSION
+
+    @gl.public.view
+    def get_sources(self) -> dict:
+        """Get the weighted resolution sources and the share of their weight needed to resolve."""
+        return {"sources": SOURCES, "quorum": QUORUM}
+
+    @gl.public.view
+    def get_resolved_value(self) -> str:
+        """Get the resolved value ("" if not resolved)."""
+        return self.resolved_value
+
+    @gl.public.view
+    def get_resolution(self) -> dict:
+        """Get the resolution with the validators' reasoning and evidence."""
+        return {
+            "is_resolved": self.is_resolved,
+            "resolved_value": self.resolved_value,
+            "reasoning": self.reasoning,
+            "evidence_url": self.evidence_url,
+            "evidence_quote": self.evidence_quote,
+            "resolved_at": self.resolved_at
+        }
 `;
 }
 
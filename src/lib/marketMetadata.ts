@@ -0,0 +1,51 @@
+/**
+ * On-chain market metadata
+ * The factory records each market's category, resolution source, GenLayer resolver and a
+ * content hash of its details, so the markets table can be rebuilt and checked from chain
+ */
+
+import { AbiCoder, ZeroAddress, keccak256 } from "ethers";
+
+export interface MarketMetadataFields {
+  question: string;
+  description: string;
+  category: string;
+  resolutionSource: string;
+  endTime: number; // Unix seconds, the market's on-chain end time
+  outcomes?: string[] | null; // Categorical outcome names, empty for YES/NO and scalar markets
+}
+
+// MarketMetadata as the factory's create functions take it
+export type OnChainMarketMetadata = [
+  category: string,
+  resolutionSource: string,
+  genLayerResolver: string,
+  contentHash: string,
+];
+
+export const MARKET_METADATA_TUPLE =
+  "(string category, string resolutionSource, address genLayerResolver, bytes32 contentHash)";
+
+/**
+ * Content hash committed with the market. Keep in sync with scripts/rebuild-markets.cjs,
+ * which checks database rows against it.
+ */
+export const hashMarketMetadata = (fields: MarketMetadataFields): string =>
+  keccak256(
+    AbiCoder.defaultAbiCoder().encode(
+      ["string", "string", "string", "string", "uint256", "string[]"],
+      [
+        fields.question,
+        fields.description,
+        fields.category,
+        fields.resolutionSource,
+        fields.endTime,
+        fields.outcomes ?? [],
+      ]
+    )
+  );
+
+export const toOnChainMetadata = (
+  fields: MarketMetadataFields,
+  genLayerResolver: string = ZeroAddress
+): OnChainMarketMetadata => [fields.category, fields.resolutionSource, genLayerResolver, hashMarketMetadata(fields)];
@@ -0,0 +1,236 @@
+/**
+ * GenLayer resolver client
+ * Detects which resolver interface version a GenLayer contract implements and reads
+ * it into the same shape whatever the version. Read resolvers through here rather
+ * than calling their views directly.
+ */
+
+import {
+  INVALID_WINNER,
+  LEGACY_RESOLVER_VERSION,
+  RESOLVER_INTERFACE_VERSION,
+  type LegacyMarketInfo,
+  type ResolutionEvidence,
+  type ResolutionSource,
+  type ResolverInterfaceVersion,
+  type ResolverMarketInfo,
+  type ResolverStatus,
+} from "@/lib/resolverInterface";
+
+// The part of a genlayer-js client used for reads
+export interface ResolverReader {
+  readContract: (args: { address: `0x${string}`; functionName: string; args: [] }) => Promise<unknown>;
+}
+
+// Contract versions never change, so each address is only probed once
+const versionCache = new Map<string, ResolverInterfaceVersion>();
+
+const read = (client: ResolverReader, address: string, functionName: string) =>
+  client.readContract({ address: address as `0x${string}`, functionName, args: [] });
+
+// genlayer-js decodes dicts as Maps
+const isDict = (value: unknown) =>
+  value instanceof Map || (value !== null && typeof value === "object" && !Array.isArray(value));
+
+const field = (info: unknown, key: string): unknown =>
+  info instanceof Map ? info.get(key) : (info as Record<string, unknown> | null)?.[key];
+
+const NO_EVIDENCE: ResolutionEvidence = { reasoning: "", evidenceUrl: "", evidenceQuote: "", resolvedAt: null };
+
+// Version 2 contracts record why they resolved; earlier ones don't
+const readEvidence = async (
+  client: ResolverReader,
+  address: string,
+  version: ResolverInterfaceVersion
+): Promise<ResolutionEvidence> => {
+  if (version < 2) return NO_EVIDENCE;
+  const resolution = await read(client, address, "get_resolution");
+  return {
+    reasoning: String(field(resolution, "reasoning") ?? ""),
+    evidenceUrl: String(field(resolution, "evidence_url") ?? ""),
+    evidenceQuote: String(field(resolution, "evidence_quote") ?? ""),
+    resolvedAt: String(field(resolution, "resolved_at") ?? "") || null,
+  };
+};
+
+// Newer than this client knows: read it as the latest version, which later ones extend
+const toVersion = (reported: number): ResolverInterfaceVersion =>
+  reported >= RESOLVER_INTERFACE_VERSION ? RESOLVER_INTERFACE_VERSION : (reported as ResolverInterfaceVersion);
+
+/**
+ * The contract's interface version: contract_version() when it has one, 1 for
+ * generated contracts from before it existed and 0 for legacy resolvers.
+ * Null when the address isn't a resolver. Only versions the contract's own views
+ * settle are cached, never a guess made while a read was failing.
+ */
+export const detectResolverVersion = async (
+  client: ResolverReader,
+  address: string
+): Promise<ResolverInterfaceVersion | null> => {
+  const key = address.toLowerCase();
+  const cached = versionCache.get(key);
+  if (cached !== undefined) return cached;
+
+  let version: ResolverInterfaceVersion;
+  try {
+    version = toVersion(Number(await read(client, address, "contract_version")));
+  } catch {
+    // Unversioned, or contract_version() failed to read. Generated contracts return a dict
+    // from get_market_info, which carries the version on every versioned one; legacy ones a tuple.
+    const info = await read(client, address, "get_market_info").catch(() => null);
+    if (isDict(info)) {
+      const reported = field(info, "contract_version");
+      version = reported === undefined ? 1 : toVersion(Number(reported));
+    } else if (Array.isArray(info)) {
+      version = LEGACY_RESOLVER_VERSION;
+    } else {
+      // get_market_info failed too, so this can't tell a legacy resolver from a failed read
+      const legacy = await read(client, address, "resolved").then(() => true, () => false);
+      return legacy ? LEGACY_RESOLVER_VERSION : null;
+    }
+  }
+
+  versionCache.set(key, version);
+  return version;
+};
+
+/**
+ * Whether the market is resolved and how, or null if it can't be read
+ */
+export const readResolverStatus = async (
+  client: ResolverReader,
+  address: string
+): Promise<ResolverStatus | null> => {
+  try {
+    const version = await detectResolverVersion(client, address);
+    if (version === null) return null;
+
+    if (version === LEGACY_RESOLVER_VERSION) {
+      const [resolved, outcome, reasoning] = await Promise.all([
+        read(client, address, "resolved"),
+        read(client, address, "outcome"),
+        read(client, address, "resolution_reasoning").catch(() => ""),
+      ]);
+      // Legacy resolvers report 1 = YES and 2 = NO
+      const legacyOutcome = Number(outcome);
+      return {
+        version,
+        resolved: Boolean(resolved),
+        invalid: false,
+        winner: Boolean(resolved) && (legacyOutcome === 1 || legacyOutcome === 2) ? legacyOutcome - 1 : null,
+        value: null,
+        ...NO_EVIDENCE,
+        reasoning: (reasoning as string) || "",
+      };
+    }
+
+    const [info, evidence] = await Promise.all([
+      read(client, address, "get_market_info"),
+      readEvidence(client, address, version),
+    ]);
+    const resolved = Boolean(field(info, "is_resolved"));
+    const resolvedValue = field(info, "resolved_value");
+    if (resolvedValue !== undefined) {
+      return {
+        version,
+        resolved,
+        invalid: false,
+        winner: null,
+        value: resolved ? String(resolvedValue) : null,
+        ...evidence,
+      };
+    }
+
+    const winner = Number(field(info, "winner"));
+    return {
+      version,
+      resolved,
+      invalid: resolved && winner === INVALID_WINNER,
+      winner: resolved && winner >= 0 ? winner : null,
+      value: null,
+      ...evidence,
+    };
+  } catch (error) {
+    console.error("Read resolver status error:", error);
+    return null;
+  }
+};
+
+// Version 3 contracts resolve from weighted sources; earlier ones from their resolution source alone
+const readSources = async (
+  client: ResolverReader,
+  address: string,
+  version: ResolverInterfaceVersion,
+  resolutionSource: string
+): Promise<{ sources: ResolutionSource[]; quorum: number }> => {
+  if (version < 3) return { sources: [{ url: resolutionSource, weight: 1 }], quorum: 1 };
+  const info = await read(client, address, "get_sources");
+  const sources = field(info, "sources");
+  return {
+    sources: Array.isArray(sources)
+      ? sources.map((source) => ({ url: String(field(source, "url") ?? ""), weight: Number(field(source, "weight") ?? 0) }))
+      : [],
+    quorum: Number(field(info, "quorum") ?? 0),
+  };
+};
+
+/**
+ * The market details the resolver was deployed with, or null if it can't be read
+ */
+export const readResolverMarketInfo = async (
+  client: ResolverReader,
+  address: string
+): Promise<ResolverMarketInfo | null> => {
+  try {
+    const version = await detectResolverVersion(client, address);
+    if (version === null) return null;
+
+    const info = await read(client, address, "get_market_info");
+    if (version === LEGACY_RESOLVER_VERSION) {
+      const [question, description, resolutionSource, endTime, creator] = info as LegacyMarketInfo;
+      return {
+        version,
+        question,
+        description,
+        resolutionSource,
+        endDate: String(endTime),
+        creator,
+        outcomes: ["Yes", "No"],
+        ...(await readSources(client, address, version, resolutionSource)),
+      };
+    }
+
+    const outcomes = field(info, "outcomes");
+    const resolutionSource = String(field(info, "resolution_source") ?? "");
+    return {
+      version,
+      question: String(field(info, "question") ?? ""),
+      description: String(field(info, "description") ?? ""),
+      resolutionSource,
+      endDate: String(field(info, "end_date") ?? ""),
+      creator: String(field(info, "creator") ?? ""),
+      outcomes: Array.isArray(outcomes) ? outcomes.map(String) : [],
+      ...(await readSources(client, address, version, resolutionSource)),
+    };
+  } catch (error) {
+    console.error("Read resolver market info error:", error);
+    return null;
+  }
+};
+
+/**
+ * What a resolved market resolved to: INVALID, the scalar value, YES/NO or the outcome name
+ */
+export const resolutionLabel = (status: ResolverStatus, outcomes?: string[]): string => {
+  if (status.invalid) return "INVALID";
+  if (status.value !== null) return status.value;
+  if (status.winner === null) return "UNRESOLVED";
+  if (outcomes && outcomes.length > 2) return outcomes[status.winner] ?? `Outcome ${status.winner}`;
+  return status.winner === 0 ? "YES" : "NO";
+};
+
+/**
+ * The evidence URL if it's safe to link to (http or https), otherwise null
+ */
+export const evidenceLink = (status: ResolutionEvidence): string | null =>
+  /^https?:\/\//i.test(status.evidenceUrl) ? status.evidenceUrl : null;
@@ -0,0 +1,167 @@
+/**
+ * GenLayer resolver interface
+ * The views a market's GenLayer intelligent contract exposes, by interface version.
+ * Generated contracts report their version through contract_version(); contracts
+ * without it are detected from the views they have (see resolverClient.ts).
+ */
+
+// Version generatePredictionMarketContract embeds. Bump it, and add the version to
+// RESOLVER_INTERFACE, whenever a generated view changes.
+export const RESOLVER_INTERFACE_VERSION = 3;
+
+// Studio `PredictionMarketResolver` contracts from before the generator
+export const LEGACY_RESOLVER_VERSION = 0;
+
+// get_winner() values of generated contracts that aren't an outcome index
+export const UNRESOLVED_WINNER = -1;
+export const INVALID_WINNER = -2;
+
+/**
+ * View name -> return type, per version. Clients must only read views listed for the
+ * contract's version.
+ *
+ * 0: resolved/outcome, with 1 = YES and 2 = NO (0 while unresolved), and a tuple
+ *    get_market_info. Binary markets only.
+ * 1: generated contracts. get_market_info returns a dict (MarketInfoV1 or
+ *    ScalarMarketInfoV1) and get_winner the outcome index, 0 = YES and 1 = NO for
+ *    binary markets. Contracts generated before contract_version() existed have the
+ *    same views.
+ * 2: adds get_resolution (ResolutionV2), the validators' reasoning and the evidence
+ *    the resolution rests on, with the time it resolved.
+ * 3: adds get_sources (SourcesV3). Resolves from several weighted sources, so the
+ *    evidence URL is whichever source the resolution was taken from.
+ */
+export const RESOLVER_INTERFACE = {
+  0: {
+    resolved: "bool",
+    outcome: "u8",
+    resolution_reasoning: "str",
+    get_market_info: "tuple(str question, str description, str resolution_source, u256 end_time, address creator, bool resolved, u8 outcome, str reasoning)",
+  },
+  1: {
+    contract_version: "int",
+    get_market_info: "MarketInfoV1 | ScalarMarketInfoV1",
+    get_winner: "int (outcome markets)",
+    get_outcomes: "list[str] (outcome markets)",
+    get_total_shares: "int (outcome markets)",
+    get_user_shares: "int (outcome markets)",
+    get_resolved_value: "str (scalar markets)",
+  },
+  2: {
+    contract_version: "int",
+    get_market_info: "MarketInfoV1 | ScalarMarketInfoV1",
+    get_resolution: "ResolutionV2",
+    get_winner: "int (outcome markets)",
+    get_outcomes: "list[str] (outcome markets)",
+    get_total_shares: "int (outcome markets)",
+    get_user_shares: "int (outcome markets)",
+    get_resolved_value: "str (scalar markets)",
+  },
+  3: {
+    contract_version: "int",
+    get_market_info: "MarketInfoV1 | ScalarMarketInfoV1",
+    get_resolution: "ResolutionV2",
+    get_sources: "SourcesV3",
+    get_winner: "int (outcome markets)",
+    get_outcomes: "list[str] (outcome markets)",
+    get_total_shares: "int (outcome markets)",
+    get_user_shares: "int (outcome markets)",
+    get_resolved_value: "str (scalar markets)",
+  },
+} as const;
+
+export type ResolverInterfaceVersion = keyof typeof RESOLVER_INTERFACE;
+
+// Tuple get_market_info of version 0
+export type LegacyMarketInfo = [string, string, string, bigint, string, boolean, number, string];
+
+// get_market_info of a version 1 YES/NO or categorical market
+export interface MarketInfoV1 {
+  contract_version?: number; // Missing on contracts generated before versioning
+  question: string;
+  description: string;
+  resolution_source: string;
+  end_date: string;
+  creator: string;
+  is_resolved: boolean;
+  is_invalid: boolean;
+  winner: number; // Outcome index, UNRESOLVED_WINNER or INVALID_WINNER
+  outcomes: string[];
+  total_shares: number[];
+  total_yes_shares: number;
+  total_no_shares: number;
+}
+
+// get_market_info of a version 1 scalar market
+export interface ScalarMarketInfoV1 {
+  contract_version?: number;
+  question: string;
+  description: string;
+  resolution_source: string;
+  end_date: string;
+  creator: string;
+  is_resolved: boolean;
+  lower_bound: number;
+  upper_bound: number;
+  resolved_value: string; // Decimal string, "" until resolved
+  long_payout_bps: number;
+  total_long_shares: number;
+  total_short_shares: number;
+}
+
+// get_resolution of a version 2 market; the text fields are "" until resolved
+export interface ResolutionV2 {
+  is_resolved: boolean;
+  winner?: number; // Outcome markets
+  resolved_value?: string; // Scalar markets
+  reasoning: string;
+  evidence_url: string;
+  evidence_quote: string;
+  resolved_at: string; // ISO 8601
+}
+
+// A page validators consult, weighted by how much its verdict counts
+export interface ResolutionSource {
+  url: string;
+  weight: number;
+}
+
+// get_sources of a version 3 market
+export interface SourcesV3 {
+  sources: ResolutionSource[];
+  quorum: number; // Share of the total weight whose sources must reach a verdict
+}
+
+/**
+ * Why a market resolved the way it did. Version 1 contracts record none of it and
+ * version 0 only the reasoning.
+ */
+export interface ResolutionEvidence {
+  reasoning: string;
+  evidenceUrl: string;
+  evidenceQuote: string;
+  resolvedAt: string | null; // ISO 8601
+}
+
+/**
+ * A resolver's state, the same for every version
+ */
+export interface ResolverStatus extends ResolutionEvidence {
+  version: ResolverInterfaceVersion;
+  resolved: boolean;
+  invalid: boolean; // Resolved INVALID, every trader is refunded
+  winner: number | null; // Outcome index (0 = YES, 1 = NO for binary), null if unresolved, invalid or scalar
+  value: string | null; // Resolved value of a scalar market
+}
+
+export interface ResolverMarketInfo {
+  version: ResolverInterfaceVersion;
+  question: string;
+  description: string;
+  resolutionSource: string;
+  endDate: string; // As the contract stores it (unix seconds for version 0)
+  creator: string;
+  outcomes: string[];
+  sources: ResolutionSource[]; // Just resolutionSource before version 3
+  quorum: number;
+}
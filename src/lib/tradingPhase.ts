@@ -0,0 +1,33 @@
+/**
+ * Trading phase of a market
+ * Trading stops at trading_closes_at (the on-chain tradingEndTime), which comes before
+ * end_date when the creator set a trading cutoff or closed the market early. From then
+ * until resolution the market is closed but not yet resolved.
+ */
+
+export type TradingPhase = "open" | "closed" | "resolved";
+
+const RESOLVED_STATUSES = ["resolved", "resolved_yes", "resolved_no", "invalid"];
+
+export const TRADING_PHASE_LABELS: Record<TradingPhase, string> = {
+  open: "Trading open",
+  closed: "Trading closed, awaiting resolution",
+  resolved: "Resolved",
+};
+
+// Trading cutoffs offered at creation, in seconds before the end date
+export const TRADING_CUTOFF_OPTIONS = [
+  { label: "At the end date", seconds: 0 },
+  { label: "1 hour before", seconds: 60 * 60 },
+  { label: "1 day before", seconds: 24 * 60 * 60 },
+];
+
+export const getTradingPhase = (
+  resolutionStatus: string | undefined,
+  endDate: string,
+  tradingClosesAt?: string | null,
+  now: number = Date.now()
+): TradingPhase => {
+  if (resolutionStatus && RESOLVED_STATUSES.includes(resolutionStatus)) return "resolved";
+  return now >= new Date(tradingClosesAt ?? endDate).getTime() ? "closed" : "open";
+};
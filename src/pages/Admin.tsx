@@ -0,0 +1,289 @@
+import { useState } from "react";
+import { Header } from "@/components/Header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useWalletAuth, formatAddress } from "@/contexts/WalletAuthContext";
+import {
+  useFactoryAdmin,
+  useMarketAdminState,
+  useAdminAction,
+  FACTORY_ROLES,
+  FactoryRole,
+  INVALID_OUTCOME,
+} from "@/hooks/useFactoryAdmin";
+import { Shield, Pause, Play, Clock, Loader2, X, AlertTriangle } from "lucide-react";
+
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+const formatDelay = (seconds: number) =>
+  seconds >= 86400 ? `${+(seconds / 86400).toFixed(1)} days` : `${+(seconds / 3600).toFixed(1)} hours`;
+
+const outcomeName = (outcome: bigint) =>
+  outcome === INVALID_OUTCOME ? "Void (refund everyone)" : outcome === 0n ? "Outcome 0 (YES)" : outcome === 1n ? "Outcome 1 (NO)" : `Outcome ${outcome}`;
+
+/**
+ * Factory administration: who holds each role, factory and market pausing, and
+ * the timelocked emergency resolution flow. Actions are enabled for role holders only.
+ */
+const Admin = () => {
+  const { isConnected } = useWalletAuth();
+  const { data, isLoading, hasRole, factoryAddress } = useFactoryAdmin();
+  const adminAction = useAdminAction();
+
+  const [grantRole, setGrantRole] = useState<FactoryRole>("RESOLVER_ROLE");
+  const [grantAccount, setGrantAccount] = useState("");
+  const [market, setMarket] = useState("");
+  const [outcome, setOutcome] = useState("0");
+  const { data: marketState, isLoading: marketLoading } = useMarketAdminState(market.trim());
+
+  const isAdmin = hasRole("ADMIN_ROLE");
+  const isResolver = hasRole("RESOLVER_ROLE");
+  const isPauser = hasRole("PAUSER_ROLE");
+  const marketAddress = market.trim();
+  const now = Math.floor(Date.now() / 1000);
+
+  const handleGrant = async () => {
+    await adminAction.mutateAsync({ type: "grantRole", role: grantRole, account: grantAccount.trim() });
+    setGrantAccount("");
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <main className="container mx-auto px-4 py-8">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="flex items-center justify-between">
+            <h1 className="text-3xl font-bold">Factory Admin</h1>
+            <Badge variant="outline" className="text-sm font-mono">
+              {formatAddress(factoryAddress)}
+            </Badge>
+          </div>
+
+          {!isConnected && (
+            <p className="text-muted-foreground">Connect a wallet holding a factory role to make changes.</p>
+          )}
+
+          {/* Roles */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5" />
+                Roles
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {isLoading || !data ? (
+                <div className="flex justify-center py-4">
+                  <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                (Object.keys(FACTORY_ROLES) as FactoryRole[]).map((role) => (
+                  <div key={role} className="space-y-2">
+                    <div>
+                      <p className="font-mono text-sm font-semibold">{role}</p>
+                      <p className="text-xs text-muted-foreground">{FACTORY_ROLES[role]}</p>
+                    </div>
+                    {data.members[role].length === 0 ? (
+                      <p className="text-xs text-muted-foreground">No holders</p>
+                    ) : (
+                      data.members[role].map((member) => (
+                        <div key={member} className="flex items-center justify-between gap-2 bg-muted px-3 py-2 rounded-md">
+                          <code className="font-mono text-xs truncate">{member}</code>
+                          {isAdmin && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              className="h-6 px-2"
+                              disabled={adminAction.isPending}
+                              onClick={() => adminAction.mutate({ type: "revokeRole", role, account: member })}
+                            >
+                              <X className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                ))
+              )}
+
+              {isAdmin && (
+                <div className="flex flex-col sm:flex-row gap-2 border-t border-border pt-4">
+                  <Select value={grantRole} onValueChange={(value) => setGrantRole(value as FactoryRole)}>
+                    <SelectTrigger className="sm:w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(FACTORY_ROLES) as FactoryRole[]).map((role) => (
+                        <SelectItem key={role} value={role}>
+                          {role}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input placeholder="0x..." value={grantAccount} onChange={(e) => setGrantAccount(e.target.value)} />
+                  <Button
+                    onClick={handleGrant}
+                    disabled={!ADDRESS_PATTERN.test(grantAccount.trim()) || adminAction.isPending}
+                  >
+                    Grant
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Factory pause */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Pause className="h-5 w-5" />
+                Trading Pause
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="flex items-center justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium">
+                  Factory is {data?.paused ? "paused" : "live"}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Pausing the factory halts trading on every market and blocks new markets. Claims keep working.
+                </p>
+              </div>
+              <Button
+                variant={data?.paused ? "default" : "destructive"}
+                className="gap-1.5"
+                disabled={!isPauser || !data || adminAction.isPending}
+                onClick={() => adminAction.mutate({ type: "setPaused", paused: !data?.paused })}
+              >
+                {data?.paused ? <Play className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                {data?.paused ? "Unpause" : "Pause all"}
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Market tools */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5" />
+                Market Controls
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="admin-market">Market address</Label>
+                <Input id="admin-market" placeholder="0x..." value={market} onChange={(e) => setMarket(e.target.value)} />
+              </div>
+
+              {marketLoading && ADDRESS_PATTERN.test(marketAddress) && (
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              )}
+
+              {marketState && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm">
+                      Trading is {marketState.paused ? "paused" : "live"} on this market
+                      {marketState.isResolved && <span className="text-muted-foreground"> (resolved)</span>}
+                    </p>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={!isPauser || adminAction.isPending}
+                      onClick={() =>
+                        adminAction.mutate({ type: "setMarketPaused", market: marketAddress, paused: !marketState.paused })
+                      }
+                    >
+                      {marketState.paused ? "Unpause market" : "Pause market"}
+                    </Button>
+                  </div>
+
+                  <div className="space-y-3 border-t border-border pt-4">
+                    <div>
+                      <p className="text-sm font-medium flex items-center gap-1.5">
+                        <Clock className="h-4 w-4" />
+                        Emergency resolution
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Executable {formatDelay(data?.emergencyDelay ?? 0)} after scheduling and only once the market has ended.
+                        Admins can cancel it in the meantime.
+                      </p>
+                    </div>
+
+                    {marketState.scheduledOutcome !== null ? (
+                      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 bg-muted px-3 py-2 rounded-md">
+                        <div className="text-sm">
+                          <p>{outcomeName(marketState.scheduledOutcome)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            Executable {new Date(marketState.executableAt * 1000).toLocaleString()}
+                          </p>
+                        </div>
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            disabled={
+                              !isResolver ||
+                              now < marketState.executableAt ||
+                              now < marketState.endTime ||
+                              adminAction.isPending
+                            }
+                            onClick={() => adminAction.mutate({ type: "executeEmergencyResolution", market: marketAddress })}
+                          >
+                            Execute
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={!isAdmin || adminAction.isPending}
+                            onClick={() => adminAction.mutate({ type: "cancelEmergencyResolution", market: marketAddress })}
+                          >
+                            Cancel
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      !marketState.isResolved && (
+                        <div className="flex flex-col sm:flex-row gap-2">
+                          <Select value={outcome} onValueChange={setOutcome}>
+                            <SelectTrigger className="sm:w-56">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="0">{outcomeName(0n)}</SelectItem>
+                              <SelectItem value="1">{outcomeName(1n)}</SelectItem>
+                              <SelectItem value={INVALID_OUTCOME.toString()}>{outcomeName(INVALID_OUTCOME)}</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="destructive"
+                            disabled={!isResolver || adminAction.isPending}
+                            onClick={() =>
+                              adminAction.mutate({
+                                type: "scheduleEmergencyResolution",
+                                market: marketAddress,
+                                outcome: BigInt(outcome),
+                              })
+                            }
+                          >
+                            Schedule
+                          </Button>
+                        </div>
+                      )
+                    )}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Admin;
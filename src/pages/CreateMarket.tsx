@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import { z } from "zod";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { Header } from "@/components/Header";
 import { Button } from "@/components/ui/button";
@@ -28,10 +28,14 @@ import {
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
 import { useContractDeployment } from "@/hooks/useContractDeployment";
 import { useHybridDeployment } from "@/hooks/useHybridDeployment";
+import { DEFAULT_LIQUIDITY_ETH } from "@/hooks/useMarketFactory";
+import { USDC_COLLATERAL } from "@/hooks/useBaseTrading";
+import { MAX_OUTCOMES, MAX_SOURCES, MAX_SOURCE_WEIGHT } from "@/lib/contractGenerator";
+import { TRADING_CUTOFF_OPTIONS } from "@/lib/tradingPhase";
 import { DeploymentStatus } from "@/components/DeploymentStatus";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { ArrowLeft, Loader2, Zap, Calendar, Info, Wallet, Rocket, Sparkles, CheckCircle2, XCircle } from "lucide-react";
+import { ArrowLeft, Loader2, Zap, Calendar, Info, Wallet, Rocket, Sparkles, CheckCircle2, XCircle, Plus, Trash2 } from "lucide-react";
 import { WalletModal } from "@/components/WalletModal";
 
 const categories = [
@@ -69,15 +73,88 @@ const marketSchema = z.object({
       const now = new Date();
       return date > now;
     }, "End date must be in the future"),
-  resolutionSource: z
-    .string()
-    .trim()
-    .min(10, "Resolution source must be at least 10 characters")
-    .max(500, "Resolution source must be less than 500 characters"),
+  sources: z
+    .array(
+      z.object({
+        url: z
+          .string()
+          .trim()
+          .min(10, "Resolution source must be at least 10 characters")
+          .max(500, "Resolution source must be less than 500 characters"),
+        weight: z
+          .number({ invalid_type_error: "Enter a weight" })
+          .int("Weights are whole numbers")
+          .min(1, "Weight must be at least 1")
+          .max(MAX_SOURCE_WEIGHT, `Weight must be at most ${MAX_SOURCE_WEIGHT}`),
+      })
+    )
+    .min(1, "Add a resolution source")
+    .max(MAX_SOURCES, `At most ${MAX_SOURCES} resolution sources`)
+    .refine(
+      (sources) => new Set(sources.map((s) => s.url.trim().toLowerCase())).size === sources.length,
+      "Resolution sources must be unique"
+    ),
   initialProbability: z
     .number()
     .min(1, "Probability must be at least 1%")
     .max(99, "Probability must be at most 99%"),
+  liquidity: z
+    .number()
+    .min(0.001, "Liquidity must be at least 0.001")
+    .max(100000, "Liquidity must be at most 100,000"),
+  collateral: z.enum(["ETH", "USDC"]),
+  tradingCutoff: z.number().min(0),
+  maxPerAddress: z.number().min(0, "Limit can't be negative"),
+  maxPool: z.number().min(0, "Limit can't be negative"),
+  marketType: z.enum(["binary", "categorical", "scalar"]),
+  outcomes: z.array(
+    z.object({
+      name: z.string().trim().max(60, "Outcome names must be less than 60 characters"),
+    })
+  ),
+  lowerBound: z.number({ invalid_type_error: "Enter a number" }),
+  upperBound: z.number({ invalid_type_error: "Enter a number" }),
+}).superRefine((data, ctx) => {
+  if (new Date(data.endDate).getTime() - data.tradingCutoff * 1000 <= Date.now()) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["tradingCutoff"],
+      message: "Trading would close before the market opens",
+    });
+  }
+  if (data.collateral === "ETH" && data.liquidity > 100) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["liquidity"],
+      message: "Liquidity must be at most 100 ETH",
+    });
+  }
+  if (data.marketType === "scalar") {
+    if (data.upperBound <= data.lowerBound) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["upperBound"],
+        message: "Upper bound must be greater than the lower bound",
+      });
+    }
+    return;
+  }
+  if (data.marketType !== "categorical") return;
+
+  const names = data.outcomes.map((o) => o.name.trim()).filter(Boolean);
+  if (names.length < 3 || names.length > MAX_OUTCOMES) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["outcomes"],
+      message: `Categorical markets need 3 to ${MAX_OUTCOMES} outcomes`,
+    });
+  } else if (new Set(names.map((n) => n.toLowerCase())).size !== names.length) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["outcomes"],
+      message: "Outcome names must be unique",
+    });
+  }
 });
 
 type MarketFormData = z.infer<typeof marketSchema>;
@@ -101,11 +178,32 @@ const CreateMarket = () => {
       description: "",
       category: undefined,
       endDate: "",
-      resolutionSource: "",
+      sources: [{ url: "", weight: 1 }],
       initialProbability: 50,
+      liquidity: DEFAULT_LIQUIDITY_ETH,
+      collateral: "ETH",
+      tradingCutoff: 0,
+      maxPerAddress: 0,
+      maxPool: 0,
+      marketType: "binary",
+      outcomes: [{ name: "" }, { name: "" }, { name: "" }],
+      lowerBound: 0,
+      upperBound: 100,
     },
   });
 
+  const { fields: outcomeFields, append: appendOutcome, remove: removeOutcome } = useFieldArray({
+    control: form.control,
+    name: "outcomes",
+  });
+  const { fields: sourceFields, append: appendSource, remove: removeSource } = useFieldArray({
+    control: form.control,
+    name: "sources",
+  });
+  const marketType = form.watch("marketType");
+  // Scalar markets only settle in ETH
+  const collateralSymbol = marketType === "scalar" ? "ETH" : form.watch("collateral");
+
   const onSubmit = async (data: MarketFormData) => {
     if (!isConnected || !address) {
       setWalletModalOpen(true);
@@ -116,6 +214,17 @@ const CreateMarket = () => {
     resetStatus();
     resetSteps();
 
+    const outcomes = data.marketType === "categorical"
+      ? data.outcomes.map((o) => o.name.trim()).filter(Boolean)
+      : undefined;
+    const scalar = data.marketType === "scalar"
+      ? { lowerBound: data.lowerBound, upperBound: data.upperBound }
+      : undefined;
+    const collateral = !scalar && data.collateral === "USDC" ? USDC_COLLATERAL : undefined;
+    // The first source is the market's resolution source everywhere a single one is recorded
+    const sources = data.sources.map(({ url, weight }) => ({ url, weight }));
+    const resolutionSource = sources[0].url;
+
     try {
       let intelligentContractAddress: string | null = null;
       let baseContractAddress: string | null = null;
@@ -127,7 +236,14 @@ const CreateMarket = () => {
           description: data.description,
           category: data.category,
           endDate: new Date(data.endDate),
-          resolutionSource: data.resolutionSource,
+          resolutionSource,
+          sources,
+          liquidity: data.liquidity,
+          outcomes,
+          scalar,
+          collateral,
+          tradingCutoff: data.tradingCutoff,
+          limits: { maxPerAddress: data.maxPerAddress, maxPool: data.maxPool },
           deployBase: deployToBaseSepolia,
           deployGenLayer: deployOnChain,
         });
@@ -148,8 +264,21 @@ const CreateMarket = () => {
         description: data.description,
         category: data.category,
         end_date: new Date(data.endDate).toISOString(),
-        resolution_source: data.resolutionSource,
-        probability: data.initialProbability,
+        trading_closes_at: deployToBaseSepolia
+          ? new Date(new Date(data.endDate).getTime() - data.tradingCutoff * 1000).toISOString()
+          : null,
+        resolution_source: resolutionSource,
+        // Categorical markets start with a uniform price; the leading outcome is shown on-chain
+        probability: outcomes ? Math.round(100 / outcomes.length) : data.initialProbability,
+        market_type: data.marketType,
+        outcomes: outcomes ?? null,
+        scalar_lower: scalar?.lowerBound ?? null,
+        scalar_upper: scalar?.upperBound ?? null,
+        ...(deployToBaseSepolia && collateral && {
+          collateral_address: collateral.address,
+          collateral_symbol: collateral.symbol,
+          collateral_decimals: collateral.decimals,
+        }),
         created_by: address,
         deployer_wallet: (deployOnChain || deployToBaseSepolia) ? address : null,
         verified: deployOnChain || deployToBaseSepolia,
@@ -265,13 +394,146 @@ const CreateMarket = () => {
                         />
                       </FormControl>
                       <FormDescription>
-                        A clear yes/no question that can be objectively resolved.
+                        {marketType === "categorical"
+                          ? "A clear question with one winning answer from the outcomes below."
+                          : marketType === "scalar"
+                            ? "A question with a numeric answer, e.g. \"What will BTC close at on Dec 31?\""
+                            : "A clear yes/no question that can be objectively resolved."}
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
                 />
 
+                {/* Market Type */}
+                <FormField
+                  control={form.control}
+                  name="marketType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Market Type</FormLabel>
+                      <Select
+                        onValueChange={field.onChange}
+                        defaultValue={field.value}
+                        disabled={isProcessing}
+                      >
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="binary">Yes / No</SelectItem>
+                          <SelectItem value="categorical">Multiple outcomes</SelectItem>
+                          <SelectItem value="scalar">Numeric range</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {/* Outcomes */}
+                {marketType === "categorical" && (
+                  <FormField
+                    control={form.control}
+                    name="outcomes"
+                    render={() => (
+                      <FormItem>
+                        <FormLabel>Outcomes</FormLabel>
+                        <div className="space-y-2">
+                          {outcomeFields.map((outcome, index) => (
+                            <div key={outcome.id} className="flex items-center gap-2">
+                              <span className="w-6 text-xs text-muted-foreground font-mono">{index}</span>
+                              <Input
+                                placeholder={`Outcome ${index + 1}`}
+                                disabled={isProcessing}
+                                {...form.register(`outcomes.${index}.name` as const)}
+                              />
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                disabled={isProcessing || outcomeFields.length <= 3}
+                                onClick={() => removeOutcome(index)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
+                          ))}
+                        </div>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          className="gap-1.5"
+                          disabled={isProcessing || outcomeFields.length >= MAX_OUTCOMES}
+                          onClick={() => appendOutcome({ name: "" })}
+                        >
+                          <Plus className="h-4 w-4" />
+                          Add outcome
+                        </Button>
+                        <FormDescription>
+                          Between 3 and {MAX_OUTCOMES} mutually exclusive answers. Exactly one will win.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {/* Scalar Bounds */}
+                {marketType === "scalar" && (
+                  <div className="space-y-2">
+                    <div className="grid grid-cols-2 gap-4">
+                      <FormField
+                        control={form.control}
+                        name="lowerBound"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Lower Bound</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="any"
+                                disabled={isProcessing}
+                                {...field}
+                                value={Number.isNaN(field.value) ? "" : field.value}
+                                onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="upperBound"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Upper Bound</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="any"
+                                disabled={isProcessing}
+                                {...field}
+                                value={Number.isNaN(field.value) ? "" : field.value}
+                                onChange={(e) => field.onChange(e.target.valueAsNumber)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      LONG pays in full at or above the upper bound, SHORT at or below the lower bound,
+                      and both pay proportionally in between.
+                    </p>
+                  </div>
+                )}
+
                 {/* Description */}
                 <FormField
                   control={form.control}
@@ -349,22 +611,73 @@ const CreateMarket = () => {
                   />
                 </div>
 
-                {/* Resolution Source */}
+                {/* Resolution Sources */}
                 <FormField
                   control={form.control}
-                  name="resolutionSource"
-                  render={({ field }) => (
+                  name="sources"
+                  render={() => (
                     <FormItem>
-                      <FormLabel>Data Source for Resolution</FormLabel>
-                      <FormControl>
-                        <Input
-                          placeholder="e.g., https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd"
-                          disabled={isProcessing}
-                          {...field}
-                        />
-                      </FormControl>
+                      <FormLabel>Data Sources for Resolution</FormLabel>
+                      <div className="space-y-2">
+                        {sourceFields.map((source, index) => {
+                          const sourceError = form.formState.errors.sources?.[index];
+                          return (
+                            <div key={source.id} className="space-y-1">
+                              <div className="flex items-center gap-2">
+                                <Input
+                                  placeholder={
+                                    index === 0
+                                      ? "e.g., https://api.coingecko.com/api/v3/simple/price?ids=bitcoin&vs_currencies=usd"
+                                      : "Another source that settles the question"
+                                  }
+                                  disabled={isProcessing}
+                                  {...form.register(`sources.${index}.url` as const)}
+                                />
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  max={MAX_SOURCE_WEIGHT}
+                                  step={1}
+                                  className="w-20"
+                                  aria-label="Weight"
+                                  title="Weight"
+                                  disabled={isProcessing}
+                                  {...form.register(`sources.${index}.weight` as const, { valueAsNumber: true })}
+                                />
+                                <Button
+                                  type="button"
+                                  variant="ghost"
+                                  size="icon"
+                                  disabled={isProcessing || sourceFields.length <= 1}
+                                  onClick={() => removeSource(index)}
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </Button>
+                              </div>
+                              {(sourceError?.url || sourceError?.weight) && (
+                                <p className="text-sm font-medium text-destructive">
+                                  {sourceError.url?.message ?? sourceError.weight?.message}
+                                </p>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="gap-1.5"
+                        disabled={isProcessing || sourceFields.length >= MAX_SOURCES}
+                        onClick={() => appendSource({ url: "", weight: 1 })}
+                      >
+                        <Plus className="h-4 w-4" />
+                        Add source
+                      </Button>
                       <FormDescription>
-                        URL or API that the AI will query to verify the outcome.
+                        URLs or APIs the AI will query to verify the outcome, with a weight each. Validators
+                        judge every source and go with the weighted majority, once at least half the weight has a
+                        verdict. The first source is shown on the market page.
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -372,41 +685,43 @@ const CreateMarket = () => {
                 />
 
                 {/* Initial Probability */}
-                <FormField
-                  control={form.control}
-                  name="initialProbability"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Initial Probability (%)</FormLabel>
-                      <FormControl>
-                        <div className="flex items-center gap-4">
-                          <Input
-                            type="number"
-                            min={1}
-                            max={99}
-                            className="w-24"
-                            disabled={isProcessing}
-                            {...field}
-                            onChange={(e) => field.onChange(parseInt(e.target.value) || 50)}
-                          />
-                          <div className="flex-1 h-2 bg-secondary rounded-full overflow-hidden">
-                            <div
-                              className="h-full bg-yes transition-all"
-                              style={{ width: `${field.value}%` }}
+                {marketType === "binary" && (
+                  <FormField
+                    control={form.control}
+                    name="initialProbability"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Initial Probability (%)</FormLabel>
+                        <FormControl>
+                          <div className="flex items-center gap-4">
+                            <Input
+                              type="number"
+                              min={1}
+                              max={99}
+                              className="w-24"
+                              disabled={isProcessing}
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 50)}
                             />
+                            <div className="flex-1 h-2 bg-secondary rounded-full overflow-hidden">
+                              <div
+                                className="h-full bg-yes transition-all"
+                                style={{ width: `${field.value}%` }}
+                              />
+                            </div>
+                            <span className="text-sm text-muted-foreground w-12">
+                              {field.value}%
+                            </span>
                           </div>
-                          <span className="text-sm text-muted-foreground w-12">
-                            {field.value}%
-                          </span>
-                        </div>
-                      </FormControl>
-                      <FormDescription>
-                        Your initial estimate of the probability. Trading will adjust this.
-                      </FormDescription>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
+                        </FormControl>
+                        <FormDescription>
+                          Your initial estimate of the probability. Trading will adjust this.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
 
                 {/* Deployment Options */}
                 <div className="space-y-3">
@@ -432,6 +747,148 @@ const CreateMarket = () => {
                         disabled={isProcessing}
                       />
                     </div>
+
+                    {deployToBaseSepolia && marketType !== "scalar" && (
+                      <FormField
+                        control={form.control}
+                        name="collateral"
+                        render={({ field }) => (
+                          <FormItem className="mt-4">
+                            <FormLabel>Collateral</FormLabel>
+                            <Select onValueChange={field.onChange} value={field.value} disabled={isProcessing}>
+                              <FormControl>
+                                <SelectTrigger className="w-40">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value="ETH">ETH</SelectItem>
+                                <SelectItem value="USDC">USDC</SelectItem>
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              The token traders pay with and winnings are paid in.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {deployToBaseSepolia && (
+                      <FormField
+                        control={form.control}
+                        name="liquidity"
+                        render={({ field }) => (
+                          <FormItem className="mt-4">
+                            <FormLabel>Market Maker Liquidity ({collateralSymbol})</FormLabel>
+                            <FormControl>
+                              <Input
+                                type="number"
+                                step="0.001"
+                                min={0.001}
+                                className="w-40"
+                                disabled={isProcessing}
+                                {...field}
+                                onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                              />
+                            </FormControl>
+                            <FormDescription>
+                              Funds the automated market maker. More liquidity means prices move less per trade;
+                              this is the most you can lose, and what is left is returned after resolution.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {deployToBaseSepolia && (
+                      <FormField
+                        control={form.control}
+                        name="tradingCutoff"
+                        render={({ field }) => (
+                          <FormItem className="mt-4">
+                            <FormLabel>Trading Closes</FormLabel>
+                            <Select
+                              onValueChange={(value) => field.onChange(Number(value))}
+                              value={String(field.value)}
+                              disabled={isProcessing}
+                            >
+                              <FormControl>
+                                <SelectTrigger className="w-40">
+                                  <SelectValue />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                {TRADING_CUTOFF_OPTIONS.map((option) => (
+                                  <SelectItem key={option.seconds} value={String(option.seconds)}>
+                                    {option.label}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormDescription>
+                              Stop trading ahead of the end date so nobody trades on the result as it comes in.
+                            </FormDescription>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    )}
+
+                    {deployToBaseSepolia && marketType !== "scalar" && (
+                      <div className="mt-4 space-y-2">
+                        <div className="flex gap-4">
+                          <FormField
+                            control={form.control}
+                            name="maxPerAddress"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Max per Address ({collateralSymbol})</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.001"
+                                    min={0}
+                                    className="w-40"
+                                    disabled={isProcessing}
+                                    {...field}
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          <FormField
+                            control={form.control}
+                            name="maxPool"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Max Pool ({collateralSymbol})</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    type="number"
+                                    step="0.001"
+                                    min={0}
+                                    className="w-40"
+                                    disabled={isProcessing}
+                                    {...field}
+                                    onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          Optional caps on how much one address, and everyone together, can buy. 0 means no cap;
+                          once trading starts they can only be raised.
+                        </p>
+                      </div>
+                    )}
                   </div>
 
                   {/* GenLayer Toggle */}
@@ -6,6 +6,7 @@ import { MultiFaucet } from "@/components/MultiFaucet";
 import { HowItWorks } from "@/components/HowItWorks";
 import { DemoResolvedMarket } from "@/components/DemoResolvedMarket";
 import { ActivityTicker } from "@/components/ActivityTicker";
+import { OnChainMarkets } from "@/components/OnChainMarkets";
 import { useMarkets, DbMarket } from "@/hooks/useMarkets";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
 import { Clock, BarChart3, Zap, Brain, Play, Droplets, ExternalLink, ArrowRight, Sparkles, X } from "lucide-react";
@@ -23,6 +24,8 @@ const toUiMarket = (dbMarket: DbMarket): Market => ({
   category: dbMarket.category,
   verified: dbMarket.verified,
   endDate: dbMarket.end_date,
+  tradingClosesAt: dbMarket.trading_closes_at,
+  resolutionStatus: dbMarket.resolution_status,
   description: dbMarket.description || "",
   aiInsight: {
     summary: "AI analysis available on market detail page",
@@ -341,6 +344,9 @@ const Index = () => {
             </button>
           </div>
         )}
+
+        {/* Markets read directly from the Base factory */}
+        <OnChainMarkets />
       </main>
     </div>
   );
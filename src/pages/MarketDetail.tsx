@@ -1,6 +1,6 @@
 import { useState, useEffect, useCallback } from "react";
 import { useParams, Link } from "react-router-dom";
-import { ArrowLeft, Calendar, DollarSign, Loader2, Sparkles, Share2, Bookmark, Info, Users, ExternalLink, Zap, AlertTriangle, Coins, RefreshCw, Activity, Radio, Cpu } from "lucide-react";
+import { ArrowLeft, Calendar, DollarSign, Loader2, Sparkles, Share2, Bookmark, Info, Users, ExternalLink, Zap, AlertTriangle, Coins, RefreshCw, Activity, Radio, Cpu, Lock, CheckCircle2 } from "lucide-react";
 import { Header } from "@/components/Header";
 import { AIInsightCard } from "@/components/AIInsightCard";
 import { MarketChart } from "@/components/MarketChart";
@@ -9,19 +9,24 @@ import { IntelligentContractBadge } from "@/components/IntelligentContractBadge"
 import { GenLayerResolution } from "@/components/GenLayerResolution";
 import { ResolutionBridge } from "@/components/ResolutionBridge";
 import { ClaimWinnings } from "@/components/ClaimWinnings";
+import { DisputeWindow } from "@/components/DisputeWindow";
 import { ManualResolution } from "@/components/ManualResolution";
+import { OrderBook } from "@/components/OrderBook";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { useMarket } from "@/hooks/useMarkets";
+import { useMarket, useUpdateMarket } from "@/hooks/useMarkets";
 import { useMarketAnalysis } from "@/hooks/useMarketAnalysis";
 import { useCreateTrade } from "@/hooks/usePositions";
-import { useBaseTrading } from "@/hooks/useBaseTrading";
+import { useRecordResolution } from "@/hooks/useResolutions";
+import { useBaseTrading, OutcomeData, ScalarData, LiquidityPosition, TradingLimits } from "@/hooks/useBaseTrading";
 import { useWalletAuth } from "@/contexts/WalletAuthContext";
 import { WalletModal } from "@/components/WalletModal";
 import { AIInsight } from "@/types/market";
+import { getTradingPhase, TRADING_PHASE_LABELS } from "@/lib/tradingPhase";
+import type { ResolverStatus } from "@/lib/resolverInterface";
 import { toast } from "sonner";
 
 type TradingToken = "ETH" | "USDC";
@@ -33,6 +38,11 @@ const formatVolume = (volume: number): string => {
   return `$${volume}`;
 };
 
+const formatScalarValue = (value: number): string => {
+  if (!isFinite(value)) return "—";
+  return value.toLocaleString("en-US", { maximumFractionDigits: 2 });
+};
+
 const formatDate = (dateString: string): string => {
   if (!dateString) return "N/A";
   return new Date(dateString).toLocaleDateString("en-US", {
@@ -47,11 +57,36 @@ const MarketDetail = () => {
   const { data: market, isLoading, refetch: refetchMarket } = useMarket(id || "");
   const { analyzeMarket, isAnalyzing, creditsExhausted } = useMarketAnalysis();
   const createTrade = useCreateTrade();
-  const { buyShares, isPending: isBlockchainPending, isOnBase, readMarketData, getUserPosition } = useBaseTrading();
+  const updateMarket = useUpdateMarket();
+  const { mutate: recordResolution } = useRecordResolution();
+  const {
+    buyShares,
+    sellShares,
+    isPending: isBlockchainPending,
+    isOnBase,
+    readMarketData,
+    readOutcomes,
+    readScalarData,
+    quoteShares,
+    quoteSell,
+    getUserPosition,
+    getUserOutcomeShares,
+    splitPosition,
+    mergePositions,
+    addLiquidity,
+    readLiquidityPosition,
+    closeEarly,
+    reverseLateTrades,
+    withdrawLateTradeRefund,
+    readLateTradeRefund,
+    readTradingLimits,
+  } = useBaseTrading();
   const { isConnected, address, chainId, switchToBase } = useWalletAuth();
   
   const [liveInsight, setLiveInsight] = useState<AIInsight | null>(null);
   const [selectedOutcome, setSelectedOutcome] = useState<"yes" | "no">("yes");
+  const [selectedOutcomeIndex, setSelectedOutcomeIndex] = useState(0); // categorical markets
+  const [tradeSide, setTradeSide] = useState<"buy" | "sell" | "set" | "liquidity">("buy");
   const [amount, setAmount] = useState("");
   const [walletModalOpen, setWalletModalOpen] = useState(false);
   const [useBlockchain, setUseBlockchain] = useState(true);
@@ -59,10 +94,26 @@ const MarketDetail = () => {
   const [onChainData, setOnChainData] = useState<{ 
     yesPool: string; 
     noPool: string; 
+    yesPrice?: number;
     isResolved?: boolean; 
-    winner?: number | null 
+    winner?: number | null;
+    collateralSymbol?: string;
+    endDate?: number; // unix seconds, moves up when the market is closed early
+    tradingEndDate?: number; // unix seconds
+    closedEarly?: boolean;
+    lateTradesPending?: boolean;
+    eventTimePending?: boolean;
   } | null>(null);
+  const [quotedShares, setQuotedShares] = useState<string | null>(null);
+  const [quotedProceeds, setQuotedProceeds] = useState<string | null>(null);
   const [userPosition, setUserPosition] = useState<{ yesShares: string; noShares: string } | null>(null);
+  const [outcomeData, setOutcomeData] = useState<OutcomeData | null>(null);
+  const [userOutcomeShares, setUserOutcomeShares] = useState<string[] | null>(null);
+  const [scalarData, setScalarData] = useState<ScalarData | null>(null);
+  const [liquidityPosition, setLiquidityPosition] = useState<LiquidityPosition | null>(null);
+  const [lateTradeRefund, setLateTradeRefund] = useState<string | null>(null);
+  const [tradingLimits, setTradingLimits] = useState<TradingLimits | null>(null);
+  const [eventTimeInput, setEventTimeInput] = useState(""); // datetime-local, for closing early
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [contractValid, setContractValid] = useState<boolean | null>(null); // null = not checked yet
 
@@ -81,8 +132,15 @@ const MarketDetail = () => {
         setOnChainData({
           yesPool: data.yesShares || "0",
           noPool: data.noShares || "0",
+          yesPrice: data.yesPrice,
           isResolved: data.isResolved,
           winner: data.winner,
+          collateralSymbol: data.collateral.symbol,
+          endDate: data.endDate,
+          tradingEndDate: data.tradingEndDate,
+          closedEarly: data.closedEarly,
+          lateTradesPending: data.lateTradesPending,
+          eventTimePending: data.eventTimePending,
         });
         setContractValid(true);
         console.log("Updated pools - Yes:", data.yesShares, "No:", data.noShares);
@@ -103,9 +161,29 @@ const MarketDetail = () => {
     } catch (err) {
       console.error("Failed to get user position:", err);
     }
+
+    if (market.market_type === "categorical") {
+      const [outcomes, shares] = await Promise.all([
+        readOutcomes(market.base_contract_address),
+        getUserOutcomeShares(market.base_contract_address),
+      ]);
+      console.log("Outcomes:", outcomes, "User shares:", shares);
+      if (outcomes) setOutcomeData(outcomes);
+      if (shares) setUserOutcomeShares(shares);
+    }
+
+    if (market.market_type === "scalar") {
+      const scalar = await readScalarData(market.base_contract_address);
+      console.log("Scalar data:", scalar);
+      if (scalar) setScalarData(scalar);
+    } else {
+      setLiquidityPosition(await readLiquidityPosition(market.base_contract_address));
+      setLateTradeRefund(await readLateTradeRefund(market.base_contract_address));
+      setTradingLimits(await readTradingLimits(market.base_contract_address));
+    }
     
     setIsRefreshing(false);
-  }, [market?.base_contract_address, readMarketData, getUserPosition]);
+  }, [market?.base_contract_address, market?.market_type, readMarketData, readOutcomes, readScalarData, getUserPosition, getUserOutcomeShares, readLiquidityPosition, readLateTradeRefund, readTradingLimits]);
 
   // Fetch on-chain data on mount and when contract changes
   useEffect(() => {
@@ -114,8 +192,13 @@ const MarketDetail = () => {
     }
   }, [market?.base_contract_address, isConnected, refreshOnChainData]);
 
-  // Calculate live probability from on-chain pool data
+  // Calculate live probability from on-chain market data
   const calculateProbability = useCallback(() => {
+    // Market maker contracts expose the actual YES price
+    if (onChainData?.yesPrice !== undefined) {
+      return Math.max(1, Math.min(99, Math.round(onChainData.yesPrice * 100)));
+    }
+
     if (onChainData) {
       const yesPool = parseFloat(onChainData.yesPool || "0");
       const noPool = parseFloat(onChainData.noPool || "0");
@@ -134,6 +217,69 @@ const MarketDetail = () => {
 
   const probability = calculateProbability();
 
+  // Keep an audit record of the GenLayer resolution, with its reasoning and evidence
+  const handleGenLayerResolved = useCallback(
+    (status: ResolverStatus, txHash?: string) => {
+      if (!market?.id || !market.intelligent_contract_address) return;
+      recordResolution({
+        marketId: market.id,
+        contractAddress: market.intelligent_contract_address,
+        status,
+        txHash,
+      });
+    },
+    [market?.id, market?.intelligent_contract_address, recordResolution]
+  );
+
+  // Categorical markets: outcome names and prices, falling back to a uniform price before the first read
+  const isCategorical = market?.market_type === "categorical";
+  const outcomeNames = outcomeData?.names ?? market?.outcomes ?? [];
+  const outcomePrices = outcomeData?.prices ?? outcomeNames.map(() => 1 / Math.max(outcomeNames.length, 1));
+  const tradeOutcomeIndex = isCategorical ? selectedOutcomeIndex : undefined;
+
+  // Scalar markets trade LONG/SHORT through the YES/NO slots; the LONG price maps onto the range
+  const isScalar = market?.market_type === "scalar";
+  const longLabel = isScalar ? "Long" : "Yes";
+  const shortLabel = isScalar ? "Short" : "No";
+  const scalarLower = scalarData?.lowerBound ?? Number(market?.scalar_lower ?? 0);
+  const scalarUpper = scalarData?.upperBound ?? Number(market?.scalar_upper ?? 0);
+  const scalarEstimate = scalarData?.estimate ?? scalarLower + (probability / 100) * (scalarUpper - scalarLower);
+  const scalarResolvedValue = scalarData?.resolvedValue ?? market?.resolved_value ?? null;
+
+  const selectedLabel = isCategorical
+    ? outcomeNames[selectedOutcomeIndex] ?? `Outcome ${selectedOutcomeIndex}`
+    : selectedOutcome === "yes" ? longLabel : shortLabel;
+  const heldShares = isCategorical
+    ? userOutcomeShares?.[selectedOutcomeIndex]
+    : selectedOutcome === "yes" ? userPosition?.yesShares : userPosition?.noShares;
+
+  // Quote shares for the entered amount (price moves along the LMSR curve)
+  // When selling, the amount is a share count and the quote is the ETH refund
+  useEffect(() => {
+    const tradeAmount = parseFloat(amount);
+    setQuotedShares(null);
+    setQuotedProceeds(null);
+    if (!market?.base_contract_address || !useBlockchain || tradeSide === "set" || tradeSide === "liquidity" || !(tradeAmount > 0)) {
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      if (tradeSide === "sell") {
+        const proceeds = await quoteSell(market.base_contract_address, selectedOutcome, amount, tradeOutcomeIndex);
+        if (!cancelled) setQuotedProceeds(proceeds);
+      } else {
+        const shares = await quoteShares(market.base_contract_address, selectedOutcome, amount, tradeOutcomeIndex);
+        if (!cancelled) setQuotedShares(shares);
+      }
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [amount, selectedOutcome, tradeOutcomeIndex, tradeSide, useBlockchain, market?.base_contract_address, quoteShares, quoteSell, onChainData]);
+
   const handleAnalyze = async () => {
     if (!market) return;
     
@@ -166,25 +312,37 @@ const MarketDetail = () => {
       return;
     }
 
-    const price = selectedOutcome === "yes" 
-      ? probability / 100 
-      : (100 - probability) / 100;
+    const price = isCategorical
+      ? outcomePrices[selectedOutcomeIndex] ?? 0
+      : selectedOutcome === "yes" 
+        ? probability / 100 
+        : (100 - probability) / 100;
+    const positionType = isCategorical ? `outcome_${selectedOutcomeIndex}` as const : selectedOutcome;
     
     const tradeAmount = parseFloat(amount);
-    const shares = tradeAmount / price;
+    const shares = quotedShares ? parseFloat(quotedShares) : tradeAmount / price;
+
+    // The contract would revert; say why before the wallet asks for a signature
+    if (buyHeadroom !== null && tradeAmount > buyHeadroom) {
+      toast.error("Above this market's trading limit", {
+        description: `You can buy up to ${buyHeadroom.toFixed(4)} ${tradingLimits?.symbol} more`,
+      });
+      return;
+    }
 
     try {
       if (useBlockchain && market.base_contract_address) {
         const result = await buyShares({
           contractAddress: market.base_contract_address,
           positionType: selectedOutcome,
-          amount: tradeAmount,
+          amount,
+          outcomeIndex: tradeOutcomeIndex,
         });
         
         if (result.success) {
           await createTrade.mutateAsync({
             marketId: market.id,
-            positionType: selectedOutcome,
+            positionType,
             shares,
             price,
           });
@@ -192,16 +350,16 @@ const MarketDetail = () => {
           await new Promise(resolve => setTimeout(resolve, 2000));
           await refreshOnChainData();
           
-          toast.success(`Bought ${selectedOutcome.toUpperCase()} shares! Odds updated.`);
+          toast.success(`Bought ${selectedLabel.toUpperCase()} shares! Odds updated.`);
         }
       } else {
         await createTrade.mutateAsync({
           marketId: market.id,
-          positionType: selectedOutcome,
+          positionType,
           shares,
           price,
         });
-        toast.success(`Successfully bought ${selectedOutcome.toUpperCase()} shares!`);
+        toast.success(`Successfully bought ${selectedLabel.toUpperCase()} shares!`);
       }
       
       setAmount("");
@@ -212,9 +370,179 @@ const MarketDetail = () => {
     }
   };
 
+  const handleSell = async () => {
+    if (!isConnected) {
+      setWalletModalOpen(true);
+      return;
+    }
+
+    if (!market?.base_contract_address || !amount || parseFloat(amount) <= 0) {
+      toast.error("Please enter a valid number of shares");
+      return;
+    }
+
+    const shares = parseFloat(amount);
+    const held = parseFloat(heldShares || "0");
+    if (shares > held) {
+      toast.error(`You only hold ${held.toFixed(4)} ${selectedLabel.toUpperCase()} shares`);
+      return;
+    }
+
+    try {
+      const result = await sellShares({
+        contractAddress: market.base_contract_address,
+        positionType: selectedOutcome,
+        amount: "0",
+        // The string as entered, so a Max sell passes the exact held balance
+        shares: amount,
+        outcomeIndex: tradeOutcomeIndex,
+      });
+
+      if (result.success) {
+        const proceeds = quotedProceeds ? parseFloat(quotedProceeds) : 0;
+        await createTrade.mutateAsync({
+          marketId: market.id,
+          positionType: isCategorical ? `outcome_${selectedOutcomeIndex}` : selectedOutcome,
+          shares,
+          price: proceeds / shares,
+          tradeType: "sell",
+        });
+
+        await new Promise(resolve => setTimeout(resolve, 2000));
+        await refreshOnChainData();
+
+        toast.success(`Sold ${selectedLabel.toUpperCase()} shares! Odds updated.`);
+      }
+
+      setAmount("");
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "";
+      if (!message.includes("rejected")) {
+        toast.error(message || "Sell failed");
+      }
+    }
+  };
+
+  // Complete sets: one share of every outcome for one unit of collateral, and back
+  const handleSet = async (kind: "mint" | "redeem") => {
+    if (!isConnected) {
+      setWalletModalOpen(true);
+      return;
+    }
+
+    if (!market?.base_contract_address || !amount || parseFloat(amount) <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+
+    if (onChainData?.closedEarly) {
+      toast.error("Sets can't be minted or redeemed once the market closed early");
+      return;
+    }
+
+    const sets = parseFloat(amount);
+    if (kind === "redeem" && sets > heldSets) {
+      toast.error(`You only hold ${heldSets.toFixed(4)} complete sets`);
+      return;
+    }
+
+    try {
+      const params = { contractAddress: market.base_contract_address, amount };
+      const result = kind === "mint" ? await splitPosition(params) : await mergePositions(params);
+      if (!result.success) return;
+
+      // Record a trade per outcome at its current price, so the set costs one unit in total
+      const legs = isCategorical
+        ? outcomeNames.map((_, index) => ({ positionType: `outcome_${index}` as const, price: outcomePrices[index] ?? 0 }))
+        : [
+            { positionType: "yes" as const, price: probability / 100 },
+            { positionType: "no" as const, price: (100 - probability) / 100 },
+          ];
+      for (const leg of legs) {
+        await createTrade.mutateAsync({
+          marketId: market.id,
+          positionType: leg.positionType,
+          shares: sets,
+          price: leg.price,
+          tradeType: kind === "mint" ? "buy" : "sell",
+        });
+      }
+
+      await refreshOnChainData();
+      setAmount("");
+    } catch (error) {
+      const err = error as { message?: string };
+      if (!err.message?.includes("rejected")) {
+        toast.error(err.message || "Transaction failed");
+      }
+    }
+  };
+
+  // Liquidity deepens the market maker at current prices, so the first trades move them less
+  const handleAddLiquidity = async () => {
+    if (!isConnected) {
+      setWalletModalOpen(true);
+      return;
+    }
+
+    if (!market?.base_contract_address || !amount || parseFloat(amount) <= 0) {
+      toast.error("Please enter a valid amount");
+      return;
+    }
+
+    const result = await addLiquidity({ contractAddress: market.base_contract_address, amount });
+    if (!result.success) return;
+
+    await refreshOnChainData();
+    setAmount("");
+  };
+
+  // Close early when the event happened ahead of schedule; trades after it are reversed
+  const handleCloseEarly = async () => {
+    if (!market?.base_contract_address) return;
+
+    const eventTime = eventTimeInput ? Math.floor(new Date(eventTimeInput).getTime() / 1000) : Math.floor(Date.now() / 1000);
+    const result = await closeEarly(market.base_contract_address, eventTime);
+    if (!result.success) return;
+
+    await updateMarket.mutateAsync({ id: market.id, trading_closes_at: new Date().toISOString() });
+    await refreshOnChainData();
+    setEventTimeInput("");
+  };
+
+  const handleReverseLateTrades = async () => {
+    if (!market?.base_contract_address) return;
+
+    const result = await reverseLateTrades(market.base_contract_address);
+    if (result.success) await refreshOnChainData();
+  };
+
+  const handleWithdrawRefund = async () => {
+    if (!market?.base_contract_address) return;
+
+    const result = await withdrawLateTradeRefund(market.base_contract_address);
+    if (result.success) await refreshOnChainData();
+  };
+
   const hasBlockchainContract = !!market?.base_contract_address;
   const hasGenLayerContract = !!market?.intelligent_contract_address;
   const isTrading = createTrade.isPending || isBlockchainPending;
+  // Selling goes back to the on-chain market maker, so it needs a contract
+  const canSell = hasBlockchainContract && useBlockchain;
+  const isSelling = canSell && tradeSide === "sell";
+  // Scalar markets pay LONG/SHORT linearly and have no complete sets
+  const canSplit = canSell && !isScalar;
+  const isSetMode = canSplit && tradeSide === "set";
+  // Scalar markets keep creator-only liquidity
+  const isLiquidityMode = canSplit && tradeSide === "liquidity";
+  // The smallest outcome balance, kept as the exact string read from the market
+  const outcomeBalances = isCategorical
+    ? outcomeNames.map((_, index) => userOutcomeShares?.[index] || "0")
+    : [userPosition?.yesShares || "0", userPosition?.noShares || "0"];
+  const heldSetsText = outcomeBalances.length
+    ? outcomeBalances.reduce((min, held) => (parseFloat(held) < parseFloat(min) ? held : min))
+    : "0";
+  const heldSets = parseFloat(heldSetsText);
 
   if (isLoading) {
     return (
@@ -247,9 +575,38 @@ const MarketDetail = () => {
     );
   }
 
-  const potentialReturn = amount && parseFloat(amount) > 0
-    ? (parseFloat(amount) / (selectedOutcome === "yes" ? probability : 100 - probability) * 100).toFixed(2) 
-    : "0.00";
+  // On-chain markets settle in their own collateral, so the token isn't a choice there
+  const marketToken = useBlockchain && hasBlockchainContract ? onChainData?.collateralSymbol : undefined;
+
+  // The chain knows about cutoffs and early closes before the database row catches up
+  const tradingPhase = onChainData?.isResolved
+    ? "resolved"
+    : getTradingPhase(
+        market.resolution_status,
+        market.end_date,
+        onChainData?.tradingEndDate ? new Date(onChainData.tradingEndDate * 1000).toISOString() : market.trading_closes_at
+      );
+  const tradingClosed = tradingPhase !== "open";
+  // Resolution opens at the on-chain end time, which an early close moves up
+  const resolvableFrom = onChainData?.closedEarly && onChainData.endDate
+    ? new Date(onChainData.endDate * 1000).toISOString()
+    : market.end_date;
+  const isCreator = !!address && [market.created_by, market.deployer_wallet].some((w) => w?.toLowerCase() === address.toLowerCase());
+  const canCloseEarly = hasBlockchainContract && isCreator && tradingPhase === "open" && onChainData?.tradingEndDate !== undefined;
+  const tradeToken = marketToken ?? selectedToken;
+  // What the creator's caps still let this wallet buy on-chain (null when uncapped)
+  const buyHeadroom = useBlockchain && hasBlockchainContract ? tradingLimits?.remaining ?? null : null;
+  const overLimit = !isSelling && buyHeadroom !== null && parseFloat(amount) > buyHeadroom;
+
+  // Each on-chain share pays 1 unit of collateral if it wins
+  const potentialReturn = quotedShares
+    ? parseFloat(quotedShares).toFixed(4)
+    : amount && parseFloat(amount) > 0
+      ? (isCategorical
+          ? parseFloat(amount) / (outcomePrices[selectedOutcomeIndex] || 1)
+          : parseFloat(amount) / (selectedOutcome === "yes" ? probability : 100 - probability) * 100
+        ).toFixed(2)
+      : "0.00";
 
   const defaultInsight: AIInsight = {
     summary: "Click 'Run AI Analysis' to get intelligent insights about this market.",
@@ -310,6 +667,15 @@ const MarketDetail = () => {
                       Base Sepolia
                     </Badge>
                   )}
+                  {tradingClosed && (
+                    <Badge className={tradingPhase === "closed"
+                      ? "bg-amber-500/20 text-amber-400 border-amber-500/30"
+                      : "bg-emerald-500/20 text-emerald-400 border-emerald-500/30"
+                    }>
+                      {tradingPhase === "closed" ? <Lock className="h-3 w-3 mr-1" /> : <CheckCircle2 className="h-3 w-3 mr-1" />}
+                      {TRADING_PHASE_LABELS[tradingPhase]}
+                    </Badge>
+                  )}
                 </div>
                 
                 {/* Question with gradient text */}
@@ -351,7 +717,7 @@ const MarketDetail = () => {
                 <div className="flex items-center justify-between mb-5">
                   <div className="flex items-center gap-2">
                     <Activity className="h-4 w-4 text-purple-400" />
-                    <span className="text-sm font-medium text-white/90">Current Probability</span>
+                    <span className="text-sm font-medium text-white/90">{isScalar ? "Implied Estimate" : "Current Probability"}</span>
                     <span className="text-[10px] text-white/40 font-mono uppercase tracking-wider">Live</span>
                   </div>
                   <div className="flex items-center gap-3">
@@ -360,28 +726,67 @@ const MarketDetail = () => {
                   </div>
                 </div>
                 
-                {/* Probability Bar - Enhanced */}
-                <div className="relative h-14 bg-slate-800/50 rounded-xl overflow-hidden mb-5 border border-white/5">
-                  {/* YES portion */}
-                  <div
-                    className="absolute inset-y-0 left-0 bg-gradient-to-r from-emerald-600 to-emerald-500 transition-all duration-700 ease-out"
-                    style={{ width: `${probability}%` }}
-                  >
-                    <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent" />
-                    {/* Shimmer effect */}
-                    <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent animate-shimmer" />
+                {/* Implied Estimate - Scalar markets */}
+                {isScalar && (
+                  <div className="mb-4">
+                    <div className="flex items-baseline gap-3">
+                      <span className="text-3xl font-bold text-white font-mono">
+                        {formatScalarValue(scalarResolvedValue ?? scalarEstimate)}
+                      </span>
+                      {scalarResolvedValue !== null && (
+                        <Badge variant="outline" className="border-emerald-500/30 text-emerald-400">Resolved</Badge>
+                      )}
+                    </div>
+                    <div className="flex justify-between mt-2 text-xs text-white/40 font-mono">
+                      <span>Lower {formatScalarValue(scalarLower)}</span>
+                      <span>Upper {formatScalarValue(scalarUpper)}</span>
+                    </div>
                   </div>
-                  
-                  {/* Labels */}
-                  <div className="absolute inset-0 flex items-center justify-between px-5">
-                    <span className="text-base font-bold text-white z-10 drop-shadow-lg">
-                      Yes {probability}%
-                    </span>
-                    <span className="text-base font-bold text-white/80 z-10">
-                      No {100 - probability}%
-                    </span>
+                )}
+
+                {/* Outcome Bars - Categorical markets */}
+                {isCategorical ? (
+                  <div className="space-y-2 mb-5">
+                    {outcomeNames.map((name, index) => {
+                      const pct = Math.round((outcomePrices[index] ?? 0) * 100);
+                      return (
+                        <div key={index} className="relative h-10 bg-slate-800/50 rounded-lg overflow-hidden border border-white/5">
+                          <div
+                            className="absolute inset-y-0 left-0 bg-gradient-to-r from-purple-600/70 to-purple-500/70 transition-all duration-700 ease-out"
+                            style={{ width: `${pct}%` }}
+                          />
+                          <div className="absolute inset-0 flex items-center justify-between px-4">
+                            <span className="text-sm font-semibold text-white z-10 truncate">{name}</span>
+                            <span className="text-sm font-bold text-white/90 z-10 font-mono">{pct}%</span>
+                          </div>
+                        </div>
+                      );
+                    })}
                   </div>
-                </div>
+                ) : (
+                  /* Probability Bar - Enhanced */
+                  <div className="relative h-14 bg-slate-800/50 rounded-xl overflow-hidden mb-5 border border-white/5">
+                    {/* YES portion */}
+                    <div
+                      className="absolute inset-y-0 left-0 bg-gradient-to-r from-emerald-600 to-emerald-500 transition-all duration-700 ease-out"
+                      style={{ width: `${probability}%` }}
+                    >
+                      <div className="absolute inset-0 bg-gradient-to-t from-black/20 to-transparent" />
+                      {/* Shimmer effect */}
+                      <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/10 to-transparent animate-shimmer" />
+                    </div>
+                    
+                    {/* Labels */}
+                    <div className="absolute inset-0 flex items-center justify-between px-5">
+                      <span className="text-base font-bold text-white z-10 drop-shadow-lg">
+                        {longLabel} {probability}%
+                      </span>
+                      <span className="text-base font-bold text-white/80 z-10">
+                        {shortLabel} {100 - probability}%
+                      </span>
+                    </div>
+                  </div>
+                )}
 
                 {/* Warning if contract not found on-chain */}
                 {market.base_contract_address && contractValid === false && (
@@ -394,42 +799,44 @@ const MarketDetail = () => {
                 )}
 
                 {/* Buy Buttons - Depth-based design with micro-interactions */}
-                <div className="grid grid-cols-2 gap-4">
-                  <button 
-                    onClick={() => { setSelectedOutcome("yes"); }}
-                    className={`
-                      relative group py-4 px-6 rounded-xl text-sm font-bold transition-all duration-300
-                      bg-gradient-to-b from-emerald-500 to-emerald-600
-                      hover:from-emerald-400 hover:to-emerald-500
-                      shadow-[0_4px_0_0_#065f46,0_6px_20px_rgba(16,185,129,0.3)]
-                      hover:shadow-[0_4px_0_0_#065f46,0_6px_30px_rgba(16,185,129,0.5)]
-                      active:shadow-[0_2px_0_0_#065f46]
-                      active:translate-y-[2px]
-                      text-white
-                    `}
-                  >
-                    <span className="relative z-10">Buy Yes</span>
-                    {/* Inner glow on hover */}
-                    <div className="absolute inset-0 rounded-xl bg-gradient-to-t from-transparent to-white/20 opacity-0 group-hover:opacity-100 transition-opacity" />
-                  </button>
-                  
-                  <button 
-                    onClick={() => { setSelectedOutcome("no"); }}
-                    className={`
-                      relative group py-4 px-6 rounded-xl text-sm font-bold transition-all duration-300
-                      bg-gradient-to-b from-red-500 to-red-600
-                      hover:from-red-400 hover:to-red-500
-                      shadow-[0_4px_0_0_#991b1b,0_6px_20px_rgba(239,68,68,0.3)]
-                      hover:shadow-[0_4px_0_0_#991b1b,0_6px_30px_rgba(239,68,68,0.5)]
-                      active:shadow-[0_2px_0_0_#991b1b]
-                      active:translate-y-[2px]
-                      text-white
-                    `}
-                  >
-                    <span className="relative z-10">Buy No</span>
-                    <div className="absolute inset-0 rounded-xl bg-gradient-to-t from-transparent to-white/20 opacity-0 group-hover:opacity-100 transition-opacity" />
-                  </button>
-                </div>
+                {!isCategorical && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <button 
+                      onClick={() => { setSelectedOutcome("yes"); }}
+                      className={`
+                        relative group py-4 px-6 rounded-xl text-sm font-bold transition-all duration-300
+                        bg-gradient-to-b from-emerald-500 to-emerald-600
+                        hover:from-emerald-400 hover:to-emerald-500
+                        shadow-[0_4px_0_0_#065f46,0_6px_20px_rgba(16,185,129,0.3)]
+                        hover:shadow-[0_4px_0_0_#065f46,0_6px_30px_rgba(16,185,129,0.5)]
+                        active:shadow-[0_2px_0_0_#065f46]
+                        active:translate-y-[2px]
+                        text-white
+                      `}
+                    >
+                      <span className="relative z-10">Buy {longLabel}</span>
+                      {/* Inner glow on hover */}
+                      <div className="absolute inset-0 rounded-xl bg-gradient-to-t from-transparent to-white/20 opacity-0 group-hover:opacity-100 transition-opacity" />
+                    </button>
+                    
+                    <button 
+                      onClick={() => { setSelectedOutcome("no"); }}
+                      className={`
+                        relative group py-4 px-6 rounded-xl text-sm font-bold transition-all duration-300
+                        bg-gradient-to-b from-red-500 to-red-600
+                        hover:from-red-400 hover:to-red-500
+                        shadow-[0_4px_0_0_#991b1b,0_6px_20px_rgba(239,68,68,0.3)]
+                        hover:shadow-[0_4px_0_0_#991b1b,0_6px_30px_rgba(239,68,68,0.5)]
+                        active:shadow-[0_2px_0_0_#991b1b]
+                        active:translate-y-[2px]
+                        text-white
+                      `}
+                    >
+                      <span className="relative z-10">Buy {shortLabel}</span>
+                      <div className="absolute inset-0 rounded-xl bg-gradient-to-t from-transparent to-white/20 opacity-0 group-hover:opacity-100 transition-opacity" />
+                    </button>
+                  </div>
+                )}
               </CardContent>
             </Card>
 
@@ -445,6 +852,17 @@ const MarketDetail = () => {
             {/* Price Chart */}
             <MarketChart data={[]} />
 
+            {/* Limit orders, binary Base markets only */}
+            {hasBlockchainContract && !isCategorical && !isScalar && (
+              <OrderBook
+                marketId={market.id}
+                contractAddress={market.base_contract_address!}
+                collateralSymbol={onChainData?.collateralSymbol ?? market.collateral_symbol}
+                collateralDecimals={market.collateral_decimals}
+                disabled={market.resolution_status === "resolved" || !!onChainData?.isResolved}
+              />
+            )}
+
             {/* Resolution Details - Futuristic */}
             <Card className="relative overflow-hidden bg-gradient-to-br from-slate-900/90 via-slate-900/70 to-slate-800/50 backdrop-blur-xl border-white/10">
               <CardContent className="relative p-6">
@@ -519,13 +937,13 @@ const MarketDetail = () => {
                     <div>
                       <span className="text-[10px] text-white/40 uppercase tracking-wider font-mono">Yes Pool</span>
                       <p className="text-sm font-bold text-emerald-400 font-mono">
-                        {parseFloat(onChainData?.yesPool || "0").toFixed(4)} ETH
+                        {parseFloat(onChainData?.yesPool || "0").toFixed(4)} {tradeToken}
                       </p>
                     </div>
                     <div>
                       <span className="text-[10px] text-white/40 uppercase tracking-wider font-mono">No Pool</span>
                       <p className="text-sm font-bold text-red-400 font-mono">
-                        {parseFloat(onChainData?.noPool || "0").toFixed(4)} ETH
+                        {parseFloat(onChainData?.noPool || "0").toFixed(4)} {tradeToken}
                       </p>
                     </div>
                   </div>
@@ -561,11 +979,9 @@ const MarketDetail = () => {
             {hasGenLayerContract && (
               <GenLayerResolution
                 contractAddress={market.intelligent_contract_address}
-                marketEndDate={market.end_date}
-                onResolved={(outcome, reasoning) => {
-                  console.log("Market resolved:", outcome === 1 ? "YES" : "NO");
-                  console.log("Reasoning:", reasoning);
-                }}
+                marketEndDate={resolvableFrom}
+                outcomes={outcomeNames}
+                onResolved={handleGenLayerResolved}
               />
             )}
 
@@ -573,7 +989,7 @@ const MarketDetail = () => {
             {hasBlockchainContract && !hasGenLayerContract && (
               <ManualResolution
                 baseContractAddress={market.base_contract_address}
-                marketEndDate={market.end_date}
+                marketEndDate={resolvableFrom}
                 marketCreatorAddress={market.created_by}
                 onResolved={() => {
                   refreshOnChainData();
@@ -586,7 +1002,7 @@ const MarketDetail = () => {
               <ResolutionBridge
                 genLayerContractAddress={market.intelligent_contract_address}
                 baseContractAddress={market.base_contract_address}
-                marketEndDate={market.end_date}
+                marketEndDate={resolvableFrom}
                 onBridgeComplete={() => {
                   refreshOnChainData();
                 }}
@@ -603,65 +1019,299 @@ const MarketDetail = () => {
               />
             )}
 
+            {/* Settled dispute bond - for the disputer or creator it was credited to */}
+            {hasBlockchainContract && onChainData?.isResolved && (
+              <DisputeWindow baseContractAddress={market.base_contract_address} />
+            )}
+
+            {/* Refund for purchases reversed after an early close */}
+            {lateTradeRefund && parseFloat(lateTradeRefund) > 0 && (
+              <Card className="relative overflow-hidden bg-gradient-to-br from-slate-900/90 via-slate-900/70 to-slate-800/50 backdrop-blur-xl border-white/10">
+                <CardContent className="relative p-4 space-y-3">
+                  <p className="text-xs text-white/60 leading-relaxed">
+                    Your trades after the event were reversed when the market closed early.
+                  </p>
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-mono text-white/90">
+                      {parseFloat(lateTradeRefund).toFixed(4)} {onChainData?.collateralSymbol ?? market.collateral_symbol}
+                    </span>
+                    <Button size="sm" onClick={handleWithdrawRefund} disabled={isTrading} className="gap-2">
+                      {isTrading && <Loader2 className="h-4 w-4 animate-spin" />}
+                      Withdraw refund
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Early close - creator only, while trading is open */}
+            {canCloseEarly && (
+              <Card className="relative overflow-hidden bg-gradient-to-br from-slate-900/90 via-slate-900/70 to-slate-800/50 backdrop-blur-xl border-white/10">
+                <CardContent className="relative p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Lock className="h-4 w-4 text-amber-400" />
+                    <span className="text-sm font-medium text-white/90">Close early</span>
+                  </div>
+                  <p className="text-xs text-white/50 leading-relaxed">
+                    If the event already happened, close trading now so the market can be resolved.
+                    Trades made after the event time (at most a day ago) are reversed, once the resolver
+                    confirms the time if it's in the past.
+                  </p>
+                  <div>
+                    <label className="text-[10px] text-white/40 uppercase tracking-wider font-mono mb-2 block">
+                      Event happened at (default now)
+                    </label>
+                    <Input
+                      type="datetime-local"
+                      value={eventTimeInput}
+                      onChange={(e) => setEventTimeInput(e.target.value)}
+                      className="h-10 bg-white/5 border-white/10 text-white/90 focus:border-purple-500/50 font-mono"
+                    />
+                  </div>
+                  <Button onClick={handleCloseEarly} disabled={isTrading || !isOnBase} variant="outline" className="w-full gap-2">
+                    {isTrading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Lock className="h-4 w-4" />}
+                    Close trading
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Trade Panel - Futuristic */}
             <Card className="relative overflow-hidden bg-gradient-to-br from-slate-900/90 via-slate-900/70 to-slate-800/50 backdrop-blur-xl border-white/10 shadow-[0_0_40px_rgba(168,85,247,0.05)]">
               <CardContent className="relative p-5">
+                {tradingPhase === "closed" && (
+                  <div className="mb-3 p-3 rounded-lg bg-amber-500/10 border border-amber-500/30">
+                    <div className="flex items-center gap-2 text-amber-400 text-xs">
+                      <Lock className="h-4 w-4 flex-shrink-0" />
+                      <span>
+                        {onChainData?.closedEarly
+                          ? "Closed early: trading is closed, awaiting resolution."
+                          : "Trading is closed, awaiting resolution. Full sets can still be redeemed."}
+                      </span>
+                    </div>
+                    {onChainData?.lateTradesPending && (
+                      <div className="mt-2 flex items-center justify-between gap-2 text-xs text-amber-400/80">
+                        <span>
+                          {onChainData.eventTimePending
+                            ? "Waiting for the resolver to confirm the event time."
+                            : "Trades after the event have to be reversed before resolution."}
+                        </span>
+                        {!onChainData.eventTimePending && (
+                          <Button size="sm" variant="outline" onClick={handleReverseLateTrades} disabled={isTrading || !isOnBase}>
+                            Reverse trades
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {/* Buy / Sell toggle */}
+                {canSell && (
+                  <div className="flex gap-1 mb-3 p-1 rounded-lg bg-white/5 border border-white/10">
+                    {(canSplit ? (["buy", "sell", "set", "liquidity"] as const) : (["buy", "sell"] as const)).map((side) => (
+                      <button
+                        key={side}
+                        onClick={() => {
+                          setTradeSide(side);
+                          setAmount("");
+                        }}
+                        className={`
+                          flex-1 py-1.5 text-xs font-semibold uppercase tracking-wider rounded-md transition-all duration-300
+                          ${tradeSide === side
+                            ? "bg-purple-500/20 text-purple-300"
+                            : "text-white/40 hover:text-white/70"
+                          }
+                        `}
+                      >
+                        {side === "set" ? "Sets" : side === "liquidity" ? "Add liquidity" : side}
+                      </button>
+                    ))}
+                  </div>
+                )}
+
+                {isSetMode ? (
+                  <div className="space-y-4">
+                    <p className="text-xs text-white/50 leading-relaxed">
+                      Mint one share of every outcome for 1 {tradeToken} each, or redeem a full set back into {tradeToken}.
+                      Sets keep prices summing to 100%.
+                    </p>
+                    <div>
+                      <div className="flex justify-between items-center mb-2">
+                        <label className="text-[10px] text-white/40 uppercase tracking-wider font-mono block">
+                          Sets ({tradeToken})
+                        </label>
+                        {heldSets > 0 && (
+                          <button
+                            onClick={() => setAmount(heldSetsText)}
+                            className="text-[10px] text-purple-300/80 hover:text-purple-300 font-mono"
+                          >
+                            Held {heldSets.toFixed(4)}
+                          </button>
+                        )}
+                      </div>
+                      <Input
+                        type="number"
+                        placeholder="0.00"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        className="h-11 bg-white/5 border-white/10 text-white/90 placeholder:text-white/20 focus:border-purple-500/50 font-mono"
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-2">
+                      <Button onClick={() => handleSet("mint")} disabled={isTrading || tradingClosed} className="gap-2">
+                        {isTrading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Zap className="h-4 w-4" />}
+                        Mint set
+                      </Button>
+                      <Button onClick={() => handleSet("redeem")} disabled={isTrading || heldSets === 0} variant="outline" className="gap-2">
+                        Redeem set
+                      </Button>
+                    </div>
+                    {isConnected && !isOnBase && (
+                      <p className="text-[10px] text-center text-amber-400/80 font-mono">
+                        Switch to Base Sepolia for on-chain trading
+                      </p>
+                    )}
+                  </div>
+                ) : isLiquidityMode ? (
+                  <div className="space-y-4">
+                    <p className="text-xs text-white/50 leading-relaxed">
+                      Deposit {tradeToken} at current prices. You receive LP shares plus outcome shares in proportion to
+                      those outstanding, and earn a cut of trading fees.
+                    </p>
+                    <p className="text-xs text-amber-400/80 leading-relaxed">
+                      Liquidity can't be withdrawn while the market is live: it stays locked until the market resolves,
+                      then your share of what's left and your fees can be withdrawn from the Portfolio page.
+                    </p>
+                    {liquidityPosition && parseFloat(liquidityPosition.lpShares) > 0 && (
+                      <div className="flex justify-between text-[10px] font-mono text-white/50">
+                        <span>Your pool share</span>
+                        <span className="text-purple-300/80">{(liquidityPosition.poolShare * 100).toFixed(2)}%</span>
+                      </div>
+                    )}
+                    <div>
+                      <label className="text-[10px] text-white/40 uppercase tracking-wider font-mono mb-2 block">
+                        Amount ({tradeToken})
+                      </label>
+                      <Input
+                        type="number"
+                        placeholder="0.00"
+                        value={amount}
+                        onChange={(e) => setAmount(e.target.value)}
+                        className="h-11 bg-white/5 border-white/10 text-white/90 placeholder:text-white/20 focus:border-purple-500/50 font-mono"
+                      />
+                    </div>
+                    <Button onClick={handleAddLiquidity} disabled={isTrading || tradingClosed} className="w-full gap-2">
+                      {isTrading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Coins className="h-4 w-4" />}
+                      Add liquidity
+                    </Button>
+                    {isConnected && !isOnBase && (
+                      <p className="text-[10px] text-center text-amber-400/80 font-mono">
+                        Switch to Base Sepolia for on-chain trading
+                      </p>
+                    )}
+                  </div>
+                ) : (
+                <>
                 {/* Outcome Tabs with glow effects */}
-                <div className="flex gap-2 mb-5">
-                  <button
-                    onClick={() => setSelectedOutcome("yes")}
-                    className={`
-                      flex-1 py-3 text-sm font-semibold rounded-lg transition-all duration-300
-                      ${selectedOutcome === "yes"
-                        ? "bg-emerald-500/20 text-emerald-400 border border-emerald-500/30 shadow-[0_0_20px_rgba(16,185,129,0.2)]"
-                        : "bg-white/5 text-white/50 border border-white/10 hover:bg-white/10"
-                      }
-                    `}
-                  >
-                    Yes {probability}¢
-                  </button>
-                  <button
-                    onClick={() => setSelectedOutcome("no")}
-                    className={`
-                      flex-1 py-3 text-sm font-semibold rounded-lg transition-all duration-300
-                      ${selectedOutcome === "no"
-                        ? "bg-red-500/20 text-red-400 border border-red-500/30 shadow-[0_0_20px_rgba(239,68,68,0.2)]"
-                        : "bg-white/5 text-white/50 border border-white/10 hover:bg-white/10"
-                      }
-                    `}
-                  >
-                    No {100 - probability}¢
-                  </button>
-                </div>
+                {isCategorical ? (
+                  <div className="grid grid-cols-2 gap-2 mb-5">
+                    {outcomeNames.map((name, index) => (
+                      <button
+                        key={index}
+                        onClick={() => setSelectedOutcomeIndex(index)}
+                        className={`
+                          flex items-center justify-between gap-2 px-3 py-2.5 text-sm font-semibold rounded-lg transition-all duration-300
+                          ${selectedOutcomeIndex === index
+                            ? "bg-purple-500/20 text-purple-300 border border-purple-500/30 shadow-[0_0_20px_rgba(168,85,247,0.2)]"
+                            : "bg-white/5 text-white/50 border border-white/10 hover:bg-white/10"
+                          }
+                        `}
+                      >
+                        <span className="truncate">{name}</span>
+                        <span className="font-mono text-xs">{Math.round((outcomePrices[index] ?? 0) * 100)}¢</span>
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="flex gap-2 mb-5">
+                    <button
+                      onClick={() => setSelectedOutcome("yes")}
+                      className={`
+                        flex-1 py-3 text-sm font-semibold rounded-lg transition-all duration-300
+                        ${selectedOutcome === "yes"
+                          ? "bg-emerald-500/20 text-emerald-400 border border-emerald-500/30 shadow-[0_0_20px_rgba(16,185,129,0.2)]"
+                          : "bg-white/5 text-white/50 border border-white/10 hover:bg-white/10"
+                        }
+                      `}
+                    >
+                      {longLabel} {probability}¢
+                    </button>
+                    <button
+                      onClick={() => setSelectedOutcome("no")}
+                      className={`
+                        flex-1 py-3 text-sm font-semibold rounded-lg transition-all duration-300
+                        ${selectedOutcome === "no"
+                          ? "bg-red-500/20 text-red-400 border border-red-500/30 shadow-[0_0_20px_rgba(239,68,68,0.2)]"
+                          : "bg-white/5 text-white/50 border border-white/10 hover:bg-white/10"
+                        }
+                      `}
+                    >
+                      {shortLabel} {100 - probability}¢
+                    </button>
+                  </div>
+                )}
 
                 <div className="space-y-4">
                   {/* Token Select */}
-                  <div>
-                    <label className="text-[10px] text-white/40 uppercase tracking-wider font-mono mb-2 block">Trading Token</label>
-                    <Select value={selectedToken} onValueChange={(v) => setSelectedToken(v as TradingToken)}>
-                      <SelectTrigger className="h-11 bg-white/5 border-white/10 text-white/90 focus:border-purple-500/50">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent className="bg-slate-900 border-white/10">
-                        <SelectItem value="ETH">
-                          <div className="flex items-center gap-2">
-                            <Coins className="h-4 w-4 text-blue-400" />
-                            <span>ETH (Base Sepolia)</span>
-                          </div>
-                        </SelectItem>
-                        <SelectItem value="USDC">
-                          <div className="flex items-center gap-2">
-                            <DollarSign className="h-4 w-4 text-emerald-400" />
-                            <span>USDC (Base Sepolia)</span>
-                          </div>
-                        </SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
+                  {!isSelling && (
+                    <div>
+                      <label className="text-[10px] text-white/40 uppercase tracking-wider font-mono mb-2 block">Trading Token</label>
+                      <Select value={tradeToken} onValueChange={(v) => setSelectedToken(v as TradingToken)} disabled={!!marketToken}>
+                        <SelectTrigger className="h-11 bg-white/5 border-white/10 text-white/90 focus:border-purple-500/50">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent className="bg-slate-900 border-white/10">
+                          <SelectItem value="ETH">
+                            <div className="flex items-center gap-2">
+                              <Coins className="h-4 w-4 text-blue-400" />
+                              <span>ETH (Base Sepolia)</span>
+                            </div>
+                          </SelectItem>
+                          <SelectItem value="USDC">
+                            <div className="flex items-center gap-2">
+                              <DollarSign className="h-4 w-4 text-emerald-400" />
+                              <span>USDC (Base Sepolia)</span>
+                            </div>
+                          </SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
 
                   {/* Amount Input */}
                   <div>
-                    <label className="text-[10px] text-white/40 uppercase tracking-wider font-mono mb-2 block">Amount ({selectedToken})</label>
+                    <div className="flex justify-between items-center mb-2">
+                      <label className="text-[10px] text-white/40 uppercase tracking-wider font-mono block">
+                        {isSelling ? "Shares to sell" : `Amount (${tradeToken})`}
+                      </label>
+                      {isSelling && heldShares && parseFloat(heldShares) > 0 && (
+                        <button
+                          onClick={() => setAmount(heldShares)}
+                          className="text-[10px] text-purple-300/80 hover:text-purple-300 font-mono"
+                        >
+                          Max {parseFloat(heldShares).toFixed(4)}
+                        </button>
+                      )}
+                      {!isSelling && buyHeadroom !== null && (
+                        <button
+                          onClick={() => setAmount(String(buyHeadroom))}
+                          className="text-[10px] text-purple-300/80 hover:text-purple-300 font-mono"
+                        >
+                          Limit {buyHeadroom.toFixed(4)}
+                        </button>
+                      )}
+                    </div>
                     <Input
                       type="number"
                       placeholder="0.00"
@@ -669,20 +1319,47 @@ const MarketDetail = () => {
                       onChange={(e) => setAmount(e.target.value)}
                       className="h-11 bg-white/5 border-white/10 text-white/90 placeholder:text-white/20 focus:border-purple-500/50 font-mono"
                     />
+                    {overLimit && (
+                      <p className="text-[11px] text-red-400 mt-1.5">
+                        Above this market's buy limit, you can buy up to {buyHeadroom?.toFixed(4)} {tradingLimits?.symbol} more
+                      </p>
+                    )}
                   </div>
 
-                  {/* Potential Return */}
-                  <div className="flex justify-between items-center py-3 px-4 rounded-lg bg-white/[0.02] border border-white/5">
-                    <span className="text-xs text-white/40">Potential return</span>
-                    <span className="text-base font-bold text-emerald-400 font-mono">{potentialReturn} {selectedToken}</span>
-                  </div>
+                  {/* Quoted Shares */}
+                  {!isSelling && quotedShares && (
+                    <div className="flex justify-between items-center px-4 text-xs">
+                      <span className="text-white/40">Est. shares (avg price)</span>
+                      <span className="text-white/70 font-mono">
+                        {parseFloat(quotedShares).toFixed(4)} @ {(parseFloat(amount) / parseFloat(quotedShares)).toFixed(3)}
+                      </span>
+                    </div>
+                  )}
+
+                  {/* Potential Return / Sell Proceeds */}
+                  {isSelling ? (
+                    <div className="flex justify-between items-center py-3 px-4 rounded-lg bg-white/[0.02] border border-white/5">
+                      <span className="text-xs text-white/40">You receive (est.)</span>
+                      <span className="text-base font-bold text-purple-300 font-mono">
+                        {quotedProceeds ? parseFloat(quotedProceeds).toFixed(6) : "0.00"} {tradeToken}
+                      </span>
+                    </div>
+                  ) : (
+                    <div className="flex justify-between items-center py-3 px-4 rounded-lg bg-white/[0.02] border border-white/5">
+                      <span className="text-xs text-white/40">Potential return</span>
+                      <span className="text-base font-bold text-emerald-400 font-mono">{potentialReturn} {tradeToken}</span>
+                    </div>
+                  )}
 
                   {/* Blockchain Toggle */}
                   {hasBlockchainContract && (
                     <div className="flex items-center justify-between py-3 border-t border-white/5">
                       <span className="text-xs text-white/50">Trade on blockchain</span>
                       <button
-                        onClick={() => setUseBlockchain(!useBlockchain)}
+                        onClick={() => {
+                          setUseBlockchain(!useBlockchain);
+                          setTradeSide("buy");
+                        }}
                         className={`
                           relative inline-flex h-6 w-11 items-center rounded-full transition-all duration-300
                           ${useBlockchain 
@@ -706,11 +1383,13 @@ const MarketDetail = () => {
 
                   {/* Trade Button - Tactile depth effect */}
                   <Button 
-                    onClick={handleTrade}
-                    disabled={isTrading}
+                    onClick={isSelling ? handleSell : handleTrade}
+                    disabled={isTrading || tradingClosed || overLimit}
                     className={`
                       w-full h-12 gap-2 font-bold text-sm transition-all duration-300
-                      ${selectedOutcome === "yes" 
+                      ${isCategorical
+                        ? "bg-gradient-to-b from-purple-500 to-purple-600 hover:from-purple-400 hover:to-purple-500 shadow-[0_4px_0_0_#581c87,0_6px_20px_rgba(168,85,247,0.3)] active:shadow-[0_2px_0_0_#581c87] active:translate-y-[2px]"
+                        : selectedOutcome === "yes" 
                         ? "bg-gradient-to-b from-emerald-500 to-emerald-600 hover:from-emerald-400 hover:to-emerald-500 shadow-[0_4px_0_0_#065f46,0_6px_20px_rgba(16,185,129,0.3)] active:shadow-[0_2px_0_0_#065f46] active:translate-y-[2px]" 
                         : "bg-gradient-to-b from-red-500 to-red-600 hover:from-red-400 hover:to-red-500 shadow-[0_4px_0_0_#991b1b,0_6px_20px_rgba(239,68,68,0.3)] active:shadow-[0_2px_0_0_#991b1b] active:translate-y-[2px]"
                       }
@@ -724,7 +1403,7 @@ const MarketDetail = () => {
                     ) : (
                       <>
                         {useBlockchain && hasBlockchainContract && <Zap className="h-4 w-4" />}
-                        Buy {selectedOutcome === "yes" ? "Yes" : "No"}
+                        {isSelling ? "Sell" : "Buy"} {selectedLabel}
                       </>
                     )}
                   </Button>
@@ -741,6 +1420,8 @@ const MarketDetail = () => {
                     </p>
                   )}
                 </div>
+                </>
+                )}
               </CardContent>
             </Card>
 
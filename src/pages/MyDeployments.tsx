@@ -10,6 +10,7 @@ import { format } from "date-fns";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
 import { Link } from "react-router-dom";
+import { CreatorEarnings } from "@/components/CreatorEarnings";
 
 const MyDeployments = () => {
   const { address, isConnected } = useWallet();
@@ -185,6 +186,9 @@ const MyDeployments = () => {
             </CardContent>
           </Card>
 
+          {/* Creator fee share from winnings on Base markets */}
+          {deployments && deployments.length > 0 && <CreatorEarnings markets={deployments} />}
+
           {/* Stats */}
           {deployments && deployments.length > 0 && (
             <Card>
@@ -5,9 +5,12 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { useWalletAuth, formatAddress } from "@/contexts/WalletAuthContext";
-import { usePositions, useTrades } from "@/hooks/usePositions";
+import { usePositions, useTrades, getPositionLabel, getOutcomeIndex } from "@/hooks/usePositions";
 import { WalletModal } from "@/components/WalletModal";
 import { MultiFaucet } from "@/components/MultiFaucet";
+import { SendSharesDialog } from "@/components/SendSharesDialog";
+import { LiquidityPositions } from "@/components/LiquidityPositions";
+import { ClaimAll } from "@/components/ClaimAll";
 import { Wallet, TrendingUp, TrendingDown, Clock, ArrowRight, Zap, Copy, Check, Brain, ExternalLink } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
@@ -19,6 +22,15 @@ const formatCurrency = (amount: number) => {
   }).format(amount);
 };
 
+// On-chain markets are denominated in their collateral, simulated ones in dollars
+const formatAmount = (
+  amount: number,
+  market?: { base_contract_address: string | null; collateral_symbol: string; collateral_decimals: number } | null
+) => {
+  if (!market?.base_contract_address) return formatCurrency(amount);
+  return `${amount.toFixed(market.collateral_decimals > 6 ? 4 : 2)} ${market.collateral_symbol}`;
+};
+
 const formatDate = (dateString: string) => {
   return new Date(dateString).toLocaleDateString("en-US", {
     month: "short",
@@ -30,7 +42,7 @@ const formatDate = (dateString: string) => {
 
 const Portfolio = () => {
   const { address, balance, isConnected, networkName, chainId, profile } = useWalletAuth();
-  const { data: positions, isLoading: positionsLoading } = usePositions();
+  const { data: positions, isLoading: positionsLoading, refetch: refetchPositions } = usePositions();
   const { data: trades, isLoading: tradesLoading } = useTrades();
   const [walletModalOpen, setWalletModalOpen] = useState(false);
   const [copied, setCopied] = useState(false);
@@ -63,9 +75,12 @@ const Portfolio = () => {
 
   const totalInvested = positions?.reduce((sum, p) => sum + Number(p.total_invested), 0) || 0;
   const currentValue = positions?.reduce((sum, p) => {
+    // Categorical positions have no single probability, so value them at cost
     const marketProb = p.position_type === "yes" 
       ? p.market.probability / 100 
-      : (100 - p.market.probability) / 100;
+      : p.position_type === "no"
+        ? (100 - p.market.probability) / 100
+        : Number(p.avg_price);
     return sum + Number(p.shares) * marketProb;
   }, 0) || 0;
   const pnl = currentValue - totalInvested;
@@ -192,6 +207,9 @@ const Portfolio = () => {
           </Card>
         </div>
 
+        {/* Winnings across resolved markets, claimed in one transaction */}
+        <ClaimAll />
+
         {/* Positions */}
         <Card className="mb-8">
           <CardHeader>
@@ -203,30 +221,43 @@ const Portfolio = () => {
             ) : positions && positions.length > 0 ? (
               <div className="space-y-3">
                 {positions.map((position) => (
-                  <Link
-                    key={position.id}
-                    to={`/market/${position.market_id}`}
-                    className="flex items-center justify-between p-3 rounded-lg border border-border hover:bg-secondary/50 transition-colors"
-                  >
-                    <div className="flex-1">
-                      <p className="font-medium text-sm line-clamp-1">{position.market.title}</p>
-                      <div className="flex items-center gap-2 mt-1">
-                        <Badge variant={position.position_type === "yes" ? "default" : "destructive"} className={position.position_type === "yes" ? "bg-yes" : "bg-no"}>
-                          {position.position_type.toUpperCase()}
-                        </Badge>
-                        <span className="text-xs text-muted-foreground">
-                          {Number(position.shares).toFixed(2)} shares @ {(Number(position.avg_price) * 100).toFixed(0)}¢
-                        </span>
+                  <div key={position.id} className="flex items-center gap-2">
+                    <Link
+                      to={`/market/${position.market_id}`}
+                      className="flex flex-1 items-center justify-between p-3 rounded-lg border border-border hover:bg-secondary/50 transition-colors"
+                    >
+                      <div className="flex-1">
+                        <p className="font-medium text-sm line-clamp-1">{position.market.title}</p>
+                        <div className="flex items-center gap-2 mt-1">
+                          <Badge
+                            variant={position.position_type === "yes" ? "default" : position.position_type === "no" ? "destructive" : "secondary"}
+                            className={position.position_type === "yes" ? "bg-yes" : position.position_type === "no" ? "bg-no" : undefined}
+                          >
+                            {getPositionLabel(position.position_type, position.market.outcomes, position.market.market_type)}
+                          </Badge>
+                          <span className="text-xs text-muted-foreground">
+                            {Number(position.shares).toFixed(2)} shares @ {(Number(position.avg_price) * 100).toFixed(0)}¢
+                          </span>
+                        </div>
                       </div>
-                    </div>
-                    <div className="text-right">
-                      <p className="font-medium">{formatCurrency(Number(position.total_invested))}</p>
-                      <p className="text-xs text-muted-foreground">
-                        Current: {position.market.probability}%
-                      </p>
-                    </div>
-                    <ArrowRight className="h-4 w-4 ml-2 text-muted-foreground" />
-                  </Link>
+                      <div className="text-right">
+                        <p className="font-medium">{formatAmount(Number(position.total_invested), position.market)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Current: {position.market.probability}%
+                        </p>
+                      </div>
+                      <ArrowRight className="h-4 w-4 ml-2 text-muted-foreground" />
+                    </Link>
+                    {/* Scalar markets keep LONG/SHORT balances internal */}
+                    {position.market.base_contract_address && position.market.market_type !== "scalar" && (
+                      <SendSharesDialog
+                        contractAddress={position.market.base_contract_address}
+                        outcomeIndex={getOutcomeIndex(position.position_type)}
+                        outcomeLabel={getPositionLabel(position.position_type, position.market.outcomes, position.market.market_type)}
+                        onSent={() => refetchPositions()}
+                      />
+                    )}
+                  </div>
                 ))}
               </div>
             ) : (
@@ -237,6 +268,9 @@ const Portfolio = () => {
           </CardContent>
         </Card>
 
+        {/* Liquidity provided to on-chain markets */}
+        <LiquidityPositions />
+
         {/* Recent Trades */}
         <Card>
           <CardHeader>
@@ -273,7 +307,7 @@ const Portfolio = () => {
                       </div>
                     </div>
                     <div className="text-right">
-                      <p className="text-sm font-medium">{formatCurrency(Number(trade.total_amount))}</p>
+                      <p className="text-sm font-medium">{formatAmount(Number(trade.total_amount), trade.market)}</p>
                       <p className="text-xs text-muted-foreground flex items-center gap-1 justify-end">
                         <Clock className="h-3 w-3" />
                         {formatDate(trade.created_at)}
@@ -6,6 +6,8 @@ export interface Market {
   category: string;
   verified: boolean;
   endDate: string;
+  tradingClosesAt?: string | null; // Before endDate with a trading cutoff or an early close
+  resolutionStatus?: string;
   description: string;
   aiInsight: AIInsight;
   priceHistory: PricePoint[];
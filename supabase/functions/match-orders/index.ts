@@ -0,0 +1,230 @@
+// supabase/functions/match-orders/index.ts
+// Deploy with: supabase functions deploy match-orders --no-verify-jwt
+//
+// Matching engine for the Base order book. Pairs open YES bids with open NO bids
+// whose prices add up to at least 1 and settles each pair on-chain with
+// PredictionMarket.matchOrders, paying gas from MATCHER_PRIVATE_KEY. Before
+// matching it syncs fills, cancellations and expiries from the chain.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ethers } from "https://esm.sh/ethers@6.13.4";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const MATCHER_PRIVATE_KEY = Deno.env.get("MATCHER_PRIVATE_KEY");
+const BASE_SEPOLIA_RPC = Deno.env.get("BASE_SEPOLIA_RPC") || "https://sepolia.base.org";
+const BASE_SEPOLIA_CHAIN_ID = 84532;
+
+// Max pairs settled per request, so one call stays within the function timeout
+const MAX_FILLS = 5;
+const WAD = 10n ** 18n;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MARKET_ABI = [
+  "function collateral() view returns (address)",
+  "function orderFilled(bytes32) view returns (uint256)",
+  "function orderDeposits(address) view returns (uint256)",
+  "function matchOrders((address maker, uint256 outcome, uint256 price, uint256 shares, uint256 nonce, uint256 expiry) _yes, bytes _yesSignature, (address maker, uint256 outcome, uint256 price, uint256 shares, uint256 nonce, uint256 expiry) _no, bytes _noSignature, uint256 _shares)",
+];
+
+const ERC20_ABI = [
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function balanceOf(address account) view returns (uint256)",
+];
+
+const ORDER_TYPES = {
+  Order: [
+    { name: "maker", type: "address" },
+    { name: "outcome", type: "uint256" },
+    { name: "price", type: "uint256" },
+    { name: "shares", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+  ],
+};
+
+interface MatchRequest {
+  marketId: string;
+  cancelledOrderId?: string; // Maker cancelled on-chain, mark it cancelled instead of filled
+}
+
+interface OrderRow {
+  id: string;
+  maker: string;
+  outcome: number;
+  price: string;
+  shares: string;
+  nonce: string;
+  expiry: number;
+  signature: string;
+  filled: string;
+  created_at: string;
+}
+
+const toOrder = (row: OrderRow) => ({
+  maker: row.maker,
+  outcome: row.outcome,
+  price: BigInt(row.price),
+  shares: BigInt(row.shares),
+  nonce: BigInt(row.nonce),
+  expiry: BigInt(row.expiry),
+});
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !MATCHER_PRIVATE_KEY) {
+      throw new Error("SUPABASE_SERVICE_ROLE_KEY and MATCHER_PRIVATE_KEY must be configured");
+    }
+
+    const { marketId, cancelledOrderId } = await req.json() as MatchRequest;
+    if (!marketId) {
+      return jsonResponse({ error: "marketId is required" }, 400);
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const { data: market, error: marketError } = await supabase
+      .from("markets")
+      .select("id, base_contract_address")
+      .eq("id", marketId)
+      .single();
+    if (marketError || !market?.base_contract_address) {
+      return jsonResponse({ error: "Market has no Base contract" }, 404);
+    }
+
+    const provider = new ethers.JsonRpcProvider(BASE_SEPOLIA_RPC);
+    const matcher = new ethers.Wallet(MATCHER_PRIVATE_KEY, provider);
+    const contract = new ethers.Contract(market.base_contract_address, MARKET_ABI, matcher);
+    const domain = {
+      name: "PredictionMarket",
+      version: "1",
+      chainId: BASE_SEPOLIA_CHAIN_ID,
+      verifyingContract: market.base_contract_address,
+    };
+
+    const { data: rows, error: ordersError } = await supabase
+      .from("orders")
+      .select("*")
+      .eq("market_id", marketId)
+      .eq("status", "open");
+    if (ordersError) throw ordersError;
+
+    // Sync every open order with the chain and drop ones that can't be filled
+    const now = BigInt(Math.floor(Date.now() / 1000));
+    const book: { row: OrderRow; remaining: bigint }[] = [];
+    for (const row of (rows ?? []) as OrderRow[]) {
+      const order = toOrder(row);
+      const hash = ethers.TypedDataEncoder.hash(domain, ORDER_TYPES, order);
+      const signer = ethers.recoverAddress(hash, row.signature);
+      const filled: bigint = await contract.orderFilled(hash);
+
+      let status: string | null = null;
+      if (signer.toLowerCase() !== row.maker.toLowerCase()) status = "cancelled";
+      else if (filled >= order.shares) status = row.id === cancelledOrderId ? "cancelled" : "filled";
+      else if (order.expiry < now) status = "expired";
+
+      if (status || filled.toString() !== row.filled) {
+        await supabase.from("orders").update({ filled: filled.toString(), ...(status && { status }) }).eq("id", row.id);
+      }
+      if (!status) book.push({ row, remaining: order.shares - filled });
+    }
+
+    // Best price first, then oldest first
+    const byPrice = (a: { row: OrderRow }, b: { row: OrderRow }) => {
+      const diff = BigInt(b.row.price) - BigInt(a.row.price);
+      if (diff !== 0n) return diff > 0n ? 1 : -1;
+      return a.row.created_at.localeCompare(b.row.created_at);
+    };
+    const yesBids = book.filter((o) => o.row.outcome === 0).sort(byPrice);
+    const noBids = book.filter((o) => o.row.outcome === 1).sort(byPrice);
+
+    // What each maker can still pay: their ETH deposit, or the token allowance and balance
+    const collateral: string = await contract.collateral();
+    const token = collateral === ethers.ZeroAddress ? null : new ethers.Contract(collateral, ERC20_ABI, provider);
+    const funds: Record<string, bigint> = {};
+    const available = async (maker: string) => {
+      if (funds[maker] === undefined) {
+        if (token) {
+          const [allowance, balance] = await Promise.all([
+            token.allowance(maker, market.base_contract_address),
+            token.balanceOf(maker),
+          ]);
+          funds[maker] = allowance < balance ? allowance : balance;
+        } else {
+          funds[maker] = await contract.orderDeposits(maker);
+        }
+      }
+      return funds[maker];
+    };
+
+    const fills: { yesOrderId: string; noOrderId: string; shares: string; txHash: string }[] = [];
+    let y = 0;
+    let n = 0;
+    while (y < yesBids.length && n < noBids.length && fills.length < MAX_FILLS) {
+      const yes = yesBids[y];
+      const no = noBids[n];
+      const yesPrice = BigInt(yes.row.price);
+      const noPrice = BigInt(no.row.price);
+      if (yesPrice + noPrice < WAD) break;
+
+      // Same split as the contract: the makers meet at the midpoint of their prices
+      let shares = yes.remaining < no.remaining ? yes.remaining : no.remaining;
+      const yesUnit = (yesPrice + WAD - noPrice) / 2n;
+      const yesFunds = await available(yes.row.maker);
+      const noFunds = await available(no.row.maker);
+      const maxByYes = (yesFunds * WAD) / (yesUnit || 1n);
+      const maxByNo = (noFunds * WAD) / (WAD - yesUnit || 1n);
+      if (maxByYes < shares) shares = maxByYes;
+      if (maxByNo < shares) shares = maxByNo;
+
+      if (shares === 0n) {
+        // Skip whichever side can't pay and keep matching the other
+        if (maxByYes === 0n) y++;
+        if (maxByNo === 0n) n++;
+        continue;
+      }
+
+      try {
+        const tx = await contract.matchOrders(
+          toOrder(yes.row), yes.row.signature, toOrder(no.row), no.row.signature, shares
+        );
+        await tx.wait();
+        fills.push({ yesOrderId: yes.row.id, noOrderId: no.row.id, shares: shares.toString(), txHash: tx.hash });
+      } catch (error) {
+        console.error("matchOrders failed:", error);
+        break;
+      }
+
+      const yesCost = (shares * yesUnit) / WAD;
+      funds[yes.row.maker] -= yesCost;
+      funds[no.row.maker] -= shares - yesCost;
+
+      for (const side of [yes, no]) {
+        side.remaining -= shares;
+        const filled = BigInt(side.row.shares) - side.remaining;
+        await supabase
+          .from("orders")
+          .update({ filled: filled.toString(), ...(side.remaining === 0n && { status: "filled" }) })
+          .eq("id", side.row.id);
+      }
+      if (yes.remaining === 0n) y++;
+      if (no.remaining === 0n) n++;
+    }
+
+    return jsonResponse({ success: true, matched: fills.length, fills });
+  } catch (error) {
+    console.error("match-orders error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Matching failed" }, 500);
+  }
+});
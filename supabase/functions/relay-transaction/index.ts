@@ -0,0 +1,136 @@
+// supabase/functions/relay-transaction/index.ts
+// Deploy with: supabase functions deploy relay-transaction --no-verify-jwt
+//
+// Gas sponsor for EIP-2771 meta-transactions. Takes a ForwardRequest the user signed
+// and submits it through the TrustedForwarder, paying gas from RELAYER_PRIVATE_KEY.
+// Only calls to the factory or its markets are relayed, without ETH value, and each
+// wallet gets RELAY_DAILY_QUOTA relayed calls per rolling 24 hours, reserved with
+// reserve_relay_slot before anything is sent.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ethers } from "https://esm.sh/ethers@6.13.4";
+
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+const RELAYER_PRIVATE_KEY = Deno.env.get("RELAYER_PRIVATE_KEY");
+const FORWARDER_ADDRESS = Deno.env.get("FORWARDER_ADDRESS");
+const FACTORY_ADDRESS = Deno.env.get("FACTORY_ADDRESS");
+const BASE_SEPOLIA_RPC = Deno.env.get("BASE_SEPOLIA_RPC") || "https://sepolia.base.org";
+const RELAY_DAILY_QUOTA = Number(Deno.env.get("RELAY_DAILY_QUOTA") || 20);
+
+// Most gas one request may ask for; market creation is the most expensive call
+const MAX_RELAY_GAS = 3_000_000n;
+const QUOTA_WINDOW = "24 hours";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const FORWARD_REQUEST = "(address from, address to, uint256 value, uint256 gas, uint256 nonce, uint256 deadline, bytes data)";
+
+const FORWARDER_ABI = [
+  `function verify(${FORWARD_REQUEST} _request, bytes _signature) view returns (bool)`,
+  `function execute(${FORWARD_REQUEST} _request, bytes _signature) payable returns (bytes)`,
+];
+
+const FACTORY_ABI = ["function isMarket(address) view returns (bool)"];
+const RECIPIENT_ABI = ["function trustedForwarder() view returns (address)"];
+
+interface ForwardRequest {
+  from: string;
+  to: string;
+  value: string;
+  gas: string;
+  nonce: string;
+  deadline: string;
+  data: string;
+}
+
+interface RelayRequest {
+  request: ForwardRequest;
+  signature: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY || !RELAYER_PRIVATE_KEY || !FORWARDER_ADDRESS || !FACTORY_ADDRESS) {
+      throw new Error("RELAYER_PRIVATE_KEY, FORWARDER_ADDRESS and FACTORY_ADDRESS must be configured");
+    }
+
+    const { request, signature } = await req.json() as RelayRequest;
+    if (!request?.from || !request?.to || !request?.data || !signature) {
+      return jsonResponse({ error: "request and signature are required" }, 400);
+    }
+    if (BigInt(request.value) !== 0n) {
+      return jsonResponse({ error: "Relayed calls can't send ETH" }, 400);
+    }
+    if (BigInt(request.gas) > MAX_RELAY_GAS) {
+      return jsonResponse({ error: `Gas limit above ${MAX_RELAY_GAS}` }, 400);
+    }
+
+    const provider = new ethers.JsonRpcProvider(BASE_SEPOLIA_RPC);
+    const relayer = new ethers.Wallet(RELAYER_PRIVATE_KEY, provider);
+    const forwarder = new ethers.Contract(FORWARDER_ADDRESS, FORWARDER_ABI, relayer);
+
+    // Only sponsor the factory and its markets, and only ones that trust our forwarder
+    const target = ethers.getAddress(request.to);
+    const isFactory = target === ethers.getAddress(FACTORY_ADDRESS);
+    if (!isFactory && !(await new ethers.Contract(FACTORY_ADDRESS, FACTORY_ABI, provider).isMarket(target))) {
+      return jsonResponse({ error: "Target is not a prediction market" }, 400);
+    }
+    const trusted: string = await new ethers.Contract(target, RECIPIENT_ABI, provider).trustedForwarder();
+    if (trusted !== ethers.getAddress(FORWARDER_ADDRESS)) {
+      return jsonResponse({ error: "Market does not accept relayed calls" }, 400);
+    }
+    if (!(await forwarder.verify(request, signature))) {
+      return jsonResponse({ error: "Invalid signature, nonce or deadline" }, 400);
+    }
+
+    // Simulate first so a reverting call costs the relayer nothing, nor the wallet a slot
+    try {
+      await forwarder.execute.staticCall(request, signature);
+    } catch (error) {
+      const err = error as { shortMessage?: string; reason?: string; message?: string };
+      return jsonResponse({ error: err.reason || err.shortMessage || err.message || "Call would revert" }, 400);
+    }
+
+    // Take a quota slot before sending. Nothing is sent unless the reservation succeeds, and a
+    // sent transaction's slot stays taken even if the send or the update below fails.
+    const wallet = request.from.toLowerCase();
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const { data: slots, error: reserveError } = await supabase.rpc("reserve_relay_slot", {
+      _wallet: wallet,
+      _target: target.toLowerCase(),
+      _quota: RELAY_DAILY_QUOTA,
+      _window: QUOTA_WINDOW,
+    });
+    if (reserveError) throw reserveError;
+    const slot = (slots as { slot_id: string; remaining: number }[] | null)?.[0];
+    if (!slot) {
+      return jsonResponse({ error: "Daily gasless quota used up", remaining: 0 }, 429);
+    }
+
+    const tx = await forwarder.execute(request, signature);
+    const receipt = await tx.wait();
+
+    const { error: updateError } = await supabase
+      .from("relayed_transactions")
+      .update({ tx_hash: tx.hash, gas_used: receipt.gasUsed.toString() })
+      .eq("id", slot.slot_id);
+    if (updateError) console.error("Failed to record relayed transaction:", updateError);
+
+    return jsonResponse({ success: true, txHash: tx.hash, remaining: slot.remaining });
+  } catch (error) {
+    console.error("relay-transaction error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Relay failed" }, 500);
+  }
+});
@@ -0,0 +1,31 @@
+-- Categorical (multi-outcome) markets
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS market_type TEXT NOT NULL DEFAULT 'binary';
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS outcomes TEXT[];
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS resolved_outcome_index INTEGER;
+
+ALTER TABLE public.markets ADD CONSTRAINT markets_market_type_check
+  CHECK (market_type IN ('binary', 'categorical'));
+
+ALTER TABLE public.markets ADD CONSTRAINT markets_outcomes_check
+  CHECK (
+    (market_type = 'binary' AND outcomes IS NULL)
+    OR (market_type = 'categorical' AND array_length(outcomes, 1) BETWEEN 3 AND 20)
+  );
+
+-- Categorical markets resolve to an outcome index rather than yes/no
+ALTER TABLE public.markets DROP CONSTRAINT IF EXISTS markets_resolution_status_check;
+ALTER TABLE public.markets ADD CONSTRAINT markets_resolution_status_check
+  CHECK (resolution_status IN ('open', 'pending_resolution', 'resolved_yes', 'resolved_no', 'resolved', 'disputed'));
+
+-- Positions and trades on categorical markets use 'outcome_<index>'
+ALTER TABLE public.positions DROP CONSTRAINT IF EXISTS positions_position_type_check;
+ALTER TABLE public.positions ADD CONSTRAINT positions_position_type_check
+  CHECK (position_type ~ '^(yes|no|outcome_([0-9]|1[0-9]))$');
+
+ALTER TABLE public.trades DROP CONSTRAINT IF EXISTS trades_position_type_check;
+ALTER TABLE public.trades ADD CONSTRAINT trades_position_type_check
+  CHECK (position_type ~ '^(yes|no|outcome_([0-9]|1[0-9]))$');
+
+COMMENT ON COLUMN public.markets.market_type IS 'binary (YES/NO) or categorical (3-20 named outcomes)';
+COMMENT ON COLUMN public.markets.outcomes IS 'Outcome names in contract index order, categorical markets only';
+COMMENT ON COLUMN public.markets.resolved_outcome_index IS 'Winning outcome index once a categorical market is resolved';
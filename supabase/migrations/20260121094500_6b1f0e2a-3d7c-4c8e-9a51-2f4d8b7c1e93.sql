@@ -0,0 +1,27 @@
+-- Scalar (range) markets
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS scalar_lower NUMERIC;
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS scalar_upper NUMERIC;
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS resolved_value NUMERIC;
+
+ALTER TABLE public.markets DROP CONSTRAINT IF EXISTS markets_market_type_check;
+ALTER TABLE public.markets ADD CONSTRAINT markets_market_type_check
+  CHECK (market_type IN ('binary', 'categorical', 'scalar'));
+
+ALTER TABLE public.markets DROP CONSTRAINT IF EXISTS markets_outcomes_check;
+ALTER TABLE public.markets ADD CONSTRAINT markets_outcomes_check
+  CHECK (
+    (market_type IN ('binary', 'scalar') AND outcomes IS NULL)
+    OR (market_type = 'categorical' AND array_length(outcomes, 1) BETWEEN 3 AND 20)
+  );
+
+ALTER TABLE public.markets ADD CONSTRAINT markets_scalar_bounds_check
+  CHECK (
+    (market_type <> 'scalar' AND scalar_lower IS NULL AND scalar_upper IS NULL)
+    OR (market_type = 'scalar' AND scalar_lower IS NOT NULL AND scalar_upper > scalar_lower)
+  );
+
+COMMENT ON COLUMN public.markets.market_type IS 'binary (YES/NO), categorical (3-20 named outcomes) or scalar (LONG/SHORT on a range)';
+COMMENT ON COLUMN public.markets.scalar_lower IS 'Value at which SHORT pays out in full, scalar markets only';
+COMMENT ON COLUMN public.markets.scalar_upper IS 'Value at which LONG pays out in full, scalar markets only';
+COMMENT ON COLUMN public.markets.resolved_value IS 'Observed value once a scalar market is resolved (may fall outside the bounds)';
+-- Scalar positions and trades reuse position_type yes (LONG) / no (SHORT)
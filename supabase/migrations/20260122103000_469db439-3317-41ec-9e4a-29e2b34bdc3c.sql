@@ -0,0 +1,6 @@
+-- Ambiguous markets can resolve INVALID, refunding every trader's stake
+ALTER TABLE public.markets DROP CONSTRAINT IF EXISTS markets_resolution_status_check;
+ALTER TABLE public.markets ADD CONSTRAINT markets_resolution_status_check
+  CHECK (resolution_status IN ('open', 'pending_resolution', 'resolved_yes', 'resolved_no', 'resolved', 'disputed', 'invalid'));
+
+COMMENT ON COLUMN public.markets.resolution_status IS 'open, pending_resolution, resolved_yes, resolved_no, resolved, disputed or invalid (voided, stakes refunded)';
@@ -0,0 +1,8 @@
+-- Base markets can settle in an ERC-20 (e.g. USDC) instead of ETH
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS collateral_address TEXT;
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS collateral_symbol TEXT NOT NULL DEFAULT 'ETH';
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS collateral_decimals INTEGER NOT NULL DEFAULT 18;
+
+COMMENT ON COLUMN public.markets.collateral_address IS 'ERC-20 collateral token on Base; NULL for ETH markets';
+COMMENT ON COLUMN public.markets.collateral_symbol IS 'Symbol trades and payouts are denominated in';
+COMMENT ON COLUMN public.markets.collateral_decimals IS 'Decimals of the collateral token (18 for ETH)';
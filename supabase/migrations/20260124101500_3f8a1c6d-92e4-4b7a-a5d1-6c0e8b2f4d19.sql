@@ -0,0 +1,40 @@
+-- EIP-712 signed limit orders for Base markets. The match-orders function pairs
+-- crossing YES/NO bids and settles them with PredictionMarket.matchOrders.
+CREATE TABLE public.orders (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    market_id UUID NOT NULL REFERENCES public.markets(id) ON DELETE CASCADE,
+    contract_address TEXT NOT NULL,
+    maker TEXT NOT NULL,
+    outcome INTEGER NOT NULL CHECK (outcome IN (0, 1)),
+    price TEXT NOT NULL,
+    shares TEXT NOT NULL,
+    nonce TEXT NOT NULL,
+    expiry BIGINT NOT NULL,
+    signature TEXT NOT NULL,
+    filled TEXT NOT NULL DEFAULT '0',
+    status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'filled', 'cancelled', 'expired')),
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE(contract_address, signature)
+);
+
+CREATE INDEX idx_orders_book ON public.orders (market_id, status, outcome);
+
+COMMENT ON COLUMN public.orders.outcome IS 'On-chain outcome index: 0 = YES, 1 = NO';
+COMMENT ON COLUMN public.orders.price IS 'Limit price in collateral per share, 18-decimal fixed point';
+COMMENT ON COLUMN public.orders.shares IS 'Order size in share base units (collateral decimals)';
+COMMENT ON COLUMN public.orders.expiry IS 'Unix timestamp after which the order can no longer be filled';
+COMMENT ON COLUMN public.orders.filled IS 'Shares filled on-chain, synced by match-orders';
+
+ALTER TABLE public.orders ENABLE ROW LEVEL SECURITY;
+
+-- Orders are public; status and fills are only written by match-orders (service role)
+CREATE POLICY "Orders are viewable by everyone"
+ON public.orders FOR SELECT USING (true);
+
+CREATE POLICY "Allow all order inserts"
+ON public.orders FOR INSERT WITH CHECK (status = 'open' AND filled = '0');
+
+CREATE TRIGGER update_orders_updated_at
+BEFORE UPDATE ON public.orders
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
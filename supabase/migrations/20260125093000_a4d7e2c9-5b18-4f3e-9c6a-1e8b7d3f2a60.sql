@@ -0,0 +1,22 @@
+-- Meta-transactions the relay-transaction function paid gas for. Each wallet gets
+-- RELAY_DAILY_QUOTA relayed calls per rolling 24 hours, counted from this table.
+CREATE TABLE public.relayed_transactions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    wallet TEXT NOT NULL,
+    target TEXT NOT NULL,
+    tx_hash TEXT NOT NULL UNIQUE,
+    gas_used TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_relayed_transactions_wallet ON public.relayed_transactions (wallet, created_at DESC);
+
+COMMENT ON COLUMN public.relayed_transactions.wallet IS 'Lowercased address that signed the forward request';
+COMMENT ON COLUMN public.relayed_transactions.target IS 'Factory or market the request called';
+COMMENT ON COLUMN public.relayed_transactions.gas_used IS 'Gas the relayer paid for, as a decimal string';
+
+ALTER TABLE public.relayed_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Rows are only written by relay-transaction (service role)
+CREATE POLICY "Relayed transactions are viewable by everyone"
+ON public.relayed_transactions FOR SELECT USING (true);
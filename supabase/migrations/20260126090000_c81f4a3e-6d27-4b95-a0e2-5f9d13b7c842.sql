@@ -0,0 +1,5 @@
+-- Base markets stop trading a set time before their end date, or as soon as the
+-- creator closes them early because the event already happened
+ALTER TABLE public.markets ADD COLUMN IF NOT EXISTS trading_closes_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.markets.trading_closes_at IS 'When trading stops (the on-chain tradingEndTime); NULL trades until end_date';
@@ -0,0 +1,37 @@
+-- Audit trail of GenLayer resolutions: what each resolver decided, why, and the evidence
+-- its validators agreed on. Rows copy the contract's get_resolution(), so they can be
+-- checked against chain; the first row recorded for a contract is the one kept.
+CREATE TABLE public.resolutions (
+    id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+    market_id UUID NOT NULL REFERENCES public.markets(id) ON DELETE CASCADE,
+    contract_address TEXT NOT NULL UNIQUE,
+    resolver_version INTEGER NOT NULL,
+    outcome INTEGER,
+    resolved_value TEXT,
+    is_invalid BOOLEAN NOT NULL DEFAULT false,
+    reasoning TEXT NOT NULL DEFAULT '',
+    evidence_url TEXT,
+    evidence_quote TEXT,
+    resolved_at TIMESTAMP WITH TIME ZONE,
+    tx_hash TEXT,
+    recorded_by TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_resolutions_market ON public.resolutions (market_id);
+
+COMMENT ON COLUMN public.resolutions.contract_address IS 'GenLayer resolver the resolution was read from';
+COMMENT ON COLUMN public.resolutions.resolver_version IS 'Resolver interface version (src/lib/resolverInterface.ts)';
+COMMENT ON COLUMN public.resolutions.outcome IS 'Winning outcome index (0 = YES, 1 = NO for binary), null for invalid and scalar markets';
+COMMENT ON COLUMN public.resolutions.resolved_value IS 'Resolved value of a scalar market, as a decimal string';
+COMMENT ON COLUMN public.resolutions.resolved_at IS 'Resolution time recorded by the contract, null for resolvers from before version 2';
+COMMENT ON COLUMN public.resolutions.tx_hash IS 'GenLayer transaction that resolved the market, when recorded by the resolver';
+
+ALTER TABLE public.resolutions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Resolutions are viewable by everyone"
+ON public.resolutions FOR SELECT USING (true);
+
+-- Anyone who reads a resolved contract can record it; rows are never updated
+CREATE POLICY "Allow all resolution inserts"
+ON public.resolutions FOR INSERT WITH CHECK (true);
@@ -0,0 +1,42 @@
+-- relay-transaction now reserves a wallet's slot before sending its transaction, so
+-- a row exists before its hash and gas are known
+ALTER TABLE public.relayed_transactions ALTER COLUMN tx_hash DROP NOT NULL;
+ALTER TABLE public.relayed_transactions ALTER COLUMN gas_used DROP NOT NULL;
+
+COMMENT ON COLUMN public.relayed_transactions.tx_hash IS 'Relayed transaction, null while the reserved slot''s transaction is being sent';
+COMMENT ON COLUMN public.relayed_transactions.gas_used IS 'Gas the relayer paid for, as a decimal string, null until mined';
+
+-- Reserve one of a wallet's relayed calls before its transaction is sent. Requests for the
+-- same wallet are serialized, so concurrent ones can't all pass the count. Returns the
+-- reserved row's id and the calls left after it, or no row when the quota is used up.
+CREATE OR REPLACE FUNCTION public.reserve_relay_slot(
+    _wallet TEXT,
+    _target TEXT,
+    _quota INTEGER,
+    _window INTERVAL
+)
+RETURNS TABLE (slot_id UUID, remaining INTEGER)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+    _used INTEGER;
+BEGIN
+    PERFORM pg_advisory_xact_lock(hashtext('relay:' || _wallet));
+
+    SELECT count(*) INTO _used FROM public.relayed_transactions
+    WHERE wallet = _wallet AND created_at >= now() - _window;
+    IF _used >= _quota THEN
+        RETURN;
+    END IF;
+
+    INSERT INTO public.relayed_transactions (wallet, target)
+    VALUES (_wallet, _target)
+    RETURNING id INTO slot_id;
+    remaining := _quota - _used - 1;
+    RETURN NEXT;
+END;
+$$;
+
+-- Only the relay-transaction function (service role) reserves slots
+REVOKE EXECUTE ON FUNCTION public.reserve_relay_slot(TEXT, TEXT, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
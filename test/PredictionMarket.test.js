@@ -1,9 +1,14 @@
 const { expect } = require("chai");
-const { ethers } = require("hardhat");
+const { ethers, artifacts } = require("hardhat");
+const { signAttestation, relayOutcome, toOutcomeIndex, readGenLayerStatus } = require("../scripts/relayer.cjs");
+const { hashMarketMetadata, metadataFromRow, readCreatedMarkets } = require("../scripts/rebuild-markets.cjs");
 
 describe("PredictionMarket", function () {
   let factory;
   let market;
+  let libraries;
+  let implementation;
+  let extension;
   let owner;
   let creator;
   let trader1;
@@ -12,6 +17,17 @@ describe("PredictionMarket", function () {
   const QUESTION = "Will ETH hit $5000 by end of 2025?";
   const DESCRIPTION = "Resolves YES if ETH price exceeds $5000 USD";
   const DURATION_DAYS = 7;
+  const RESOLUTION_WINDOW = 30 * 24 * 60 * 60;
+  const LIQUIDITY = ethers.parseEther("0.1");
+  // Category, resolution source, GenLayer resolver and content hash
+  const METADATA = ["Crypto", "https://www.coingecko.com/en/coins/ethereum", ethers.ZeroAddress, ethers.ZeroHash];
+
+  // End time `days` from the latest block, the resolution deadline after it and the trading cutoff
+  async function schedule(days = DURATION_DAYS, cutoff = 0) {
+    const { timestamp } = await ethers.provider.getBlock("latest");
+    const endTime = timestamp + days * 24 * 60 * 60;
+    return [endTime, endTime + RESOLUTION_WINDOW, cutoff];
+  }
 
   beforeEach(async function () {
     [owner, creator, trader1, trader2] = await ethers.getSigners();
@@ -21,11 +37,29 @@ describe("PredictionMarket", function () {
     factory = await Factory.deploy();
     await factory.waitForDeployment();
 
+    // Markets delegate LMSR math to the linked library to stay under the size limit
+    const LMSRMath = await ethers.getContractFactory("LMSRMath");
+    const lmsrMath = await LMSRMath.deploy();
+    await lmsrMath.waitForDeployment();
+    libraries = { LMSRMath: await lmsrMath.getAddress() };
+
+    // Markets are clones of the registered implementation, which hands the order book
+    // and liquidity functions to its extension
+    const Extension = await ethers.getContractFactory("PredictionMarketExtension", { libraries });
+    extension = await Extension.deploy();
+    await extension.waitForDeployment();
+    const Implementation = await ethers.getContractFactory("PredictionMarket", { libraries });
+    implementation = await Implementation.deploy(await extension.getAddress());
+    await implementation.waitForDeployment();
+    await factory.registerImplementation(await implementation.getAddress());
+
     // Create a market
     const tx = await factory.connect(creator).createMarket(
       QUESTION,
       DESCRIPTION,
-      DURATION_DAYS
+      METADATA,
+      ...(await schedule()),
+      { value: LIQUIDITY }
     );
     const receipt = await tx.wait();
     
@@ -39,12 +73,12 @@ describe("PredictionMarket", function () {
     const marketAddress = parsedEvent.args[1];
 
     // Get market contract
-    market = await ethers.getContractAt("PredictionMarket", marketAddress);
+    market = await marketAt(marketAddress);
   });
 
   describe("Factory", function () {
     it("Should deploy factory correctly", async function () {
-      expect(await factory.owner()).to.equal(owner.address);
+      expect(await factory.hasRole(await factory.ADMIN_ROLE(), owner.address)).to.equal(true);
       expect(await factory.marketCount()).to.equal(1);
     });
 
@@ -57,6 +91,204 @@ describe("PredictionMarket", function () {
       const creatorMarkets = await factory.getMarketsByCreator(creator.address);
       expect(creatorMarkets.length).to.equal(1);
     });
+
+    it("Should record market metadata and emit it with MarketCreated", async function () {
+      const [endTime, deadline] = await schedule();
+      const contentHash = hashMarketMetadata({
+        question: QUESTION,
+        description: DESCRIPTION,
+        category: "Sports",
+        resolutionSource: "https://www.espn.com",
+        endTime,
+        outcomes: [],
+      });
+      const metadata = ["Sports", "https://www.espn.com", trader2.address, contentHash];
+
+      const receipt = await (await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, metadata, endTime, deadline, 0, { value: LIQUIDITY })).wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "MarketCreated");
+      expect(event.args.category).to.equal("Sports");
+      expect(event.args.resolutionSource).to.equal("https://www.espn.com");
+      expect(event.args.genLayerResolver).to.equal(trader2.address);
+      expect(event.args.contentHash).to.equal(contentHash);
+
+      const stored = await factory.marketMetadata(event.args.marketAddress);
+      expect(stored.category).to.equal("Sports");
+      expect(stored.resolutionSource).to.equal("https://www.espn.com");
+      expect(stored.genLayerResolver).to.equal(trader2.address);
+      expect(stored.contentHash).to.equal(contentHash);
+    });
+
+    it("Should rebuild market rows from chain that match their content hash", async function () {
+      const [endTime, deadline] = await schedule();
+      const outcomes = ["Red", "Green", "Blue"];
+      const contentHash = hashMarketMetadata({
+        question: QUESTION, description: DESCRIPTION, category: "Culture", resolutionSource: "", endTime, outcomes,
+      });
+      await factory.connect(creator).createCategoricalMarket(
+        QUESTION, DESCRIPTION, ["Culture", "", ethers.ZeroAddress, contentHash], endTime, deadline, 0, outcomes, { value: LIQUIDITY }
+      );
+
+      const markets = await readCreatedMarkets(factory);
+      expect(markets.length).to.equal(2);
+      expect(markets[0].row).to.include({
+        title: QUESTION,
+        description: DESCRIPTION,
+        category: "Crypto",
+        market_type: "binary",
+        base_contract_address: await market.getAddress(),
+        created_by: creator.address,
+        genlayer_resolution_address: null,
+      });
+
+      const { row, contentHash: recorded } = markets[1];
+      expect(row.market_type).to.equal("categorical");
+      expect(row.outcomes).to.deep.equal(outcomes);
+      expect(recorded).to.equal(contentHash);
+      expect(hashMarketMetadata(metadataFromRow(row))).to.equal(contentHash);
+      // Editing the row off-chain breaks the match
+      expect(hashMarketMetadata(metadataFromRow({ ...row, category: "Politics" }))).to.not.equal(contentHash);
+    });
+
+    it("Should forward liquidity to the market", async function () {
+      expect(await ethers.provider.getBalance(await market.getAddress())).to.equal(LIQUIDITY);
+      expect(await market.subsidy()).to.equal(LIQUIDITY);
+    });
+
+    it("Should reject markets without liquidity", async function () {
+      await expect(
+        factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()))
+      ).to.be.revertedWith("Insufficient liquidity");
+    });
+
+    it("Should make the factory the market owner", async function () {
+      expect(await market.owner()).to.equal(await factory.getAddress());
+      expect(await market.creator()).to.equal(creator.address);
+    });
+
+    it("Should not let markets be initialized again", async function () {
+      const config = [creator.address, 0, 0, ethers.ZeroAddress, 0, 0, 0, ethers.ZeroAddress, 0, ethers.ZeroAddress, ethers.ZeroAddress];
+      await expect(
+        market.connect(creator).initialize(creator.address, QUESTION, DESCRIPTION, ...(await schedule()), ["Yes", "No"], config, { value: LIQUIDITY })
+      ).to.be.revertedWith("Already initialized");
+      // The implementation itself is locked too
+      await expect(
+        implementation.connect(creator).initialize(creator.address, QUESTION, DESCRIPTION, ...(await schedule()), ["Yes", "No"], config, { value: LIQUIDITY })
+      ).to.be.revertedWith("Already initialized");
+    });
+
+    it("Should not create markets without an implementation", async function () {
+      const Factory = await ethers.getContractFactory("PredictionMarketFactory");
+      const emptyFactory = await Factory.deploy();
+      await expect(
+        emptyFactory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY })
+      ).to.be.revertedWith("Markets disabled");
+    });
+  });
+
+  describe("Market Enumeration", function () {
+    const OPEN = 0;
+    const ENDED = 1;
+    const RESOLVED = 2;
+    let allMarkets;
+
+    beforeEach(async function () {
+      // Market 1 runs a day, markets 2 and 3 run the full duration
+      await factory.connect(creator).createMarket("Short market", DESCRIPTION, METADATA, ...(await schedule(1)), { value: LIQUIDITY });
+      await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY });
+      await factory.connect(creator).createCategoricalMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), ["A", "B", "C"], { value: LIQUIDITY });
+      allMarkets = await factory.getAllMarkets();
+    });
+
+    it("Should page through markets in creation order", async function () {
+      expect(await factory.getMarkets(0, 2)).to.deep.equal(allMarkets.slice(0, 2));
+      expect(await factory.getMarkets(2, 10)).to.deep.equal(allMarkets.slice(2));
+      expect(await factory.getMarkets(4, 10)).to.deep.equal([]);
+    });
+
+    it("Should filter markets by status", async function () {
+      await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      const shortMarket = await marketAt(allMarkets[1]);
+      await shortMarket.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(shortMarket);
+
+      const [open, openNext] = await factory.getMarketsByStatus(OPEN, 0, 10);
+      expect(open).to.deep.equal([allMarkets[0], allMarkets[2], allMarkets[3]]);
+      expect(openNext).to.equal(4);
+
+      const [resolved] = await factory.getMarketsByStatus(RESOLVED, 0, 10);
+      expect(resolved).to.deep.equal([allMarkets[1]]);
+      const [ended] = await factory.getMarketsByStatus(ENDED, 0, 10);
+      expect(ended).to.deep.equal([]);
+    });
+
+    it("Should stop at the limit and return where to continue", async function () {
+      const [first, next] = await factory.getMarketsByStatus(OPEN, 0, 2);
+      expect(first).to.deep.equal(allMarkets.slice(0, 2));
+      expect(next).to.equal(2);
+
+      const [rest, end] = await factory.getMarketsByStatus(OPEN, next, 2);
+      expect(rest).to.deep.equal(allMarkets.slice(2));
+      expect(end).to.equal(4);
+    });
+
+    it("Should cap oversized pages at the markets there are", async function () {
+      const [open, next] = await factory.getMarketsByStatus(OPEN, 0, ethers.MaxUint256);
+      expect(open).to.deep.equal(allMarkets);
+      expect(next).to.equal(4);
+      expect(await factory.getMarketsByStatus(OPEN, ethers.MaxUint256, ethers.MaxUint256)).to.deep.equal([[], ethers.MaxUint256]);
+      expect(await factory.getMarkets(1, ethers.MaxUint256)).to.deep.equal(allMarkets.slice(1));
+    });
+
+    it("Should summarize markets in one call", async function () {
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+
+      const [binary, categorical] = await factory.getMarketSummaries([allMarkets[0], allMarkets[3]]);
+      expect(binary.market).to.equal(allMarkets[0]);
+      expect(binary.question).to.equal(QUESTION);
+      expect(binary.endTime).to.equal(await market.endTime());
+      expect(binary.totalPool).to.equal(ethers.parseEther("0.1"));
+      expect(binary.collateral).to.equal(ethers.ZeroAddress);
+      expect(binary.outcomeTotals).to.deep.equal([await market.totalYesShares(), 0n]);
+      expect(binary.isResolved).to.equal(false);
+      expect(categorical.outcomeTotals.length).to.equal(3);
+    });
+  });
+
+  describe("Market Implementations", function () {
+    it("Should deploy markets as minimal proxies of the active implementation", async function () {
+      const implementationAddress = await implementation.getAddress();
+      expect(await factory.activeVersion()).to.equal(8);
+      expect(await factory.implementations(8)).to.equal(implementationAddress);
+      expect(await factory.marketImplementation()).to.equal(implementationAddress);
+
+      // EIP-1167 runtime code: 45 bytes embedding the implementation address
+      const code = await ethers.provider.getCode(await market.getAddress());
+      expect((code.length - 2) / 2).to.equal(45);
+      expect(code.toLowerCase()).to.contain(implementationAddress.slice(2).toLowerCase());
+    });
+
+    it("Should report the implementation version", async function () {
+      expect(await market.marketVersion()).to.equal(8);
+    });
+
+    it("Should register each version once", async function () {
+      const Implementation = await ethers.getContractFactory("PredictionMarket", { libraries });
+      const duplicate = await Implementation.deploy(await extension.getAddress());
+      await expect(factory.registerImplementation(await duplicate.getAddress())).to.be.revertedWith("Version registered");
+      await expect(
+        factory.connect(creator).registerImplementation(await duplicate.getAddress())
+      ).to.be.revertedWith("Missing role");
+    });
+
+    it("Should only activate registered versions", async function () {
+      await expect(factory.setActiveVersion(7)).to.be.revertedWith("Unknown version");
+      await expect(factory.setActiveVersion(8))
+        .to.emit(factory, "ActiveVersionUpdated")
+        .withArgs(8, 8);
+    });
   });
 
   describe("Market Creation", function () {
@@ -75,25 +307,64 @@ describe("PredictionMarket", function () {
     it("Should have 50% default probability", async function () {
       expect(await market.getProbability()).to.equal(50);
     });
+
+    it("Should size the liquidity parameter from the subsidy", async function () {
+      // Worst-case market maker loss b * ln(2) equals the subsidy
+      const b = await market.liquidityParameter();
+      expect((b * LN2) / WAD).to.be.closeTo(LIQUIDITY, 1n);
+    });
+
+    it("Should use the exact end time and resolution deadline", async function () {
+      const [endTime, deadline] = await schedule(2.5);
+      const receipt = await (await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, endTime, deadline, 0, { value: LIQUIDITY })).wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "MarketCreated");
+      expect(event.args.endTime).to.equal(endTime);
+
+      const exact = await marketAt(event.args.marketAddress);
+      expect(await exact.endTime()).to.equal(endTime);
+      expect(await exact.resolutionDeadline()).to.equal(deadline);
+    });
+
+    it("Should reject end times and deadlines out of range", async function () {
+      const [endTime, deadline] = await schedule();
+      const { timestamp } = await ethers.provider.getBlock("latest");
+      const create = (end, resolveBy) =>
+        factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, end, resolveBy, 0, { value: LIQUIDITY });
+
+      await expect(create(timestamp, deadline)).to.be.revertedWith("Invalid end time");
+      await expect(create(timestamp + 366 * 24 * 60 * 60, deadline)).to.be.revertedWith("Invalid end time");
+      await expect(create(endTime, endTime)).to.be.revertedWith("Invalid deadline");
+      await expect(create(endTime, endTime + 366 * 24 * 60 * 60)).to.be.revertedWith("Invalid deadline");
+    });
   });
 
   describe("Trading", function () {
-    const BUY_AMOUNT = ethers.parseEther("0.01"); // 0.01 ETH = 10 shares
+    const BUY_AMOUNT = ethers.parseEther("0.01");
 
     it("Should allow buying YES shares", async function () {
+      const expectedShares = await market.getSharesForCost(true, BUY_AMOUNT);
       await market.connect(trader1).buyYes({ value: BUY_AMOUNT });
       
       const position = await market.getUserPosition(trader1.address);
-      expect(position._yesShares).to.equal(10); // 0.01 ETH / 0.001 = 10 shares
+      expect(position._yesShares).to.equal(expectedShares);
       expect(position._noShares).to.equal(0);
+      expect(position._totalInvested).to.equal(BUY_AMOUNT);
     });
 
     it("Should allow buying NO shares", async function () {
+      const expectedShares = await market.getSharesForCost(false, BUY_AMOUNT);
       await market.connect(trader1).buyNo({ value: BUY_AMOUNT });
       
       const position = await market.getUserPosition(trader1.address);
       expect(position._yesShares).to.equal(0);
-      expect(position._noShares).to.equal(10);
+      expect(position._noShares).to.equal(expectedShares);
+    });
+
+    it("Should give more than one share per ETH below 100% probability", async function () {
+      await market.connect(trader1).buyYes({ value: BUY_AMOUNT });
+      expect(await market.yesShares(trader1.address)).to.be.gt(BUY_AMOUNT);
     });
 
     it("Should update pool correctly", async function () {
@@ -101,16 +372,16 @@ describe("PredictionMarket", function () {
       await market.connect(trader2).buyNo({ value: BUY_AMOUNT });
       
       expect(await market.totalPool()).to.equal(BUY_AMOUNT * 2n);
-      expect(await market.totalYesShares()).to.equal(10);
-      expect(await market.totalNoShares()).to.equal(10);
+      expect(await market.totalYesShares()).to.equal(await market.yesShares(trader1.address));
+      expect(await market.totalNoShares()).to.equal(await market.noShares(trader2.address));
     });
 
-    it("Should update probability based on shares", async function () {
-      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.03") }); // 30 YES shares
-      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.01") }); // 10 NO shares
-      
-      // 30 YES out of 40 total = 75%
-      expect(await market.getProbability()).to.equal(75);
+    it("Should update probability based on market price", async function () {
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.03") });
+      expect(await market.getProbability()).to.be.gt(50);
+
+      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.06") });
+      expect(await market.getProbability()).to.be.lt(50);
     });
 
     it("Should reject trades below minimum", async function () {
@@ -120,9 +391,199 @@ describe("PredictionMarket", function () {
     });
 
     it("Should emit SharesPurchased event", async function () {
+      const expectedShares = await market.getSharesForCost(true, BUY_AMOUNT);
       await expect(market.connect(trader1).buyYes({ value: BUY_AMOUNT }))
         .to.emit(market, "SharesPurchased")
-        .withArgs(trader1.address, true, 10, BUY_AMOUNT, await getBlockTimestamp());
+        .withArgs(trader1.address, true, expectedShares, BUY_AMOUNT, await getBlockTimestamp() + 1);
+    });
+  });
+
+  describe("LMSR Pricing", function () {
+    const BUY_AMOUNT = ethers.parseEther("0.02");
+    const SHARES = ethers.parseEther("0.05");
+
+    it("Should start at even prices that sum to one", async function () {
+      expect(await market.getPrice(true)).to.be.closeTo(WAD / 2n, 10n);
+      expect(await market.getPrice(false)).to.be.closeTo(WAD / 2n, 10n);
+    });
+
+    it("Should keep prices summing to one after trades", async function () {
+      await market.connect(trader1).buyYes({ value: BUY_AMOUNT });
+      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.005") });
+
+      const sum = (await market.getPrice(true)) + (await market.getPrice(false));
+      expect(sum).to.be.closeTo(WAD, 10n);
+    });
+
+    it("Should move the price up on buys", async function () {
+      const yesBefore = await market.getPrice(true);
+      const noBefore = await market.getPrice(false);
+
+      await market.connect(trader1).buyYes({ value: BUY_AMOUNT });
+
+      expect(await market.getPrice(true)).to.be.gt(yesBefore);
+      expect(await market.getPrice(false)).to.be.lt(noBefore);
+    });
+
+    it("Should quote a cost between the marginal price and one per share", async function () {
+      const cost = await market.quoteBuy(true, SHARES);
+      const price = await market.getPrice(true);
+
+      expect(cost).to.be.gt((SHARES * price) / WAD);
+      expect(cost).to.be.lt(SHARES);
+    });
+
+    it("Should quote convex costs", async function () {
+      const single = await market.quoteBuy(true, SHARES);
+      const double = await market.quoteBuy(true, SHARES * 2n);
+      expect(double).to.be.gt(single * 2n);
+    });
+
+    it("Should quote path-dependent costs", async function () {
+      const before = await market.quoteBuy(true, SHARES);
+      await market.connect(trader1).buyYes({ value: BUY_AMOUNT });
+      expect(await market.quoteBuy(true, SHARES)).to.be.gt(before);
+    });
+
+    it("Should match the cost function difference", async function () {
+      const costBefore = await market.getMarketMakerCost();
+      const quote = await market.quoteBuy(false, SHARES);
+
+      const shares = await market.getSharesForCost(false, quote);
+      await market.connect(trader1).buyNo({ value: quote });
+
+      expect(await market.noShares(trader1.address)).to.equal(shares);
+      expect(shares).to.be.closeTo(SHARES, SHARES / 1000000n);
+      expect((await market.getMarketMakerCost()) - costBefore).to.be.lte(quote);
+    });
+
+    it("Should never sell shares above the amount paid", async function () {
+      const shares = await market.getSharesForCost(true, BUY_AMOUNT);
+      const cost = await market.quoteBuy(true, shares);
+
+      expect(cost).to.be.lte(BUY_AMOUNT);
+      expect(cost).to.be.closeTo(BUY_AMOUNT, BUY_AMOUNT / 1000000n);
+    });
+
+    it("Should stay solvent for any outcome", async function () {
+      const [, , t1, t2, t3] = await ethers.getSigners();
+
+      await market.connect(t1).buyYes({ value: ethers.parseEther("0.5") });
+      await market.connect(t2).buyNo({ value: ethers.parseEther("0.01") });
+      await market.connect(t3).buyYes({ value: ethers.parseEther("1") });
+
+      const funds = (await market.totalPool()) + (await market.subsidy());
+      expect(funds).to.be.gte(await market.totalYesShares());
+      expect(funds).to.be.gte(await market.totalNoShares());
+    });
+
+    it("Should approach certainty on large buys", async function () {
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("1") });
+      expect(await market.getProbability()).to.equal(99);
+    });
+  });
+
+  describe("Selling", function () {
+    const BUY_AMOUNT = ethers.parseEther("0.05");
+
+    beforeEach(async function () {
+      await market.connect(trader1).buyYes({ value: BUY_AMOUNT });
+    });
+
+    it("Should refund the quoted amount", async function () {
+      const shares = await market.yesShares(trader1.address);
+      const quote = await market.quoteSell(true, shares / 2n);
+      const balanceBefore = await ethers.provider.getBalance(trader1.address);
+
+      const tx = await market.connect(trader1).sellShares(true, shares / 2n, quote);
+      const receipt = await tx.wait();
+      const gasUsed = receipt.gasUsed * receipt.gasPrice;
+
+      const balanceAfter = await ethers.provider.getBalance(trader1.address);
+      expect(balanceAfter - balanceBefore + gasUsed).to.equal(quote);
+      expect(await market.yesShares(trader1.address)).to.equal(shares - shares / 2n);
+      expect(await market.totalYesShares()).to.equal(shares - shares / 2n);
+      expect(await market.totalPool()).to.equal(BUY_AMOUNT - quote);
+    });
+
+    it("Should refund no more than was paid on a round trip", async function () {
+      const shares = await market.yesShares(trader1.address);
+      const quote = await market.quoteSell(true, shares);
+
+      expect(quote).to.be.lte(BUY_AMOUNT);
+      expect(quote).to.be.closeTo(BUY_AMOUNT, BUY_AMOUNT / 1000000n);
+
+      await market.connect(trader1).sellShares(true, shares, 0);
+      expect(await market.getProbability()).to.equal(50);
+    });
+
+    it("Should pay more after the price has risen", async function () {
+      const shares = await market.yesShares(trader1.address);
+      await market.connect(trader2).buyYes({ value: BUY_AMOUNT });
+
+      expect(await market.quoteSell(true, shares)).to.be.gt(BUY_AMOUNT);
+    });
+
+    it("Should lower the price when selling", async function () {
+      const shares = await market.yesShares(trader1.address);
+      const priceBefore = await market.getPrice(true);
+
+      await market.connect(trader1).sellShares(true, shares / 2n, 0);
+      expect(await market.getPrice(true)).to.be.lt(priceBefore);
+    });
+
+    it("Should enforce slippage protection", async function () {
+      const shares = await market.yesShares(trader1.address);
+      const quote = await market.quoteSell(true, shares);
+
+      // Another trader moves the price against the seller first
+      await market.connect(trader2).buyNo({ value: BUY_AMOUNT });
+
+      await expect(
+        market.connect(trader1).sellShares(true, shares, quote)
+      ).to.be.revertedWith("Slippage exceeded");
+    });
+
+    it("Should not sell more shares than held", async function () {
+      const shares = await market.yesShares(trader1.address);
+
+      await expect(
+        market.connect(trader1).sellShares(true, shares + 1n, 0)
+      ).to.be.revertedWith("Insufficient shares");
+      await expect(
+        market.connect(trader1).sellShares(false, 1n, 0)
+      ).to.be.revertedWith("Insufficient shares");
+    });
+
+    it("Should emit SharesSold event", async function () {
+      const shares = await market.yesShares(trader1.address);
+      const quote = await market.quoteSell(true, shares);
+
+      await expect(market.connect(trader1).sellShares(true, shares, 0))
+        .to.emit(market, "SharesSold")
+        .withArgs(trader1.address, true, shares, quote, await getBlockTimestamp() + 1);
+    });
+
+    it("Should not allow selling after the market closes", async function () {
+      const shares = await market.yesShares(trader1.address);
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(
+        market.connect(trader1).sellShares(true, shares, 0)
+      ).to.be.revertedWith("Market closed");
+    });
+
+    it("Should stay solvent after sells", async function () {
+      const shares = await market.yesShares(trader1.address);
+      await market.connect(trader2).buyNo({ value: BUY_AMOUNT });
+      await market.connect(trader1).sellShares(true, shares / 3n, 0);
+
+      const funds = (await market.totalPool()) + (await market.subsidy());
+      expect(funds).to.be.gte(await market.totalYesShares());
+      expect(funds).to.be.gte(await market.totalNoShares());
+      expect(await ethers.provider.getBalance(await market.getAddress())).to.equal(funds);
     });
   });
 
@@ -157,6 +618,10 @@ describe("PredictionMarket", function () {
       await ethers.provider.send("evm_mine");
 
       await market.connect(creator).resolve(true);
+      expect(await market.isProposed()).to.equal(true);
+      expect(await market.isResolved()).to.equal(false);
+
+      await finalizeAfterDisputePeriod(market);
       
       expect(await market.isResolved()).to.equal(true);
       expect(await market.winningOutcome()).to.equal(true);
@@ -165,8 +630,12 @@ describe("PredictionMarket", function () {
     it("Should emit MarketResolved event", async function () {
       await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
       await ethers.provider.send("evm_mine");
+      await market.connect(creator).resolve(true);
 
-      await expect(market.connect(creator).resolve(true))
+      await ethers.provider.send("evm_increaseTime", [DISPUTE_PERIOD]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(market.finalizeResolution())
         .to.emit(market, "MarketResolved")
         .withArgs(true, BUY_AMOUNT * 2n, await getBlockTimestamp() + 1);
     });
@@ -184,9 +653,11 @@ describe("PredictionMarket", function () {
       await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
       await ethers.provider.send("evm_mine");
       await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
     });
 
     it("Should allow winners to claim", async function () {
+      const shares = await market.yesShares(trader1.address);
       const balanceBefore = await ethers.provider.getBalance(trader1.address);
       
       const tx = await market.connect(trader1).claimWinnings();
@@ -195,9 +666,9 @@ describe("PredictionMarket", function () {
 
       const balanceAfter = await ethers.provider.getBalance(trader1.address);
       
-      // Winner gets pool minus 2% fee
-      const expectedWinnings = (BUY_AMOUNT * 2n * 98n) / 100n;
-      expect(balanceAfter - balanceBefore + gasUsed).to.be.closeTo(expectedWinnings, ethers.parseEther("0.001"));
+      // Each winning share pays 1 wei, minus 2% fee
+      const expectedWinnings = shares - (shares * 200n) / 10000n;
+      expect(balanceAfter - balanceBefore + gasUsed).to.equal(expectedWinnings);
     });
 
     it("Should not allow losers to claim", async function () {
@@ -215,8 +686,9 @@ describe("PredictionMarket", function () {
     });
 
     it("Should show correct claimable amount", async function () {
+      const shares = await market.yesShares(trader1.address);
       const claimable = await market.getClaimableAmount(trader1.address);
-      const expectedWinnings = (BUY_AMOUNT * 2n * 98n) / 100n; // Pool minus 2% fee
+      const expectedWinnings = shares - (shares * 200n) / 10000n; // Shares minus 2% fee
       
       expect(claimable).to.equal(expectedWinnings);
     });
@@ -225,45 +697,2131 @@ describe("PredictionMarket", function () {
       const claimable = await market.getClaimableAmount(trader2.address);
       expect(claimable).to.equal(0);
     });
+
+    it("Should return leftover liquidity to the creator", async function () {
+      const reserved = await market.totalYesShares();
+      const funds = (await market.totalPool()) + LIQUIDITY;
+
+      await expect(market.connect(creator).withdrawLiquidity())
+        .to.emit(market, "LiquidityWithdrawn");
+
+      expect(await ethers.provider.getBalance(await market.getAddress())).to.equal(reserved);
+      expect(funds - reserved).to.be.gt(0);
+
+      // Winners can still be paid in full after the withdrawal
+      await market.connect(trader1).claimWinnings();
+    });
+
+    it("Should only let liquidity providers withdraw, once", async function () {
+      await expect(
+        market.connect(trader1).withdrawLiquidity()
+      ).to.be.revertedWith("No liquidity");
+
+      await market.connect(creator).withdrawLiquidity();
+      await expect(
+        market.connect(creator).withdrawLiquidity()
+      ).to.be.revertedWith("Already withdrawn");
+    });
   });
 
-  describe("Multiple Traders", function () {
-    it("Should distribute winnings proportionally", async function () {
-      // trader1 buys 0.1 ETH YES (100 shares)
-      // trader2 buys 0.05 ETH YES (50 shares)
-      // trader3 buys 0.15 ETH NO (150 shares)
-      const [, , t1, t2, t3] = await ethers.getSigners();
+  describe("Fees", function () {
+    beforeEach(async function () {
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.1") });
 
-      await market.connect(t1).buyYes({ value: ethers.parseEther("0.1") });
-      await market.connect(t2).buyYes({ value: ethers.parseEther("0.05") });
-      await market.connect(t3).buyNo({ value: ethers.parseEther("0.15") });
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
+    });
+
+    it("Should split claimed fees between the platform, the creator and liquidity providers", async function () {
+      expect(await market.platformFee()).to.equal(200);
+      expect(await market.creatorFeeShare()).to.equal(2500);
+      expect(await market.lpFeeShare()).to.equal(2500);
+
+      const shares = await market.yesShares(trader1.address);
+      await market.connect(trader1).claimWinnings();
+
+      const fee = (shares * 200n) / 10000n;
+      const creatorCut = (fee * 2500n) / 10000n;
+      const lpCut = (fee * 2500n) / 10000n;
+      expect(await market.creatorFeesAccrued()).to.equal(creatorCut);
+      expect(await market.lpFeesAccrued()).to.equal(lpCut);
+      expect(await market.platformFeesAccrued()).to.equal(fee - creatorCut - lpCut);
+    });
+
+    it("Should only withdraw accrued fees, never unclaimed winnings", async function () {
+      const marketAddress = await market.getAddress();
+      await expect(factory.collectMarketFees(marketAddress)).to.be.revertedWith("No fees");
+
+      const shares = await market.yesShares(trader1.address);
+      await market.connect(trader1).claimWinnings();
+      const platformCut = await market.platformFeesAccrued();
+
+      await expect(factory.collectMarketFees(marketAddress))
+        .to.emit(market, "FeesWithdrawn")
+        .withArgs(await factory.getAddress(), platformCut, await getBlockTimestamp() + 1);
+      expect(await market.platformFeesAccrued()).to.equal(0);
+
+      // The creator's cut and the subsidy are still in the market
+      const creatorCut = await market.creatorFeesAccrued();
+      expect(await ethers.provider.getBalance(marketAddress)).to.be.gte(creatorCut + LIQUIDITY + ethers.parseEther("0.2") - shares);
+      await expect(factory.collectMarketFees(marketAddress)).to.be.revertedWith("No fees");
+    });
+
+    it("Should let only the creator claim their fee share", async function () {
+      await expect(market.connect(creator).claimCreatorFees()).to.be.revertedWith("No fees");
+      await market.connect(trader1).claimWinnings();
+
+      const creatorCut = await market.creatorFeesAccrued();
+      await expect(market.connect(trader1).claimCreatorFees()).to.be.revertedWith("Only creator");
+      await expect(market.connect(creator).claimCreatorFees())
+        .to.emit(market, "CreatorFeesClaimed")
+        .withArgs(creator.address, creatorCut, await getBlockTimestamp() + 1);
+
+      expect(await market.creatorFeesAccrued()).to.equal(0);
+      expect(await market.creatorFeesClaimed()).to.equal(creatorCut);
+    });
+
+    it("Should let only the factory owner collect or configure fees", async function () {
+      await expect(
+        factory.connect(trader1).collectMarketFees(await market.getAddress())
+      ).to.be.revertedWith("Missing role");
+      await expect(market.connect(owner).withdrawFees()).to.be.revertedWith("Only owner");
+      await expect(factory.connect(trader1).setFeeConfig(100, 0, 0)).to.be.revertedWith("Missing role");
+      await expect(factory.setFeeConfig(1001, 0, 0)).to.be.revertedWith("Invalid fee");
+      await expect(factory.setFeeConfig(100, 10001, 0)).to.be.revertedWith("Invalid fee");
+      await expect(factory.setFeeConfig(100, 5000, 5001)).to.be.revertedWith("Invalid fee");
+    });
+
+    it("Should apply the fee config to new markets", async function () {
+      await expect(factory.setFeeConfig(500, 5000, 3000))
+        .to.emit(factory, "FeeConfigUpdated")
+        .withArgs(500, 5000, 3000);
+
+      const tx = await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY });
+      const receipt = await tx.wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "MarketCreated");
+      const newMarket = await marketAt(event.args.marketAddress);
+
+      expect(await newMarket.platformFee()).to.equal(500);
+      expect(await newMarket.creatorFeeShare()).to.equal(5000);
+      expect(await newMarket.lpFeeShare()).to.equal(3000);
+      // Existing markets keep the fees they were created with
+      expect(await market.platformFee()).to.equal(200);
+    });
+  });
+
+  describe("Liquidity Provision", function () {
+    const ADDED = ethers.parseEther("0.1");
+
+    beforeEach(async function () {
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+    });
+
+    it("Should give the creator LP shares for the initial liquidity", async function () {
+      expect(await market.lpShares(creator.address)).to.equal(LIQUIDITY);
+      expect(await market.totalLpShares()).to.equal(LIQUIDITY);
+    });
+
+    it("Should add liquidity without moving prices", async function () {
+      const [yesBefore, noBefore] = await market.getPrices();
+      const bBefore = await market.liquidityParameter();
+      const totalLp = await market.totalLpShares();
+
+      await expect(market.connect(trader2).addLiquidity(ADDED, { value: ADDED }))
+        .to.emit(market, "LiquidityAdded");
+
+      const [yesAfter, noAfter] = await market.getPrices();
+      expect(yesAfter).to.be.closeTo(yesBefore, 10n ** 6n);
+      expect(noAfter).to.be.closeTo(noBefore, 10n ** 6n);
+      expect(await market.liquidityParameter()).to.be.gt(bBefore);
+
+      // The provider holds shares in proportion to those outstanding (only YES has been bought), plus LP shares
+      expect(await market.yesShares(trader2.address)).to.be.gt(0);
+      expect(await market.noShares(trader2.address)).to.equal(0);
+      expect(await market.lpShares(trader2.address)).to.be.gt(0);
+      expect(await market.totalLpShares()).to.equal(totalLp + (await market.lpShares(trader2.address)));
+    });
+
+    it("Should only take liquidity above the minimum while trading is open", async function () {
+      await expect(
+        market.connect(trader2).addLiquidity(1000n, { value: 1000n })
+      ).to.be.revertedWith("Below minimum");
+      await expect(
+        market.connect(trader2).addLiquidity(ADDED, { value: 1n })
+      ).to.be.revertedWith("Wrong value");
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await expect(
+        market.connect(trader2).addLiquidity(ADDED, { value: ADDED })
+      ).to.be.revertedWith("Market closed");
+    });
+
+    it("Should split leftover liquidity between providers pro-rata", async function () {
+      await market.connect(trader2).addLiquidity(ADDED, { value: ADDED });
+      await expect(market.connect(trader2).withdrawLiquidity()).to.be.revertedWith("Market not resolved");
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
+
+      const totalLp = await market.totalLpShares();
+      const leftover = (await market.totalPool()) + (await market.subsidy()) - (await market.totalYesShares());
+      for (const provider of [creator, trader2]) {
+        const expected = (leftover * (await market.lpShares(provider.address))) / totalLp;
+        expect(await market.getWithdrawableLiquidity(provider.address)).to.equal(expected);
+        await expect(market.connect(provider).withdrawLiquidity())
+          .to.emit(market, "LiquidityWithdrawn")
+          .withArgs(provider.address, expected, await getBlockTimestamp() + 1);
+      }
+
+      // Winning shares, including the provider's, are still paid in full
+      await market.connect(trader1).claimWinnings();
+      await market.connect(trader2).claimWinnings();
+    });
+
+    it("Should pay providers their share of trading fees as winners claim", async function () {
+      await market.connect(trader2).addLiquidity(ADDED, { value: ADDED });
 
-      // Resolve YES wins
       await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
       await ethers.provider.send("evm_mine");
       await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
+
+      await market.connect(trader2).withdrawLiquidity();
+      await expect(market.connect(trader2).withdrawLiquidity()).to.be.revertedWith("Already withdrawn");
+
+      await market.connect(trader1).claimWinnings();
+      const lpFees = await market.lpFeesAccrued();
+      expect(lpFees).to.be.gt(0);
 
-      // Total pool: 0.3 ETH, minus 2% fee = 0.294 ETH
-      // t1 has 100/150 = 66.67% of YES shares
-      // t2 has 50/150 = 33.33% of YES shares
+      const owed = (lpFees * (await market.lpShares(trader2.address))) / (await market.totalLpShares());
+      expect(await market.getWithdrawableLiquidity(trader2.address)).to.equal(owed);
+      await expect(market.connect(trader2).withdrawLiquidity())
+        .to.emit(market, "LiquidityWithdrawn")
+        .withArgs(trader2.address, owed, await getBlockTimestamp() + 1);
+      expect(await market.getWithdrawableLiquidity(trader2.address)).to.equal(0);
+    });
 
-      const claimable1 = await market.getClaimableAmount(t1.address);
-      const claimable2 = await market.getClaimableAmount(t2.address);
-      const claimable3 = await market.getClaimableAmount(t3.address);
+    it("Should give providers their deposit back when the market is voided", async function () {
+      await market.connect(trader2).addLiquidity(ADDED, { value: ADDED });
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await emergencyResolve(factory, market, ethers.MaxUint256);
 
-      // t1 should get ~0.196 ETH (66.67% of 0.294)
-      // t2 should get ~0.098 ETH (33.33% of 0.294)
-      // t3 should get 0 (loser)
+      const refund = await market.getClaimableAmount(trader2.address);
+      const liquidity = await market.getWithdrawableLiquidity(trader2.address);
+      expect(refund + liquidity).to.be.closeTo(ADDED, 10n ** 6n);
 
-      expect(claimable1).to.be.closeTo(ethers.parseEther("0.196"), ethers.parseEther("0.001"));
-      expect(claimable2).to.be.closeTo(ethers.parseEther("0.098"), ethers.parseEther("0.001"));
-      expect(claimable3).to.equal(0);
+      await market.connect(trader2).claimWinnings();
+      await market.connect(trader2).withdrawLiquidity();
+      await market.connect(creator).withdrawLiquidity();
+      await market.connect(trader1).claimWinnings();
     });
   });
-});
 
-// Helper function
-async function getBlockTimestamp() {
-  const block = await ethers.provider.getBlock("latest");
-  return block.timestamp;
+  describe("Batch Claims", function () {
+    let voided;
+
+    beforeEach(async function () {
+      const receipt = await (await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY })).wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "MarketCreated");
+      voided = await marketAt(event.args.marketAddress);
+
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.1") });
+      await voided.connect(trader1).buyNo({ value: ethers.parseEther("0.05") });
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
+      await emergencyResolve(factory, voided, ethers.MaxUint256);
+    });
+
+    it("Should claim winnings and refunds from several markets in one transaction", async function () {
+      const markets = [await market.getAddress(), await voided.getAddress()];
+      const winnings = await market.getClaimableAmount(trader1.address);
+      const refund = await voided.getClaimableAmount(trader1.address);
+      expect(refund).to.equal(ethers.parseEther("0.05"));
+
+      const tx = factory.connect(trader1).batchClaimWinnings(markets);
+      await expect(tx).to.changeEtherBalances([trader1, market, voided], [winnings + refund, -winnings, -refund]);
+      await expect(tx)
+        .to.emit(market, "WinningsClaimed")
+        .withArgs(trader1.address, winnings, await getBlockTimestamp());
+      await expect(tx).to.emit(voided, "RefundClaimed");
+
+      expect(await market.getClaimableAmount(trader1.address)).to.equal(0);
+      expect(await voided.getClaimableAmount(trader1.address)).to.equal(0);
+      expect(await market.platformFeesAccrued()).to.be.gt(0);
+    });
+
+    it("Should revert the batch if any market has nothing to claim", async function () {
+      await expect(
+        factory.connect(trader2).batchClaimWinnings([await voided.getAddress(), await market.getAddress()])
+      ).to.be.revertedWith("Nothing to refund");
+      await expect(
+        factory.connect(trader1).batchClaimWinnings([await market.getAddress(), await market.getAddress()])
+      ).to.be.revertedWith("Already claimed");
+    });
+
+    it("Should only claim from the factory's own markets", async function () {
+      await expect(
+        factory.connect(trader1).batchClaimWinnings([trader2.address])
+      ).to.be.revertedWith("Unknown market");
+      expect(await factory.isMarket(await market.getAddress())).to.equal(true);
+      await expect(market.connect(trader1).claimWinningsFor(trader1.address)).to.be.revertedWith("Only owner");
+    });
+  });
+
+  describe("Disputes", function () {
+    const BUY_AMOUNT = ethers.parseEther("0.1");
+    const BOND = ethers.parseEther("0.01");
+
+    beforeEach(async function () {
+      await market.connect(trader1).buyYes({ value: BUY_AMOUNT });
+      await market.connect(trader2).buyNo({ value: BUY_AMOUNT });
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+    });
+
+    it("Should use the factory's dispute config", async function () {
+      expect(await market.disputePeriod()).to.equal(DISPUTE_PERIOD);
+      expect(await market.disputeBond()).to.equal(BOND);
+    });
+
+    it("Should propose a resolution and block claims until finalized", async function () {
+      await expect(market.connect(creator).resolve(true))
+        .to.emit(market, "ResolutionProposed")
+        .withArgs(0, await getBlockTimestamp() + 1 + DISPUTE_PERIOD, await getBlockTimestamp() + 1);
+
+      expect(await market.getClaimableAmount(trader1.address)).to.equal(0);
+      await expect(market.connect(trader1).claimWinnings()).to.be.revertedWith("Market not resolved");
+      await expect(market.finalizeResolution()).to.be.revertedWith("Dispute period active");
+      await expect(market.connect(creator).resolve(false)).to.be.revertedWith("Already proposed");
+
+      await finalizeAfterDisputePeriod(market);
+      await market.connect(trader1).claimWinnings();
+    });
+
+    it("Should require a proposal, the exact bond and an open dispute period", async function () {
+      await expect(market.connect(trader2).dispute({ value: BOND })).to.be.revertedWith("Nothing to dispute");
+
+      await market.connect(creator).resolve(true);
+      await expect(market.connect(trader2).dispute({ value: BOND - 1n })).to.be.revertedWith("Wrong bond");
+
+      await ethers.provider.send("evm_increaseTime", [DISPUTE_PERIOD]);
+      await ethers.provider.send("evm_mine");
+      await expect(market.connect(trader2).dispute({ value: BOND })).to.be.revertedWith("Dispute period over");
+    });
+
+    it("Should escalate a dispute and refund the bond when overturned", async function () {
+      await market.connect(creator).resolve(true);
+      await expect(market.connect(trader2).dispute({ value: BOND }))
+        .to.emit(market, "ResolutionDisputed")
+        .withArgs(trader2.address, BOND, await getBlockTimestamp() + 1);
+      await expect(market.connect(trader1).dispute({ value: BOND })).to.be.revertedWith("Already disputed");
+
+      await ethers.provider.send("evm_increaseTime", [DISPUTE_PERIOD]);
+      await ethers.provider.send("evm_mine");
+      await expect(market.finalizeResolution()).to.be.revertedWith("Resolution disputed");
+
+      await expect(factory.resolveDispute(await market.getAddress(), 1))
+        .to.emit(factory, "EmergencyResolutionScheduled");
+      // The settlement waits out the emergency timelock like any other override
+      await expect(factory.executeEmergencyResolution(await market.getAddress())).to.be.revertedWith("Timelock active");
+      await ethers.provider.send("evm_increaseTime", [Number(await factory.emergencyDelay())]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(factory.executeEmergencyResolution(await market.getAddress()))
+        .to.emit(market, "DisputeSettled")
+        .withArgs(trader2.address, true, BOND, await getBlockTimestamp() + 1);
+
+      // The bond is credited, and the disputer collects it
+      expect(await market.disputeBondsOwed(trader2.address)).to.equal(BOND);
+      await expect(market.connect(trader2).withdrawDisputeBond())
+        .to.emit(market, "DisputeBondWithdrawn")
+        .withArgs(trader2.address, BOND, await getBlockTimestamp() + 1);
+      await expect(market.connect(trader2).withdrawDisputeBond()).to.be.revertedWith("No bond");
+      expect(await market.winningOutcome()).to.equal(false);
+      await market.connect(trader2).claimWinnings();
+    });
+
+    it("Should slash the bond to the creator when the proposal stands", async function () {
+      await market.connect(creator).resolve(true);
+      await market.connect(trader2).dispute({ value: BOND });
+
+      await factory.resolveDispute(await market.getAddress(), 0);
+      await ethers.provider.send("evm_increaseTime", [Number(await factory.emergencyDelay())]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(factory.executeEmergencyResolution(await market.getAddress()))
+        .to.emit(market, "DisputeSettled")
+        .withArgs(trader2.address, false, BOND, await getBlockTimestamp() + 1);
+
+      expect(await market.disputeBondsOwed(trader2.address)).to.equal(0);
+      await expect(market.connect(creator).withdrawDisputeBond()).to.changeEtherBalance(creator, BOND);
+      expect(await market.winningOutcome()).to.equal(true);
+    });
+
+    it("Should only let resolvers settle disputed markets", async function () {
+      await expect(
+        factory.connect(trader1).resolveDispute(await market.getAddress(), 1)
+      ).to.be.revertedWith("Missing role");
+      await expect(market.connect(trader1).emergencyResolve(false)).to.be.revertedWith("Only owner");
+      await expect(factory.resolveDispute(await market.getAddress(), 1)).to.be.revertedWith("Not disputed");
+      await expect(factory.resolveDispute(trader1.address, 1)).to.be.revertedWith("Unknown market");
+    });
+
+    it("Should resolve immediately without a dispute period", async function () {
+      await expect(factory.setDisputeConfig(31 * 24 * 60 * 60, BOND)).to.be.revertedWith("Invalid dispute period");
+      await expect(factory.setDisputeConfig(0, 0))
+        .to.emit(factory, "DisputeConfigUpdated")
+        .withArgs(0, 0);
+
+      const tx = await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY });
+      const receipt = await tx.wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "MarketCreated");
+      const instant = await marketAt(event.args.marketAddress);
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(instant.connect(creator).resolve(false)).to.emit(instant, "MarketResolved");
+      expect(await instant.isResolved()).to.equal(true);
+    });
+  });
+
+  describe("Resolver Oracle", function () {
+    let resolver;
+    let oracleMarket;
+
+    async function createMarket() {
+      const receipt = await (await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY })).wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "MarketCreated");
+      return marketAt(event.args.marketAddress);
+    }
+
+    beforeEach(async function () {
+      [, , , , , resolver] = await ethers.getSigners();
+      await expect(factory.setResolver(resolver.address))
+        .to.emit(factory, "ResolverUpdated")
+        .withArgs(ethers.ZeroAddress, resolver.address);
+      oracleMarket = await createMarket();
+
+      await oracleMarket.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+      await oracleMarket.connect(trader2).buyNo({ value: ethers.parseEther("0.1") });
+    });
+
+    it("Should give new markets the factory's resolver", async function () {
+      expect(await oracleMarket.resolver()).to.equal(resolver.address);
+      expect(await market.resolver()).to.equal(ethers.ZeroAddress);
+      await expect(factory.connect(trader1).setResolver(trader1.address)).to.be.revertedWith("Missing role");
+    });
+
+    it("Should map GenLayer outcomes to outcome indices", async function () {
+      expect(toOutcomeIndex(1)).to.equal(0);
+      expect(toOutcomeIndex(2)).to.equal(1);
+      expect(toOutcomeIndex(0)).to.equal(null);
+    });
+
+    it("Should read generated and legacy GenLayer resolvers", async function () {
+      // genlayer-js returns dicts as Maps
+      const client = (views) => ({
+        readContract: async ({ functionName }) => {
+          if (!(functionName in views)) throw new Error(`No view ${functionName}`);
+          return views[functionName];
+        },
+      });
+      const generated = (winner) => client({ get_market_info: new Map([["is_resolved", winner !== -1], ["winner", winner]]) });
+
+      expect(await readGenLayerStatus(generated(0), "0x")).to.deep.equal({ resolved: true, outcome: 0 });
+      expect(await readGenLayerStatus(generated(2), "0x")).to.deep.equal({ resolved: true, outcome: 2 });
+      expect(await readGenLayerStatus(generated(-2), "0x")).to.deep.equal({ resolved: true, outcome: ethers.MaxUint256 });
+      expect(await readGenLayerStatus(generated(-1), "0x")).to.deep.equal({ resolved: false, outcome: null });
+      // Dicts decoded as plain objects read the same
+      const plain = client({ get_market_info: { is_resolved: true, winner: 1 } });
+      expect(await readGenLayerStatus(plain, "0x")).to.deep.equal({ resolved: true, outcome: 1 });
+
+      const legacy = client({ get_market_info: ["Q", "D", "S", 0n, ethers.ZeroAddress, true, 2, ""], resolved: true, outcome: 2 });
+      expect(await readGenLayerStatus(legacy, "0x")).to.deep.equal({ resolved: true, outcome: 1 });
+    });
+
+    it("Should propose the attested outcome from any relayer", async function () {
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      const relayed = oracleMarket.connect(trader1);
+      await expect(relayOutcome(relayed, resolver, 1)).to.eventually.be.a("string");
+      expect(await oracleMarket.isProposed()).to.equal(true);
+      expect(await oracleMarket.proposedOutcomeIndex()).to.equal(1);
+      expect(await oracleMarket.attestationNonce()).to.equal(1);
+
+      // Nothing left to relay while the proposal waits out its dispute period
+      expect(await relayOutcome(relayed, resolver, 1)).to.equal(null);
+
+      await finalizeAfterDisputePeriod(oracleMarket);
+      expect(await oracleMarket.winningOutcome()).to.equal(false);
+    });
+
+    it("Should reject early, unsigned and missing-resolver attestations", async function () {
+      const early = await signAttestation(resolver, oracleMarket, 0);
+      await expect(
+        oracleMarket.resolveWithAttestation(early.outcome, early.nonce, early.signature)
+      ).to.be.revertedWith("Market not ended");
+      expect(await relayOutcome(oracleMarket, resolver, 0)).to.equal(null);
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      const forged = await signAttestation(trader1, oracleMarket, 0);
+      await expect(
+        oracleMarket.resolveWithAttestation(forged.outcome, forged.nonce, forged.signature)
+      ).to.be.revertedWith("Invalid attestation");
+      await expect(
+        oracleMarket.resolveWithAttestation(1, early.nonce, early.signature)
+      ).to.be.revertedWith("Invalid attestation");
+
+      const unassigned = await signAttestation(resolver, market, 0);
+      await expect(
+        market.resolveWithAttestation(unassigned.outcome, unassigned.nonce, unassigned.signature)
+      ).to.be.revertedWith("No resolver");
+    });
+
+    it("Should not replay attestations across markets or nonces", async function () {
+      const other = await createMarket();
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      const attestation = await signAttestation(resolver, oracleMarket, 0);
+      await expect(
+        other.resolveWithAttestation(attestation.outcome, attestation.nonce, attestation.signature)
+      ).to.be.revertedWith("Invalid attestation");
+
+      await expect(oracleMarket.resolveWithAttestation(attestation.outcome, attestation.nonce, attestation.signature))
+        .to.emit(oracleMarket, "AttestationAccepted")
+        .withArgs(owner.address, 0, 0, await getBlockTimestamp() + 1);
+
+      await oracleMarket.connect(trader2).dispute({ value: ethers.parseEther("0.01") });
+      await expect(
+        oracleMarket.resolveWithAttestation(attestation.outcome, attestation.nonce, attestation.signature)
+      ).to.be.revertedWith("Invalid nonce");
+    });
+
+    it("Should settle a dispute with a fresh attestation", async function () {
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await oracleMarket.connect(creator).resolve(true);
+      await oracleMarket.connect(trader2).dispute({ value: ethers.parseEther("0.01") });
+
+      await relayOutcome(oracleMarket, resolver, 1);
+
+      // The proposal was overturned, so the disputer gets the bond back
+      expect(await oracleMarket.disputeBondsOwed(trader2.address)).to.equal(ethers.parseEther("0.01"));
+      expect(await oracleMarket.isResolved()).to.equal(true);
+      expect(await oracleMarket.winningOutcome()).to.equal(false);
+    });
+  });
+
+  describe("Invalid Outcome", function () {
+    const INVALID = ethers.MaxUint256;
+
+    beforeEach(async function () {
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.05") });
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+    });
+
+    it("Should void the market through the normal proposal flow", async function () {
+      await market.connect(creator).resolveOutcome(INVALID);
+      expect(await market.isInvalid()).to.equal(false);
+
+      await ethers.provider.send("evm_increaseTime", [DISPUTE_PERIOD]);
+      await ethers.provider.send("evm_mine");
+      await expect(market.finalizeResolution())
+        .to.emit(market, "MarketInvalidated")
+        .and.to.not.emit(market, "MarketResolved");
+
+      expect(await market.isInvalid()).to.equal(true);
+    });
+
+    it("Should refund every trader's stake on both sides", async function () {
+      await market.connect(creator).resolveOutcome(INVALID);
+      await finalizeAfterDisputePeriod(market);
+
+      expect(await market.getClaimableAmount(trader1.address)).to.equal(ethers.parseEther("0.1"));
+      expect(await market.getClaimableAmount(trader2.address)).to.equal(ethers.parseEther("0.05"));
+
+      await expect(market.connect(trader2).claimWinnings())
+        .to.emit(market, "RefundClaimed")
+        .withArgs(trader2.address, ethers.parseEther("0.05"), await getBlockTimestamp() + 1);
+      await expect(market.connect(trader2).claimWinnings()).to.be.revertedWith("Already claimed");
+      await expect(market.connect(owner).claimWinnings()).to.be.revertedWith("Nothing to refund");
+    });
+
+    it("Should refund pro-rata after a profitable sale", async function () {
+      // Fresh market so the sale happens before the end time
+      const tx = await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY });
+      const receipt = await tx.wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "MarketCreated");
+      const voided = await marketAt(event.args.marketAddress);
+
+      await voided.connect(trader1).buyYes({ value: ethers.parseEther("0.05") });
+      await voided.connect(trader2).buyYes({ value: ethers.parseEther("0.1") });
+      // trader1 exits at a profit, taking more out of the pool than they staked
+      await voided.connect(trader1).sellShares(true, await voided.yesShares(trader1.address), 0);
+      expect(await voided.totalInvested(trader1.address)).to.equal(0);
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await emergencyResolve(factory, voided, INVALID);
+
+      const pool = await voided.totalPool();
+      const refund = await voided.getClaimableAmount(trader2.address);
+      expect(refund).to.be.lt(ethers.parseEther("0.1"));
+      expect(refund).to.be.closeTo(pool, 1n);
+
+      await expect(voided.connect(trader1).claimWinnings()).to.be.revertedWith("Nothing to refund");
+      await voided.connect(trader2).claimWinnings();
+    });
+
+    it("Should return the full subsidy to the creator", async function () {
+      await emergencyResolve(factory, market, INVALID);
+
+      await expect(market.connect(creator).withdrawLiquidity())
+        .to.emit(market, "LiquidityWithdrawn")
+        .withArgs(creator.address, LIQUIDITY, await getBlockTimestamp() + 1);
+
+      await market.connect(trader1).claimWinnings();
+      await market.connect(trader2).claimWinnings();
+      expect(await ethers.provider.getBalance(await market.getAddress())).to.equal(0);
+    });
+
+    it("Should reject other out-of-range outcomes", async function () {
+      await expect(market.connect(creator).resolveOutcome(2)).to.be.revertedWith("Invalid outcome");
+      await expect(market.connect(creator).resolveOutcome(INVALID - 1n)).to.be.revertedWith("Invalid outcome");
+    });
+  });
+
+  describe("Resolution Deadline", function () {
+    const PAST_DEADLINE = DURATION_DAYS * 24 * 60 * 60 + RESOLUTION_WINDOW;
+
+    beforeEach(async function () {
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.05") });
+    });
+
+    it("Should let anyone void a market nobody resolved by the deadline", async function () {
+      await expect(market.connect(trader1).voidExpired()).to.be.revertedWith("Deadline not reached");
+
+      await ethers.provider.send("evm_increaseTime", [PAST_DEADLINE]);
+      await ethers.provider.send("evm_mine");
+      await expect(market.connect(creator).resolve(true)).to.be.revertedWith("Deadline passed");
+
+      await expect(market.connect(trader1).voidExpired())
+        .to.emit(market, "MarketInvalidated");
+      expect(await market.isInvalid()).to.equal(true);
+      expect(await market.getClaimableAmount(trader1.address)).to.equal(ethers.parseEther("0.1"));
+      expect(await market.getClaimableAmount(trader2.address)).to.equal(ethers.parseEther("0.05"));
+      await expect(market.voidExpired()).to.be.revertedWith("Market already resolved");
+    });
+
+    it("Should finalize an undisputed proposal instead of voiding", async function () {
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await market.connect(creator).resolve(true);
+
+      await ethers.provider.send("evm_increaseTime", [PAST_DEADLINE]);
+      await ethers.provider.send("evm_mine");
+      await expect(market.voidExpired()).to.be.revertedWith("Resolution proposed");
+
+      await market.finalizeResolution();
+      expect(await market.winningOutcome()).to.equal(true);
+    });
+
+    it("Should void an unsettled dispute and refund the bond", async function () {
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await market.connect(creator).resolve(true);
+      const bond = await market.disputeBond();
+      await market.connect(trader2).dispute({ value: bond });
+
+      await ethers.provider.send("evm_increaseTime", [PAST_DEADLINE]);
+      await ethers.provider.send("evm_mine");
+      const settledAt = await getBlockTimestamp() + 1;
+      await expect(market.voidExpired())
+        .to.emit(market, "DisputeSettled")
+        .withArgs(trader2.address, true, bond, settledAt);
+      expect(await market.isInvalid()).to.equal(true);
+      await expect(market.connect(trader2).withdrawDisputeBond()).to.changeEtherBalance(trader2, bond);
+    });
+
+    it("Should move the deadline with the end time", async function () {
+      const endTime = await market.endTime();
+      const deadline = await market.resolutionDeadline();
+
+      await market.connect(creator).extendEndTime(endTime + 3600n);
+      expect(await market.resolutionDeadline()).to.equal(deadline + 3600n);
+    });
+  });
+
+  describe("Trading Cutoff", function () {
+    const CUTOFF = 60 * 60;
+    const ENDED = 1;
+    let cutoffMarket;
+
+    beforeEach(async function () {
+      const receipt = await (await factory.connect(creator).createMarket(
+        QUESTION, DESCRIPTION, METADATA, ...(await schedule(DURATION_DAYS, CUTOFF)), { value: LIQUIDITY }
+      )).wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "MarketCreated");
+      cutoffMarket = await marketAt(event.args.marketAddress);
+    });
+
+    it("Should stop trading the cutoff before the end time", async function () {
+      const endTime = await cutoffMarket.endTime();
+      expect(await cutoffMarket.tradingEndTime()).to.equal(endTime - BigInt(CUTOFF));
+      await cutoffMarket.connect(trader1).buyYes({ value: ethers.parseEther("0.01") });
+
+      await ethers.provider.send("evm_setNextBlockTimestamp", [Number(endTime) - CUTOFF]);
+      await expect(cutoffMarket.connect(trader1).buyYes({ value: ethers.parseEther("0.01") })).to.be.revertedWith("Market closed");
+      expect(await cutoffMarket.isMarketOpen()).to.equal(false);
+      await expect(cutoffMarket.connect(creator).extendEndTime(endTime + 3600n)).to.be.revertedWith("Market already ended");
+
+      // Closed to trading but not ended, so not resolvable yet
+      await expect(cutoffMarket.connect(creator).resolve(true)).to.be.revertedWith("Market not ended");
+      const [ended] = await factory.getMarketsByStatus(ENDED, 0, 10);
+      expect(ended).to.deep.equal([await cutoffMarket.getAddress()]);
+    });
+
+    it("Should reject a cutoff that leaves no time to trade", async function () {
+      await expect(
+        factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule(1, 24 * 60 * 60)), { value: LIQUIDITY })
+      ).to.be.revertedWith("Invalid cutoff");
+    });
+  });
+
+  describe("Trading Limits", function () {
+    it("Should cap buys per address and for the whole pool", async function () {
+      await expect(market.connect(creator).setLimits(ethers.parseEther("0.05"), ethers.parseEther("0.08")))
+        .to.emit(market, "LimitsUpdated")
+        .withArgs(ethers.parseEther("0.05"), ethers.parseEther("0.08"));
+
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.03") });
+      const [perAddress, pool, userHeadroom, poolHeadroom] = await market.getLimits(trader1.address);
+      expect(perAddress).to.equal(ethers.parseEther("0.05"));
+      expect(pool).to.equal(ethers.parseEther("0.08"));
+      expect(userHeadroom).to.equal(ethers.parseEther("0.02"));
+      expect(poolHeadroom).to.equal(ethers.parseEther("0.05"));
+
+      await expect(market.connect(trader1).buyNo({ value: ethers.parseEther("0.03") })).to.be.revertedWith("Above address limit");
+      await market.connect(trader1).buyNo({ value: ethers.parseEther("0.02") });
+      await market.connect(trader2).buyYes({ value: ethers.parseEther("0.03") });
+      await expect(market.connect(trader2).buyYes({ value: ethers.parseEther("0.01") })).to.be.revertedWith("Above pool limit");
+      expect((await market.getLimits(trader2.address))[3]).to.equal(0);
+    });
+
+    it("Should report no caps by default", async function () {
+      const [perAddress, pool, userHeadroom, poolHeadroom] = await market.getLimits(trader1.address);
+      expect(perAddress).to.equal(0);
+      expect(pool).to.equal(0);
+      expect(userHeadroom).to.equal(ethers.MaxUint256);
+      expect(poolHeadroom).to.equal(ethers.MaxUint256);
+    });
+
+    it("Should only let the creator set limits, and only raise them once trading started", async function () {
+      await expect(market.connect(trader1).setLimits(1, 1)).to.be.revertedWith("Only creator");
+      await market.connect(creator).setLimits(ethers.parseEther("0.05"), 0);
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.01") });
+
+      await expect(market.connect(creator).setLimits(ethers.parseEther("0.02"), 0)).to.be.revertedWith("Limits can only be raised");
+      await expect(market.connect(creator).setLimits(ethers.parseEther("0.05"), ethers.parseEther("1"))).to.be.revertedWith("Limits can only be raised");
+      await market.connect(creator).setLimits(0, 0);
+      expect(await market.maxPerAddress()).to.equal(0);
+    });
+  });
+
+  describe("Early Close", function () {
+    let eventTime;
+
+    beforeEach(async function () {
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+      eventTime = (await getBlockTimestamp()) + 60;
+      await ethers.provider.send("evm_setNextBlockTimestamp", [eventTime]);
+      await market.connect(trader2).buyYes({ value: ethers.parseEther("0.05") });
+      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.02") });
+    });
+
+    it("Should end the market at once and block resolution until late trades are reversed", async function () {
+      await expect(market.connect(creator).closeEarly(eventTime))
+        .to.emit(market, "MarketClosedEarly")
+        .withArgs(eventTime, await getBlockTimestamp() + 1);
+      expect(await market.eventTime()).to.equal(eventTime);
+      expect(await market.endTime()).to.equal(await getBlockTimestamp());
+      expect(await market.isMarketOpen()).to.equal(false);
+      await expect(market.connect(trader1).buyNo({ value: ethers.parseEther("0.01") })).to.be.revertedWith("Market closed");
+
+      expect(await market.lateTradesPending()).to.equal(true);
+      await expect(market.connect(creator).resolve(true)).to.be.revertedWith("Late trades pending");
+    });
+
+    it("Should wait for the resolver or owner to confirm a creator's earlier event time", async function () {
+      await market.connect(creator).closeEarly(eventTime);
+      expect(await market.eventTimePending()).to.equal(true);
+      await expect(market.reverseLateTrades(await lateTrades(market))).to.be.revertedWith("Event time unconfirmed");
+      await expect(market.connect(creator).closeEarly(eventTime)).to.be.revertedWith("Already closed");
+
+      // The factory's resolvers can confirm it, or move it
+      await expect(factory.closeMarketEarly(await market.getAddress(), eventTime + 1))
+        .to.emit(market, "MarketClosedEarly")
+        .withArgs(eventTime + 1, await market.endTime());
+      expect(await market.eventTimePending()).to.equal(false);
+      expect(await market.lateTradeHead()).to.equal(await market.tradeLogHead());
+      await expect(factory.closeMarketEarly(await market.getAddress(), eventTime)).to.be.revertedWith("Already closed");
+    });
+
+    it("Should not wait for confirmation when the creator closes as of now", async function () {
+      const now = (await getBlockTimestamp()) + 1;
+      await ethers.provider.send("evm_setNextBlockTimestamp", [now]);
+      await market.connect(creator).closeEarly(now);
+      expect(await market.eventTimePending()).to.equal(false);
+
+      // Only the newest trade has to be checked, and it came before the close
+      const [newest] = await lateTrades(market);
+      await expect(market.reverseLateTrades([newest])).to.not.emit(market, "PurchaseReversed");
+      expect(await market.lateTradesPending()).to.equal(false);
+    });
+
+    it("Should reverse purchases made after the event, newest first", async function () {
+      const yesBefore = await market.yesShares(trader1.address);
+      await factory.closeMarketEarly(await market.getAddress(), eventTime);
+
+      const trades = await lateTrades(market);
+      await expect(market.reverseLateTrades(trades.slice(1))).to.be.revertedWith("Unknown trade");
+      await expect(market.reverseLateTrades(trades.slice(0, 1)))
+        .to.emit(market, "PurchaseReversed");
+      expect(await market.noShares(trader2.address)).to.equal(0);
+      expect(await market.yesShares(trader2.address)).to.be.gt(0);
+      expect(await market.lateTradesPending()).to.equal(true);
+
+      await market.reverseLateTrades(await lateTrades(market));
+      expect(await market.yesShares(trader2.address)).to.equal(0);
+      expect(await market.yesShares(trader1.address)).to.equal(yesBefore);
+      expect(await market.lateTradesPending()).to.equal(false);
+      await expect(market.reverseLateTrades(trades)).to.be.revertedWith("No late trades");
+
+      // Refunds never exceed what was paid
+      const refund = await market.lateTradeRefunds(trader2.address);
+      expect(refund).to.be.gt(0);
+      expect(refund).to.be.lte(ethers.parseEther("0.07"));
+      await expect(market.connect(trader2).withdrawLateTradeRefund()).to.changeEtherBalance(trader2, refund);
+      await expect(market.connect(trader2).withdrawLateTradeRefund()).to.be.revertedWith("No refund");
+
+      // The market resolves as usual, and the pool still covers the winners
+      await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
+      const payout = await market.getClaimableAmount(trader1.address);
+      expect(payout).to.be.gt(ethers.parseEther("0.1"));
+      await expect(market.connect(trader1).claimWinnings()).to.changeEtherBalance(trader1, payout);
+    });
+
+    it("Should hand back late sales and take their proceeds out of the seller's winnings", async function () {
+      const shares = await market.yesShares(trader1.address);
+      const before = await ethers.provider.getBalance(await market.getAddress());
+      await market.connect(trader1).sellShares(true, shares / 2n, 0);
+      const proceeds = before - await ethers.provider.getBalance(await market.getAddress());
+
+      await factory.closeMarketEarly(await market.getAddress(), eventTime);
+      await expect(market.reverseLateTrades(await lateTrades(market)))
+        .to.emit(market, "SaleReversed");
+      expect(await market.lateTradesPending()).to.equal(false);
+      expect(await market.yesShares(trader1.address)).to.be.closeTo(shares, shares / 1000n);
+      expect(await market.lateTradeDebt(trader1.address)).to.equal(proceeds);
+
+      // Nobody can merge out of their shares once the market closed early
+      await expect(market.connect(trader1).mergePositions(1n)).to.be.revertedWith("Market closed early");
+
+      await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
+      const held = await market.yesShares(trader1.address);
+      const gross = held - proceeds;
+      const payout = gross - (gross * 200n) / 10000n;
+      expect(await market.getClaimableAmount(trader1.address)).to.equal(payout);
+
+      await expect(market.connect(trader1).claimWinnings()).to.changeEtherBalance(trader1, payout);
+      expect(await market.lateTradeDebt(trader1.address)).to.equal(0);
+
+      // The debt stays in the pool, so the liquidity provider is still covered
+      const owed = await market.getWithdrawableLiquidity(creator.address);
+      expect(owed).to.be.lte(await ethers.provider.getBalance(await market.getAddress()));
+      await expect(market.connect(creator).withdrawLiquidity()).to.changeEtherBalance(creator, owed);
+    });
+
+    it("Should take the proceeds of a reversed late sale out of an INVALID refund", async function () {
+      await market.connect(trader1).sellShares(true, (await market.yesShares(trader1.address)) / 2n, 0);
+      await factory.closeMarketEarly(await market.getAddress(), eventTime);
+      await market.reverseLateTrades(await lateTrades(market));
+      const debt = await market.lateTradeDebt(trader1.address);
+
+      await market.connect(creator).resolveOutcome(ethers.MaxUint256);
+      await finalizeAfterDisputePeriod(market);
+      const gross = (await market.totalInvested(trader1.address)) * (await market.totalPool()) / (await market.totalStaked());
+      const collected = debt > gross ? gross : debt;
+      expect(await market.getClaimableAmount(trader1.address)).to.equal(gross - collected);
+      await expect(market.connect(trader1).claimWinnings()).to.changeEtherBalance(trader1, gross - collected);
+      expect(await market.lateTradeDebt(trader1.address)).to.equal(debt - collected);
+    });
+
+    it("Should reverse order fills made after the event", async function () {
+      const shares = ethers.parseEther("0.1");
+      const expiry = (await getBlockTimestamp()) + 3600;
+      const yes = { maker: trader1.address, outcome: 0, price: ethers.parseEther("0.6"), shares, nonce: 0, expiry };
+      const no = { maker: owner.address, outcome: 1, price: ethers.parseEther("0.5"), shares, nonce: 0, expiry };
+      await market.connect(trader1).depositForOrders({ value: shares });
+      await market.connect(owner).depositForOrders({ value: shares });
+      await market.matchOrders(yes, await signOrder(trader1, market, yes), no, await signOrder(owner, market, no), shares);
+
+      await factory.closeMarketEarly(await market.getAddress(), eventTime);
+      await market.reverseLateTrades(await lateTrades(market));
+      expect(await market.noShares(owner.address)).to.equal(0);
+      expect(await market.lateTradeRefunds(owner.address)).to.be.gt(0);
+      expect(await market.lateTradeRefunds(owner.address)).to.be.lte(shares / 2n);
+    });
+
+    it("Should only let the creator, resolver or owner close early", async function () {
+      await expect(market.connect(trader1).closeEarly(eventTime)).to.be.revertedWith("Not authorized");
+      await expect(factory.connect(trader1).closeMarketEarly(await market.getAddress(), eventTime)).to.be.revertedWith("Missing role");
+      await expect(factory.closeMarketEarly(trader1.address, eventTime)).to.be.revertedWith("Unknown market");
+
+      await expect(factory.closeMarketEarly(await market.getAddress(), eventTime))
+        .to.emit(market, "MarketClosedEarly");
+      await expect(market.connect(creator).closeEarly(eventTime)).to.be.revertedWith("Already closed");
+    });
+
+    it("Should only accept an event time within the late trade window", async function () {
+      const now = await getBlockTimestamp();
+      await expect(market.connect(creator).closeEarly(now + 3600)).to.be.revertedWith("Invalid event time");
+
+      await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await expect(market.connect(creator).closeEarly(eventTime)).to.be.revertedWith("Invalid event time");
+    });
+  });
+
+  describe("Access Control", function () {
+    let ADMIN_ROLE, RESOLVER_ROLE, PAUSER_ROLE;
+
+    beforeEach(async function () {
+      ADMIN_ROLE = await factory.ADMIN_ROLE();
+      RESOLVER_ROLE = await factory.RESOLVER_ROLE();
+      PAUSER_ROLE = await factory.PAUSER_ROLE();
+    });
+
+    it("Should give the deployer every role", async function () {
+      for (const role of [ADMIN_ROLE, RESOLVER_ROLE, PAUSER_ROLE]) {
+        expect(await factory.getRoleMembers(role)).to.deep.equal([owner.address]);
+      }
+    });
+
+    it("Should let admins grant and revoke roles", async function () {
+      await expect(factory.connect(trader1).grantRole(PAUSER_ROLE, trader1.address)).to.be.revertedWith("Missing role");
+
+      await expect(factory.grantRole(PAUSER_ROLE, trader1.address))
+        .to.emit(factory, "RoleGranted")
+        .withArgs(PAUSER_ROLE, trader1.address, owner.address);
+      expect(await factory.getRoleMembers(PAUSER_ROLE)).to.deep.equal([owner.address, trader1.address]);
+
+      await expect(factory.revokeRole(PAUSER_ROLE, owner.address))
+        .to.emit(factory, "RoleRevoked")
+        .withArgs(PAUSER_ROLE, owner.address, owner.address);
+      expect(await factory.getRoleMembers(PAUSER_ROLE)).to.deep.equal([trader1.address]);
+      expect(await factory.hasRole(PAUSER_ROLE, owner.address)).to.equal(false);
+    });
+
+    it("Should never leave the factory without an admin", async function () {
+      await expect(factory.renounceRole(ADMIN_ROLE)).to.be.revertedWith("Last admin");
+
+      await factory.grantRole(ADMIN_ROLE, trader1.address);
+      await factory.renounceRole(ADMIN_ROLE);
+      expect(await factory.getRoleMembers(ADMIN_ROLE)).to.deep.equal([trader1.address]);
+      await expect(factory.setFeeConfig(100, 0, 0)).to.be.revertedWith("Missing role");
+    });
+
+    it("Should pay fee withdrawals to the calling admin", async function () {
+      const fee = ethers.parseEther("0.01");
+      await factory.setCreationFee(fee);
+      await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY + fee });
+      await factory.grantRole(ADMIN_ROLE, trader1.address);
+
+      await expect(factory.connect(trader1).withdrawFees())
+        .to.emit(factory, "FeesWithdrawn")
+        .withArgs(trader1.address, fee);
+    });
+  });
+
+  describe("Pausing", function () {
+    it("Should halt trading on one market", async function () {
+      await expect(factory.connect(trader1).setMarketPaused(await market.getAddress(), true)).to.be.revertedWith("Missing role");
+      await expect(factory.setMarketPaused(trader1.address, true)).to.be.revertedWith("Unknown market");
+
+      await expect(factory.setMarketPaused(await market.getAddress(), true))
+        .to.emit(market, "TradingPaused")
+        .withArgs(true, await getBlockTimestamp() + 1);
+      expect(await market.isMarketOpen()).to.equal(false);
+      await expect(market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") })).to.be.revertedWith("Trading paused");
+
+      await factory.setMarketPaused(await market.getAddress(), false);
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+    });
+
+    it("Should halt every market and new creations while the factory is paused", async function () {
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+      await expect(factory.connect(trader1).setPaused(true)).to.be.revertedWith("Missing role");
+
+      await expect(factory.setPaused(true))
+        .to.emit(factory, "PauseUpdated")
+        .withArgs(true);
+      expect(await market.isPaused()).to.equal(true);
+      await expect(market.connect(trader2).buyNo({ value: ethers.parseEther("0.1") })).to.be.revertedWith("Trading paused");
+      await expect(market.connect(trader1).sellShares(true, await market.yesShares(trader1.address), 0)).to.be.revertedWith("Trading paused");
+      await expect(
+        factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY })
+      ).to.be.revertedWith("Factory paused");
+
+      await factory.setPaused(false);
+      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.1") });
+    });
+  });
+
+  describe("Emergency Timelock", function () {
+    let marketAddress;
+
+    beforeEach(async function () {
+      marketAddress = await market.getAddress();
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.1") });
+      await market.connect(trader2).buyNo({ value: ethers.parseEther("0.05") });
+    });
+
+    it("Should only resolve after the delay", async function () {
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await expect(factory.executeEmergencyResolution(marketAddress)).to.be.revertedWith("Not scheduled");
+
+      const delay = await factory.emergencyDelay();
+      const executableAt = BigInt(await getBlockTimestamp() + 1) + delay;
+      await expect(factory.scheduleEmergencyResolution(marketAddress, 1))
+        .to.emit(factory, "EmergencyResolutionScheduled")
+        .withArgs(marketAddress, 1, executableAt);
+      await expect(factory.executeEmergencyResolution(marketAddress)).to.be.revertedWith("Timelock active");
+
+      await ethers.provider.send("evm_increaseTime", [Number(delay)]);
+      await ethers.provider.send("evm_mine");
+      await expect(factory.executeEmergencyResolution(marketAddress))
+        .to.emit(factory, "EmergencyResolutionExecuted")
+        .withArgs(marketAddress, 1);
+      expect(await market.isResolved()).to.equal(true);
+      expect(await market.winningOutcome()).to.equal(false);
+      expect((await factory.emergencyResolutions(marketAddress)).executableAt).to.equal(0);
+    });
+
+    it("Should not resolve a market before its end time", async function () {
+      await factory.setEmergencyDelay(60 * 60);
+      await factory.scheduleEmergencyResolution(marketAddress, 0);
+      await ethers.provider.send("evm_increaseTime", [60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(factory.executeEmergencyResolution(marketAddress)).to.be.revertedWith("Market not ended");
+    });
+
+    it("Should let admins cancel a scheduled resolution", async function () {
+      await factory.scheduleEmergencyResolution(marketAddress, 0);
+      await expect(factory.connect(trader1).cancelEmergencyResolution(marketAddress)).to.be.revertedWith("Missing role");
+
+      await expect(factory.cancelEmergencyResolution(marketAddress))
+        .to.emit(factory, "EmergencyResolutionCancelled")
+        .withArgs(marketAddress);
+      await expect(factory.cancelEmergencyResolution(marketAddress)).to.be.revertedWith("Not scheduled");
+    });
+
+    it("Should restrict scheduling and the delay to their roles", async function () {
+      await expect(factory.connect(trader1).scheduleEmergencyResolution(marketAddress, 0)).to.be.revertedWith("Missing role");
+      await expect(factory.scheduleEmergencyResolution(trader1.address, 0)).to.be.revertedWith("Unknown market");
+      await expect(factory.connect(trader1).setEmergencyDelay(60 * 60)).to.be.revertedWith("Missing role");
+      await expect(factory.setEmergencyDelay(60)).to.be.revertedWith("Invalid delay");
+      await expect(factory.setEmergencyDelay(31 * 24 * 60 * 60)).to.be.revertedWith("Invalid delay");
+
+      await expect(factory.setEmergencyDelay(60 * 60))
+        .to.emit(factory, "EmergencyDelayUpdated")
+        .withArgs(2 * 24 * 60 * 60, 60 * 60);
+    });
+  });
+
+  describe("Collateral Markets", function () {
+    const USDC = (amount) => ethers.parseUnits(amount, 6);
+    let usdc;
+    let tokenMarket;
+
+    async function signPermit(signer, spender, value, deadline) {
+      const { chainId } = await ethers.provider.getNetwork();
+      const signature = await signer.signTypedData(
+        { name: await usdc.name(), version: "1", chainId, verifyingContract: await usdc.getAddress() },
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        { owner: signer.address, spender, value, nonce: await usdc.nonces(signer.address), deadline }
+      );
+      return ethers.Signature.from(signature);
+    }
+
+    beforeEach(async function () {
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+      await usdc.waitForDeployment();
+
+      for (const signer of [creator, trader1, trader2]) {
+        await usdc.mint(signer.address, USDC("1000"));
+      }
+      await factory.setCollateralAllowed(await usdc.getAddress(), true);
+
+      await usdc.connect(creator).approve(await factory.getAddress(), USDC("100"));
+      const tx = await factory.connect(creator).createMarketWithCollateral(
+        QUESTION, DESCRIPTION, METADATA, ...(await schedule()), ["Yes", "No"], await usdc.getAddress(), USDC("100")
+      );
+      const receipt = await tx.wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "CollateralMarketCreated");
+      tokenMarket = await marketAt(event.args.marketAddress);
+    });
+
+    it("Should fund the market maker in the collateral token", async function () {
+      expect(await tokenMarket.collateral()).to.equal(await usdc.getAddress());
+      expect(await tokenMarket.subsidy()).to.equal(USDC("100"));
+      expect(await tokenMarket.minAmount()).to.equal(USDC("0.001"));
+      expect(await usdc.balanceOf(await tokenMarket.getAddress())).to.equal(USDC("100"));
+      expect(await market.collateral()).to.equal(ethers.ZeroAddress);
+    });
+
+    it("Should only accept allowed tokens", async function () {
+      const usdcAddress = await usdc.getAddress();
+      await expect(factory.connect(trader1).setCollateralAllowed(usdcAddress, false)).to.be.revertedWith("Missing role");
+
+      await expect(factory.setCollateralAllowed(usdcAddress, false))
+        .to.emit(factory, "CollateralUpdated")
+        .withArgs(usdcAddress, false);
+      await expect(
+        factory.connect(creator).createMarketWithCollateral(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), ["Yes", "No"], usdcAddress, USDC("100"))
+      ).to.be.revertedWith("Collateral not allowed");
+
+      await factory.setCollateralAllowed(usdcAddress, true);
+      await expect(
+        factory.connect(creator).createMarketWithCollateral(
+          QUESTION, DESCRIPTION, METADATA, ...(await schedule()), ["Yes", "No"], usdcAddress, USDC("100"), { value: LIQUIDITY }
+        )
+      ).to.be.revertedWith("Liquidity is paid in collateral");
+    });
+
+    it("Should trade with approve and pay winnings in the token", async function () {
+      const marketAddress = await tokenMarket.getAddress();
+      await usdc.connect(trader1).approve(marketAddress, USDC("10"));
+      await usdc.connect(trader2).approve(marketAddress, USDC("10"));
+
+      await expect(tokenMarket.connect(trader1).buyWithCollateral(0, USDC("10")))
+        .to.emit(tokenMarket, "SharesPurchased");
+      await tokenMarket.connect(trader2).buyWithCollateral(1, USDC("10"));
+      await expect(tokenMarket.connect(trader1).buyYes({ value: LIQUIDITY })).to.be.revertedWith("Token market");
+      await expect(tokenMarket.connect(trader1).buyWithCollateral(0, 100)).to.be.revertedWith("Below minimum");
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await tokenMarket.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(tokenMarket);
+
+      const shares = await tokenMarket.yesShares(trader1.address);
+      const before = await usdc.balanceOf(trader1.address);
+      await tokenMarket.connect(trader1).claimWinnings();
+      expect(await usdc.balanceOf(trader1.address) - before).to.equal(shares - (shares * 200n) / 10000n);
+
+      // Platform fees flow through the factory in the token
+      const platformCut = await tokenMarket.platformFeesAccrued();
+      await factory.collectMarketFees(marketAddress);
+      await expect(factory.withdrawTokenFees(await usdc.getAddress()))
+        .to.emit(factory, "TokenFeesWithdrawn")
+        .withArgs(await usdc.getAddress(), owner.address, platformCut);
+    });
+
+    it("Should buy with an EIP-2612 permit instead of an approval", async function () {
+      const marketAddress = await tokenMarket.getAddress();
+      const deadline = (await getBlockTimestamp()) + 3600;
+      const { v, r, s } = await signPermit(trader1, marketAddress, USDC("5"), deadline);
+
+      await expect(tokenMarket.connect(trader1).buyWithPermit(0, USDC("5"), deadline, v, r, s))
+        .to.emit(tokenMarket, "OutcomePurchased");
+      expect(await usdc.nonces(trader1.address)).to.equal(1);
+      expect(await usdc.allowance(trader1.address, marketAddress)).to.equal(0);
+      expect(await tokenMarket.totalInvested(trader1.address)).to.equal(USDC("5"));
+
+      await expect(market.connect(trader1).buyWithPermit(0, USDC("5"), deadline, v, r, s))
+        .to.be.revertedWith("Not a token market");
+    });
+
+    it("Should refund sells in the token", async function () {
+      await usdc.connect(trader1).approve(await tokenMarket.getAddress(), USDC("10"));
+      await tokenMarket.connect(trader1).buyWithCollateral(0, USDC("10"));
+
+      const shares = await tokenMarket.yesShares(trader1.address);
+      const quote = await tokenMarket.quoteSell(true, shares);
+      const before = await usdc.balanceOf(trader1.address);
+      await tokenMarket.connect(trader1).sellShares(true, shares, quote);
+
+      expect(await usdc.balanceOf(trader1.address) - before).to.equal(quote);
+    });
+
+    it("Should settle matched orders from token allowances", async function () {
+      const expiry = (await getBlockTimestamp()) + 3600;
+      const yes = { maker: trader1.address, outcome: 0, price: ethers.parseEther("0.7"), shares: USDC("10"), nonce: 0, expiry };
+      const no = { maker: trader2.address, outcome: 1, price: ethers.parseEther("0.3"), shares: USDC("10"), nonce: 0, expiry };
+      await usdc.connect(trader1).approve(await tokenMarket.getAddress(), USDC("7"));
+      await usdc.connect(trader2).approve(await tokenMarket.getAddress(), USDC("3"));
+
+      await expect(tokenMarket.connect(trader1).depositForOrders({ value: 1n })).to.be.revertedWith("Token market");
+      await tokenMarket.matchOrders(
+        yes, await signOrder(trader1, tokenMarket, yes), no, await signOrder(trader2, tokenMarket, no), USDC("10")
+      );
+
+      expect(await usdc.balanceOf(trader1.address)).to.equal(USDC("993"));
+      expect(await usdc.balanceOf(trader2.address)).to.equal(USDC("997"));
+      expect(await tokenMarket.yesShares(trader1.address)).to.equal(USDC("10"));
+      expect(await tokenMarket.noShares(trader2.address)).to.equal(USDC("10"));
+    });
+
+    it("Should keep ETH markets on msg.value", async function () {
+      await expect(
+        market.connect(trader1).buyWithCollateral(0, ethers.parseEther("0.01"), { value: ethers.parseEther("0.02") })
+      ).to.be.revertedWith("Wrong value");
+      await expect(market.connect(trader1).buyWithCollateral(0, ethers.parseEther("0.01"), { value: ethers.parseEther("0.01") }))
+        .to.emit(market, "OutcomePurchased");
+    });
+  });
+
+  describe("Meta-Transactions", function () {
+    const USDC = (amount) => ethers.parseUnits(amount, 6);
+    let usdc;
+    let forwarder;
+    let relayer;
+    let tokenMarket;
+
+    // Forward request from `signer` to `target`, signed with the signer's next nonce
+    async function forwardRequest(signer, target, data, overrides = {}) {
+      const request = {
+        from: signer.address,
+        to: await target.getAddress(),
+        value: 0,
+        gas: 3_000_000,
+        nonce: await forwarder.nonces(signer.address),
+        deadline: (await getBlockTimestamp()) + 3600,
+        data,
+        ...overrides,
+      };
+      return [request, await signForwardRequest(signer, forwarder, request)];
+    }
+
+    async function createdMarket(receipt) {
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "CollateralMarketCreated");
+      return marketAt(event.args.marketAddress);
+    }
+
+    beforeEach(async function () {
+      [, , , , relayer] = await ethers.getSigners();
+
+      const Forwarder = await ethers.getContractFactory("TrustedForwarder");
+      forwarder = await Forwarder.deploy();
+      await forwarder.waitForDeployment();
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      usdc = await MockERC20.deploy("USD Coin", "USDC", 6);
+      await usdc.waitForDeployment();
+
+      for (const signer of [creator, trader1, trader2]) {
+        await usdc.mint(signer.address, USDC("1000"));
+      }
+      await factory.setCollateralAllowed(await usdc.getAddress(), true);
+      await expect(factory.setTrustedForwarder(await forwarder.getAddress()))
+        .to.emit(factory, "TrustedForwarderUpdated")
+        .withArgs(ethers.ZeroAddress, await forwarder.getAddress());
+
+      await usdc.connect(creator).approve(await factory.getAddress(), USDC("100"));
+      tokenMarket = await createdMarket(await (await factory.connect(creator).createMarketWithCollateral(
+        QUESTION, DESCRIPTION, METADATA, ...(await schedule()), ["Yes", "No"], await usdc.getAddress(), USDC("100")
+      )).wait());
+    });
+
+    it("Should hand the forwarder to new markets only", async function () {
+      expect(await tokenMarket.trustedForwarder()).to.equal(await forwarder.getAddress());
+      expect(await market.trustedForwarder()).to.equal(ethers.ZeroAddress);
+      await expect(factory.connect(trader1).setTrustedForwarder(trader1.address)).to.be.revertedWith("Missing role");
+    });
+
+    it("Should relay a permit buy without the signer paying gas", async function () {
+      const marketAddress = await tokenMarket.getAddress();
+      const deadline = (await getBlockTimestamp()) + 3600;
+      const { chainId } = await ethers.provider.getNetwork();
+      const permit = ethers.Signature.from(await trader1.signTypedData(
+        { name: await usdc.name(), version: "1", chainId, verifyingContract: await usdc.getAddress() },
+        {
+          Permit: [
+            { name: "owner", type: "address" },
+            { name: "spender", type: "address" },
+            { name: "value", type: "uint256" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        { owner: trader1.address, spender: marketAddress, value: USDC("5"), nonce: 0, deadline }
+      ));
+      const data = tokenMarket.interface.encodeFunctionData(
+        "buyWithPermit", [0, USDC("5"), deadline, permit.v, permit.r, permit.s]
+      );
+      const [request, signature] = await forwardRequest(trader1, tokenMarket, data);
+
+      const tx = forwarder.connect(relayer).execute(request, signature);
+      await expect(tx).to.changeEtherBalance(trader1, 0);
+      await expect(tx)
+        .to.emit(forwarder, "RequestExecuted")
+        .withArgs(trader1.address, marketAddress, 0, relayer.address);
+      expect(await tokenMarket.totalInvested(trader1.address)).to.equal(USDC("5"));
+      expect(await tokenMarket.yesShares(trader1.address)).to.be.gt(0);
+      expect(await tokenMarket.totalInvested(await forwarder.getAddress())).to.equal(0);
+      expect(await forwarder.nonces(trader1.address)).to.equal(1);
+    });
+
+    it("Should reject replayed, expired, forged and mispaid requests", async function () {
+      await usdc.connect(trader1).approve(await tokenMarket.getAddress(), USDC("10"));
+      const data = tokenMarket.interface.encodeFunctionData("buyWithCollateral", [0, USDC("5")]);
+
+      const [request, signature] = await forwardRequest(trader1, tokenMarket, data);
+      expect(await forwarder.verify(request, signature)).to.equal(true);
+      await forwarder.connect(relayer).execute(request, signature);
+      await expect(forwarder.connect(relayer).execute(request, signature)).to.be.revertedWith("Invalid request");
+
+      const [expired, expiredSignature] = await forwardRequest(trader1, tokenMarket, data, {
+        deadline: (await getBlockTimestamp()) - 1,
+      });
+      await expect(forwarder.connect(relayer).execute(expired, expiredSignature)).to.be.revertedWith("Invalid request");
+
+      // Signed by trader2 but claiming to be trader1
+      const [forged] = await forwardRequest(trader1, tokenMarket, data);
+      const forgedSignature = await signForwardRequest(trader2, forwarder, forged);
+      await expect(forwarder.connect(relayer).execute(forged, forgedSignature)).to.be.revertedWith("Invalid request");
+
+      const [paid, paidSignature] = await forwardRequest(trader1, tokenMarket, data, { value: 1n });
+      await expect(forwarder.connect(relayer).execute(paid, paidSignature)).to.be.revertedWith("Wrong value");
+    });
+
+    it("Should bubble up the target's revert and keep the nonce", async function () {
+      const data = tokenMarket.interface.encodeFunctionData("buyWithCollateral", [0, 100]);
+      const [request, signature] = await forwardRequest(trader1, tokenMarket, data);
+
+      await expect(forwarder.connect(relayer).execute(request, signature)).to.be.revertedWith("Below minimum");
+      expect(await forwarder.nonces(trader1.address)).to.equal(0);
+    });
+
+    it("Should ignore an appended sender from anyone but the forwarder", async function () {
+      await usdc.connect(trader1).approve(await tokenMarket.getAddress(), USDC("5"));
+      const data = tokenMarket.interface.encodeFunctionData("buyWithCollateral", [0, USDC("5")]);
+
+      await trader1.sendTransaction({ to: await tokenMarket.getAddress(), data: data + trader2.address.slice(2) });
+      expect(await tokenMarket.totalInvested(trader1.address)).to.equal(USDC("5"));
+      expect(await tokenMarket.totalInvested(trader2.address)).to.equal(0);
+    });
+
+    it("Should relay market creation and batch claims for the signer", async function () {
+      await usdc.connect(trader1).approve(await factory.getAddress(), USDC("100"));
+      const create = factory.interface.encodeFunctionData("createMarketWithCollateral", [
+        QUESTION, DESCRIPTION, METADATA, ...(await schedule()), ["Yes", "No"], await usdc.getAddress(), USDC("100"),
+      ]);
+      const [request, signature] = await forwardRequest(trader1, factory, create);
+      const created = await createdMarket(await (await forwarder.connect(relayer).execute(request, signature)).wait());
+
+      expect(await created.creator()).to.equal(trader1.address);
+      expect(await factory.getMarketsByCreator(trader1.address)).to.deep.equal([await created.getAddress()]);
+
+      // Relay a buy, resolve as the relayed creator, then claim through the factory
+      await usdc.connect(trader2).approve(await created.getAddress(), USDC("10"));
+      const buy = created.interface.encodeFunctionData("buyWithCollateral", [0, USDC("10")]);
+      await forwarder.connect(relayer).execute(...(await forwardRequest(trader2, created, buy)));
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      const resolve = created.interface.encodeFunctionData("resolve", [true]);
+      await forwarder.connect(relayer).execute(...(await forwardRequest(trader1, created, resolve)));
+      await finalizeAfterDisputePeriod(created);
+
+      const winnings = await created.getClaimableAmount(trader2.address);
+      const claim = factory.interface.encodeFunctionData("batchClaimWinnings", [[await created.getAddress()]]);
+      await expect(forwarder.connect(relayer).execute(...(await forwardRequest(trader2, factory, claim))))
+        .to.changeTokenBalance(usdc, trader2, winnings);
+    });
+  });
+
+  describe("Outcome Tokens", function () {
+    const BUY_AMOUNT = ethers.parseEther("0.1");
+    let outcomeToken;
+    let tokenMarket;
+    let yesId;
+
+    beforeEach(async function () {
+      const OutcomeToken = await ethers.getContractFactory("OutcomeToken");
+      outcomeToken = await OutcomeToken.deploy();
+      await outcomeToken.waitForDeployment();
+      await factory.setOutcomeToken(await outcomeToken.getAddress());
+
+      await factory.connect(creator).createMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), { value: LIQUIDITY });
+      tokenMarket = await marketAt(await factory.marketById(1));
+      yesId = await outcomeToken.tokenId(await tokenMarket.getAddress(), 0);
+
+      await tokenMarket.connect(trader1).buyYes({ value: BUY_AMOUNT });
+    });
+
+    it("Should pack the market and outcome into the token ID", async function () {
+      const [marketAddress, outcome] = await outcomeToken.decodeTokenId(yesId);
+      expect(marketAddress).to.equal(await tokenMarket.getAddress());
+      expect(outcome).to.equal(0);
+      expect(await outcomeToken.supportsInterface("0xd9b67a26")).to.equal(true);
+    });
+
+    it("Should mirror market balances and log mints", async function () {
+      const shares = await tokenMarket.yesShares(trader1.address);
+      expect(await outcomeToken.balanceOf(trader1.address, yesId)).to.equal(shares);
+
+      await expect(tokenMarket.connect(trader2).buyYes({ value: BUY_AMOUNT }))
+        .to.emit(outcomeToken, "TransferSingle");
+    });
+
+    it("Should transfer shares between wallets", async function () {
+      const shares = await tokenMarket.yesShares(trader1.address);
+      const half = shares / 2n;
+
+      await expect(outcomeToken.connect(trader1).safeTransferFrom(trader1.address, trader2.address, yesId, half, "0x"))
+        .to.emit(outcomeToken, "TransferSingle")
+        .withArgs(trader1.address, trader1.address, trader2.address, yesId, half);
+
+      expect(await tokenMarket.yesShares(trader1.address)).to.equal(shares - half);
+      expect(await tokenMarket.yesShares(trader2.address)).to.equal(half);
+      // Trading totals are unchanged by a transfer
+      expect(await tokenMarket.totalYesShares()).to.equal(shares);
+    });
+
+    it("Should require approval for operators", async function () {
+      await expect(
+        outcomeToken.connect(trader2).safeTransferFrom(trader1.address, trader2.address, yesId, 1n, "0x")
+      ).to.be.revertedWith("Not approved");
+
+      await outcomeToken.connect(trader1).setApprovalForAll(trader2.address, true);
+      await outcomeToken.connect(trader2).safeTransferFrom(trader1.address, trader2.address, yesId, 1n, "0x");
+      expect(await tokenMarket.yesShares(trader2.address)).to.equal(1n);
+    });
+
+    it("Should only let the outcome token move shares", async function () {
+      await expect(
+        tokenMarket.connect(trader1).transferShares(trader1.address, trader2.address, 0, 1n)
+      ).to.be.revertedWith("Only outcome token");
+      // Markets created without an outcome token stay non-transferable
+      const legacyYesId = await outcomeToken.tokenId(await market.getAddress(), 0);
+      expect(await outcomeToken.balanceOf(trader1.address, legacyYesId)).to.equal(0);
+    });
+
+    it("Should pay winnings to whoever holds the shares", async function () {
+      const shares = await tokenMarket.yesShares(trader1.address);
+      await outcomeToken.connect(trader1).safeTransferFrom(trader1.address, trader2.address, yesId, shares, "0x");
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await tokenMarket.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(tokenMarket);
+
+      await expect(tokenMarket.connect(trader1).claimWinnings()).to.be.revertedWith("No winning shares");
+      await expect(tokenMarket.connect(trader2).claimWinnings())
+        .to.emit(outcomeToken, "TransferSingle")
+        .withArgs(trader2.address, trader2.address, ethers.ZeroAddress, yesId, shares);
+      expect(await outcomeToken.balanceOf(trader2.address, yesId)).to.equal(0);
+    });
+    it("Should move the stake with transferred shares so a sale can't keep the refund", async function () {
+      const INVALID = ethers.MaxUint256;
+      await tokenMarket.connect(trader1).buyNo({ value: ethers.parseEther("0.05") });
+      const shares = await tokenMarket.yesShares(trader1.address);
+      await outcomeToken.connect(trader1).safeTransferFrom(trader1.address, trader2.address, yesId, shares, "0x");
+
+      expect(await tokenMarket.totalInvested(trader1.address)).to.equal(ethers.parseEther("0.05"));
+      expect(await tokenMarket.totalInvested(trader2.address)).to.equal(BUY_AMOUNT);
+
+      // The sale unstakes its proceeds from the stake that came with the shares
+      const before = await ethers.provider.getBalance(await tokenMarket.getAddress());
+      await tokenMarket.connect(trader2).sellShares(true, shares, 0);
+      const proceeds = before - await ethers.provider.getBalance(await tokenMarket.getAddress());
+      expect(await tokenMarket.totalInvested(trader2.address)).to.equal(BUY_AMOUNT - proceeds);
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await emergencyResolve(factory, tokenMarket, INVALID);
+
+      const refund = await tokenMarket.getClaimableAmount(trader1.address);
+      expect(refund).to.be.lte(ethers.parseEther("0.05"));
+      expect(refund + await tokenMarket.getClaimableAmount(trader2.address)).to.be.closeTo(await tokenMarket.totalPool(), 1n);
+      await tokenMarket.connect(trader1).claimWinnings();
+      await tokenMarket.connect(trader2).claimWinnings();
+
+      const noId = await outcomeToken.tokenId(await tokenMarket.getAddress(), 1);
+      await expect(
+        outcomeToken.connect(trader1).safeTransferFrom(trader1.address, trader2.address, noId, 1n, "0x")
+      ).to.be.revertedWith("Market voided");
+    });
+  });
+
+  describe("Order Book", function () {
+    const SHARES = ethers.parseEther("1");
+    const DEPOSIT = ethers.parseEther("1");
+    let expiry;
+
+    const order = (maker, outcome, price, overrides = {}) => ({
+      maker: maker.address,
+      outcome,
+      price: ethers.parseEther(price),
+      shares: SHARES,
+      nonce: 0,
+      expiry,
+      ...overrides,
+    });
+
+    beforeEach(async function () {
+      expiry = (await getBlockTimestamp()) + 3600;
+      await market.connect(trader1).depositForOrders({ value: DEPOSIT });
+      await market.connect(trader2).depositForOrders({ value: DEPOSIT });
+    });
+
+    it("Should fill crossing YES and NO bids at the midpoint", async function () {
+      const yes = order(trader1, 0, "0.6");
+      const no = order(trader2, 1, "0.5");
+      const priceBefore = await market.getPrice(true);
+
+      // Midpoint of 0.6 and 1 - 0.5 is 0.55 per YES share
+      const yesCost = ethers.parseEther("0.55");
+      const yesSig = await signOrder(trader1, market, yes);
+      const noSig = await signOrder(trader2, market, no);
+      const [yesHash, noHash] = [await market.orderHash(yes), await market.orderHash(no)];
+      await expect(market.connect(owner).matchOrders(yes, yesSig, no, noSig, SHARES))
+        .to.emit(market, "OrdersMatched")
+        .withArgs(yesHash, noHash, SHARES, yesCost, await getBlockTimestamp() + 1);
+
+      expect(await market.yesShares(trader1.address)).to.equal(SHARES);
+      expect(await market.noShares(trader2.address)).to.equal(SHARES);
+      expect(await market.orderDeposits(trader1.address)).to.equal(DEPOSIT - yesCost);
+      expect(await market.orderDeposits(trader2.address)).to.equal(DEPOSIT - (SHARES - yesCost));
+      expect(await market.totalPool()).to.equal(SHARES);
+      // A full set of shares leaves the LMSR price where it was
+      expect(await market.getPrice(true)).to.be.closeTo(priceBefore, 10n);
+    });
+
+    it("Should reject orders whose prices don't cross", async function () {
+      const yes = order(trader1, 0, "0.4");
+      const no = order(trader2, 1, "0.5");
+      await expect(
+        market.matchOrders(yes, await signOrder(trader1, market, yes), no, await signOrder(trader2, market, no), SHARES)
+      ).to.be.revertedWith("Prices don't cross");
+    });
+
+    it("Should reject forged signatures", async function () {
+      const yes = order(trader1, 0, "0.6");
+      const no = order(trader2, 1, "0.5");
+      await expect(
+        market.matchOrders(yes, await signOrder(trader2, market, yes), no, await signOrder(trader2, market, no), SHARES)
+      ).to.be.revertedWith("Invalid signature");
+    });
+
+    it("Should not fill more than the order size or cancelled orders", async function () {
+      const yes = order(trader1, 0, "0.6");
+      const no = order(trader2, 1, "0.5", { shares: SHARES * 2n });
+      const yesSig = await signOrder(trader1, market, yes);
+      const noSig = await signOrder(trader2, market, no);
+
+      await market.matchOrders(yes, yesSig, no, noSig, SHARES / 2n);
+      await expect(market.matchOrders(yes, yesSig, no, noSig, SHARES)).to.be.revertedWith("Order overfilled");
+
+      await expect(market.connect(trader1).cancelOrder(no)).to.be.revertedWith("Not order maker");
+      await market.connect(trader2).cancelOrder(no);
+      const freshYes = order(trader1, 0, "0.6", { nonce: 1 });
+      await expect(
+        market.matchOrders(freshYes, await signOrder(trader1, market, freshYes), no, noSig, 1n)
+      ).to.be.revertedWith("Order overfilled");
+    });
+
+    it("Should require makers to have funded the fill", async function () {
+      await market.connect(trader2).withdrawOrderDeposit(DEPOSIT);
+      const yes = order(trader1, 0, "0.6");
+      const no = order(trader2, 1, "0.5");
+      await expect(
+        market.matchOrders(yes, await signOrder(trader1, market, yes), no, await signOrder(trader2, market, no), SHARES)
+      ).to.be.revertedWith("Insufficient deposit");
+    });
+
+    it("Should pay matched shares out like any other shares", async function () {
+      const yes = order(trader1, 0, "0.6");
+      const no = order(trader2, 1, "0.5");
+      await market.matchOrders(yes, await signOrder(trader1, market, yes), no, await signOrder(trader2, market, no), SHARES);
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
+
+      expect(await market.getClaimableAmount(trader1.address)).to.equal(SHARES - (SHARES * 200n) / 10000n);
+      await market.connect(trader1).claimWinnings();
+      await market.connect(creator).withdrawLiquidity();
+      expect(await ethers.provider.getBalance(await market.getAddress())).to.equal(
+        (await market.orderDeposits(trader1.address)) + (await market.orderDeposits(trader2.address)) + (await market.platformFeesAccrued()) + (await market.creatorFeesAccrued())
+      );
+    });
+  });
+
+  describe("Complete Sets", function () {
+    const AMOUNT = ethers.parseEther("0.5");
+
+    it("Should mint one share of each outcome per unit split", async function () {
+      const priceBefore = await market.getPrice(true);
+
+      await expect(market.connect(trader1).splitPosition(AMOUNT, { value: AMOUNT }))
+        .to.emit(market, "PositionSplit")
+        .withArgs(trader1.address, AMOUNT, await getBlockTimestamp() + 1);
+
+      expect(await market.yesShares(trader1.address)).to.equal(AMOUNT);
+      expect(await market.noShares(trader1.address)).to.equal(AMOUNT);
+      expect(await market.totalPool()).to.equal(AMOUNT);
+      // Prices only move with the difference between outcome totals
+      expect(await market.getPrice(true)).to.equal(priceBefore);
+    });
+
+    it("Should redeem a full set for collateral", async function () {
+      await market.connect(trader1).splitPosition(AMOUNT, { value: AMOUNT });
+      const half = AMOUNT / 2n;
+
+      const before = await ethers.provider.getBalance(trader1.address);
+      const tx = await market.connect(trader1).mergePositions(half);
+      const receipt = await tx.wait();
+      const gas = receipt.gasUsed * receipt.gasPrice;
+
+      expect(await ethers.provider.getBalance(trader1.address)).to.equal(before + half - gas);
+      expect(await market.yesShares(trader1.address)).to.equal(AMOUNT - half);
+      expect(await market.totalPool()).to.equal(AMOUNT - half);
+      expect(await market.totalInvested(trader1.address)).to.equal(AMOUNT - half);
+    });
+
+    it("Should require shares of every outcome to merge", async function () {
+      await market.connect(trader1).buyYes({ value: AMOUNT });
+      const shares = await market.yesShares(trader1.address);
+      await expect(market.connect(trader1).mergePositions(shares)).to.be.revertedWith("Insufficient shares");
+      await expect(market.connect(trader1).mergePositions(0)).to.be.revertedWith("Nothing to merge");
+    });
+
+    it("Should reject wrong values and closed markets", async function () {
+      await expect(market.connect(trader1).splitPosition(AMOUNT, { value: AMOUNT - 1n })).to.be.revertedWith("Wrong value");
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await expect(market.connect(trader1).splitPosition(AMOUNT, { value: AMOUNT })).to.be.revertedWith("Market closed");
+    });
+  });
+
+  describe("Multiple Traders", function () {
+    it("Should pay winners per share held", async function () {
+      const [, , t1, t2, t3] = await ethers.getSigners();
+
+      await market.connect(t1).buyYes({ value: ethers.parseEther("0.1") });
+      await market.connect(t2).buyYes({ value: ethers.parseEther("0.05") });
+      await market.connect(t3).buyNo({ value: ethers.parseEther("0.15") });
+
+      // Resolve YES wins
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
+
+      const shares1 = await market.yesShares(t1.address);
+      const shares2 = await market.yesShares(t2.address);
+
+      // t1 bought earlier at a lower price, so gets more shares per ETH than t2
+      expect(shares1 * ethers.parseEther("0.05")).to.be.gt(shares2 * ethers.parseEther("0.1"));
+
+      expect(await market.getClaimableAmount(t1.address)).to.equal(shares1 - (shares1 * 200n) / 10000n);
+      expect(await market.getClaimableAmount(t2.address)).to.equal(shares2 - (shares2 * 200n) / 10000n);
+      expect(await market.getClaimableAmount(t3.address)).to.equal(0);
+    });
+  });
+
+  describe("Categorical Markets", function () {
+    const OUTCOMES = ["Alice", "Bob", "Carol", "Dave"];
+    let catMarket;
+
+    beforeEach(async function () {
+      const tx = await factory.connect(creator).createCategoricalMarket(
+        "Who wins the election?",
+        "Resolves to the certified winner",
+        METADATA,
+        ...(await schedule()),
+        OUTCOMES,
+        { value: LIQUIDITY }
+      );
+      const receipt = await tx.wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "CategoricalMarketCreated");
+
+      catMarket = await marketAt(event.args.marketAddress);
+    });
+
+    it("Should store outcome names", async function () {
+      expect(await catMarket.outcomeCount()).to.equal(OUTCOMES.length);
+      expect(await catMarket.getOutcomes()).to.deep.equal(OUTCOMES);
+      expect(await factory.marketCount()).to.equal(2);
+    });
+
+    it("Should reject fewer than 3 or more than 20 outcomes", async function () {
+      await expect(
+        factory.connect(creator).createCategoricalMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), ["A", "B"], { value: LIQUIDITY })
+      ).to.be.revertedWith("Need at least 3 outcomes");
+
+      const tooMany = Array.from({ length: 21 }, (_, i) => `Outcome ${i}`);
+      await expect(
+        factory.connect(creator).createCategoricalMarket(QUESTION, DESCRIPTION, METADATA, ...(await schedule()), tooMany, { value: LIQUIDITY })
+      ).to.be.revertedWith("Invalid outcome count");
+    });
+
+    it("Should size b for n outcomes", async function () {
+      const b = await catMarket.liquidityParameter();
+      const ln4 = 2n * LN2;
+      expect((b * ln4) / WAD).to.be.closeTo(LIQUIDITY, 10n);
+    });
+
+    it("Should start with uniform prices summing to 1", async function () {
+      const prices = await catMarket.getPrices();
+      expect(prices.length).to.equal(OUTCOMES.length);
+
+      let sum = 0n;
+      for (const p of prices) {
+        expect(p).to.be.closeTo(WAD / 4n, WAD / 1000000n);
+        sum += p;
+      }
+      expect(sum).to.be.closeTo(WAD, WAD / 1000000n);
+    });
+
+    it("Should buy and sell an outcome", async function () {
+      await catMarket.connect(trader1).buyOutcome(2, { value: ethers.parseEther("0.05") });
+
+      const shares = await catMarket.outcomeShares(trader1.address, 2);
+      expect(shares).to.be.gt(ethers.parseEther("0.05"));
+      expect(await catMarket.getOutcomePrice(2)).to.be.gt(WAD / 4n);
+      expect((await catMarket.getOutcomeTotals())[2]).to.equal(shares);
+
+      const quote = await catMarket.quoteSellOutcome(2, shares);
+      await expect(catMarket.connect(trader1).sellOutcome(2, shares, quote))
+        .to.emit(catMarket, "OutcomeSold")
+        .withArgs(trader1.address, 2, shares, quote, await getBlockTimestamp() + 1);
+      expect(await catMarket.outcomeShares(trader1.address, 2)).to.equal(0);
+    });
+
+    it("Should emit OutcomePurchased but not the binary event", async function () {
+      const tx = catMarket.connect(trader1).buyOutcome(1, { value: ethers.parseEther("0.01") });
+      await expect(tx).to.emit(catMarket, "OutcomePurchased");
+      await expect(tx).to.not.emit(catMarket, "SharesPurchased");
+    });
+
+    it("Should reject invalid outcomes and the YES/NO API", async function () {
+      await expect(
+        catMarket.connect(trader1).buyOutcome(4, { value: ethers.parseEther("0.01") })
+      ).to.be.revertedWith("Invalid outcome");
+      await expect(
+        catMarket.connect(trader1).buyYes({ value: ethers.parseEther("0.01") })
+      ).to.be.revertedWith("Not a binary market");
+    });
+
+    it("Should pay out the winning outcome", async function () {
+      await catMarket.connect(trader1).buyOutcome(0, { value: ethers.parseEther("0.05") });
+      await catMarket.connect(trader2).buyOutcome(3, { value: ethers.parseEther("0.05") });
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await catMarket.connect(creator).resolveOutcome(3);
+      await ethers.provider.send("evm_increaseTime", [DISPUTE_PERIOD]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(catMarket.finalizeResolution())
+        .to.emit(catMarket, "OutcomeResolved");
+      expect(await catMarket.winningOutcomeIndex()).to.equal(3);
+
+      const shares = await catMarket.outcomeShares(trader2.address, 3);
+      expect(await catMarket.getClaimableAmount(trader2.address)).to.equal(shares - (shares * 200n) / 10000n);
+      expect(await catMarket.getClaimableAmount(trader1.address)).to.equal(0);
+
+      await catMarket.connect(trader2).claimWinnings();
+      await catMarket.connect(creator).withdrawLiquidity();
+      // Only the platform's and the creator's fee cuts stay behind, the LP cut went with the liquidity
+      const fee = (shares * 200n) / 10000n;
+      expect(await ethers.provider.getBalance(await catMarket.getAddress())).to.equal(fee - (fee * 2500n) / 10000n);
+    });
+
+    it("Should keep binary markets compatible", async function () {
+      expect(await market.getOutcomes()).to.deep.equal(["Yes", "No"]);
+      await market.connect(trader1).buyOutcome(1, { value: ethers.parseEther("0.01") });
+      expect(await market.noShares(trader1.address)).to.equal(await market.outcomeShares(trader1.address, 1));
+    });
+  });
+
+  describe("Scalar Markets", function () {
+    const LOWER = ethers.parseEther("1000");
+    const UPPER = ethers.parseEther("5000");
+    let scalarMarket;
+
+    async function createScalar(lower = LOWER, upper = UPPER) {
+      return factory.connect(creator).createScalarMarket(
+        "What will ETH close at on Dec 31?",
+        "Resolves to the Coinbase ETH-USD close",
+        METADATA,
+        ...(await schedule()),
+        lower,
+        upper,
+        { value: LIQUIDITY }
+      );
+    }
+
+    beforeEach(async function () {
+      const Deployer = await ethers.getContractFactory("ScalarMarketDeployer", { libraries });
+      const deployer = await Deployer.deploy(await factory.getAddress());
+      await deployer.waitForDeployment();
+      await factory.setScalarDeployer(await deployer.getAddress());
+
+      const receipt = await (await createScalar()).wait();
+      const event = receipt.logs
+        .map(log => { try { return factory.interface.parseLog(log); } catch { return null; } })
+        .find(parsed => parsed?.name === "ScalarMarketCreated");
+
+      scalarMarket = await ethers.getContractAt("ScalarMarket", event.args.marketAddress);
+    });
+
+    it("Should create a scalar market through the factory", async function () {
+      expect(await factory.marketCount()).to.equal(2);
+      expect(await scalarMarket.creator()).to.equal(creator.address);
+      expect(await scalarMarket.owner()).to.equal(await factory.getAddress());
+      expect(await scalarMarket.lowerBound()).to.equal(LOWER);
+      expect(await scalarMarket.upperBound()).to.equal(UPPER);
+      expect(await ethers.provider.getBalance(await scalarMarket.getAddress())).to.equal(LIQUIDITY);
+    });
+
+    it("Should report a version outside the PredictionMarket range", async function () {
+      expect(await scalarMarket.marketVersion()).to.equal(1006);
+    });
+
+    it("Should summarize scalar markets without outcome totals", async function () {
+      const [summary] = await factory.getMarketSummaries([await scalarMarket.getAddress()]);
+      expect(summary.question).to.equal("What will ETH close at on Dec 31?");
+      expect(summary.outcomeTotals).to.deep.equal([]);
+      expect(summary.winningOutcome).to.equal(0);
+    });
+
+    it("Should reject invalid bounds and a missing deployer", async function () {
+      await expect(createScalar(UPPER, LOWER)).to.be.revertedWith("Invalid bounds");
+
+      await factory.setScalarDeployer(ethers.ZeroAddress);
+      await expect(createScalar()).to.be.revertedWith("Scalar markets disabled");
+    });
+
+    it("Should only deploy for the factory", async function () {
+      const deployer = await ethers.getContractAt("ScalarMarketDeployer", await factory.scalarDeployer());
+      await expect(
+        deployer.connect(creator).deploy(creator.address, QUESTION, DESCRIPTION, ...(await schedule()), LOWER, UPPER, { value: LIQUIDITY })
+      ).to.be.revertedWith("Only factory");
+    });
+
+    it("Should start with the estimate at the midpoint", async function () {
+      expect(await scalarMarket.getPrice(true)).to.be.closeTo(WAD / 2n, WAD / 1000000n);
+      expect(await scalarMarket.getEstimate()).to.be.closeTo(ethers.parseEther("3000"), ethers.parseEther("0.01"));
+    });
+
+    it("Should move the estimate with LONG and SHORT buys", async function () {
+      await scalarMarket.connect(trader1).buyLong({ value: ethers.parseEther("0.05") });
+      const afterLong = await scalarMarket.getEstimate();
+      expect(afterLong).to.be.gt(ethers.parseEther("3000"));
+
+      await scalarMarket.connect(trader2).buyShort({ value: ethers.parseEther("0.1") });
+      expect(await scalarMarket.getEstimate()).to.be.lt(afterLong);
+    });
+
+    it("Should sell LONG shares with slippage protection", async function () {
+      await scalarMarket.connect(trader1).buyShares(true, { value: ethers.parseEther("0.05") });
+      const shares = await scalarMarket.longShares(trader1.address);
+      const quote = await scalarMarket.quoteSell(true, shares);
+
+      await expect(
+        scalarMarket.connect(trader1).sellShares(true, shares, quote + 1n)
+      ).to.be.revertedWith("Slippage exceeded");
+
+      await expect(scalarMarket.connect(trader1).sellShares(true, shares, quote))
+        .to.emit(scalarMarket, "SharesSold")
+        .withArgs(trader1.address, true, shares, quote, await getBlockTimestamp() + 1);
+      expect(await scalarMarket.totalLongShares()).to.equal(0);
+    });
+
+    it("Should pay LONG and SHORT linearly on the resolved value", async function () {
+      await scalarMarket.connect(trader1).buyLong({ value: ethers.parseEther("0.05") });
+      await scalarMarket.connect(trader2).buyShort({ value: ethers.parseEther("0.05") });
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(scalarMarket.connect(creator).resolve(ethers.parseEther("4000")))
+        .to.emit(scalarMarket, "MarketResolved");
+      expect(await scalarMarket.longPayout()).to.equal((WAD * 3n) / 4n);
+
+      const longShares = await scalarMarket.longShares(trader1.address);
+      const shortShares = await scalarMarket.shortShares(trader2.address);
+      const longGross = (longShares * 3n) / 4n;
+      const shortGross = shortShares / 4n;
+      expect(await scalarMarket.getClaimableAmount(trader1.address)).to.equal(longGross - (longGross * 200n) / 10000n);
+      expect(await scalarMarket.getClaimableAmount(trader2.address)).to.equal(shortGross - (shortGross * 200n) / 10000n);
+
+      await scalarMarket.connect(trader1).claimWinnings();
+      await scalarMarket.connect(trader2).claimWinnings();
+      await scalarMarket.connect(creator).withdrawLiquidity();
+
+      // Only the platform fee (plus rounding dust) stays behind
+      const fees = (longGross * 200n) / 10000n + (shortGross * 200n) / 10000n;
+      expect(await ethers.provider.getBalance(await scalarMarket.getAddress())).to.be.closeTo(fees, 10n);
+    });
+
+    it("Should split fees between the platform and the creator", async function () {
+      await scalarMarket.connect(trader1).buyLong({ value: ethers.parseEther("0.05") });
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await scalarMarket.connect(creator).resolve(ethers.parseEther("4000"));
+
+      const longGross = ((await scalarMarket.longShares(trader1.address)) * 3n) / 4n;
+      await scalarMarket.connect(trader1).claimWinnings();
+
+      const fee = (longGross * 200n) / 10000n;
+      const creatorCut = (fee * 2500n) / 10000n;
+      expect(await scalarMarket.creatorFeesAccrued()).to.equal(creatorCut);
+
+      await expect(factory.collectMarketFees(await scalarMarket.getAddress()))
+        .to.emit(scalarMarket, "FeesWithdrawn");
+      await expect(scalarMarket.connect(creator).claimCreatorFees())
+        .to.emit(scalarMarket, "CreatorFeesClaimed")
+        .withArgs(creator.address, creatorCut, await getBlockTimestamp() + 1);
+      expect(await scalarMarket.platformFeesAccrued()).to.equal(0);
+    });
+
+    it("Should finalize the creator's value without a dispute period or attestations", async function () {
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await scalarMarket.connect(creator).resolve(ethers.parseEther("2000"));
+      expect(await scalarMarket.isResolved()).to.equal(true);
+      expect(scalarMarket.interface.getFunction("dispute")).to.equal(null);
+      expect(scalarMarket.interface.getFunction("resolveWithAttestation")).to.equal(null);
+      await expect(factory.resolveDispute(await scalarMarket.getAddress(), 0)).to.be.revertedWith("Scalar markets have no disputes");
+    });
+
+    it("Should resolve a value through the factory's emergency timelock", async function () {
+      const scalarAddress = await scalarMarket.getAddress();
+      await scalarMarket.connect(trader1).buyLong({ value: ethers.parseEther("0.05") });
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(factory.scheduleEmergencyResolution(scalarAddress, 0)).to.be.revertedWith("Use scheduleScalarResolution");
+      await expect(factory.scheduleScalarResolution(await market.getAddress(), 0)).to.be.revertedWith("Not a scalar market");
+      await expect(factory.connect(trader1).scheduleScalarResolution(scalarAddress, 0)).to.be.revertedWith("Missing role");
+
+      await expect(factory.scheduleScalarResolution(scalarAddress, ethers.parseEther("4000")))
+        .to.emit(factory, "EmergencyResolutionScheduled");
+      await expect(factory.executeEmergencyResolution(scalarAddress)).to.be.revertedWith("Timelock active");
+      await ethers.provider.send("evm_increaseTime", [Number(await factory.emergencyDelay())]);
+      await ethers.provider.send("evm_mine");
+
+      await expect(factory.executeEmergencyResolution(scalarAddress))
+        .to.emit(scalarMarket, "MarketResolved");
+      expect(await scalarMarket.resolvedValue()).to.equal(ethers.parseEther("4000"));
+      expect(await scalarMarket.longPayout()).to.equal((WAD * 3n) / 4n);
+      await expect(scalarMarket.connect(creator).emergencyResolve(0)).to.be.revertedWith("Only owner");
+    });
+
+    it("Should clamp values outside the bounds", async function () {
+      await scalarMarket.connect(trader2).buyShort({ value: ethers.parseEther("0.01") });
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+
+      await scalarMarket.connect(creator).resolve(ethers.parseEther("9000"));
+      expect(await scalarMarket.resolvedValue()).to.equal(ethers.parseEther("9000"));
+      expect(await scalarMarket.longPayout()).to.equal(WAD);
+      expect(await scalarMarket.getClaimableAmount(trader2.address)).to.equal(0);
+    });
+
+    it("Should not resolve before the market ends", async function () {
+      await expect(
+        scalarMarket.connect(creator).resolve(ethers.parseEther("4000"))
+      ).to.be.revertedWith("Market not ended");
+    });
+
+    it("Should void and refund a market nobody resolved by the deadline", async function () {
+      await scalarMarket.connect(trader1).buyLong({ value: ethers.parseEther("0.05") });
+      await scalarMarket.connect(trader2).buyShort({ value: ethers.parseEther("0.02") });
+      await expect(scalarMarket.voidExpired()).to.be.revertedWith("Deadline not reached");
+
+      await ethers.provider.send("evm_increaseTime", [DURATION_DAYS * 24 * 60 * 60 + RESOLUTION_WINDOW]);
+      await ethers.provider.send("evm_mine");
+      await expect(
+        scalarMarket.connect(creator).resolve(ethers.parseEther("4000"))
+      ).to.be.revertedWith("Deadline passed");
+
+      await expect(scalarMarket.voidExpired()).to.emit(scalarMarket, "MarketVoided");
+      expect(await scalarMarket.getClaimableAmount(trader2.address)).to.equal(ethers.parseEther("0.02"));
+
+      await expect(scalarMarket.connect(trader1).claimWinnings())
+        .to.emit(scalarMarket, "RefundClaimed")
+        .withArgs(trader1.address, ethers.parseEther("0.05"), await getBlockTimestamp() + 1);
+      await scalarMarket.connect(trader2).claimWinnings();
+      await scalarMarket.connect(creator).withdrawLiquidity();
+      expect(await ethers.provider.getBalance(await scalarMarket.getAddress())).to.equal(0);
+    });
+
+    it("Should batch-claim alongside other markets through the factory", async function () {
+      await scalarMarket.connect(trader1).buyLong({ value: ethers.parseEther("0.05") });
+      await market.connect(trader1).buyYes({ value: ethers.parseEther("0.05") });
+
+      await ethers.provider.send("evm_increaseTime", [8 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine");
+      await scalarMarket.connect(creator).resolve(ethers.parseEther("4000"));
+      await market.connect(creator).resolve(true);
+      await finalizeAfterDisputePeriod(market);
+
+      const total = (await scalarMarket.getClaimableAmount(trader1.address)) + (await market.getClaimableAmount(trader1.address));
+      await expect(
+        factory.connect(trader1).batchClaimWinnings([await scalarMarket.getAddress(), await market.getAddress()])
+      ).to.changeEtherBalance(trader1, total);
+      await expect(scalarMarket.connect(trader1).claimWinnings()).to.be.revertedWith("Already claimed");
+    });
+  });
+});
+
+const WAD = 10n ** 18n;
+const DISPUTE_PERIOD = 24 * 60 * 60;
+const LN2 = 693147180559945309n;
+
+// A market with the extension's functions in its ABI too, as the app sees it
+async function marketAt(address) {
+  const fragments = [
+    ...(await artifacts.readArtifact("PredictionMarket")).abi,
+    ...(await artifacts.readArtifact("PredictionMarketExtension")).abi,
+  ];
+  // Events and views from the shared base appear in both
+  const abi = [...new Map(fragments.map((f) => [JSON.stringify(f), f])).values()];
+  return ethers.getContractAt(abi, address);
+}
+
+// Helper function
+async function getBlockTimestamp() {
+  const block = await ethers.provider.getBlock("latest");
+  return block.timestamp;
+}
+
+// EIP-712 signature over a limit order for the given market
+async function signOrder(signer, market, order) {
+  const { chainId } = await ethers.provider.getNetwork();
+  return signer.signTypedData(
+    { name: "PredictionMarket", version: "1", chainId, verifyingContract: await market.getAddress() },
+    {
+      Order: [
+        { name: "maker", type: "address" },
+        { name: "outcome", type: "uint256" },
+        { name: "price", type: "uint256" },
+        { name: "shares", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "expiry", type: "uint256" },
+      ],
+    },
+    order
+  );
+}
+
+// EIP-712 signature over a forward request for the given TrustedForwarder
+async function signForwardRequest(signer, forwarder, request) {
+  const { chainId } = await ethers.provider.getNetwork();
+  return signer.signTypedData(
+    { name: "TrustedForwarder", version: "1", chainId, verifyingContract: await forwarder.getAddress() },
+    {
+      ForwardRequest: [
+        { name: "from", type: "address" },
+        { name: "to", type: "address" },
+        { name: "value", type: "uint256" },
+        { name: "gas", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+        { name: "data", type: "bytes" },
+      ],
+    },
+    request
+  );
+}
+
+// Schedule an emergency resolution through the factory and execute it after the timelock
+async function emergencyResolve(factory, market, outcome) {
+  await factory.scheduleEmergencyResolution(await market.getAddress(), outcome);
+  await ethers.provider.send("evm_increaseTime", [Number(await factory.emergencyDelay())]);
+  await ethers.provider.send("evm_mine");
+  await factory.executeEmergencyResolution(await market.getAddress());
+}
+
+// The logged trades from lateTradeHead back, newest first, as reverseLateTrades takes them
+async function lateTrades(market) {
+  const events = await market.queryFilter(market.filters.TradeLogged());
+  const byHead = new Map(events.map(event => [event.args.head, event.args.trade]));
+  const trades = [];
+  for (let head = await market.lateTradeHead(); byHead.has(head); head = byHead.get(head).previous) {
+    trades.push(byHead.get(head).toObject());
+  }
+  return trades;
+}
+
+// Let a proposed resolution pass its dispute period undisputed
+async function finalizeAfterDisputePeriod(market) {
+  await ethers.provider.send("evm_increaseTime", [DISPUTE_PERIOD]);
+  await ethers.provider.send("evm_mine");
+  await market.finalizeResolution();
 }